@@ -0,0 +1,69 @@
+/**
+ * Tests for batched capture session writes
+ */
+
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { SessionStore } from '@pixeltracer/core';
+import { createTrackingEvent } from '@pixeltracer/shared/testing';
+import type { TrackingEvent } from '@pixeltracer/shared';
+import {
+  initCaptureSessions,
+  recordSessionEvents,
+  updateSessionEvent,
+  getRecordingSessions,
+  getCaptureSession,
+  getSessionRetentionTime,
+  flushCaptureSessions
+} from './capture-sessions';
+
+function createEvent(id: string, parameters: Record<string, any> = {}, tabId = 7): TrackingEvent {
+  return createTrackingEvent({ id, timestamp: Date.now(), parameters, tabId });
+}
+
+describe('capture sessions', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('applies the stored retention setting and writes queued events in one batch', async () => {
+    (chrome.storage.sync.get as any).mockResolvedValue({ sessionRetentionTime: 7 * 24 * 60 * 60 * 1000 });
+    (chrome as any).tabs.get = vi.fn().mockResolvedValue({ url: 'https://shop.example.com/' });
+    const saveEvents = vi.spyOn(SessionStore.prototype, 'saveEvents');
+
+    await initCaptureSessions();
+    expect(getSessionRetentionTime()).toBe(7 * 24 * 60 * 60 * 1000);
+
+    // Only the flush timer is faked, IndexedDB keeps running on real tasks
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    recordSessionEvents(7, [createEvent('a')]);
+    recordSessionEvents(7, [createEvent('b')]);
+    updateSessionEvent(7, createEvent('a', { status: 204 }));
+
+    await vi.waitFor(() => expect(getRecordingSessions().has(7)).toBe(true));
+    expect(saveEvents).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1000);
+    await vi.waitFor(() => expect(saveEvents).toHaveBeenCalledTimes(1));
+    const [sessionId, events] = saveEvents.mock.calls[0];
+    expect(sessionId).toBe(getRecordingSessions().get(7));
+    expect(events.map(event => [event.id, event.parameters])).toEqual([['a', { status: 204 }], ['b', {}]]);
+
+    const saved = await getCaptureSession(sessionId);
+    expect(saved!.session).toMatchObject({ tabId: 7, startUrl: 'https://shop.example.com/', eventCount: 2 });
+  });
+
+  it('writes queued events right away when flushed', async () => {
+    (chrome as any).tabs.get = vi.fn().mockResolvedValue({ url: 'https://news.example.com/' });
+    const saveEvents = vi.spyOn(SessionStore.prototype, 'saveEvents');
+
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    recordSessionEvents(9, [createEvent('c', {}, 9)]);
+    await flushCaptureSessions();
+
+    expect(saveEvents).toHaveBeenCalledTimes(1);
+    expect(saveEvents.mock.calls[0][1].map(event => event.id)).toEqual(['c']);
+    expect((await getCaptureSession(getRecordingSessions().get(9)!))!.session.eventCount).toBe(1);
+  });
+});
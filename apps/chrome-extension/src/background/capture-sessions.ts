@@ -0,0 +1,211 @@
+/**
+ * Persistent capture sessions
+ *
+ * Every tracked tab records into a session stored in IndexedDB, so captured events
+ * survive service worker restarts and closed tabs. A session starts with the first
+ * event after tracking begins and ends when tracking stops, the tab's events are
+ * cleared or the tab is closed. Writes are batched to keep IndexedDB traffic low.
+ * Sessions still recording when the worker is terminated are resumed after a restart.
+ * Finished sessions are kept for the user's retention setting (synced with their profile).
+ */
+
+import { SessionStore } from '@pixeltracer/core';
+import { DEFAULT_RETENTION_TIME_MS } from '@pixeltracer/shared';
+import type { CaptureSession, TrackingEvent } from '@pixeltracer/shared';
+
+const FLUSH_DELAY = 1000;
+const RETENTION_STORAGE_KEY = 'sessionRetentionTime';
+
+const sessionStore = new SessionStore({ retentionTime: DEFAULT_RETENTION_TIME_MS });
+
+// Tab ID -> session being recorded (a promise so concurrent events share one session)
+const activeSessions: Map<number, Promise<CaptureSession | null>> = new Map();
+// Tab ID -> ID of the started session, for worker state checkpoints
+const recordingSessionIds: Map<number, string> = new Map();
+// Session ID -> events waiting to be written, keyed by event ID so updates replace earlier writes
+const pendingEvents: Map<string, Map<string, TrackingEvent>> = new Map();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Resume the sessions of restored tabs, close other sessions left open by a previous
+ * service worker and apply retention
+ */
+export async function initCaptureSessions(resume: Map<number, string> = new Map()): Promise<void> {
+  if (!SessionStore.isAvailable()) return;
+
+  try {
+    const stored = await chrome.storage.sync.get([RETENTION_STORAGE_KEY]);
+    if (typeof stored[RETENTION_STORAGE_KEY] === 'number') {
+      sessionStore.setRetentionTime(stored[RETENTION_STORAGE_KEY]);
+    }
+  } catch (error) {
+    console.warn('Failed to load session retention setting:', error);
+  }
+
+  try {
+    const resumed = await sessionStore.endOpenSessions(new Set(resume.values()));
+    for (const session of resumed) {
+      if (activeSessions.has(session.tabId)) {
+        await sessionStore.endSession(session.id, session.lastActivity);
+      } else {
+        activeSessions.set(session.tabId, Promise.resolve(session));
+        recordingSessionIds.set(session.tabId, session.id);
+      }
+    }
+    await sessionStore.purgeExpired();
+  } catch (error) {
+    console.warn('Failed to initialize capture sessions:', error);
+  }
+}
+
+/**
+ * Record new events of a tab, starting a session if none is active
+ */
+export function recordSessionEvents(tabId: number, events: TrackingEvent[]): void {
+  if (!SessionStore.isAvailable() || events.length === 0) return;
+
+  if (!activeSessions.has(tabId)) {
+    const started = startSession(tabId);
+    activeSessions.set(tabId, started);
+    started.then(session => {
+      if (session && activeSessions.get(tabId) === started) {
+        recordingSessionIds.set(tabId, session.id);
+      }
+    });
+  }
+  queueEvents(tabId, events);
+}
+
+/**
+ * Sessions currently recording, by tab
+ */
+export function getRecordingSessions(): Map<number, string> {
+  return new Map(recordingSessionIds);
+}
+
+/**
+ * Record a changed event (lifecycle data, reclassification) if its tab is recording
+ */
+export function updateSessionEvent(tabId: number, event: TrackingEvent): void {
+  if (activeSessions.has(tabId)) {
+    queueEvents(tabId, [event]);
+  }
+}
+
+/**
+ * Finish the tab's session; the next event starts a new one
+ */
+export async function endCaptureSession(tabId: number): Promise<void> {
+  const active = activeSessions.get(tabId);
+  if (!active) return;
+
+  activeSessions.delete(tabId);
+  recordingSessionIds.delete(tabId);
+  const session = await active;
+  if (!session) return;
+
+  try {
+    await flushPendingEvents();
+    await sessionStore.endSession(session.id);
+  } catch (error) {
+    console.warn('Failed to end capture session:', error);
+  }
+}
+
+/**
+ * How long finished sessions are kept after their last activity (ms)
+ */
+export function getSessionRetentionTime(): number {
+  return sessionStore.getRetentionTime();
+}
+
+/**
+ * Store the retention setting and drop sessions that are now expired
+ */
+export async function setSessionRetentionTime(retentionTime: number): Promise<void> {
+  sessionStore.setRetentionTime(retentionTime);
+  await chrome.storage.sync.set({ [RETENTION_STORAGE_KEY]: sessionStore.getRetentionTime() });
+  await sessionStore.purgeExpired();
+}
+
+/**
+ * Write queued events now, e.g. before the worker is suspended
+ */
+export async function flushCaptureSessions(): Promise<void> {
+  // Events queued while their session was starting are pending once it has started
+  await Promise.all(activeSessions.values());
+  await flushPendingEvents();
+}
+
+export async function listCaptureSessions(): Promise<CaptureSession[]> {
+  await flushPendingEvents();
+  return sessionStore.listSessions();
+}
+
+export async function getCaptureSession(sessionId: string): Promise<{ session: CaptureSession; events: TrackingEvent[] } | null> {
+  await flushPendingEvents();
+  return sessionStore.getSession(sessionId);
+}
+
+export async function renameCaptureSession(sessionId: string, name: string): Promise<void> {
+  await sessionStore.renameSession(sessionId, name.trim());
+}
+
+/**
+ * Delete a session; deleting the session a tab is recording into starts a new one on the next event
+ */
+export async function deleteCaptureSession(sessionId: string): Promise<void> {
+  for (const [tabId, active] of activeSessions.entries()) {
+    if ((await active)?.id === sessionId) {
+      activeSessions.delete(tabId);
+      recordingSessionIds.delete(tabId);
+    }
+  }
+  pendingEvents.delete(sessionId);
+  await sessionStore.deleteSession(sessionId);
+}
+
+async function startSession(tabId: number): Promise<CaptureSession | null> {
+  try {
+    const tab = await chrome.tabs.get(tabId).catch(() => undefined);
+    const session = await sessionStore.createSession({ tabId, startUrl: tab?.url || '' });
+
+    // New sessions are a good moment to drop expired ones
+    sessionStore.purgeExpired().catch(() => {});
+    return session;
+  } catch (error) {
+    console.warn('Failed to start capture session:', error);
+    return null;
+  }
+}
+
+function queueEvents(tabId: number, events: TrackingEvent[]): void {
+  activeSessions.get(tabId)!.then(session => {
+    if (!session) return;
+
+    if (!pendingEvents.has(session.id)) {
+      pendingEvents.set(session.id, new Map());
+    }
+    const pending = pendingEvents.get(session.id)!;
+    events.forEach(event => pending.set(event.id, event));
+
+    if (!flushTimer) {
+      flushTimer = setTimeout(() => {
+        flushPendingEvents().catch(error => console.warn('Failed to save capture session events:', error));
+      }, FLUSH_DELAY);
+    }
+  });
+}
+
+async function flushPendingEvents(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+
+  const batches = Array.from(pendingEvents.entries());
+  pendingEvents.clear();
+  for (const [sessionId, events] of batches) {
+    await sessionStore.saveEvents(sessionId, Array.from(events.values()));
+  }
+}
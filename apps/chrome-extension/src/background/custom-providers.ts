@@ -0,0 +1,90 @@
+/**
+ * User-defined providers
+ *
+ * Declarative provider definitions created in the sidepanel Providers screen.
+ * They are persisted in chrome.storage.local and registered into the provider
+ * registry next to the built-in providers.
+ */
+
+import { providerRegistry, DeclarativeProvider, validateProviderDefinition } from '@pixeltracer/providers';
+import type { CustomProviderRecord } from '@pixeltracer/providers';
+
+const STORAGE_KEY = 'customProviders';
+
+// Ids currently registered from custom definitions, so they can be swapped out on change
+const registeredIds = new Set<string>();
+
+/**
+ * Load stored custom provider records
+ */
+export async function loadCustomProviders(): Promise<CustomProviderRecord[]> {
+  try {
+    const result = await chrome.storage.local.get(STORAGE_KEY);
+    return Array.isArray(result[STORAGE_KEY]) ? result[STORAGE_KEY] : [];
+  } catch (error) {
+    console.warn('Failed to load custom providers:', error);
+    return [];
+  }
+}
+
+/**
+ * Register enabled custom providers, replacing any previously registered ones
+ * Invalid definitions are skipped so one broken record does not block the others
+ */
+export async function registerCustomProviders(records: CustomProviderRecord[]): Promise<void> {
+  for (const id of registeredIds) {
+    providerRegistry.unregister(id);
+  }
+  registeredIds.clear();
+
+  for (const record of records) {
+    if (!record.enabled) continue;
+
+    try {
+      await providerRegistry.registerDefinition(record.definition);
+      registeredIds.add(record.definition.id);
+    } catch (error) {
+      console.warn(`Skipping custom provider ${record.definition?.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Create or update a custom provider, then re-register all of them
+ * previousId is set when an existing definition was renamed
+ */
+export async function saveCustomProvider(record: CustomProviderRecord, previousId?: string): Promise<CustomProviderRecord[]> {
+  const errors = validateProviderDefinition(record.definition);
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+
+  const id = record.definition.id;
+  const existing = providerRegistry.getProvider(id);
+  if (existing && !(existing instanceof DeclarativeProvider)) {
+    throw new Error(`"${id}" is already used by a built-in provider`);
+  }
+
+  const records = await loadCustomProviders();
+  if (records.some(stored => stored.definition.id === id && id !== previousId)) {
+    throw new Error(`A custom provider with id "${id}" already exists`);
+  }
+
+  const updated = records.filter(stored => stored.definition.id !== (previousId ?? id));
+  updated.push({ ...record, updatedAt: Date.now() });
+
+  await chrome.storage.local.set({ [STORAGE_KEY]: updated });
+  await registerCustomProviders(updated);
+  return updated;
+}
+
+/**
+ * Delete a custom provider
+ */
+export async function deleteCustomProvider(id: string): Promise<CustomProviderRecord[]> {
+  const updated = (await loadCustomProviders()).filter(record => record.definition.id !== id);
+
+  await chrome.storage.local.set({ [STORAGE_KEY]: updated });
+  await registerCustomProviders(updated);
+  return updated;
+}
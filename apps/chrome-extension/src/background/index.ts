@@ -10,10 +10,42 @@
  */
 
 import { CoreEngine, AdvancedFilters, PerformanceMonitor } from '@pixeltracer/core'
-import { initializeDefaultProviders, analyzeRequest } from '@pixeltracer/providers'
+import { initializeDefaultProviders, analyzeRequest, createTrackingEvents, importHar } from '@pixeltracer/providers'
 // import { OmnibugProviderRegistry } from '@pixeltracer/providers' // Temporarily disabled due to build issues
-import type { RequestData } from '@pixeltracer/shared'
-import { TrackingEvent } from '@pixeltracer/shared'
+import type { RequestData, DecodedRequestBody, RequestTimings, DeliveryFailure, RedirectHop } from '@pixeltracer/shared'
+import { TrackingEvent, decodeRequestBody, bytesToBase64, formDataToBody, parseBodyParams, parseRequestUrl, parseHeaders, classifyNetworkError, applyProviderCandidate, extractDomain } from '@pixeltracer/shared'
+import { loadCustomProviders, registerCustomProviders, saveCustomProvider, deleteCustomProvider } from './custom-providers'
+import { loadProviderOverrides, getProviderOverride, setProviderOverride } from './provider-overrides'
+import {
+  loadRequestFilterSettings,
+  saveRequestFilterSettings,
+  passesRequestFilter,
+  getRequestFilterSettings,
+  getRequestFilterStats,
+  resetRequestFilterStats
+} from './request-filter'
+import {
+  initCaptureSessions,
+  recordSessionEvents,
+  updateSessionEvent,
+  endCaptureSession,
+  listCaptureSessions,
+  getCaptureSession,
+  renameCaptureSession,
+  deleteCaptureSession,
+  getRecordingSessions,
+  flushCaptureSessions,
+  getSessionRetentionTime,
+  setSessionRetentionTime
+} from './capture-sessions'
+import {
+  restoreWorkerState,
+  getWorkerRestart,
+  scheduleCheckpoint,
+  flushCheckpoint,
+  recordActivity,
+  recordMissedRequest
+} from './worker-state'
 
 // Tab-based event storage (similar to Omnibug's tabs object)
 const tabEvents: Map<number, TrackingEvent[]> = new Map();
@@ -21,6 +53,84 @@ const trackingState: Map<number, boolean> = new Map(); // Per-tab tracking state
 const processedRequests: Map<string, number> = new Map(); // Request deduplication
 const sidePanelOpenForTab: Map<number, boolean> = new Map(); // Track which tabs have side panel open
 
+// Rehydrate the maps above from the previous worker's checkpoint (MV3 terminates idle workers).
+// Requests and messages wait for this so they see the restored tracking state.
+// Resolves to the capture sessions the restored tabs were recording into
+const workerStateReady: Promise<Map<number, string>> = restoreWorkerState().then(async state => {
+  if (!state) return new Map();
+  
+  state.trackingState.forEach((tracked, tabId) => trackingState.set(tabId, tracked));
+  state.sidePanelOpenForTab.forEach((open, tabId) => sidePanelOpenForTab.set(tabId, open));
+  await restoreTabEvents(state.recordingSessions);
+  
+  // An idle restart loses nothing, only a capture gap is worth reporting
+  const restart = getWorkerRestart();
+  if (restart?.captureGap) {
+    chrome.runtime.sendMessage({ type: 'WORKER_RESTARTED', restart }).catch(() => {
+      // Sidepanel not open, ignore
+    });
+  }
+  return state.recordingSessions;
+});
+
+/**
+ * Reload the event lists of restored tabs from the capture sessions they were recording into
+ */
+async function restoreTabEvents(recordingSessions: Map<number, string>): Promise<void> {
+  for (const [tabId, sessionId] of recordingSessions) {
+    try {
+      const saved = await getCaptureSession(sessionId);
+      if (!saved) continue;
+      
+      // Events that arrived while restoring are newer than the stored ones
+      const current = tabEvents.get(tabId) || [];
+      const currentIds = new Set(current.map(event => event.id));
+      tabEvents.set(tabId, [...current, ...saved.events.filter(event => !currentIds.has(event.id))].slice(0, 1000));
+    } catch (error) {
+      console.warn('Failed to restore tab events:', error);
+    }
+  }
+}
+
+/**
+ * Checkpoint tracking state, open side panels and recording sessions after a change
+ */
+function checkpointState(): void {
+  scheduleCheckpoint(() => ({
+    trackingState,
+    sidePanelOpenForTab,
+    recordingSessions: getRecordingSessions()
+  }));
+}
+
+// Request lifecycle data (headers, status, timings) keyed by Chrome's webRequest requestId.
+// Lifecycle events can arrive before provider analysis has created the tracking events,
+// so the data is collected here and merged into the events whenever either side is ready.
+// Redirects keep the requestId, so every hop of a redirect chain shares one lifecycle.
+interface RequestLifecycle {
+  tabId: number;
+  eventIds: string[];
+  analyzed: boolean;
+  completed: boolean;
+  redirectChain: RedirectHop[];
+  analysis?: Promise<void>; // Serializes hop analysis so hops are grouped under the first matching event
+  requestHeaders?: Record<string, string>;
+  responseHeaders?: Record<string, string>;
+  statusCode?: number;
+  timings: RequestTimings;
+  fromCache?: boolean;
+  serverIp?: string;
+  networkError?: string;
+  deliveryFailure?: DeliveryFailure;
+}
+const requestLifecycles: Map<string, RequestLifecycle> = new Map();
+const LIFECYCLE_TTL = 60000; // Drop lifecycle data for requests that never complete
+
+// Recent requests of tracked tabs (matched or not), used to preview custom provider definitions
+const recentRequests: Map<number, RequestData[]> = new Map();
+const RECENT_REQUEST_LIMIT = 200;
+const RECENT_REQUEST_BODY_LIMIT = 10000;
+
 // Persistence setting
 let persistEventsAcrossPages = true; // Default to true
 
@@ -39,21 +149,9 @@ let providersInitialized = false;
 let isInitializing = false;
 let networkInterceptionSetup = false;
 
-// Keep service worker alive
-function keepAlive() {
-  // Chrome kills service workers after 30s of inactivity
-  // This sends a message to keep it alive
-  setInterval(() => {
-    chrome.runtime.getPlatformInfo(() => {
-      // Just accessing the API keeps the worker alive
-    });
-  }, 20000); // Every 20 seconds
-}
-
 // Initialize on extension startup
 chrome.runtime.onStartup.addListener(async () => {
   await initializeEngine();
-  keepAlive();
 });
 
 // Initialize on extension install
@@ -66,7 +164,6 @@ chrome.runtime.onInstalled.addListener(async () => {
   }
   
   await initializeEngine();
-  keepAlive();
 });
 
 async function initializeEngine(): Promise<void> {
@@ -81,8 +178,12 @@ async function initializeEngine(): Promise<void> {
     // Initialize core engine
     engine = new CoreEngine();
     
-    // Initialize providers
+    // Initialize providers, then the user's custom definitions
     await initializeDefaultProviders();
+    await registerCustomProviders(await loadCustomProviders());
+    await loadProviderOverrides();
+    await loadRequestFilterSettings();
+    await initCaptureSessions(await workerStateReady);
     
     providersInitialized = true;
     
@@ -130,7 +231,7 @@ function setupNetworkInterception(): void {
   }
   
   // Remove any existing listeners first (cleanup)
-  chrome.webRequest.onBeforeRequest.removeListener(handleRequest);
+  removeNetworkListeners();
   
   // Listen for network requests (similar to Omnibug's approach)
   chrome.webRequest.onBeforeRequest.addListener(
@@ -139,21 +240,216 @@ function setupNetworkInterception(): void {
     ['requestBody']
   );
   
+  // Follow the request lifecycle to capture headers, status codes and timings.
+  // extraHeaders exposes Cookie / Set-Cookie
+  chrome.webRequest.onSendHeaders.addListener(
+    handleSendHeaders,
+    { urls: ['<all_urls>'] },
+    ['requestHeaders', 'extraHeaders']
+  );
+  chrome.webRequest.onHeadersReceived.addListener(
+    handleHeadersReceived,
+    { urls: ['<all_urls>'] },
+    ['responseHeaders', 'extraHeaders']
+  );
+  chrome.webRequest.onBeforeRedirect.addListener(
+    handleBeforeRedirect,
+    { urls: ['<all_urls>'] }
+  );
+  chrome.webRequest.onCompleted.addListener(
+    handleRequestCompleted,
+    { urls: ['<all_urls>'] }
+  );
+  chrome.webRequest.onErrorOccurred.addListener(
+    handleRequestError,
+    { urls: ['<all_urls>'] }
+  );
+  
   networkInterceptionSetup = true;
   
   // Start health monitoring
   startHealthMonitoring();
 }
 
+function removeNetworkListeners(): void {
+  chrome.webRequest.onBeforeRequest.removeListener(handleRequest);
+  chrome.webRequest.onSendHeaders.removeListener(handleSendHeaders);
+  chrome.webRequest.onHeadersReceived.removeListener(handleHeadersReceived);
+  chrome.webRequest.onBeforeRedirect.removeListener(handleBeforeRedirect);
+  chrome.webRequest.onCompleted.removeListener(handleRequestCompleted);
+  chrome.webRequest.onErrorOccurred.removeListener(handleRequestError);
+}
+
 function handleRequest(details: chrome.webRequest.WebRequestBodyDetails): void {
   // Update health metrics
   lastRequestTime = Date.now();
   requestCounter++;
+  recordActivity();
   
   // Handle async analysis in a non-blocking way
   handleRequestAsync(details);
 }
 
+function handleSendHeaders(details: chrome.webRequest.WebRequestHeadersDetails): void {
+  updateRequestLifecycle(details.requestId, lifecycle => {
+    lifecycle.requestHeaders = parseHeaders(details.requestHeaders);
+    lifecycle.timings.requestSentTime = details.timeStamp;
+  });
+}
+
+function handleHeadersReceived(details: chrome.webRequest.WebResponseHeadersDetails): void {
+  updateRequestLifecycle(details.requestId, lifecycle => {
+    lifecycle.responseHeaders = parseHeaders(details.responseHeaders);
+    lifecycle.statusCode = details.statusCode;
+    lifecycle.timings.responseStartTime = details.timeStamp;
+  });
+}
+
+function handleBeforeRedirect(details: chrome.webRequest.WebRedirectionResponseDetails): void {
+  updateRequestLifecycle(details.requestId, lifecycle => {
+    const hop = lifecycle.redirectChain[lifecycle.redirectChain.length - 1];
+    hop.statusCode = details.statusCode;
+    hop.serverIp = details.ip;
+    lifecycle.redirectChain.push({ url: details.redirectUrl, timestamp: details.timeStamp });
+  });
+}
+
+function handleRequestCompleted(details: chrome.webRequest.WebResponseCacheDetails): void {
+  updateRequestLifecycle(details.requestId, lifecycle => {
+    lifecycle.statusCode = details.statusCode;
+    lifecycle.fromCache = details.fromCache;
+    lifecycle.serverIp = details.ip;
+    lifecycle.timings.endTime = details.timeStamp;
+    lifecycle.timings.duration = Math.round(details.timeStamp - lifecycle.timings.startTime);
+    lifecycle.completed = true;
+  });
+}
+
+function handleRequestError(details: chrome.webRequest.WebResponseErrorDetails): void {
+  updateRequestLifecycle(details.requestId, lifecycle => {
+    lifecycle.networkError = details.error;
+    lifecycle.deliveryFailure = classifyNetworkError(details.error);
+    lifecycle.fromCache = details.fromCache;
+    lifecycle.serverIp = details.ip;
+    lifecycle.timings.endTime = details.timeStamp;
+    lifecycle.timings.duration = Math.round(details.timeStamp - lifecycle.timings.startTime);
+    lifecycle.completed = true;
+  });
+}
+
+/**
+ * Start following a tracked request's lifecycle
+ */
+function trackRequestLifecycle(details: chrome.webRequest.WebRequestBodyDetails): RequestLifecycle {
+  const now = Date.now();
+  for (const [key, lifecycle] of requestLifecycles.entries()) {
+    if (now - lifecycle.timings.startTime > LIFECYCLE_TTL) {
+      requestLifecycles.delete(key);
+    }
+  }
+  
+  const lifecycle: RequestLifecycle = {
+    tabId: details.tabId,
+    eventIds: [],
+    analyzed: false,
+    completed: false,
+    redirectChain: [{ url: details.url, timestamp: details.timeStamp }],
+    timings: { startTime: details.timeStamp }
+  };
+  requestLifecycles.set(details.requestId, lifecycle);
+  return lifecycle;
+}
+
+/**
+ * Apply a lifecycle update and push it to the request's tracking events, if they exist yet
+ */
+function updateRequestLifecycle(requestId: string, update: (lifecycle: RequestLifecycle) => void): void {
+  const lifecycle = requestLifecycles.get(requestId);
+  if (!lifecycle) return;
+  
+  update(lifecycle);
+  publishLifecycle(lifecycle);
+  
+  if (lifecycle.completed && lifecycle.analyzed) {
+    requestLifecycles.delete(requestId);
+  }
+}
+
+/**
+ * Push lifecycle data to the request's stored tracking events and notify the sidepanel
+ */
+function publishLifecycle(lifecycle: RequestLifecycle): void {
+  if (lifecycle.eventIds.length === 0) return;
+  
+  const events = tabEvents.get(lifecycle.tabId) || [];
+  for (const event of events) {
+    if (lifecycle.eventIds.includes(event.id)) {
+      applyLifecycle(event, lifecycle);
+      updateSessionEvent(lifecycle.tabId, event);
+      checkpointState();
+      
+      chrome.runtime.sendMessage({
+        type: 'TRACKING_EVENT_UPDATED',
+        event,
+        tabId: lifecycle.tabId
+      }).catch(() => {
+        // Sidepanel not open, ignore
+      });
+    }
+  }
+}
+
+/**
+ * Re-apply the provider override of a domain to stored events from that domain
+ * Events fall back to their highest confidence candidate when the override is removed
+ */
+function reclassifyDomainEvents(domain: string): void {
+  const overrideId = getProviderOverride(domain);
+  
+  for (const [tabId, events] of tabEvents) {
+    events.forEach((event, index) => {
+      if (!event.candidates || extractDomain(event.url) !== domain.toLowerCase()) return;
+      
+      const overrideCandidate = event.candidates.find(candidate => candidate.provider === overrideId);
+      const candidate = overrideCandidate || event.candidates[0];
+      if (candidate.provider === event.provider && Boolean(overrideCandidate) === Boolean(event.providerOverride)) return;
+      
+      const updated: TrackingEvent = {
+        ...applyProviderCandidate(event, candidate),
+        providerOverride: overrideCandidate ? true : undefined
+      };
+      events[index] = updated;
+      updateSessionEvent(tabId, updated);
+      checkpointState();
+      
+      chrome.runtime.sendMessage({
+        type: 'TRACKING_EVENT_UPDATED',
+        event: updated,
+        tabId
+      }).catch(() => {
+        // Sidepanel not open, ignore
+      });
+    });
+  }
+}
+
+/**
+ * Copy lifecycle data onto a tracking event (in place)
+ */
+function applyLifecycle(event: TrackingEvent, lifecycle: RequestLifecycle): void {
+  event.requestHeaders = lifecycle.requestHeaders;
+  event.responseHeaders = lifecycle.responseHeaders;
+  event.statusCode = lifecycle.statusCode;
+  event.timings = { ...lifecycle.timings };
+  event.fromCache = lifecycle.fromCache;
+  event.serverIp = lifecycle.serverIp;
+  event.networkError = lifecycle.networkError;
+  event.deliveryFailure = lifecycle.deliveryFailure;
+  event.redirectChain = lifecycle.redirectChain.length > 1
+    ? lifecycle.redirectChain.map(hop => ({ ...hop }))
+    : undefined;
+}
+
 function startHealthMonitoring(): void {
   // Clear any existing interval
   if (healthCheckInterval) {
@@ -178,7 +474,7 @@ function startHealthMonitoring(): void {
 function attemptRecovery(): void {
   // Reset the network interception
   networkInterceptionSetup = false;
-  chrome.webRequest.onBeforeRequest.removeListener(handleRequest);
+  removeNetworkListeners();
   
   // Wait a moment then re-setup
   setTimeout(() => {
@@ -204,18 +500,16 @@ async function handleRequestAsync(details: chrome.webRequest.WebRequestBodyDetai
     return;
   }
   
+  await workerStateReady;
   const isTracked = trackingState.get(tabId);
   if (!isTracked) {
     // Tab not being tracked, but don't log to reduce noise
     return;
   }
   
-  if (!providersInitialized) {
-    return;
-  }
-  
-  // Deduplication: Check if we've already processed this exact request
-  const requestKey = `${tabId}-${details.url}-${details.method}-${details.timeStamp}`;
+  // Deduplication: Check if we've already processed this exact request.
+  // Redirect hops re-enter onBeforeRequest with the same requestId and a new URL
+  const requestKey = `${tabId}-${details.requestId}-${details.url}`;
   if (processedRequests.has(requestKey)) {
     // Already processed, skip
     return;
@@ -232,22 +526,68 @@ async function handleRequestAsync(details: chrome.webRequest.WebRequestBodyDetai
     }
   }
   
+  // A redirect hop is analysed after the previous hop so that all hops
+  // end up grouped under the first event that matched a provider
+  const existingLifecycle = requestLifecycles.get(details.requestId);
+  if (existingLifecycle) {
+    existingLifecycle.analysis = (existingLifecycle.analysis || Promise.resolve())
+      .then(() => analyzeInterceptedRequest(details, existingLifecycle));
+    return existingLifecycle.analysis;
+  }
+  
+  // Collect headers / status / timings / redirects while the request is being analyzed
+  const lifecycle = trackRequestLifecycle(details);
+  lifecycle.analysis = analyzeInterceptedRequest(details, lifecycle);
+  return lifecycle.analysis;
+}
+
+/**
+ * Run provider analysis on one hop of an intercepted request and store the resulting events
+ */
+async function analyzeInterceptedRequest(
+  details: chrome.webRequest.WebRequestBodyDetails,
+  lifecycle: RequestLifecycle
+): Promise<void> {
+  const tabId = details.tabId;
+  
+  // A worker woken by this request analyses it once the providers are set up;
+  // the lifecycle is already being followed, so headers and status are not lost meanwhile
+  await engineReady;
+  if (!providersInitialized) {
+    // Initialization failed, this request of a tracked tab is missed
+    const restart = recordMissedRequest(tabId);
+    if (restart) {
+      chrome.runtime.sendMessage({ type: 'WORKER_RESTARTED', restart }).catch(() => {
+        // Sidepanel not open, ignore
+      });
+    }
+    return;
+  }
+  
   // Processing engine not available in service workers, we'll use direct analysis
   
   const url = details.url;
   const method = details.method;
   const startTime = performance.now();
+  lifecycle.analyzed = false;
   
   
   try {
+    // Decode the body first: sendBeacon / fetch bodies may arrive gzip or deflate compressed,
+    // form posts arrive as formData instead of raw bytes
+    const decodedBody = await extractRequestBody(details.requestBody);
+    
     // Convert Chrome webRequest to RequestData format
     const requestData: RequestData = {
       url,
       method,
       headers: {} as Record<string, string>, // Headers not available in onBeforeRequest
-      body: details.requestBody?.raw ? extractRequestBody(details.requestBody.raw) : '',
+      body: decodedBody.body,
+      rawBody: decodedBody.rawBody,
+      bodyEncodings: decodedBody.encodings.length > 0 ? decodedBody.encodings : undefined,
+      bodyParams: parseBodyParams(decodedBody.body),
       query: extractQueryParams(url),
-      parsedUrl: parseUrl(url),
+      parsedUrl: parseRequestUrl(url),
       timestamp: Date.now()
     };
     
@@ -256,53 +596,79 @@ async function handleRequestAsync(details: chrome.webRequest.WebRequestBodyDetai
       performanceMonitor.recordRequest();
     }
     
-    let trackingEvent: TrackingEvent | null = null;
+    // Requests excluded by the user's pre-filter are not analyzed
+    if (!passesRequestFilter(requestData)) {
+      lifecycle.analyzed = true;
+      if (lifecycle.completed) {
+        requestLifecycles.delete(details.requestId);
+      }
+      return;
+    }
+    
+    rememberRequest(tabId, requestData);
+    
+    const trackingEvents: TrackingEvent[] = [];
     
     {
       const analysisResult = await analyzeRequest(requestData);
       
-      if (analysisResult.matches.length > 0) {
-        // Use the highest confidence match
-        const bestMatch = analysisResult.matches[0];
+      // Use the highest confidence match, unless the user pinned another matching provider for this domain
+      const matchEvents = createTrackingEvents(analysisResult.matches, requestData, {
+        overrideId: getProviderOverride(requestData.parsedUrl.hostname),
+        tabId
+      });
+      
+      if (matchEvents.length > 0) {
+        // Remember which provider recognised this hop of the redirect chain
+        const hop = [...lifecycle.redirectChain].reverse().find(entry => entry.url === url);
+        if (hop) {
+          hop.provider = matchEvents[0].provider;
+        }
         
-        trackingEvent = {
-          id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          timestamp: Date.now(),
-          provider: bestMatch.providerId,
-          providerName: bestMatch.providerName,
-          url,
-          method,
-          eventType: bestMatch.event.eventType,
-          accountId: bestMatch.event.accountId,
-          parameters: bestMatch.event.parameters,
-          confidence: bestMatch.confidence,
-          tabId
-        };
+        // Later hops of an already matched request only annotate the chain
+        if (lifecycle.eventIds.length === 0) {
+          trackingEvents.push(...matchEvents);
+        }
       }
     }
     
-    if (trackingEvent) {
+    // Link the lifecycle to the new events, merging anything that arrived during analysis.
+    // Unmatched requests keep their lifecycle until completion so a later redirect hop can still match
+    lifecycle.analyzed = true;
+    if (trackingEvents.length > 0) {
+      lifecycle.eventIds = trackingEvents.map(event => event.id);
+      trackingEvents.forEach(event => applyLifecycle(event, lifecycle));
+    } else {
+      publishLifecycle(lifecycle);
+    }
+    if (lifecycle.completed) {
+      requestLifecycles.delete(details.requestId);
+    }
+    
+    if (trackingEvents.length > 0) {
       
-      // Store event for tab
+      // Store events for tab; a batch goes on top as one block so it keeps its request order
       if (!tabEvents.has(tabId)) {
         tabEvents.set(tabId, []);
       }
-      tabEvents.get(tabId)!.unshift(trackingEvent);
-      
-      // Keep only last 1000 events per tab
-      if (tabEvents.get(tabId)!.length > 1000) {
-        tabEvents.get(tabId)!.splice(1000);
-      }
+      tabEvents.get(tabId)!.unshift(...trackingEvents);
       
       // Send to sidepanel if open (with tab information for filtering)
       chrome.runtime.sendMessage({
-        type: 'NEW_TRACKING_EVENT',
-        event: trackingEvent,
+        type: 'NEW_TRACKING_EVENTS',
+        events: trackingEvents,
         tabId: tabId // Include tab ID for filtering
       }).catch(() => {
         // Sidepanel not open, ignore
       });
       
+      // Keep only last 1000 events per tab
+      if (tabEvents.get(tabId)!.length > 1000) {
+        tabEvents.get(tabId)!.splice(1000);
+      }
+      
+      recordSessionEvents(tabId, trackingEvents);
+      checkpointState();
     }
     
     // Record processing time for performance monitoring
@@ -312,19 +678,42 @@ async function handleRequestAsync(details: chrome.webRequest.WebRequestBodyDetai
     }
     
   } catch (error) {
+    requestLifecycles.delete(details.requestId);
     if (performanceMonitor) {
       performanceMonitor.recordError();
     }
   }
 }
 
+/**
+ * Keep a bounded history of the tab's requests for the custom provider preview
+ */
+function rememberRequest(tabId: number, requestData: RequestData): void {
+  if (!recentRequests.has(tabId)) {
+    recentRequests.set(tabId, []);
+  }
+  
+  const requests = recentRequests.get(tabId)!;
+  requests.unshift(
+    requestData.body && requestData.body.length > RECENT_REQUEST_BODY_LIMIT
+      ? { ...requestData, body: undefined, rawBody: undefined, bodyParams: undefined }
+      : requestData
+  );
+  if (requests.length > RECENT_REQUEST_LIMIT) {
+    requests.splice(RECENT_REQUEST_LIMIT);
+  }
+}
+
 // Note: Chrome doesn't provide an API to programmatically close the side panel
 // The panel stays open but shows a warning when viewing from a different tab
 
 chrome.tabs.onRemoved.addListener((tabId) => {
+  endCaptureSession(tabId);
   tabEvents.delete(tabId);
+  recentRequests.delete(tabId);
   trackingState.delete(tabId);
   sidePanelOpenForTab.delete(tabId); // Clean up side panel state
+  checkpointState();
   
   const keysToDelete: string[] = [];
   for (const key of processedRequests.keys()) {
@@ -334,6 +723,11 @@ chrome.tabs.onRemoved.addListener((tabId) => {
   }
   keysToDelete.forEach(key => processedRequests.delete(key));
   
+  for (const [requestId, lifecycle] of requestLifecycles.entries()) {
+    if (lifecycle.tabId === tabId) {
+      requestLifecycles.delete(requestId);
+    }
+  }
 });
 
 // Re-register listeners when tab becomes active (helps with stalled tracking)
@@ -380,6 +774,8 @@ chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
         
         // Insert navigation event at the beginning (most recent)
         tabEvents.set(tabId, [navigationEvent, ...existingEvents]);
+        recordSessionEvents(tabId, [navigationEvent]);
+        checkpointState();
         
         // Notify UI about the navigation event
         if (sidePanelOpenForTab.has(tabId)) {
@@ -391,10 +787,12 @@ chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
         }
       }
     } else {
-      // Clear events if persistence is disabled
+      // Clear events if persistence is disabled; each page gets its own session
       const existingEvents = tabEvents.get(tabId);
       if (existingEvents && existingEvents.length > 0) {
         tabEvents.set(tabId, []);
+        endCaptureSession(tabId);
+        checkpointState();
       }
     }
     
@@ -409,14 +807,20 @@ chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
   }
 });
 
-// Handle messages from sidepanel and popup
+// Handle messages from sidepanel and popup, answering from the restored state after a worker restart
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
-  
+  recordActivity();
+  workerStateReady.then(() => handleMessage(message, sender, sendResponse));
+  return true; // Keep message channel open for async responses
+});
+
+function handleMessage(message: any, sender: chrome.runtime.MessageSender, sendResponse: (response?: any) => void): void {
   switch (message.type) {
     case 'START_TRACKING':
       if (message.tabId) {
         trackingState.set(message.tabId, true);
         sidePanelOpenForTab.set(message.tabId, true); // Mark side panel as open for this tab
+        checkpointState();
       }
       sendResponse({ success: true });
       break;
@@ -424,6 +828,7 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     case 'SIDEPANEL_OPENED':
       if (message.tabId) {
         sidePanelOpenForTab.set(message.tabId, true);
+        checkpointState();
       }
       sendResponse({ success: true });
       break;
@@ -431,6 +836,7 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     case 'SIDEPANEL_CLOSED':
       if (message.tabId) {
         sidePanelOpenForTab.delete(message.tabId);
+        checkpointState();
       }
       sendResponse({ success: true });
       break;
@@ -438,6 +844,8 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     case 'STOP_TRACKING':
       if (message.tabId) {
         trackingState.set(message.tabId, false);
+        endCaptureSession(message.tabId);
+        checkpointState();
       }
       sendResponse({ success: true });
       break;
@@ -458,6 +866,9 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       const clearTabId = message.tabId || sender.tab?.id;
       if (clearTabId) {
         tabEvents.delete(clearTabId);
+        recentRequests.delete(clearTabId);
+        endCaptureSession(clearTabId);
+        checkpointState();
       }
       sendResponse({ success: true });
       break;
@@ -511,6 +922,10 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       sendResponse({ success: true });
       break;
       
+    case 'GET_WORKER_STATUS':
+      sendResponse({ success: true, restart: getWorkerRestart() });
+      break;
+      
     case 'GET_HEALTH_STATUS':
       // Provide health status to UI
       const now = Date.now();
@@ -558,9 +973,15 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     case 'EXPORT_DATA':
       if (advancedFilters) {
         const { format, options } = message;
-        const allEvents = Array.from(tabEvents.values()).flat();
+        // Export the events the UI passes (e.g. the filtered list), or every captured event
+        const allEvents = message.events || Array.from(tabEvents.values()).flat();
         try {
           const exportData = advancedFilters.exportData(allEvents, format, options);
+          // Binary workbooks are sent as base64 because messages are JSON-serialized
+          if (exportData instanceof ArrayBuffer) {
+            sendResponse({ success: true, data: bytesToBase64(new Uint8Array(exportData)), encoding: 'base64' });
+            break;
+          }
           sendResponse({ success: true, data: exportData });
         } catch (error) {
           sendResponse({ error: `Export failed: ${error}` });
@@ -602,12 +1023,102 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       sendResponse({ success: true, events: refreshEvents });
       break;
       
+    case 'GET_RECENT_REQUESTS':
+      const recentTabId = message.tabId || sender.tab?.id;
+      sendResponse({ success: true, requests: recentTabId ? recentRequests.get(recentTabId) || [] : [] });
+      break;
+      
+    case 'GET_CUSTOM_PROVIDERS':
+      loadCustomProviders().then(providers => sendResponse({ success: true, providers }));
+      break;
+      
+    case 'SAVE_CUSTOM_PROVIDER':
+      saveCustomProvider(message.record, message.previousId)
+        .then(providers => sendResponse({ success: true, providers }))
+        .catch(error => sendResponse({ error: error instanceof Error ? error.message : String(error) }));
+      break;
+      
+    case 'DELETE_CUSTOM_PROVIDER':
+      deleteCustomProvider(message.id)
+        .then(providers => sendResponse({ success: true, providers }))
+        .catch(error => sendResponse({ error: error instanceof Error ? error.message : String(error) }));
+      break;
+      
+    case 'GET_PROVIDER_OVERRIDES':
+      loadProviderOverrides().then(overrides => sendResponse({ success: true, overrides }));
+      break;
+      
+    case 'SET_PROVIDER_OVERRIDE':
+      setProviderOverride(message.domain, message.providerId)
+        .then(overrides => {
+          reclassifyDomainEvents(message.domain);
+          sendResponse({ success: true, overrides });
+        })
+        .catch(error => sendResponse({ error: error instanceof Error ? error.message : String(error) }));
+      break;
+      
+    case 'GET_REQUEST_FILTER':
+      sendResponse({ success: true, settings: getRequestFilterSettings(), stats: getRequestFilterStats() });
+      break;
+      
+    case 'SET_REQUEST_FILTER':
+      saveRequestFilterSettings(message.settings)
+        .then(settings => sendResponse({ success: true, settings, stats: getRequestFilterStats() }))
+        .catch(error => sendResponse({ error: error instanceof Error ? error.message : String(error) }));
+      break;
+      
+    case 'RESET_REQUEST_FILTER_STATS':
+      resetRequestFilterStats();
+      sendResponse({ success: true, stats: getRequestFilterStats() });
+      break;
+      
+    case 'LIST_SESSIONS':
+      listCaptureSessions()
+        .then(sessions => sendResponse({ success: true, sessions, retentionTime: getSessionRetentionTime() }))
+        .catch(error => sendResponse({ error: error instanceof Error ? error.message : String(error) }));
+      break;
+      
+    case 'SET_SESSION_RETENTION':
+      setSessionRetentionTime(message.retentionTime)
+        .then(() => listCaptureSessions())
+        .then(sessions => sendResponse({ success: true, sessions, retentionTime: getSessionRetentionTime() }))
+        .catch(error => sendResponse({ error: error instanceof Error ? error.message : String(error) }));
+      break;
+      
+    case 'GET_SESSION':
+      getCaptureSession(message.sessionId)
+        .then(result => sendResponse(result ? { success: true, ...result } : { error: 'Session not found' }))
+        .catch(error => sendResponse({ error: error instanceof Error ? error.message : String(error) }));
+      break;
+      
+    case 'RENAME_SESSION':
+      renameCaptureSession(message.sessionId, message.name)
+        .then(() => listCaptureSessions())
+        .then(sessions => sendResponse({ success: true, sessions }))
+        .catch(error => sendResponse({ error: error instanceof Error ? error.message : String(error) }));
+      break;
+      
+    case 'DELETE_SESSION':
+      deleteCaptureSession(message.sessionId)
+        .then(() => listCaptureSessions())
+        .then(sessions => sendResponse({ success: true, sessions }))
+        .catch(error => sendResponse({ error: error instanceof Error ? error.message : String(error) }));
+      break;
+      
+    case 'IMPORT_HAR':
+      if (!providersInitialized) {
+        sendResponse({ error: 'Providers not initialized' });
+        break;
+      }
+      importHar(message.har, { getOverride: getProviderOverride })
+        .then(result => sendResponse({ success: true, ...result }))
+        .catch(error => sendResponse({ error: error instanceof Error ? error.message : String(error) }));
+      break;
+      
     default:
       sendResponse({ error: 'Unknown message type' });
   }
-  
-  return true; // Keep message channel open for async responses
-});
+}
 
 /**
  * Utility functions for converting Chrome webRequest data to RequestData format
@@ -626,46 +1137,43 @@ function extractQueryParams(url: string): Record<string, any> {
   }
 }
 
-function parseUrl(url: string): RequestData['parsedUrl'] {
-  try {
-    const urlObj = new URL(url);
-    return {
-      protocol: urlObj.protocol,
-      hostname: urlObj.hostname,
-      pathname: urlObj.pathname,
-      search: urlObj.search,
-      hash: urlObj.hash
-    };
-  } catch {
-    return {
-      protocol: '',
-      hostname: '',
-      pathname: '',
-      search: '',
-      hash: ''
-    };
+async function extractRequestBody(
+  requestBody: chrome.webRequest.WebRequestBody | null | undefined
+): Promise<DecodedRequestBody> {
+  if (!requestBody) return { body: '', encodings: [] };
+  
+  // Form-encoded posts are pre-parsed by Chrome into formData
+  if (requestBody.formData) {
+    return { body: formDataToBody(requestBody.formData), encodings: [] };
   }
-}
-
-function extractRequestBody(requestBody: chrome.webRequest.UploadData[]): string {
-  if (!requestBody || requestBody.length === 0) return '';
+  
+  const raw = requestBody.raw;
+  if (!raw || raw.length === 0) return { body: '', encodings: [] };
   
   try {
-    // Combine all upload data parts
-    const bodyParts: string[] = [];
-    for (const part of requestBody) {
-      if (part.bytes) {
-        // Convert ArrayBuffer to string
-        const decoder = new TextDecoder();
-        bodyParts.push(decoder.decode(part.bytes));
-      } else if (part.file) {
-        // File uploads - we can't read file content in service worker
-        bodyParts.push(`[FILE: ${part.file}]`);
-      }
+    // File uploads - we can't read file content in service worker
+    if (raw.some(part => part.file)) {
+      const decoder = new TextDecoder();
+      return {
+        body: raw
+          .map(part => part.bytes ? decoder.decode(part.bytes) : `[FILE: ${part.file}]`)
+          .join(''),
+        encodings: []
+      };
+    }
+    
+    // Combine all upload data parts before decoding, a compressed body may span several parts
+    const parts = raw.map(part => new Uint8Array(part.bytes || new ArrayBuffer(0)));
+    const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+      bytes.set(part, offset);
+      offset += part.length;
     }
-    return bodyParts.join('');
+    
+    return await decodeRequestBody(bytes);
   } catch {
-    return '';
+    return { body: '', encodings: [] };
   }
 }
 
@@ -684,9 +1192,9 @@ async function cleanup(): Promise<void> {
       engine = null;
     }
     
-    // Clear all data
-    tabEvents.clear();
-    trackingState.clear();
+    // Keep the maps: the pending checkpoint is written from them and the next worker restores it
+    await flushCheckpoint();
+    await flushCaptureSessions();
     
   } catch (error) {
     // Error during cleanup
@@ -696,10 +1204,10 @@ async function cleanup(): Promise<void> {
 // Handle extension suspension/unload
 chrome.runtime.onSuspend?.addListener(cleanup);
 
+// Register the network listeners synchronously so Chrome wakes a terminated worker for
+// new requests; requests arriving before initialization completes wait for it
+setupNetworkInterception();
 
-// Initialize immediately only if not already done by startup/install events
-setTimeout(() => {
-  if (!providersInitialized && !isInitializing) {
-    initializeEngine();
-  }
-}, 100); // Small delay to let startup/install events fire first
\ No newline at end of file
+// Initialize right away, requests wait for this like they wait for workerStateReady.
+// The startup and install events find it already running
+const engineReady: Promise<void> = initializeEngine();
\ No newline at end of file
@@ -0,0 +1,48 @@
+/**
+ * Per-domain provider overrides
+ *
+ * When several providers match the same request, the user can pin the provider
+ * used for a request domain ("always use X on example.com"). Overrides are kept
+ * in chrome.storage.sync next to the other user settings.
+ */
+
+const STORAGE_KEY = 'providerOverrides';
+
+// Request hostname -> provider ID
+let overrides: Record<string, string> = {};
+
+/**
+ * Load stored overrides into memory
+ */
+export async function loadProviderOverrides(): Promise<Record<string, string>> {
+  try {
+    const result = await chrome.storage.sync.get(STORAGE_KEY);
+    overrides = result[STORAGE_KEY] && typeof result[STORAGE_KEY] === 'object' ? result[STORAGE_KEY] : {};
+  } catch (error) {
+    console.warn('Failed to load provider overrides:', error);
+  }
+  return { ...overrides };
+}
+
+/**
+ * Get the provider pinned for a request hostname
+ */
+export function getProviderOverride(domain: string): string | undefined {
+  return overrides[domain.toLowerCase()];
+}
+
+/**
+ * Pin a provider for a domain, or remove the override when providerId is null
+ */
+export async function setProviderOverride(domain: string, providerId: string | null): Promise<Record<string, string>> {
+  const updated = { ...overrides };
+  if (providerId) {
+    updated[domain.toLowerCase()] = providerId;
+  } else {
+    delete updated[domain.toLowerCase()];
+  }
+
+  await chrome.storage.sync.set({ [STORAGE_KEY]: updated });
+  overrides = updated;
+  return { ...overrides };
+}
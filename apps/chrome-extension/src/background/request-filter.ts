@@ -0,0 +1,76 @@
+/**
+ * User-configured request pre-filter
+ *
+ * Runs in front of provider analysis so requests the user does not care about
+ * (their own first-party API, test domains, unwanted methods) are dropped early.
+ * Settings are kept in chrome.storage.sync next to the other user settings.
+ */
+
+import { RequestFilter, DEFAULT_REQUEST_FILTER_SETTINGS } from '@pixeltracer/providers';
+import type { RequestFilterSettings, FilterStats } from '@pixeltracer/providers';
+import type { RequestData } from '@pixeltracer/shared';
+
+const STORAGE_KEY = 'requestFilter';
+
+let settings: RequestFilterSettings = { ...DEFAULT_REQUEST_FILTER_SETTINGS };
+// Statistics are kept across configuration changes until reset
+const requestFilter = new RequestFilter(RequestFilter.fromSettings(settings));
+
+/**
+ * Load stored settings and configure the filter
+ */
+export async function loadRequestFilterSettings(): Promise<RequestFilterSettings> {
+  try {
+    const result = await chrome.storage.sync.get(STORAGE_KEY);
+    applySettings({ ...DEFAULT_REQUEST_FILTER_SETTINGS, ...(result[STORAGE_KEY] || {}) });
+  } catch (error) {
+    console.warn('Failed to load request filter settings:', error);
+  }
+  return settings;
+}
+
+/**
+ * Store new settings and reconfigure the filter
+ */
+export async function saveRequestFilterSettings(updated: RequestFilterSettings): Promise<RequestFilterSettings> {
+  const normalized: RequestFilterSettings = {
+    enabled: Boolean(updated.enabled),
+    methods: updated.methods || [],
+    excludeUrls: cleanList(updated.excludeUrls),
+    excludeDomains: cleanList(updated.excludeDomains),
+    includeDomains: cleanList(updated.includeDomains)
+  };
+
+  await chrome.storage.sync.set({ [STORAGE_KEY]: normalized });
+  applySettings(normalized);
+  return settings;
+}
+
+/**
+ * Check a request against the filter
+ * Returns true when the request should be analyzed
+ */
+export function passesRequestFilter(request: RequestData): boolean {
+  return !settings.enabled || requestFilter.filter(request).passed;
+}
+
+export function getRequestFilterSettings(): RequestFilterSettings {
+  return settings;
+}
+
+export function getRequestFilterStats(): FilterStats {
+  return requestFilter.getStats();
+}
+
+export function resetRequestFilterStats(): void {
+  requestFilter.resetStats();
+}
+
+function applySettings(updated: RequestFilterSettings): void {
+  settings = updated;
+  requestFilter.updateConfig(RequestFilter.fromSettings(settings));
+}
+
+function cleanList(values: string[] | undefined): string[] {
+  return (values || []).map(value => value.trim()).filter(value => value.length > 0);
+}
@@ -0,0 +1,91 @@
+/**
+ * Tests for service worker state checkpointing
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  restoreWorkerState,
+  getWorkerRestart,
+  recordMissedRequest,
+  scheduleCheckpoint,
+  flushCheckpoint,
+  type WorkerState
+} from './worker-state';
+
+const SECOND = 1000;
+
+function mockSessionStorage(stored: Record<string, any>) {
+  const session = {
+    get: vi.fn().mockResolvedValue(stored),
+    set: vi.fn().mockResolvedValue(undefined)
+  };
+  (chrome.storage as any).session = session;
+  return session;
+}
+
+function createCheckpoint(savedAt: number) {
+  return {
+    savedAt,
+    trackingState: [[7, true], [8, false]],
+    sidePanelOpenTabs: [7],
+    recordingSessions: []
+  };
+}
+
+describe('worker state', () => {
+  beforeEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reports a capture gap when the previous worker was stopped mid-work', async () => {
+    const lastAliveAt = Date.now() - 3 * SECOND;
+    mockSessionStorage({ workerCheckpoint: createCheckpoint(lastAliveAt - SECOND), workerLastActivity: lastAliveAt });
+
+    const state = await restoreWorkerState();
+
+    expect(state!.trackingState.get(7)).toBe(true);
+    expect(getWorkerRestart()).toMatchObject({ lastAliveAt, trackedTabIds: [7], captureGap: true, missedSince: lastAliveAt });
+  });
+
+  it('reports no capture gap after an idle stop until a tracked request is missed', async () => {
+    const lastAliveAt = Date.now() - 5 * 60 * SECOND;
+    mockSessionStorage({ workerCheckpoint: createCheckpoint(lastAliveAt - 60 * SECOND), workerLastActivity: lastAliveAt });
+
+    await restoreWorkerState();
+    const restart = getWorkerRestart()!;
+    expect(restart).toMatchObject({ lastAliveAt, trackedTabIds: [7], captureGap: false });
+    expect(restart.missedSince).toBeUndefined();
+
+    // Requests of untracked tabs are not captured anyway
+    expect(recordMissedRequest(8)).toBeNull();
+    expect(recordMissedRequest(7)).toMatchObject({ captureGap: true, missedSince: restart.restartedAt });
+    expect(recordMissedRequest(7)).toBeNull();
+    expect(getWorkerRestart()!.captureGap).toBe(true);
+  });
+
+  it('writes a scheduled checkpoint right away when flushed', async () => {
+    const session = mockSessionStorage({});
+    vi.useFakeTimers();
+    const state: WorkerState = {
+      trackingState: new Map([[7, true]]),
+      sidePanelOpenForTab: new Map(),
+      recordingSessions: new Map([[7, 'session-1']])
+    };
+
+    scheduleCheckpoint(() => state);
+    await flushCheckpoint();
+
+    expect(session.set).toHaveBeenCalledTimes(1);
+    // Tab events are restored from the recording session, not from the checkpoint
+    expect(session.set.mock.calls[0][0].workerCheckpoint).toEqual({
+      savedAt: expect.any(Number),
+      trackingState: [[7, true]],
+      sidePanelOpenTabs: [],
+      recordingSessions: [[7, 'session-1']]
+    });
+
+    // The cancelled timer writes nothing more
+    vi.runAllTimers();
+    expect(session.set).toHaveBeenCalledTimes(1);
+  });
+});
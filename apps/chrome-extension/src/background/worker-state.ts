@@ -0,0 +1,148 @@
+/**
+ * Service worker state checkpointing
+ *
+ * MV3 terminates the background worker when it is idle, which drops every module-level
+ * Map. Tracking state, open side panels and the tabs' recording sessions are checkpointed
+ * to chrome.storage.session (cleared when the browser closes) and restored when the worker
+ * starts again; tab events are reloaded from the recording sessions in IndexedDB. The last activity of the worker is recorded as it handles
+ * events so a restart can tell whether requests of tracked tabs could have been missed.
+ */
+
+import type { WorkerRestartInfo } from '@pixeltracer/shared';
+
+const CHECKPOINT_KEY = 'workerCheckpoint';
+const ACTIVITY_KEY = 'workerLastActivity';
+const CHECKPOINT_DELAY = 500;
+// Activity is written at most this often, lastAliveAt is accurate to this interval
+const ACTIVITY_WRITE_INTERVAL = 5000;
+// Chrome stops a worker after 30 s without events and wakes it for the next one. A worker
+// last active longer ago than this stopped idle; a more recent one was stopped mid-work
+const IDLE_TERMINATION_TIME = 30000;
+
+export interface WorkerState {
+  trackingState: Map<number, boolean>;
+  sidePanelOpenForTab: Map<number, boolean>;
+  // Tab ID -> capture session being recorded
+  recordingSessions: Map<number, string>;
+}
+
+interface WorkerCheckpoint {
+  savedAt: number;
+  trackingState: [number, boolean][];
+  sidePanelOpenTabs: number[];
+  recordingSessions: [number, string][];
+}
+
+let restartInfo: WorkerRestartInfo | null = null;
+let checkpointTimer: ReturnType<typeof setTimeout> | null = null;
+let pendingState: (() => WorkerState) | null = null;
+let lastActivityWrite = 0;
+
+/**
+ * Load the previous worker's checkpoint
+ * Returns null on a fresh start (no checkpoint in this browser session)
+ */
+export async function restoreWorkerState(): Promise<WorkerState | null> {
+  try {
+    const result = await chrome.storage.session.get([CHECKPOINT_KEY, ACTIVITY_KEY]);
+    const checkpoint: WorkerCheckpoint | undefined = result[CHECKPOINT_KEY];
+    if (!checkpoint) return null;
+
+    const state: WorkerState = {
+      trackingState: new Map(checkpoint.trackingState),
+      sidePanelOpenForTab: new Map(checkpoint.sidePanelOpenTabs.map(tabId => [tabId, true])),
+      recordingSessions: new Map(checkpoint.recordingSessions || [])
+    };
+
+    const trackedTabIds = Array.from(state.trackingState.entries())
+      .filter(([, tracked]) => tracked)
+      .map(([tabId]) => tabId);
+    const restartedAt = Date.now();
+    const lastAliveAt = Math.max(checkpoint.savedAt, result[ACTIVITY_KEY] || 0);
+    // Requests in flight when a busy worker was stopped were not captured
+    const stoppedMidWork = trackedTabIds.length > 0 && restartedAt - lastAliveAt < IDLE_TERMINATION_TIME;
+    restartInfo = {
+      restartedAt,
+      lastAliveAt,
+      trackedTabIds,
+      captureGap: stoppedMidWork,
+      missedSince: stoppedMidWork ? lastAliveAt : undefined
+    };
+    return state;
+  } catch (error) {
+    console.warn('Failed to restore worker state:', error);
+    return null;
+  }
+}
+
+/**
+ * Restart detected when this worker started, if any
+ */
+export function getWorkerRestart(): WorkerRestartInfo | null {
+  return restartInfo;
+}
+
+/**
+ * Note a request of a tab that arrived after the restart but could not be analyzed
+ * Returns the updated restart info when this opens a capture gap, null otherwise
+ */
+export function recordMissedRequest(tabId: number): WorkerRestartInfo | null {
+  if (!restartInfo || restartInfo.captureGap || !restartInfo.trackedTabIds.includes(tabId)) {
+    return null;
+  }
+
+  restartInfo = { ...restartInfo, captureGap: true, missedSince: restartInfo.restartedAt };
+  return restartInfo;
+}
+
+/**
+ * Record that the worker handled an event
+ * Writes are throttled, so a busy worker stores its activity every few seconds at most
+ */
+export function recordActivity(): void {
+  const now = Date.now();
+  if (now - lastActivityWrite < ACTIVITY_WRITE_INTERVAL) return;
+
+  lastActivityWrite = now;
+  chrome.storage.session.set({ [ACTIVITY_KEY]: now }).catch(() => {
+    // Storage unavailable, the restart gap is then measured from the last checkpoint
+  });
+}
+
+/**
+ * Write a checkpoint shortly, coalescing bursts of changes into one write
+ */
+export function scheduleCheckpoint(getState: () => WorkerState): void {
+  pendingState = getState;
+  if (checkpointTimer) return;
+
+  checkpointTimer = setTimeout(() => {
+    flushCheckpoint().catch(error => console.warn('Failed to checkpoint worker state:', error));
+  }, CHECKPOINT_DELAY);
+}
+
+/**
+ * Write a scheduled checkpoint now instead of waiting for its timer
+ */
+export async function flushCheckpoint(): Promise<void> {
+  if (checkpointTimer) {
+    clearTimeout(checkpointTimer);
+    checkpointTimer = null;
+  }
+  const getState = pendingState;
+  pendingState = null;
+  if (getState) {
+    await writeCheckpoint(getState());
+  }
+}
+
+async function writeCheckpoint(state: WorkerState): Promise<void> {
+  const checkpoint: WorkerCheckpoint = {
+    savedAt: Date.now(),
+    trackingState: Array.from(state.trackingState.entries()),
+    sidePanelOpenTabs: Array.from(state.sidePanelOpenForTab.keys()),
+    recordingSessions: Array.from(state.recordingSessions.entries())
+  };
+
+  await chrome.storage.session.set({ [CHECKPOINT_KEY]: checkpoint });
+}
@@ -8,9 +8,32 @@
  * - Advanced filtering and search functionality
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { TrackingEvent } from '@pixeltracer/shared';
-import { RealTimeDashboard } from '@pixeltracer/ui';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { TrackingEvent, RequestData, CaptureSession, WorkerRestartInfo, ExportTemplate, DEFAULT_RETENTION_TIME_MS, XLSX_MIME_TYPE, base64ToBytes } from '@pixeltracer/shared';
+import { providerRegistry } from '@pixeltracer/providers';
+import {
+  DEFAULT_REQUEST_FILTER_SETTINGS,
+  createFixtureFromEvent,
+  createFixtureBundle,
+  parseHar,
+  splitHarForImport,
+  mergeHarImportResults
+} from '@pixeltracer/providers';
+import type { CustomProviderRecord, FilterStats, RequestFilterSettings as RequestFilterConfig, CapturedFixture, HarImportResult } from '@pixeltracer/providers';
+import { RealTimeDashboard, ProviderEditor, RequestFilterSettings, SessionManager, parseFilterPreset } from '@pixeltracer/ui';
+import type { FilterPreset } from '@pixeltracer/ui';
+
+// Filter presets are synced one per key to stay under chrome.storage.sync's per-item quota
+const FILTER_PRESET_KEY_PREFIX = 'filterPreset:';
+const FILTER_PRESET_DEFAULTS_KEY = 'filterPresetDefaults';
+
+function readFilterPresets(items: Record<string, unknown>): FilterPreset[] {
+  return Object.keys(items)
+    .filter(key => key.startsWith(FILTER_PRESET_KEY_PREFIX))
+    .map(key => parseFilterPreset(items[key], key.slice(FILTER_PRESET_KEY_PREFIX.length)))
+    .filter((preset): preset is FilterPreset => preset !== undefined)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
 
 interface AppState {
   events: TrackingEvent[];
@@ -28,6 +51,54 @@ export function SidepanelApp() {
   const [activeTab, setActiveTab] = useState<chrome.tabs.Tab | undefined>();
   const [hasStartedTracking, setHasStartedTracking] = useState<boolean>(false);
   const [persistEventsAcrossPages, setPersistEventsAcrossPages] = useState<boolean>(true);
+  const [showProviders, setShowProviders] = useState<boolean>(false);
+  const [customProviders, setCustomProviders] = useState<CustomProviderRecord[]>([]);
+  const [recentRequests, setRecentRequests] = useState<RequestData[]>([]);
+  const [providerOverrides, setProviderOverrides] = useState<Record<string, string>>({});
+  const [showRequestFilter, setShowRequestFilter] = useState<boolean>(false);
+  const [requestFilter, setRequestFilter] = useState<RequestFilterConfig>(DEFAULT_REQUEST_FILTER_SETTINGS);
+  const [requestFilterStats, setRequestFilterStats] = useState<FilterStats | null>(null);
+  const [savedFixtures, setSavedFixtures] = useState<CapturedFixture[]>([]);
+  const [exportTemplates, setExportTemplates] = useState<ExportTemplate[]>([]);
+  const [filterPresets, setFilterPresets] = useState<FilterPreset[]>([]);
+  const [defaultFilterPresets, setDefaultFilterPresets] = useState<Record<string, string>>({});
+  const [showSessions, setShowSessions] = useState<boolean>(false);
+  const [sessions, setSessions] = useState<CaptureSession[]>([]);
+  const [sessionRetentionTime, setSessionRetentionTime] = useState<number>(DEFAULT_RETENTION_TIME_MS);
+  const [workerRestart, setWorkerRestart] = useState<WorkerRestartInfo | null>(null);
+  const [viewedSession, setViewedSession] = useState<{ session: CaptureSession; events: TrackingEvent[]; selectedEvent?: TrackingEvent; imported?: boolean } | null>(null);
+  const registeredCustomIds = useRef<Set<string>>(new Set());
+
+  // Mirror custom providers into this context's registry so their parameters are grouped in the UI
+  const applyCustomProviders = useCallback(async (records: CustomProviderRecord[]) => {
+    setCustomProviders(records);
+    
+    registeredCustomIds.current.forEach(id => providerRegistry.unregister(id));
+    registeredCustomIds.current.clear();
+    for (const record of records) {
+      if (!record.enabled) continue;
+      try {
+        await providerRegistry.registerDefinition(record.definition);
+        registeredCustomIds.current.add(record.definition.id);
+      } catch (error) {
+        console.warn(`Skipping custom provider ${record.definition.id}:`, error);
+      }
+    }
+  }, []);
+
+  // Only restarts with a capture gap are reported; they stay dismissed across side panel reloads
+  const showWorkerRestart = useCallback((restart: WorkerRestartInfo | null) => {
+    if (restart?.captureGap && localStorage.getItem('pixeltracer-dismissed-restart') !== String(restart.restartedAt)) {
+      setWorkerRestart(restart);
+    }
+  }, []);
+
+  const dismissWorkerRestart = useCallback(() => {
+    if (workerRestart) {
+      localStorage.setItem('pixeltracer-dismissed-restart', String(workerRestart.restartedAt));
+    }
+    setWorkerRestart(null);
+  }, [workerRestart]);
 
   // Function to load events for a specific tab
   const loadTabData = useCallback((tab: chrome.tabs.Tab, startTracking: boolean = false) => {
@@ -137,6 +208,27 @@ export function SidepanelApp() {
           events: [message.event, ...prev.events].slice(0, 1000)
         }));
       }
+      
+      // Events split from one request, in request order
+      if (message.type === 'NEW_TRACKING_EVENTS' && message.tabId === currentTabId) {
+        setState(prev => ({
+          ...prev,
+          events: [...message.events, ...prev.events].slice(0, 1000)
+        }));
+      }
+      
+      // Headers, status and timings arrive after the event was first sent
+      if (message.type === 'TRACKING_EVENT_UPDATED' && message.tabId === currentTabId) {
+        setState(prev => ({
+          ...prev,
+          events: prev.events.map(event => event.id === message.event.id ? message.event : event),
+          selectedEvent: prev.selectedEvent?.id === message.event.id ? message.event : prev.selectedEvent
+        }));
+      }
+      
+      if (message.type === 'WORKER_RESTARTED') {
+        showWorkerRestart(message.restart);
+      }
     };
 
     chrome.runtime.onMessage.addListener(handleMessage);
@@ -144,7 +236,76 @@ export function SidepanelApp() {
     return () => {
       chrome.runtime.onMessage.removeListener(handleMessage);
     };
-  }, [currentTabId]);
+  }, [currentTabId, showWorkerRestart]);
+
+  // Report a background restart that happened before the side panel opened
+  useEffect(() => {
+    chrome.runtime.sendMessage({ type: 'GET_WORKER_STATUS' }, (response) => {
+      if (response && response.success) {
+        showWorkerRestart(response.restart);
+      }
+    });
+  }, []);
+
+  // Load custom providers on startup
+  useEffect(() => {
+    chrome.runtime.sendMessage({ type: 'GET_CUSTOM_PROVIDERS' }, (response) => {
+      if (response && response.providers) {
+        applyCustomProviders(response.providers);
+      }
+    });
+  }, [applyCustomProviders]);
+
+  // Load per-domain provider overrides on startup
+  useEffect(() => {
+    chrome.runtime.sendMessage({ type: 'GET_PROVIDER_OVERRIDES' }, (response) => {
+      if (response && response.overrides) {
+        setProviderOverrides(response.overrides);
+      }
+    });
+  }, []);
+
+  // Load fixtures saved from earlier sessions
+  useEffect(() => {
+    chrome.storage.local.get(['savedFixtures'], (result) => {
+      if (Array.isArray(result.savedFixtures)) {
+        setSavedFixtures(result.savedFixtures);
+      }
+    });
+  }, []);
+
+  // Load export column templates
+  useEffect(() => {
+    chrome.storage.local.get(['exportTemplates'], (result) => {
+      if (Array.isArray(result.exportTemplates)) {
+        setExportTemplates(result.exportTemplates);
+      }
+    });
+  }, []);
+
+  // Load synced filter presets and follow changes made on other machines
+  useEffect(() => {
+    const loadFilterPresets = () => {
+      chrome.storage.sync.get(null, (items) => {
+        if (chrome.runtime.lastError) {
+          console.warn('Failed to load filter presets:', chrome.runtime.lastError);
+          return;
+        }
+        setFilterPresets(readFilterPresets(items));
+        setDefaultFilterPresets(items[FILTER_PRESET_DEFAULTS_KEY] || {});
+      });
+    };
+    const handleStorageChange = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+      if (areaName !== 'sync') return;
+      if (Object.keys(changes).some(key => key.startsWith(FILTER_PRESET_KEY_PREFIX) || key === FILTER_PRESET_DEFAULTS_KEY)) {
+        loadFilterPresets();
+      }
+    };
+
+    loadFilterPresets();
+    chrome.storage.onChanged.addListener(handleStorageChange);
+    return () => chrome.storage.onChanged.removeListener(handleStorageChange);
+  }, []);
 
   // Load persistence setting on startup
   useEffect(() => {
@@ -217,8 +378,8 @@ export function SidepanelApp() {
   }, []);
 
   const handleExportData = useCallback(() => {
-    // Export events as JSON
-    const dataStr = JSON.stringify(state.events, null, 2);
+    // Export events as JSON (the saved session's events while one is open)
+    const dataStr = JSON.stringify(viewedSession ? viewedSession.events : state.events, null, 2);
     const dataBlob = new Blob([dataStr], { type: 'application/json' });
     const url = URL.createObjectURL(dataBlob);
     const link = document.createElement('a');
@@ -226,12 +387,365 @@ export function SidepanelApp() {
     link.download = `pixeltracer-events-${new Date().toISOString().slice(0, 10)}.json`;
     link.click();
     URL.revokeObjectURL(url);
-  }, [state.events]);
+  }, [state.events, viewedSession]);
+
+  // The background builds the workbook; it arrives base64 encoded
+  const handleExportXlsx = useCallback((events: TrackingEvent[]) => {
+    return new Promise<void>((resolve, reject) => {
+      chrome.runtime.sendMessage({ type: 'EXPORT_DATA', format: 'xlsx', events }, (response) => {
+        if (!response || response.error) {
+          reject(new Error(response?.error || 'Failed to export workbook'));
+          return;
+        }
+        const dataBlob = new Blob([base64ToBytes(response.data) as Uint8Array<ArrayBuffer>], { type: XLSX_MIME_TYPE });
+        const url = URL.createObjectURL(dataBlob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `pixeltracer-events-${new Date().toISOString().slice(0, 10)}.xlsx`;
+        link.click();
+        URL.revokeObjectURL(url);
+        resolve();
+      });
+    });
+  }, []);
 
   const handleApplyFilters = useCallback((_filters: any) => {
     // Filters are handled by the RealTimeDashboard component internally
   }, []);
 
+  const openProviders = useCallback(() => {
+    // Snapshot the tab's captured requests for the match preview
+    chrome.runtime.sendMessage({
+      type: 'GET_RECENT_REQUESTS',
+      tabId: state.currentTab?.id
+    }, (response) => {
+      setRecentRequests(response?.requests || []);
+    });
+    setShowProviders(true);
+  }, [state.currentTab?.id]);
+
+  const saveCustomProvider = useCallback((record: CustomProviderRecord, previousId?: string) => {
+    return new Promise<void>((resolve, reject) => {
+      chrome.runtime.sendMessage({ type: 'SAVE_CUSTOM_PROVIDER', record, previousId }, (response) => {
+        if (!response || response.error) {
+          reject(new Error(response?.error || 'Failed to save provider'));
+          return;
+        }
+        applyCustomProviders(response.providers).then(resolve);
+      });
+    });
+  }, [applyCustomProviders]);
+
+  const deleteCustomProvider = useCallback((id: string) => {
+    return new Promise<void>((resolve, reject) => {
+      chrome.runtime.sendMessage({ type: 'DELETE_CUSTOM_PROVIDER', id }, (response) => {
+        if (!response || response.error) {
+          reject(new Error(response?.error || 'Failed to delete provider'));
+          return;
+        }
+        applyCustomProviders(response.providers).then(resolve);
+      });
+    });
+  }, [applyCustomProviders]);
+
+  // Stored events from the domain are reclassified by the background and arrive as TRACKING_EVENT_UPDATED
+  const handleSetProviderOverride = useCallback((domain: string, providerId: string | null) => {
+    chrome.runtime.sendMessage({ type: 'SET_PROVIDER_OVERRIDE', domain, providerId }, (response) => {
+      if (response && response.overrides) {
+        setProviderOverrides(response.overrides);
+      }
+    });
+  }, []);
+
+  const loadRequestFilter = useCallback(() => {
+    chrome.runtime.sendMessage({ type: 'GET_REQUEST_FILTER' }, (response) => {
+      if (response && response.success) {
+        setRequestFilter(response.settings);
+        setRequestFilterStats(response.stats);
+      }
+    });
+  }, []);
+
+  const openRequestFilter = useCallback(() => {
+    loadRequestFilter();
+    setShowRequestFilter(true);
+  }, [loadRequestFilter]);
+
+  const saveRequestFilter = useCallback((settings: RequestFilterConfig) => {
+    return new Promise<void>((resolve, reject) => {
+      chrome.runtime.sendMessage({ type: 'SET_REQUEST_FILTER', settings }, (response) => {
+        if (!response || response.error) {
+          reject(new Error(response?.error || 'Failed to save request filter'));
+          return;
+        }
+        setRequestFilter(response.settings);
+        setRequestFilterStats(response.stats);
+        resolve();
+      });
+    });
+  }, []);
+
+  const resetRequestFilterStats = useCallback(() => {
+    chrome.runtime.sendMessage({ type: 'RESET_REQUEST_FILTER_STATS' }, (response) => {
+      if (response && response.success) {
+        setRequestFilterStats(response.stats);
+      }
+    });
+  }, []);
+
+  const openSessions = useCallback(() => {
+    chrome.runtime.sendMessage({ type: 'LIST_SESSIONS' }, (response) => {
+      if (response && response.success) {
+        setSessions(response.sessions);
+        setSessionRetentionTime(response.retentionTime);
+      }
+    });
+    setShowSessions(true);
+  }, []);
+
+  const changeSessionRetention = useCallback((retentionTime: number) => {
+    return new Promise<void>((resolve, reject) => {
+      chrome.runtime.sendMessage({ type: 'SET_SESSION_RETENTION', retentionTime }, (response) => {
+        if (!response || response.error) {
+          reject(new Error(response?.error || 'Failed to change session retention'));
+          return;
+        }
+        setSessions(response.sessions);
+        setSessionRetentionTime(response.retentionTime);
+        resolve();
+      });
+    });
+  }, []);
+
+  const openSession = useCallback((session: CaptureSession) => {
+    chrome.runtime.sendMessage({ type: 'GET_SESSION', sessionId: session.id }, (response) => {
+      if (response && response.success) {
+        setViewedSession({ session: response.session, events: response.events });
+        setShowSessions(false);
+      }
+    });
+  }, []);
+
+  const renameSession = useCallback((sessionId: string, name: string) => {
+    return new Promise<void>((resolve, reject) => {
+      chrome.runtime.sendMessage({ type: 'RENAME_SESSION', sessionId, name }, (response) => {
+        if (!response || response.error) {
+          reject(new Error(response?.error || 'Failed to rename session'));
+          return;
+        }
+        setSessions(response.sessions);
+        resolve();
+      });
+    });
+  }, []);
+
+  const deleteSession = useCallback((sessionId: string) => {
+    return new Promise<void>((resolve, reject) => {
+      chrome.runtime.sendMessage({ type: 'DELETE_SESSION', sessionId }, (response) => {
+        if (!response || response.error) {
+          reject(new Error(response?.error || 'Failed to delete session'));
+          return;
+        }
+        setSessions(response.sessions);
+        resolve();
+      });
+    });
+  }, []);
+
+  // HAR files are analysed by the background registry and opened like a saved session (not stored).
+  // Captures are sent in chunks without response bodies to stay under the message size limit
+  const importHarFile = useCallback(async (file: File) => {
+    const results: HarImportResult[] = [];
+    for (const har of splitHarForImport(parseHar(await file.text()))) {
+      results.push(await new Promise<HarImportResult>((resolve, reject) => {
+        chrome.runtime.sendMessage({ type: 'IMPORT_HAR', har }, (response) => {
+          if (chrome.runtime.lastError || !response || response.error) {
+            reject(new Error(response?.error || chrome.runtime.lastError?.message || 'Failed to import HAR file'));
+            return;
+          }
+          resolve(response);
+        });
+      }));
+    }
+    const result = mergeHarImportResults(results);
+    
+    const now = Date.now();
+    setViewedSession({
+      session: {
+        id: `har-${now}`,
+        name: file.name,
+        tabId: -1,
+        startUrl: result.pageUrl || '',
+        startTime: result.startTime ?? now,
+        endTime: result.endTime ?? now,
+        lastActivity: now,
+        eventCount: result.events.length
+      },
+      events: result.events,
+      imported: true
+    });
+    setShowSessions(false);
+  }, []);
+
+  const storeFixtures = useCallback((fixtures: CapturedFixture[]) => {
+    setSavedFixtures(fixtures);
+    chrome.storage.local.set({ savedFixtures: fixtures }, () => {
+      if (chrome.runtime.lastError) {
+        console.warn('Failed to save fixtures:', chrome.runtime.lastError);
+      }
+    });
+  }, []);
+
+  const handleSaveExportTemplates = useCallback((templates: ExportTemplate[]) => {
+    setExportTemplates(templates);
+    chrome.storage.local.set({ exportTemplates: templates }, () => {
+      if (chrome.runtime.lastError) {
+        console.warn('Failed to save export templates:', chrome.runtime.lastError);
+      }
+    });
+  }, []);
+
+  const handleSaveFilterPresets = useCallback((presets: FilterPreset[]) => {
+    const keep = new Set(presets.map(preset => FILTER_PRESET_KEY_PREFIX + preset.id));
+    const removed = filterPresets
+      .map(preset => FILTER_PRESET_KEY_PREFIX + preset.id)
+      .filter(key => !keep.has(key));
+    const changed = presets.filter(preset => !filterPresets.includes(preset));
+
+    setFilterPresets(presets);
+    if (changed.length > 0) {
+      const items = Object.fromEntries(changed.map(preset => [FILTER_PRESET_KEY_PREFIX + preset.id, preset]));
+      chrome.storage.sync.set(items, () => {
+        if (chrome.runtime.lastError) {
+          console.warn('Failed to save filter presets:', chrome.runtime.lastError);
+        }
+      });
+    }
+    if (removed.length > 0) {
+      chrome.storage.sync.remove(removed, () => {
+        if (chrome.runtime.lastError) {
+          console.warn('Failed to delete filter presets:', chrome.runtime.lastError);
+        }
+      });
+    }
+  }, [filterPresets]);
+
+  const handleSetDefaultFilterPreset = useCallback((domain: string, presetId: string | null) => {
+    const defaults = { ...defaultFilterPresets };
+    if (presetId) {
+      defaults[domain] = presetId;
+    } else {
+      delete defaults[domain];
+    }
+    setDefaultFilterPresets(defaults);
+    chrome.storage.sync.set({ [FILTER_PRESET_DEFAULTS_KEY]: defaults }, () => {
+      if (chrome.runtime.lastError) {
+        console.warn('Failed to save default filter presets:', chrome.runtime.lastError);
+      }
+    });
+  }, [defaultFilterPresets]);
+
+  const handleSaveFixture = useCallback((event: TrackingEvent) => {
+    try {
+      storeFixtures([...savedFixtures, { provider: event.provider, fixture: createFixtureFromEvent(event) }]);
+    } catch (error) {
+      console.warn('Failed to create fixture:', error);
+    }
+  }, [savedFixtures, storeFixtures]);
+
+  // Download a provider's fixtures as <provider>/fixtures/<provider-id>.json content, then drop them
+  const handleExportFixtures = useCallback((provider: string) => {
+    const [file] = createFixtureBundle(savedFixtures.filter(saved => saved.provider === provider));
+    if (!file) return;
+    
+    const dataBlob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(dataBlob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${provider}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    
+    storeFixtures(savedFixtures.filter(saved => saved.provider !== provider));
+  }, [savedFixtures, storeFixtures]);
+
+  const savedFixtureCounts = savedFixtures.reduce<Record<string, number>>((counts, saved) => {
+    counts[saved.provider] = (counts[saved.provider] || 0) + 1;
+    return counts;
+  }, {});
+
+  if (showRequestFilter) {
+    return (
+      <RequestFilterSettings
+        settings={requestFilter}
+        stats={requestFilterStats}
+        onSave={saveRequestFilter}
+        onRefreshStats={loadRequestFilter}
+        onResetStats={resetRequestFilterStats}
+        onClose={() => setShowRequestFilter(false)}
+        className="h-screen"
+      />
+    );
+  }
+
+  if (showSessions) {
+    return (
+      <SessionManager
+        sessions={sessions}
+        retentionTime={sessionRetentionTime}
+        onChangeRetentionTime={changeSessionRetention}
+        onOpenSession={openSession}
+        onRenameSession={renameSession}
+        onDeleteSession={deleteSession}
+        onImportHar={importHarFile}
+        onClose={() => setShowSessions(false)}
+        className="h-screen"
+      />
+    );
+  }
+
+  // A reopened session replaces the live view until the user goes back
+  if (viewedSession) {
+    return (
+      <RealTimeDashboard
+        events={viewedSession.events}
+        selectedEvent={viewedSession.selectedEvent}
+        isTracking={false}
+        savedSession={viewedSession.session}
+        savedSessionLabel={viewedSession.imported ? 'Imported HAR' : undefined}
+        onExitSavedSession={() => setViewedSession(null)}
+        onEventSelect={(event) => setViewedSession(prev => prev && { ...prev, selectedEvent: event })}
+        onToggleTracking={toggleTracking}
+        onClearEvents={clearEvents}
+        onExportData={handleExportData}
+        onExportXlsx={handleExportXlsx}
+        exportTemplates={exportTemplates}
+        onSaveExportTemplates={handleSaveExportTemplates}
+        onApplyFilters={handleApplyFilters}
+        filterPresets={filterPresets}
+        onSaveFilterPresets={handleSaveFilterPresets}
+        onOpenSessions={openSessions}
+        onSaveFixture={handleSaveFixture}
+        savedFixtureCounts={savedFixtureCounts}
+        onExportFixtures={handleExportFixtures}
+        className="h-screen"
+      />
+    );
+  }
+
+  if (showProviders) {
+    return (
+      <ProviderEditor
+        providers={customProviders}
+        requests={recentRequests}
+        onSave={saveCustomProvider}
+        onDelete={deleteCustomProvider}
+        onClose={() => setShowProviders(false)}
+        className="h-screen"
+      />
+    );
+  }
+
   // Show "Start tracking" UI only for tabs that have never been tracked
   if (!hasStartedTracking && activeTab) {
     return (
@@ -250,6 +764,12 @@ export function SidepanelApp() {
               <h1 className="text-lg font-semibold">PixelTracer</h1>
               <p className="text-xs text-muted-foreground">Not tracking this tab</p>
             </div>
+            <button
+              onClick={openSessions}
+              className="px-3 py-1.5 text-xs font-medium border rounded-lg hover:bg-muted transition-colors"
+            >
+              Saved sessions
+            </button>
           </div>
         </div>
         
@@ -330,7 +850,24 @@ export function SidepanelApp() {
       onTogglePersistence={handleTogglePersistence}
       onClearEvents={clearEvents}
       onExportData={handleExportData}
+      onExportXlsx={handleExportXlsx}
+      exportTemplates={exportTemplates}
+      onSaveExportTemplates={handleSaveExportTemplates}
       onApplyFilters={handleApplyFilters}
+      filterPresets={filterPresets}
+      onSaveFilterPresets={handleSaveFilterPresets}
+      defaultFilterPresets={defaultFilterPresets}
+      onSetDefaultFilterPreset={handleSetDefaultFilterPreset}
+      onOpenProviders={openProviders}
+      onOpenRequestFilter={openRequestFilter}
+      onOpenSessions={openSessions}
+      workerRestart={workerRestart}
+      onDismissWorkerRestart={dismissWorkerRestart}
+      providerOverrides={providerOverrides}
+      onSetProviderOverride={handleSetProviderOverride}
+      onSaveFixture={handleSaveFixture}
+      savedFixtureCounts={savedFixtureCounts}
+      onExportFixtures={handleExportFixtures}
       className="h-screen"
     />
   );
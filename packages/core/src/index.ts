@@ -12,6 +12,7 @@ export * from './proxy/index.js';
 
 // Storage Engine
 export * from './storage/index.js';
+export * from './storage/session-store.js';
 
 // Logging and Error Handling
 export * from './logging/index.js';
@@ -0,0 +1,34 @@
+/**
+ * Tests for AdvancedFilters exports
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createTrackingEvent as createEvent } from '@pixeltracer/shared/testing';
+import { AdvancedFilters } from './advanced-filters';
+
+describe('AdvancedFilters.exportData xlsx', () => {
+  const events = [
+    createEvent({ parameters: { value: '42.5', currency: 'eur', cd: { content_ids: ['a', 'b'], content_type: 'product' } } }),
+    createEvent({ parameters: { value: 10, currency: 'EUR' } }),
+    createEvent({ provider: 'segment', providerName: 'Segment', eventType: 'track', parameters: { event: 'Signed Up <beta>' } })
+  ];
+
+  it('writes a summary sheet and one sheet per provider', () => {
+    const data = new AdvancedFilters().exportData(events, 'xlsx') as ArrayBuffer;
+    const bytes = new Uint8Array(data);
+    // Stored (uncompressed) ZIP, so the parts can be searched as text
+    const text = new TextDecoder().decode(bytes);
+
+    expect(Array.from(bytes.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    expect(text).toContain('<sheet name="Summary" sheetId="1" r:id="rId1"/>');
+    expect(text).toContain('<sheet name="Facebook Pixel" sheetId="2" r:id="rId2"/>');
+    expect(text).toContain('<sheet name="Segment" sheetId="3" r:id="rId3"/>');
+
+    // Revenue total of the Facebook Purchase events
+    expect(text).toContain('<v>52.5</v>');
+    // Nested parameters become dotted columns, arrays stay JSON, text is escaped
+    expect(text).toContain('>cd.content_type</t>');
+    expect(text).toContain('[&quot;a&quot;,&quot;b&quot;]');
+    expect(text).toContain('Signed Up &lt;beta&gt;');
+  });
+});
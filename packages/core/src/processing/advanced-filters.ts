@@ -5,35 +5,17 @@
  * for tracking events and analytics data.
  */
 
-import type { TrackingEvent } from '@pixeltracer/shared'
-
-export interface FilterCriteria {
-  // Basic filters
-  providers?: string[]
-  eventTypes?: string[]
-  methods?: ('GET' | 'POST' | 'PUT' | 'DELETE')[]
-  confidenceRange?: { min: number; max: number }
-  timeRange?: { start: number; end: number }
-  
-  // URL filters
-  urlPatterns?: (string | RegExp)[]
-  domains?: string[]
-  pathPatterns?: (string | RegExp)[]
-  
-  // Parameter filters
-  hasParameters?: string[]
-  parameterValues?: Record<string, any>
-  parameterPatterns?: Record<string, RegExp>
-  
-  // Business filters
-  hasRevenue?: boolean
-  revenueRange?: { min: number; max: number }
-  currencies?: string[]
-  
-  // Advanced filters
-  customFilter?: (event: TrackingEvent) => boolean
-  textSearch?: string
-}
+import type { TrackingEvent, FilterCriteria, XlsxCell, XlsxSheet } from '@pixeltracer/shared'
+import {
+  createXlsxWorkbook,
+  matchesFilterCriteria,
+  matchesTextSearch,
+  getEventRevenue,
+  getEventCurrency
+} from '@pixeltracer/shared'
+
+// Filter criteria are shared with the UI, which evaluates them without the core package
+export type { FilterCriteria } from '@pixeltracer/shared'
 
 export interface SearchOptions {
   limit?: number
@@ -80,143 +62,9 @@ export class AdvancedFilters {
   ): FilterResult {
     const startTime = performance.now()
     
-    let filteredEvents = [...events]
+    let filteredEvents = events.filter(event => matchesFilterCriteria(event, criteria))
     let totalCount = events.length
 
-    // Apply basic filters
-    if (criteria.providers?.length) {
-      filteredEvents = filteredEvents.filter(event => 
-        criteria.providers!.includes(event.provider)
-      )
-    }
-
-    if (criteria.eventTypes?.length) {
-      filteredEvents = filteredEvents.filter(event => 
-        event.eventType && criteria.eventTypes!.includes(event.eventType)
-      )
-    }
-
-    if (criteria.methods?.length) {
-      filteredEvents = filteredEvents.filter(event => 
-        criteria.methods!.includes(event.method as any)
-      )
-    }
-
-    // Apply confidence range filter
-    if (criteria.confidenceRange) {
-      const { min, max } = criteria.confidenceRange
-      filteredEvents = filteredEvents.filter(event => 
-        event.confidence >= min && event.confidence <= max
-      )
-    }
-
-    // Apply time range filter
-    if (criteria.timeRange) {
-      const { start, end } = criteria.timeRange
-      filteredEvents = filteredEvents.filter(event => 
-        event.timestamp >= start && event.timestamp <= end
-      )
-    }
-
-    // Apply URL filters
-    if (criteria.urlPatterns?.length) {
-      filteredEvents = filteredEvents.filter(event => 
-        criteria.urlPatterns!.some(pattern => {
-          if (typeof pattern === 'string') {
-            return event.url.includes(pattern)
-          }
-          return pattern.test(event.url)
-        })
-      )
-    }
-
-    if (criteria.domains?.length) {
-      filteredEvents = filteredEvents.filter(event => {
-        try {
-          const url = new URL(event.url)
-          return criteria.domains!.includes(url.hostname)
-        } catch {
-          return false
-        }
-      })
-    }
-
-    if (criteria.pathPatterns?.length) {
-      filteredEvents = filteredEvents.filter(event => {
-        try {
-          const url = new URL(event.url)
-          return criteria.pathPatterns!.some(pattern => {
-            if (typeof pattern === 'string') {
-              return url.pathname.includes(pattern)
-            }
-            return pattern.test(url.pathname)
-          })
-        } catch {
-          return false
-        }
-      })
-    }
-
-    // Apply parameter filters
-    if (criteria.hasParameters?.length) {
-      filteredEvents = filteredEvents.filter(event => 
-        criteria.hasParameters!.every(param => 
-          event.parameters && param in event.parameters
-        )
-      )
-    }
-
-    if (criteria.parameterValues) {
-      filteredEvents = filteredEvents.filter(event => {
-        if (!event.parameters) return false
-        return Object.entries(criteria.parameterValues!).every(([key, value]) => 
-          event.parameters[key] === value
-        )
-      })
-    }
-
-    if (criteria.parameterPatterns) {
-      filteredEvents = filteredEvents.filter(event => {
-        if (!event.parameters) return false
-        return Object.entries(criteria.parameterPatterns!).every(([key, pattern]) => {
-          const value = event.parameters[key]
-          return value !== undefined && pattern.test(String(value))
-        })
-      })
-    }
-
-    // Apply business filters
-    if (criteria.hasRevenue) {
-      filteredEvents = filteredEvents.filter(event => 
-        this.hasRevenue(event)
-      )
-    }
-
-    if (criteria.revenueRange) {
-      const { min, max } = criteria.revenueRange
-      filteredEvents = filteredEvents.filter(event => {
-        const revenue = this.extractRevenue(event)
-        return revenue !== null && revenue >= min && revenue <= max
-      })
-    }
-
-    if (criteria.currencies?.length) {
-      filteredEvents = filteredEvents.filter(event => {
-        const currency = this.extractCurrency(event)
-        return currency && criteria.currencies!.includes(currency)
-      })
-    }
-
-    // Apply text search
-    if (criteria.textSearch) {
-      filteredEvents = this.performTextSearch(filteredEvents, criteria.textSearch)
-    }
-
-    // Apply custom filter
-    if (criteria.customFilter) {
-      filteredEvents = filteredEvents.filter(criteria.customFilter)
-    }
-
     // Apply sorting
     if (options.sortBy) {
       filteredEvents = this.sortEvents(filteredEvents, options.sortBy, options.sortOrder || 'desc')
@@ -239,19 +87,7 @@ export class AdvancedFilters {
    * Perform text search across event data
    */
   performTextSearch(events: TrackingEvent[], searchText: string): TrackingEvent[] {
-    const searchTerms = searchText.toLowerCase().split(/\s+/).filter(Boolean)
-    
-    return events.filter(event => {
-      const searchableText = [
-        event.url,
-        event.provider,
-        event.providerName,
-        event.eventType || '',
-        JSON.stringify(event.parameters || {})
-      ].join(' ').toLowerCase()
-
-      return searchTerms.every(term => searchableText.includes(term))
-    })
+    return events.filter(event => matchesTextSearch(event, searchText))
   }
 
   /**
@@ -364,8 +200,7 @@ export class AdvancedFilters {
         return this.exportToCsv(events, options?.includeHeaders, options?.customFields)
         
       case 'xlsx':
-        // Would integrate with a library like SheetJS for Excel export
-        throw new Error('XLSX export not implemented yet')
+        return this.exportToXlsx(events)
         
       default:
         throw new Error(`Unsupported export format: ${format}`)
@@ -374,43 +209,6 @@ export class AdvancedFilters {
 
   // Private helper methods
 
-  private hasRevenue(event: TrackingEvent): boolean {
-    if (!event.parameters) return false
-    
-    const revenueFields = ['value', 'revenue', 'amount', 'price', 'total', 'purchase_value']
-    return revenueFields.some(field => 
-      event.parameters[field] !== undefined && 
-      !isNaN(parseFloat(String(event.parameters[field])))
-    )
-  }
-
-  private extractRevenue(event: TrackingEvent): number | null {
-    if (!event.parameters) return null
-    
-    const revenueFields = ['value', 'revenue', 'amount', 'price', 'total', 'purchase_value']
-    for (const field of revenueFields) {
-      if (event.parameters[field] !== undefined) {
-        const value = parseFloat(String(event.parameters[field]))
-        if (!isNaN(value)) return value
-      }
-    }
-    
-    return null
-  }
-
-  private extractCurrency(event: TrackingEvent): string | null {
-    if (!event.parameters) return null
-    
-    const currencyFields = ['currency', 'currency_code', 'cur']
-    for (const field of currencyFields) {
-      if (event.parameters[field]) {
-        return String(event.parameters[field]).toUpperCase()
-      }
-    }
-    
-    return null
-  }
-
   private sortEvents(
     events: TrackingEvent[], 
     sortBy: keyof TrackingEvent | 'relevance', 
@@ -522,15 +320,14 @@ export class AdvancedFilters {
   }
 
   private createRevenueAnalysis(events: TrackingEvent[]): Record<string, any> {
-    const revenueEvents = events.filter(e => this.hasRevenue(e))
-    const revenues = revenueEvents.map(e => this.extractRevenue(e)).filter(r => r !== null) as number[]
+    const revenues = events.map(e => getEventRevenue(e)).filter(r => r !== null) as number[]
     
     if (revenues.length === 0) {
       return { totalEvents: 0, totalRevenue: 0 }
     }
     
     return {
-      totalEvents: revenueEvents.length,
+      totalEvents: revenues.length,
       totalRevenue: revenues.reduce((sum, r) => sum + r, 0),
       averageRevenue: revenues.reduce((sum, r) => sum + r, 0) / revenues.length,
       minRevenue: Math.min(...revenues),
@@ -563,7 +360,7 @@ export class AdvancedFilters {
 
     const fields = customFields || [
       'timestamp', 'provider', 'providerName', 'url', 'method', 
-      'eventType', 'confidence', 'tabId', 'parameters'
+      'eventType', 'confidence', 'tabId', 'requestId', 'parameters'
     ]
 
     const rows: string[] = []
@@ -588,4 +385,94 @@ export class AdvancedFilters {
 
     return rows.join('\n')
   }
+
+  /**
+   * Excel workbook: a summary sheet (events and revenue by provider and event type)
+   * followed by one sheet per provider with flattened parameters as columns
+   */
+  private exportToXlsx(events: TrackingEvent[]): ArrayBuffer {
+    const byProvider = this.groupEvents(events, ['provider'])
+    const sheets: XlsxSheet[] = [{ name: 'Summary', rows: this.createSummaryRows(events) }]
+
+    for (const providerEvents of Object.values(byProvider)) {
+      const flattened = providerEvents.map(event => this.flattenParameters(event.parameters || {}))
+      const parameterColumns = Array.from(new Set(flattened.flatMap(params => Object.keys(params)))).sort()
+
+      const rows: XlsxCell[][] = [[
+        'Timestamp', 'Event Type', 'Account ID', 'URL', 'Method', 'Status', 'Confidence', 'Request ID', 'Batch Index',
+        ...parameterColumns
+      ]]
+      providerEvents.forEach((event, index) => {
+        rows.push([
+          new Date(event.timestamp).toISOString(),
+          event.eventType,
+          event.accountId !== undefined ? String(event.accountId) : undefined,
+          event.url,
+          event.method,
+          event.statusCode,
+          event.confidence,
+          event.requestId,
+          event.batchIndex,
+          ...parameterColumns.map(column => flattened[index][column])
+        ])
+      })
+      sheets.push({ name: providerEvents[0].providerName || providerEvents[0].provider, rows })
+    }
+
+    const bytes = createXlsxWorkbook(sheets)
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
+  }
+
+  private createSummaryRows(events: TrackingEvent[]): XlsxCell[][] {
+    const rows: XlsxCell[][] = [['Provider', 'Event Type', 'Events', 'Revenue Events', 'Total Revenue', 'Currencies']]
+
+    const groups = Object.values(this.groupEvents(events, ['providerName', 'eventType']))
+      .sort((a, b) => a[0].providerName.localeCompare(b[0].providerName) || b.length - a.length)
+    for (const group of groups) {
+      const revenue = this.createRevenueAnalysis(group)
+      rows.push([
+        group[0].providerName,
+        group[0].eventType || '(none)',
+        group.length,
+        revenue.totalEvents,
+        revenue.totalRevenue,
+        this.listCurrencies(group)
+      ])
+    }
+
+    const revenue = this.createRevenueAnalysis(events)
+    rows.push(
+      [],
+      ['Total', '', events.length, revenue.totalEvents, revenue.totalRevenue, this.listCurrencies(events)],
+      ['Average Revenue', '', '', '', revenue.averageRevenue],
+      ['Min Revenue', '', '', '', revenue.minRevenue],
+      ['Max Revenue', '', '', '', revenue.maxRevenue],
+      [],
+      ['Exported At', new Date().toISOString()]
+    )
+    return rows
+  }
+
+  private listCurrencies(events: TrackingEvent[]): string {
+    const currencies = new Set(events.map(event => getEventCurrency(event)).filter(Boolean))
+    return Array.from(currencies).join(', ')
+  }
+
+  /**
+   * Flatten nested parameters into dotted column names; arrays are kept as JSON
+   */
+  private flattenParameters(parameters: Record<string, any>, prefix = ''): Record<string, XlsxCell> {
+    const result: Record<string, XlsxCell> = {}
+    for (const [key, value] of Object.entries(parameters)) {
+      const column = prefix ? `${prefix}.${key}` : key
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        Object.assign(result, this.flattenParameters(value, column))
+      } else if (Array.isArray(value)) {
+        result[column] = JSON.stringify(value)
+      } else {
+        result[column] = value
+      }
+    }
+    return result
+  }
 }
\ No newline at end of file
@@ -0,0 +1,88 @@
+/**
+ * Tests for the IndexedDB capture session store
+ */
+
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTrackingEvent } from '@pixeltracer/shared/testing';
+import type { TrackingEvent } from '@pixeltracer/shared';
+import { SessionStore } from './session-store';
+
+const HOUR = 60 * 60 * 1000;
+
+function createEvent(id: string, timestamp: number, parameters: Record<string, any> = {}): TrackingEvent {
+  return createTrackingEvent({ id, timestamp, parameters });
+}
+
+describe('SessionStore', () => {
+  let store: SessionStore;
+
+  beforeEach(() => {
+    // A fresh database per test
+    globalThis.indexedDB = new IDBFactory();
+    store = new SessionStore({ retentionTime: 24 * HOUR });
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  it('creates sessions and lists them newest first', async () => {
+    const older = await store.createSession({ tabId: 1, startUrl: 'https://shop.example.com/cart', startTime: 1000 });
+    const newer = await store.createSession({ tabId: 2, startUrl: 'chrome://newtab', startTime: 2000, name: 'Checkout' });
+
+    expect(older).toMatchObject({ tabId: 1, startTime: 1000, lastActivity: 1000, eventCount: 0 });
+    expect(older.name).toMatch(/^shop\.example\.com · /);
+    expect(older.endTime).toBeUndefined();
+    expect((await store.listSessions()).map(session => session.id)).toEqual([newer.id, older.id]);
+    expect((await store.listSessions())[0].name).toBe('Checkout');
+  });
+
+  it('appends events in batches, replacing events with the same ID', async () => {
+    const session = await store.createSession({ tabId: 1, startUrl: 'https://example.com' });
+    const other = await store.createSession({ tabId: 2, startUrl: 'https://example.org' });
+
+    await store.saveEvents(session.id, [createEvent('a', 1), createEvent('b', 3), createEvent('c', 2)]);
+    await store.saveEvents(session.id, [createEvent('b', 3, { status: 200 }), createEvent('d', 4)]);
+    await store.saveEvents(other.id, [createEvent('a', 5)]);
+
+    const result = await store.getSession(session.id);
+    expect(result!.session.eventCount).toBe(4);
+    expect(result!.events.map(event => event.id)).toEqual(['d', 'b', 'c', 'a']);
+    expect(result!.events[1].parameters).toEqual({ status: 200 });
+    expect((await store.getSession(other.id))!.events.map(event => event.id)).toEqual(['a']);
+    expect(await store.getSession('missing')).toBeNull();
+  });
+
+  it('purges finished sessions past the retention time', async () => {
+    const now = Date.now();
+    const expired = await store.createSession({ tabId: 1, startUrl: 'https://example.com', startTime: now - 30 * HOUR });
+    const recent = await store.createSession({ tabId: 2, startUrl: 'https://example.com', startTime: now - 2 * HOUR });
+    const recording = await store.createSession({ tabId: 3, startUrl: 'https://example.com', startTime: now - 48 * HOUR });
+    await store.saveEvents(expired.id, [createEvent('a', now - 30 * HOUR)]);
+    await store.endSession(expired.id, now - 25 * HOUR);
+    await store.endSession(recent.id, now - HOUR);
+
+    expect(await store.purgeExpired(now)).toBe(1);
+    expect((await store.listSessions()).map(session => session.id).sort()).toEqual([recent.id, recording.id].sort());
+    expect(await store.getSession(expired.id)).toBeNull();
+
+    // A shorter retention applies from the next purge
+    store.setRetentionTime(HOUR / 2);
+    expect(await store.purgeExpired(now)).toBe(1);
+    expect((await store.listSessions()).map(session => session.id)).toEqual([recording.id]);
+  });
+
+  it('ends sessions left open except the ones being resumed', async () => {
+    const resumed = await store.createSession({ tabId: 1, startUrl: 'https://example.com', startTime: 1000 });
+    const abandoned = await store.createSession({ tabId: 2, startUrl: 'https://example.com', startTime: 2000 });
+
+    const stillOpen = await store.endOpenSessions(new Set([resumed.id]));
+
+    expect(stillOpen.map(session => session.id)).toEqual([resumed.id]);
+    const sessions = await store.listSessions();
+    expect(sessions.find(session => session.id === abandoned.id)!.endTime).toBe(2000);
+    expect(sessions.find(session => session.id === resumed.id)!.endTime).toBeUndefined();
+  });
+});
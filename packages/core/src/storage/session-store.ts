@@ -0,0 +1,283 @@
+/**
+ * Session Store - IndexedDB persistence for capture sessions
+ */
+
+import {
+  TrackingEvent,
+  CaptureSession,
+  StorageConfig,
+  DEFAULT_RETENTION_TIME_MS
+} from '@pixeltracer/shared';
+
+const DB_NAME = 'pixeltracer-sessions';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const EVENT_STORE = 'events';
+
+interface StoredEvent {
+  sessionId: string;
+  eventId: string;
+  event: TrackingEvent;
+}
+
+/**
+ * Stores capture sessions and their events in IndexedDB so they survive
+ * service worker restarts and closed tabs.
+ *
+ * Sessions are kept until they have been inactive for longer than
+ * StorageConfig.retentionTime; purgeExpired() removes them.
+ */
+export class SessionStore {
+  private db: Promise<IDBDatabase> | null = null;
+  private retentionTime: number;
+
+  constructor(config?: Partial<Pick<StorageConfig, 'retentionTime'>>) {
+    this.retentionTime = config?.retentionTime || DEFAULT_RETENTION_TIME_MS;
+  }
+
+  getRetentionTime(): number {
+    return this.retentionTime;
+  }
+
+  /**
+   * Change how long finished sessions are kept (applies from the next purgeExpired())
+   */
+  setRetentionTime(retentionTime: number): void {
+    this.retentionTime = retentionTime || DEFAULT_RETENTION_TIME_MS;
+  }
+
+  /**
+   * Check whether IndexedDB is available in this context
+   */
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Start a new session
+   */
+  async createSession(init: { tabId: number; startUrl: string; name?: string; startTime?: number }): Promise<CaptureSession> {
+    const startTime = init.startTime ?? Date.now();
+    const session: CaptureSession = {
+      id: `session-${startTime}-${Math.random().toString(36).substr(2, 9)}`,
+      name: init.name || createSessionName(init.startUrl, startTime),
+      tabId: init.tabId,
+      startUrl: init.startUrl,
+      startTime,
+      lastActivity: startTime,
+      eventCount: 0
+    };
+
+    await this.write([SESSION_STORE], tx => tx.objectStore(SESSION_STORE).put(session));
+    return session;
+  }
+
+  /**
+   * Add or replace events of a session and refresh its event count
+   */
+  async saveEvents(sessionId: string, events: TrackingEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    await this.write([SESSION_STORE, EVENT_STORE], tx => {
+      const eventStore = tx.objectStore(EVENT_STORE);
+      for (const event of events) {
+        const record: StoredEvent = { sessionId, eventId: event.id, event };
+        eventStore.put(record);
+      }
+
+      const count = eventStore.index('sessionId').count(IDBKeyRange.only(sessionId));
+      count.onsuccess = () => {
+        this.updateInTransaction(tx, sessionId, session => ({
+          ...session,
+          eventCount: count.result,
+          lastActivity: Date.now()
+        }));
+      };
+    });
+  }
+
+  /**
+   * Mark a session as finished
+   */
+  async endSession(sessionId: string, endTime: number = Date.now()): Promise<void> {
+    await this.write([SESSION_STORE], tx => {
+      this.updateInTransaction(tx, sessionId, session => ({ ...session, endTime, lastActivity: endTime }));
+    });
+  }
+
+  /**
+   * Finish sessions left open by a previous service worker instance, except the ones to resume
+   * Returns the resumed sessions that are still open
+   */
+  async endOpenSessions(resumeIds: ReadonlySet<string> = new Set()): Promise<CaptureSession[]> {
+    const open = (await this.listSessions()).filter(session => session.endTime === undefined);
+    const resumed: CaptureSession[] = [];
+    for (const session of open) {
+      if (resumeIds.has(session.id)) {
+        resumed.push(session);
+      } else {
+        await this.endSession(session.id, session.lastActivity);
+      }
+    }
+    return resumed;
+  }
+
+  /**
+   * Rename a session
+   */
+  async renameSession(sessionId: string, name: string): Promise<CaptureSession | undefined> {
+    let renamed: CaptureSession | undefined;
+    await this.write([SESSION_STORE], tx => {
+      this.updateInTransaction(tx, sessionId, session => {
+        renamed = { ...session, name };
+        return renamed;
+      });
+    });
+    return renamed;
+  }
+
+  /**
+   * Delete a session and its events
+   */
+  async deleteSession(sessionId: string): Promise<void> {
+    await this.write([SESSION_STORE, EVENT_STORE], tx => {
+      tx.objectStore(SESSION_STORE).delete(sessionId);
+      tx.objectStore(EVENT_STORE).delete(sessionEventRange(sessionId));
+    });
+  }
+
+  /**
+   * List sessions, most recent first
+   */
+  async listSessions(): Promise<CaptureSession[]> {
+    const sessions = await this.read<CaptureSession[]>(SESSION_STORE, store => store.getAll());
+    return sessions.sort((a, b) => b.startTime - a.startTime);
+  }
+
+  /**
+   * Get a session with its events (newest first, like the live event list)
+   */
+  async getSession(sessionId: string): Promise<{ session: CaptureSession; events: TrackingEvent[] } | null> {
+    const session = await this.read<CaptureSession | undefined>(SESSION_STORE, store => store.get(sessionId));
+    if (!session) return null;
+
+    const records = await this.read<StoredEvent[]>(EVENT_STORE, store => store.getAll(sessionEventRange(sessionId)));
+    const events = records.map(record => record.event).sort((a, b) => b.timestamp - a.timestamp);
+    return { session, events };
+  }
+
+  /**
+   * Delete finished sessions inactive for longer than the retention time
+   * Returns the number of sessions removed
+   */
+  async purgeExpired(now: number = Date.now()): Promise<number> {
+    const cutoff = now - this.retentionTime;
+    const expired = (await this.listSessions())
+      .filter(session => session.endTime !== undefined && session.lastActivity < cutoff);
+
+    for (const session of expired) {
+      await this.deleteSession(session.id);
+    }
+    return expired.length;
+  }
+
+  /**
+   * Close the database connection
+   */
+  async close(): Promise<void> {
+    if (this.db) {
+      (await this.db).close();
+      this.db = null;
+    }
+  }
+
+  /**
+   * Open (and create or upgrade) the database once
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(SESSION_STORE)) {
+            db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(EVENT_STORE)) {
+            const events = db.createObjectStore(EVENT_STORE, { keyPath: ['sessionId', 'eventId'] });
+            events.createIndex('sessionId', 'sessionId');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // Allow a later call to retry after a failed open
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  /**
+   * Run a read-only request against one store
+   */
+  private async read<T>(storeName: string, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(storeName, 'readonly').objectStore(storeName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Run a read-write transaction, resolving once it has committed
+   */
+  private async write(storeNames: string[], run: (tx: IDBTransaction) => void): Promise<void> {
+    const db = await this.open();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(storeNames, 'readwrite');
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error || new Error('Session store transaction aborted'));
+      run(tx);
+    });
+  }
+
+  /**
+   * Read-modify-write a session inside an open transaction (missing sessions are ignored)
+   */
+  private updateInTransaction(tx: IDBTransaction, sessionId: string, update: (session: CaptureSession) => CaptureSession): void {
+    const store = tx.objectStore(SESSION_STORE);
+    const request = store.get(sessionId);
+    request.onsuccess = () => {
+      if (request.result) {
+        store.put(update(request.result));
+      }
+    };
+  }
+}
+
+/**
+ * Key range covering every event of a session ([sessionId, *])
+ */
+function sessionEventRange(sessionId: string): IDBKeyRange {
+  // Arrays sort after strings, so [sessionId, []] is above every [sessionId, eventId]
+  return IDBKeyRange.bound([sessionId], [sessionId, []]);
+}
+
+/**
+ * Default session name: host of the start page and the start time
+ */
+function createSessionName(startUrl: string, startTime: number): string {
+  let host = startUrl;
+  try {
+    host = new URL(startUrl).hostname || startUrl;
+  } catch {
+    // Keep the raw URL (e.g. chrome:// pages)
+  }
+  return `${host} · ${new Date(startTime).toLocaleString()}`;
+}
@@ -0,0 +1,131 @@
+import { ParameterGrouper, ParameterDefinition, ParameterGroup, COMMON_GROUPS } from '../base/parameter-groups'
+
+export class AdobeAnalyticsParameterGrouper extends ParameterGrouper {
+  protected groups: { [key: string]: ParameterGroup } = {
+    event: COMMON_GROUPS.event,
+    product: COMMON_GROUPS.product,
+    variables: {
+      id: 'variables',
+      name: 'Variables',
+      description: 'eVars, props, hierarchies and list variables',
+      icon: 'custom',
+      priority: 3
+    },
+    context_data: {
+      id: 'context_data',
+      name: 'Context Data',
+      description: 'Context data variables (c. ... .c)',
+      icon: 'custom',
+      priority: 4
+    },
+    user: COMMON_GROUPS.user,
+    context: COMMON_GROUPS.context,
+    technical: COMMON_GROUPS.technical
+  }
+
+  protected parameterDefinitions: ParameterDefinition[] = [
+    // Event Data
+    { key: 'pageName', displayName: 'Page Name', group: 'event', description: 'Name of the page being tracked' },
+    { key: 'events', displayName: 'Events', group: 'event', description: 'Raw success events string' },
+    { key: 'event_list', displayName: 'Event List', group: 'event', type: 'array', description: 'Success events decoded from the events string' },
+    { key: 'pe', displayName: 'Link Type', group: 'event', description: 'lnk_o (custom), lnk_d (download) or lnk_e (exit)' },
+    { key: 'pev1', displayName: 'Link URL', group: 'event', format: 'url' },
+    { key: 'pev2', displayName: 'Link Name', group: 'event' },
+    { key: 'web_sdk_event_type', displayName: 'XDM Event Type', group: 'event', description: 'Web SDK xdm.eventType' },
+
+    // Commerce
+    { key: 'products', displayName: 'Products', group: 'product', description: 'Raw products string' },
+    { key: 'product_items', displayName: 'Product Items', group: 'product', type: 'array', description: 'Line items decoded from the products string' },
+    { key: 'purchaseID', displayName: 'Purchase ID', group: 'product', description: 'Unique purchase identifier used for de-duplication' },
+    { key: 'xact', displayName: 'Transaction ID', group: 'product' },
+    { key: 'transaction_id', displayName: 'Transaction ID', group: 'product' },
+    { key: 'value', displayName: 'Revenue', group: 'product', format: 'currency', description: 'Total revenue of the purchase line items' },
+    { key: 'cc', displayName: 'Currency Code', group: 'product' },
+    { key: 'currency', displayName: 'Currency', group: 'product' },
+    { key: 'state', displayName: 'State', group: 'product' },
+    { key: 'zip', displayName: 'Zip Code', group: 'product' },
+
+    // Variables
+    { key: 'campaign', displayName: 'Campaign', group: 'variables', description: 'Tracking code (v0)' },
+    { key: 'v0', displayName: 'Campaign (v0)', group: 'variables' },
+    { key: 'eVar*', displayName: 'eVar', group: 'variables', description: 'Conversion variable' },
+    { key: 'prop*', displayName: 'Prop', group: 'variables', description: 'Traffic variable' },
+    { key: 'hier*', displayName: 'Hierarchy', group: 'variables' },
+    { key: 'list*', displayName: 'List Variable', group: 'variables' },
+
+    // Context Data
+    { key: 'context_data', displayName: 'Context Data', group: 'context_data', type: 'object', description: 'Context data reconstructed into a tree' },
+
+    // User Properties
+    { key: 'mid', displayName: 'Experience Cloud ID', group: 'user', description: 'ECID / Marketing Cloud visitor ID' },
+    { key: 'aid', displayName: 'Analytics Visitor ID', group: 'user', description: 'Legacy s_vi cookie visitor ID' },
+    { key: 'fid', displayName: 'Fallback Visitor ID', group: 'user' },
+    { key: 'vid', displayName: 'Custom Visitor ID', group: 'user' },
+    { key: 'rsid', displayName: 'Report Suite', group: 'user', description: 'Report suite(s) receiving this hit' },
+    { key: 'report_suites', displayName: 'Report Suites', group: 'user', type: 'array' },
+    { key: 'datastream_id', displayName: 'Datastream ID', group: 'user', description: 'Web SDK configId' },
+
+    // Context & Page Data
+    { key: 'g', displayName: 'Page URL', group: 'context', format: 'url' },
+    { key: 'r', displayName: 'Referrer', group: 'context', format: 'url' },
+    { key: 'ch', displayName: 'Site Section', group: 'context' },
+    { key: 'server', displayName: 'Server', group: 'context' },
+    { key: 'pageType', displayName: 'Page Type', group: 'context', description: 'errorPage for 404 pages' },
+    { key: 's', displayName: 'Screen Resolution', group: 'context' },
+    { key: 'c', displayName: 'Color Depth', group: 'context' },
+    { key: 'bw', displayName: 'Browser Width', group: 'context' },
+    { key: 'bh', displayName: 'Browser Height', group: 'context' },
+    { key: 'v', displayName: 'Java Enabled', group: 'context' },
+    { key: 'k', displayName: 'Cookies Enabled', group: 'context' },
+
+    // Technical Details
+    { key: 'AQB', displayName: 'Query Begin', group: 'technical' },
+    { key: 'AQE', displayName: 'Query End', group: 'technical' },
+    { key: 'ndh', displayName: 'Image Hit', group: 'technical' },
+    { key: 'pf', displayName: 'Platform Flag', group: 'technical' },
+    { key: 't', displayName: 'Local Time', group: 'technical' },
+    { key: 'ts', displayName: 'Timestamp', group: 'technical', format: 'timestamp' },
+    { key: 'ce', displayName: 'Character Set', group: 'technical' },
+    { key: 'cl', displayName: 'Cookie Lifetime', group: 'technical' },
+    { key: 'j', displayName: 'JavaScript Version', group: 'technical' },
+    { key: 'version', displayName: 'Library Version', group: 'technical' },
+    { key: 'xdm', displayName: 'XDM Payload', group: 'technical', type: 'object' },
+    { key: 'configId', displayName: 'Config ID', group: 'technical' },
+    { key: 'requestId', displayName: 'Edge Request ID', group: 'technical' }
+  ]
+
+  /**
+   * Find parameter definition, expanding numbered variables (eVar12, prop3)
+   */
+  protected findDefinition(key: string): ParameterDefinition | undefined {
+    const definition = super.findDefinition(key)
+    const numbered = key.match(/^(eVar|prop|hier|list)(\d+)$/)
+
+    if (definition && numbered) {
+      return { ...definition, displayName: `${definition.displayName} ${numbered[2]}` }
+    }
+
+    return definition
+  }
+
+  /**
+   * Get display name for a parameter key
+   */
+  getDisplayName(key: string): string {
+    return this.findDefinition(key)?.displayName || this.humanizeKey(key)
+  }
+
+  /**
+   * Get description for a parameter key
+   */
+  getDescription(key: string): string | undefined {
+    return this.findDefinition(key)?.description
+  }
+
+  /**
+   * Get format hint for a parameter key
+   */
+  getFormat(key: string): ParameterDefinition['format'] | undefined {
+    return this.findDefinition(key)?.format
+  }
+}
@@ -0,0 +1,656 @@
+import { BaseProvider, ProviderConfig } from '../base/base-provider'
+import { TrackingEvent, RequestData } from '@pixeltracer/shared'
+import { ParameterGroup, GroupedParameter, ParameterGroupingProvider } from '../base/parameter-group'
+import { AdobeAnalyticsParameterGrouper } from './adobe-analytics-grouper'
+
+/**
+ * Web SDK commerce measures mapped to their AppMeasurement event names
+ */
+const COMMERCE_EVENT_MAP: Record<string, string> = {
+  'purchases': 'purchase',
+  'productViews': 'prodView',
+  'productListOpens': 'scOpen',
+  'productListAdds': 'scAdd',
+  'productListRemovals': 'scRemove',
+  'productListViews': 'scView',
+  'checkouts': 'scCheckout'
+}
+
+/**
+ * Web SDK xdm.eventType values mapped to AppMeasurement hit types
+ */
+const XDM_EVENT_TYPE_MAP: Record<string, string> = {
+  'web.webpagedetails.pageViews': 'page_view',
+  'web.webinteraction.linkClicks': 'custom_link',
+  'commerce.purchases': 'purchase'
+}
+
+/**
+ * AppMeasurement link types (pe) mapped to hit types
+ */
+const LINK_TYPE_MAP: Record<string, string> = {
+  'lnk_o': 'custom_link',
+  'lnk_d': 'download_link',
+  'lnk_e': 'exit_link'
+}
+
+const ADOBE_DOMAIN_PATTERN = /(^|\.)(omtrdc\.net|2o7\.net|adobedc\.net|demdex\.net)$/
+
+/**
+ * Adobe Analytics provider
+ * Detects and parses AppMeasurement beacons and Adobe Experience Platform Web SDK calls
+ *
+ * Supports:
+ * - AppMeasurement /b/ss/ beacons (GET and POST, multi-suite tagging)
+ * - Web SDK /ee/v1/interact and /ee/v1/collect calls
+ * - Context data (c. ... .c) reconstructed into a tree
+ * - Success events, products string and eVar/prop/v0 mapping
+ * - First-party (CNAME) tracking servers
+ */
+export class AdobeAnalyticsProvider extends BaseProvider implements ParameterGroupingProvider {
+  private grouper = new AdobeAnalyticsParameterGrouper()
+
+  constructor() {
+    const config: ProviderConfig = {
+      id: 'adobe-analytics',
+      name: 'Adobe Analytics',
+      version: '1.0.0',
+      description: 'Adobe Analytics AppMeasurement and Web SDK tracking',
+      website: 'https://experienceleague.adobe.com/docs/analytics.html',
+      icon: 'https://www.adobe.com/favicon.ico',
+      category: 'analytics',
+
+      patterns: {
+        urlPatterns: [
+          // AppMeasurement beacons, on Adobe or first-party tracking servers
+          /\/b\/ss\/[^/]+\/\d+\//,
+          // Web SDK edge calls, optionally with a region segment (/ee/irl1/v1/interact)
+          /\/ee\/(?:[a-z0-9]+\/)?v1\/(?:interact|collect)(?:\?|$)/
+        ],
+
+        domains: [
+          'sc.omtrdc.net',
+          'omtrdc.net',
+          '2o7.net',
+          'edge.adobedc.net',
+          'adobedc.net'
+        ],
+
+        paths: [
+          '/b/ss/*',
+          '/ee/*'
+        ],
+
+        queryPatterns: {
+          'AQB': /^1$/,
+          'AQE': /^1$/,
+          'ndh': /^1$/,
+          'pageName': /.+/,
+          'configId': /^[0-9a-f-]{36}(?::\w+)?$/i,
+          'requestId': /^[0-9a-f-]{36}$/i
+        },
+
+        methods: ['GET', 'POST']
+      },
+
+      parameters: {
+        required: [],
+
+        optional: [
+          // Page and hit data
+          'pageName', // Page name
+          'g', // Page URL
+          'r', // Referrer
+          'ch', // Site section
+          'server', // Server
+          'pageType', // Page type (errorPage)
+          'events', // Success events
+          'products', // Products string
+          'purchaseID', // Purchase ID
+          'cc', // Currency code
+          'pe', // Link type
+          'pev1', // Link URL
+          'pev2', // Link name
+
+          // Visitor identification
+          'mid', // Experience Cloud ID
+          'aid', // Analytics visitor ID
+          'fid', // Fallback visitor ID
+          'vid', // Custom visitor ID
+
+          // Technical
+          'AQB', // Query begin marker
+          'AQE', // Query end marker
+          'ndh', // Image hit flag
+          't', // Local time
+          'ts' // Timestamp
+        ],
+
+        aliases: {
+          'campaign': ['v0'],
+          'currency': ['cc'],
+          'transaction_id': ['purchaseID', 'xact']
+        },
+
+        parsers: {
+          'ts': (value: string) => parseInt(value, 10),
+          'bw': (value: string) => parseInt(value, 10),
+          'bh': (value: string) => parseInt(value, 10)
+        },
+
+        validators: {
+          'cc': (value: any) => typeof value === 'string' && /^[A-Z]{3}$/.test(value),
+          'pe': (value: any) => typeof value === 'string' && /^(lnk_o|lnk_d|lnk_e|ms_s|m_s)$/.test(value)
+        }
+      }
+    }
+
+    super(config)
+  }
+
+  /**
+   * Split a Web SDK call carrying several events into one request per event
+   */
+  protected splitRequest(request: RequestData): RequestData[] {
+    const payload = this.getWebSdkPayload(request)
+    if (!payload || !Array.isArray(payload.events) || payload.events.length <= 1) {
+      return [request]
+    }
+
+    return payload.events.map((event: any) => ({
+      ...request,
+      body: JSON.stringify({ ...payload, events: [event] })
+    }))
+  }
+
+  /**
+   * Adobe-specific confidence calculation
+   */
+  protected async calculateCustomConfidence(request: RequestData): Promise<number> {
+    let customScore = 0
+
+    // AppMeasurement query markers
+    if (request.query.AQB === '1' || request.query.AQE === '1' || (request.body && /(^|&)AQB=1(&|$)/.test(request.body))) {
+      customScore += 0.4
+    }
+
+    // Report suite in the beacon path
+    if (this.extractReportSuites(request).length > 0) {
+      customScore += 0.3
+    }
+
+    // Web SDK datastream configuration and XDM payload
+    if (request.query.configId) {
+      customScore += 0.2
+    }
+    if (request.body && request.body.includes('"xdm"')) {
+      customScore += 0.2
+    }
+
+    // Adobe hosted collection server
+    if (ADOBE_DOMAIN_PATTERN.test(request.parsedUrl.hostname)) {
+      customScore += 0.2
+    }
+
+    return Math.min(1.0, customScore)
+  }
+
+  /**
+   * Parse Adobe Analytics parameters
+   */
+  protected async parseParameters(request: RequestData): Promise<Record<string, any>> {
+    const parameters = this.isWebSdk(request)
+      ? this.parseWebSdkParameters(request)
+      : this.parseAppMeasurementParameters(request)
+
+    if (typeof parameters.events === 'string' && parameters.events.length > 0) {
+      parameters.event_list = this.parseEventsString(parameters.events)
+    }
+
+    if (typeof parameters.products === 'string' && parameters.products.length > 0) {
+      parameters.product_items = this.parseProductsString(parameters.products)
+    }
+
+    // Promote purchase revenue for filtering and revenue analysis
+    const isPurchase = Array.isArray(parameters.event_list) &&
+      parameters.event_list.some((event: { name: string }) => event.name === 'purchase')
+    if (isPurchase && Array.isArray(parameters.product_items) && parameters.value === undefined) {
+      const revenue = parameters.product_items
+        .reduce((total: number, item: { price?: number }) => total + (item.price || 0), 0)
+      if (revenue > 0) {
+        parameters.value = revenue
+      }
+    }
+
+    this.applyParameterAliases(parameters)
+
+    return parameters
+  }
+
+  /**
+   * Extract Adobe account ID (report suite, or datastream for Web SDK calls without an override)
+   */
+  protected async extractAccountId(_request: RequestData, parameters: Record<string, any>): Promise<string | null> {
+    return parameters.rsid || parameters.datastream_id || null
+  }
+
+  /**
+   * Extract Adobe hit type
+   */
+  protected async extractEventType(_request: RequestData, parameters: Record<string, any>): Promise<string | null> {
+    if (parameters.pe && LINK_TYPE_MAP[parameters.pe]) {
+      return LINK_TYPE_MAP[parameters.pe]
+    }
+
+    if (parameters.web_sdk_event_type) {
+      return XDM_EVENT_TYPE_MAP[parameters.web_sdk_event_type] || parameters.web_sdk_event_type
+    }
+
+    return 'page_view'
+  }
+
+  /**
+   * Enrich Adobe event with additional context
+   */
+  protected async enrichEvent(event: TrackingEvent, request: RequestData): Promise<void> {
+    const params = event.parameters
+    const isWebSdk = this.isWebSdk(request)
+
+    event.rawData = {
+      ...event.rawData,
+      adobe_analytics: {
+        implementation: isWebSdk ? 'web_sdk' : 'appmeasurement',
+        report_suites: params.report_suites || [],
+        datastream_id: params.datastream_id,
+        library_version: params.version,
+        visitor_id: params.mid || params.aid || params.fid || params.vid,
+        link_type: params.pe,
+        link_name: params.pev2,
+        is_first_party: !ADOBE_DOMAIN_PATTERN.test(request.parsedUrl.hostname)
+      }
+    }
+
+    if (params.product_items || params.value !== undefined || params.purchaseID) {
+      event.rawData!.ecommerce = {
+        value: params.value,
+        currency: params.currency,
+        transaction_id: params.purchaseID,
+        item_count: Array.isArray(params.product_items) ? params.product_items.length : 0
+      }
+    }
+
+    event.rawData!.event_category = this.categorizeEvent(params.event_list || [])
+  }
+
+  /**
+   * Parse an AppMeasurement beacon (/b/ss/)
+   */
+  private parseAppMeasurementParameters(request: RequestData): Record<string, any> {
+    const parameters: Record<string, any> = {}
+    const pairs: Array<[string, string]> = []
+
+    // Query string pairs in order, followed by the POST body for long beacons
+    new URLSearchParams(request.parsedUrl.search).forEach((value, key) => pairs.push([key, value]))
+    if (request.body && !request.body.trim().startsWith('{')) {
+      new URLSearchParams(request.body).forEach((value, key) => pairs.push([key, value]))
+    }
+
+    const contextData = this.parseContextData(pairs, parameters)
+    if (Object.keys(contextData).length > 0) {
+      parameters.context_data = contextData
+    }
+
+    const reportSuites = this.extractReportSuites(request)
+    if (reportSuites.length > 0) {
+      parameters.rsid = reportSuites.join(',')
+      parameters.report_suites = reportSuites
+    }
+
+    // /b/ss/<rsid>/<1|0|10>/<version>/s<random>
+    const versionMatch = request.parsedUrl.pathname.match(/\/b\/ss\/[^/]+\/\d+\/([^/]+)/)
+    if (versionMatch) {
+      parameters.version = versionMatch[1]
+    }
+
+    return parameters
+  }
+
+  /**
+   * Walk ordered query pairs, collecting context data (c. ... .c) into a tree
+   * and mapping every other pair onto parameters.
+   */
+  private parseContextData(pairs: Array<[string, string]>, parameters: Record<string, any>): Record<string, any> {
+    const root: Record<string, any> = {}
+    const stack: Array<Record<string, any>> = []
+
+    for (const [key, value] of pairs) {
+      if (stack.length === 0) {
+        if (key === 'c.') {
+          stack.push(root)
+        } else {
+          this.setVariable(parameters, key, value)
+        }
+        continue
+      }
+
+      const current = stack[stack.length - 1]
+
+      if (key.length > 1 && key.startsWith('.')) {
+        // Closing marker (.a, .c)
+        stack.pop()
+      } else if (key.length > 1 && key.endsWith('.')) {
+        // Opening marker (a.) nests the following keys
+        const name = key.slice(0, -1)
+        if (typeof current[name] !== 'object' || current[name] === null) {
+          current[name] = {}
+        }
+        stack.push(current[name])
+      } else {
+        current[key] = value
+      }
+    }
+
+    return root
+  }
+
+  /**
+   * Set a beacon variable, mapping short names (v1, c1, h1, l1) to eVar/prop/hier/list
+   */
+  private setVariable(parameters: Record<string, any>, key: string, value: string): void {
+    const numbered = key.match(/^([vchl])(\d+)$/)
+
+    if (numbered && key !== 'v0') {
+      const prefixes: Record<string, string> = { v: 'eVar', c: 'prop', h: 'hier', l: 'list' }
+      parameters[`${prefixes[numbered[1]]}${numbered[2]}`] = value
+      return
+    }
+
+    const parser = this.config.parameters.parsers?.[key]
+    parameters[key] = parser ? parser(value) : value
+  }
+
+  /**
+   * Parse a Web SDK edge call (/ee/v1/interact, /ee/v1/collect)
+   */
+  private parseWebSdkParameters(request: RequestData): Record<string, any> {
+    const parameters: Record<string, any> = {}
+    const payload = this.getWebSdkPayload(request) || {}
+
+    // For a multi-event call only the first event is parsed here, the rest
+    // are split out by splitRequest() through parseEvents().
+    const event = Array.isArray(payload.events) ? payload.events[0] || {} : {}
+    const xdm = event.xdm || {}
+
+    if (request.query.configId) {
+      parameters.configId = request.query.configId
+      parameters.datastream_id = request.query.configId.split(':')[0]
+    }
+    if (request.query.requestId) {
+      parameters.requestId = request.query.requestId
+    }
+
+    const reportSuites = payload.meta?.configOverrides?.com_adobe_analytics?.reportSuites
+    if (Array.isArray(reportSuites) && reportSuites.length > 0) {
+      parameters.rsid = reportSuites.join(',')
+      parameters.report_suites = reportSuites
+    }
+
+    if (xdm.eventType) {
+      parameters.web_sdk_event_type = xdm.eventType
+    }
+
+    // Page data
+    const pageDetails = xdm.web?.webPageDetails || {}
+    if (pageDetails.name) parameters.pageName = pageDetails.name
+    if (pageDetails.URL) parameters.g = pageDetails.URL
+    if (pageDetails.siteSection) parameters.ch = pageDetails.siteSection
+    if (pageDetails.server) parameters.server = pageDetails.server
+    if (xdm.web?.webReferrer?.URL) parameters.r = xdm.web.webReferrer.URL
+    if (xdm.marketing?.trackingCode) parameters.v0 = xdm.marketing.trackingCode
+
+    // Link clicks
+    const linkClick = xdm.web?.webInteraction
+    if (linkClick) {
+      const linkTypes: Record<string, string> = { other: 'lnk_o', download: 'lnk_d', exit: 'lnk_e' }
+      if (linkTypes[linkClick.type]) parameters.pe = linkTypes[linkClick.type]
+      if (linkClick.name) parameters.pev2 = linkClick.name
+      if (linkClick.URL) parameters.pev1 = linkClick.URL
+    }
+
+    // Visitor ID
+    const ecid = xdm.identityMap?.ECID?.[0]?.id
+    if (ecid) parameters.mid = ecid
+
+    // Custom dimensions
+    const dimensions = xdm._experience?.analytics?.customDimensions || {}
+    Object.assign(parameters, dimensions.eVars || {}, dimensions.props || {})
+
+    // Success events from commerce measures and event1-100
+    const events: string[] = []
+    for (const [measure, name] of Object.entries(COMMERCE_EVENT_MAP)) {
+      if (xdm.commerce?.[measure]) events.push(name)
+    }
+    const customEvents = xdm._experience?.analytics?.event1to100 || {}
+    for (const [name, measure] of Object.entries<any>(customEvents)) {
+      events.push(measure?.value !== undefined && measure.value !== 1 ? `${name}=${measure.value}` : name)
+    }
+    if (events.length > 0) {
+      parameters.events = events.join(',')
+    }
+
+    if (xdm.commerce?.order?.purchaseID) parameters.purchaseID = xdm.commerce.order.purchaseID
+    if (xdm.commerce?.order?.currencyCode) parameters.cc = xdm.commerce.order.currencyCode
+
+    if (Array.isArray(xdm.productListItems) && xdm.productListItems.length > 0) {
+      parameters.product_items = xdm.productListItems.map((item: any) => this.compactItem({
+        category: item.productCategories?.[0]?.categoryID,
+        product: item.SKU || item.name,
+        quantity: item.quantity,
+        price: item.priceTotal
+      }))
+    }
+
+    // data.__adobe.analytics carries AppMeasurement-style variables, the rest is context data
+    const { __adobe: adobeData, ...contextData } = event.data || {}
+    for (const [key, value] of Object.entries<any>(adobeData?.analytics || {})) {
+      if (key === 'contextData' && typeof value === 'object') {
+        Object.assign(contextData, value)
+      } else if (key === 'campaign') {
+        parameters.v0 = value
+      } else {
+        parameters[key] = value
+      }
+    }
+    if (Object.keys(contextData).length > 0) {
+      parameters.context_data = contextData
+    }
+
+    if (Object.keys(xdm).length > 0) {
+      parameters.xdm = xdm
+    }
+
+    return parameters
+  }
+
+  /**
+   * Decode an events string (purchase,event1=2,event5:serial)
+   */
+  private parseEventsString(events: string): Array<{ name: string, value?: number, serial?: string }> {
+    return events
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(entry => entry.length > 0)
+      .map(entry => {
+        const match = entry.match(/^([^=:]+)(?:=([^:]*))?(?::(.+))?$/)
+        if (!match) {
+          return { name: entry }
+        }
+
+        const parsed: { name: string, value?: number, serial?: string } = { name: match[1] }
+        if (match[2] !== undefined && !isNaN(parseFloat(match[2]))) {
+          parsed.value = parseFloat(match[2])
+        }
+        if (match[3]) {
+          parsed.serial = match[3]
+        }
+        return parsed
+      })
+  }
+
+  /**
+   * Decode a products string (Category;Product;Quantity;Price;events;eVars, ...)
+   */
+  private parseProductsString(products: string): Record<string, any>[] {
+    return products
+      .split(',')
+      .filter(entry => entry.trim().length > 0)
+      .map(entry => {
+        const [category, product, quantity, price, events, eVars] = entry.split(';')
+
+        return this.compactItem({
+          category: category || undefined,
+          product: product || undefined,
+          quantity: quantity ? parseFloat(quantity) : undefined,
+          price: price ? parseFloat(price) : undefined,
+          events: events ? this.parseMerchandisingString(events) : undefined,
+          eVars: eVars ? this.parseMerchandisingString(eVars) : undefined
+        })
+      })
+  }
+
+  /**
+   * Decode pipe-delimited product events or merchandising eVars (event1=2|eVar3=red)
+   */
+  private parseMerchandisingString(value: string): Record<string, string> {
+    const result: Record<string, string> = {}
+
+    for (const pair of value.split('|')) {
+      const separator = pair.indexOf('=')
+      if (separator > 0) {
+        result[pair.slice(0, separator)] = pair.slice(separator + 1)
+      } else if (pair.length > 0) {
+        result[pair] = ''
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Drop undefined and NaN fields from a decoded line item
+   */
+  private compactItem(item: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(
+      Object.entries(item).filter(([, value]) => value !== undefined && !(typeof value === 'number' && isNaN(value)))
+    )
+  }
+
+  /**
+   * Extract report suites from the /b/ss/<rsid1,rsid2>/ path
+   */
+  private extractReportSuites(request: RequestData): string[] {
+    const match = request.parsedUrl.pathname.match(/\/b\/ss\/([^/]+)\//)
+    if (!match) return []
+
+    return decodeURIComponent(match[1])
+      .split(',')
+      .map(rsid => rsid.trim())
+      .filter(rsid => rsid.length > 0)
+  }
+
+  /**
+   * Check whether the request is a Web SDK edge call
+   */
+  private isWebSdk(request: RequestData): boolean {
+    return /\/ee\/(?:[a-z0-9]+\/)?v1\/(?:interact|collect)/.test(request.parsedUrl.pathname)
+  }
+
+  /**
+   * Parse the JSON payload of a Web SDK call
+   */
+  private getWebSdkPayload(request: RequestData): Record<string, any> | null {
+    if (!request.body || !this.isWebSdk(request)) return null
+
+    try {
+      const payload = JSON.parse(request.body)
+      return payload && typeof payload === 'object' ? payload : null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Apply parameter aliases
+   */
+  private applyParameterAliases(parameters: Record<string, any>): void {
+    if (!this.config.parameters.aliases) return
+
+    for (const [canonical, aliases] of Object.entries(this.config.parameters.aliases)) {
+      for (const alias of aliases) {
+        if (parameters[alias] !== undefined && parameters[canonical] === undefined) {
+          parameters[canonical] = parameters[alias]
+          break
+        }
+      }
+    }
+  }
+
+  /**
+   * Categorize Adobe hits by their success events
+   */
+  private categorizeEvent(eventList: Array<{ name: string }>): string {
+    const names = eventList.map(event => event.name)
+
+    if (names.includes('purchase')) return 'conversion'
+    if (names.some(name => ['scCheckout', 'scAdd', 'scOpen', 'scView', 'prodView'].includes(name))) return 'consideration'
+
+    return 'analytics'
+  }
+
+  /**
+   * Group Adobe parameters for display using the Adobe parameter grouper
+   */
+  groupParameters(parameters: Record<string, any>): ParameterGroup[] {
+    const defined = Object.fromEntries(
+      Object.entries(parameters).filter(([, value]) => value !== undefined && value !== null)
+    )
+
+    return Object.values(this.grouper.groupParameters(defined)).map(({ group, parameters: groupParameters }) => ({
+      id: group.id,
+      name: group.name,
+      icon: group.icon || group.id,
+      description: group.description,
+      priority: group.priority,
+      parameters: groupParameters.map(parameter => ({
+        key: parameter.key,
+        displayName: parameter.displayName,
+        value: parameter.value,
+        description: parameter.description,
+        format: this.getParameterFormat(parameter.key)
+      }))
+    }))
+  }
+
+  /**
+   * Get display name for a parameter
+   */
+  getParameterDisplayName(key: string): string {
+    return this.grouper.getDisplayName(key)
+  }
+
+  /**
+   * Get description for a parameter
+   */
+  getParameterDescription(key: string): string | undefined {
+    return this.grouper.getDescription(key)
+  }
+
+  /**
+   * Get format hint for parameter display
+   */
+  getParameterFormat(key: string): GroupedParameter['format'] | undefined {
+    const format = this.grouper.getFormat(key)
+    if (format === 'currency' || format === 'timestamp' || format === 'percentage') return format
+    return undefined
+  }
+}
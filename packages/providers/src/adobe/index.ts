@@ -0,0 +1,6 @@
+/**
+ * Adobe Providers
+ * Adobe Analytics (AppMeasurement and Web SDK)
+ */
+
+export * from './adobe-analytics-provider'
\ No newline at end of file
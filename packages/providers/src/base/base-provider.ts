@@ -1,4 +1,7 @@
-import { TrackingEvent, RequestData, ProviderMatch } from '@pixeltracer/shared'
+import { TrackingEvent, RequestData, ProviderMatch, MatchExplanation, MatchScoreStep, PayloadEncoding, tryDecodePayload, safeJsonParse, parseBodyParams } from '@pixeltracer/shared'
+
+// Wildcard patterns compiled once and shared by all providers
+const wildcardPatterns = new Map<string, RegExp>()
 
 /**
  * Pattern matching configuration for URL/request detection
@@ -32,6 +35,10 @@ export interface ParameterConfig {
   parsers?: Record<string, (value: string) => any>
   /** Parameter validation rules */
   validators?: Record<string, (value: any) => boolean>
+  /** Encoded parameters and their decoding steps, e.g. { data: ['base64', 'json'] } */
+  encodings?: Record<string, PayloadEncoding[]>
+  /** Decoding steps for the whole request body, applied before matching and parsing */
+  bodyEncodings?: PayloadEncoding[]
 }
 
 /**
@@ -119,68 +126,103 @@ export abstract class BaseProvider {
    * Returns confidence score (0.0 = no match, 1.0 = perfect match)
    */
   async canHandle(request: RequestData): Promise<number> {
+    return (await this.explainMatch(request)).confidence
+  }
+
+  /**
+   * Score the request and record every rule that contributed to the confidence
+   * The body is decoded first so required parameters inside encoded bodies are found
+   */
+  async explainMatch(request: RequestData): Promise<MatchExplanation> {
+    return this.explainDecoded(await this.decodeBody(request))
+  }
+
+  /**
+   * Score a request whose body has already been run through decodeBody()
+   */
+  private async explainDecoded(request: RequestData): Promise<MatchExplanation> {
     // const startTime = performance.now() // TODO: Use for performance metrics
-    
+    const steps: MatchScoreStep[] = []
+    let confidence = 0.0
+
+    const apply = (step: Omit<MatchScoreStep, 'score'>) => {
+      confidence = step.effect === 'multiply' ? confidence * step.value : confidence + step.value
+      steps.push({ ...step, score: confidence })
+    }
+
     try {
-      let confidence = 0.0
       const { patterns } = this.config
 
       // Check URL patterns (highest weight)
-      const urlMatch = this.matchPatterns(request.url, patterns.urlPatterns)
+      const urlMatch = this.findMatchingPattern(request.url, patterns.urlPatterns)
       if (urlMatch) {
-        confidence += 0.4
+        apply({ rule: 'url', matched: true, effect: 'add', value: 0.4, patterns: [String(urlMatch)] })
       } else {
-        return 0.0 // No URL match = no provider match
+        apply({ rule: 'url', matched: false, effect: 'add', value: 0 })
+        return { confidence: 0.0, steps } // No URL match = no provider match
       }
 
       // Check domain patterns
       if (patterns.domains) {
-        const domainMatch = this.matchPatterns(request.parsedUrl.hostname, patterns.domains)
-        if (domainMatch) {
-          confidence += 0.3
-        }
+        const domainMatch = this.findMatchingPattern(request.parsedUrl.hostname, patterns.domains)
+        apply(domainMatch
+          ? { rule: 'domain', matched: true, effect: 'add', value: 0.3, patterns: [String(domainMatch)] }
+          : { rule: 'domain', matched: false, effect: 'add', value: 0, detail: request.parsedUrl.hostname })
       }
 
       // Check path patterns
       if (patterns.paths) {
-        const pathMatch = this.matchPatterns(request.parsedUrl.pathname, patterns.paths)
-        if (pathMatch) {
-          confidence += 0.15
-        }
+        const pathMatch = this.findMatchingPattern(request.parsedUrl.pathname, patterns.paths)
+        apply(pathMatch
+          ? { rule: 'path', matched: true, effect: 'add', value: 0.15, patterns: [String(pathMatch)] }
+          : { rule: 'path', matched: false, effect: 'add', value: 0, detail: request.parsedUrl.pathname })
       }
 
       // Check HTTP method
       if (patterns.methods && patterns.methods.length > 0) {
-        if (patterns.methods.includes(request.method as any)) {
-          confidence += 0.05
-        } else {
-          confidence -= 0.1 // Wrong method reduces confidence
-        }
+        const methodMatch = patterns.methods.includes(request.method as any)
+        // Wrong method reduces confidence
+        apply({ rule: 'method', matched: methodMatch, effect: 'add', value: methodMatch ? 0.05 : -0.1, detail: request.method })
       }
 
       // Check query parameters
       if (patterns.queryPatterns) {
         const queryScore = this.scoreQueryPatterns(request.query, patterns.queryPatterns)
-        confidence += queryScore * 0.1
+        const matchedKeys = this.matchQueryPatterns(request.query, patterns.queryPatterns)
+        apply({
+          rule: 'query',
+          matched: queryScore > 0,
+          effect: 'add',
+          value: queryScore * 0.1,
+          patterns: matchedKeys.map(key => `${key}=${String(patterns.queryPatterns![key])}`),
+          detail: `${matchedKeys.length} of ${Object.keys(patterns.queryPatterns).length} query patterns`
+        })
       }
 
       // Check required parameters
       if (this.config.parameters.required) {
-        const requiredScore = this.scoreRequiredParameters(request, this.config.parameters.required)
-        confidence *= requiredScore // Multiply to make required params critical
+        const required = this.config.parameters.required
+        const requiredScore = this.scoreRequiredParameters(request, required)
+        const missing = required.filter(param => !this.hasParameter(request, param))
+        // Multiply to make required params critical
+        apply({
+          rule: 'required',
+          matched: missing.length === 0,
+          effect: 'multiply',
+          value: requiredScore,
+          detail: missing.length > 0 ? `Missing: ${missing.join(', ')}` : required.join(', ') || undefined
+        })
       }
 
       // Apply provider-specific scoring
       const customScore = await this.calculateCustomConfidence(request)
-      confidence += customScore * 0.1
+      apply({ rule: 'custom', matched: customScore > 0, effect: 'add', value: customScore * 0.1 })
 
       // Normalize confidence to 0.0-1.0 range
-      confidence = Math.max(0.0, Math.min(1.0, confidence))
-
-      return confidence
+      return { confidence: Math.max(0.0, Math.min(1.0, confidence)), steps }
 
     } catch (error) {
-      return 0.0
+      return { confidence: 0.0, steps }
     }
   }
 
@@ -188,19 +230,29 @@ export abstract class BaseProvider {
    * Parse the request and extract tracking event data
    */
   async parse(request: RequestData): Promise<ExtendedProviderMatch> {
+    return this.parseDecoded(await this.decodeBody(request))
+  }
+
+  /**
+   * Parse a request whose body has already been run through decodeBody()
+   */
+  private async parseDecoded(request: RequestData): Promise<ExtendedProviderMatch> {
     const startTime = performance.now()
     const errors: string[] = []
     let confidence = 0.0
+    let explanation: MatchExplanation | undefined
 
     try {
       // Calculate confidence
-      confidence = await this.canHandle(request)
+      explanation = await this.explainDecoded(request)
+      confidence = explanation.confidence
       if (confidence === 0.0) {
         throw new Error('Request does not match this provider')
       }
 
       // Parse parameters
       const parameters = await this.parseParameters(request)
+      const encodings = await this.decodeParameters(parameters, errors)
       
       // Extract event type
       const eventType = await this.extractEventType(request, parameters)
@@ -221,17 +273,27 @@ export abstract class BaseProvider {
         parameters,
         confidence,
         timestamp: request.timestamp || Date.now(),
+        matchExplanation: explanation,
         rawData: {
           headers: request.headers,
-          body: request.body,
+          body: request.rawBody ?? request.body,
           query: request.query
         }
       }
 
+      if (request.bodyEncodings && request.bodyEncodings.length > 0) {
+        event.decodedBody = safeJsonParse(request.body || '', request.body)
+        encodings.body = request.bodyEncodings
+      }
+      if (Object.keys(encodings).length > 0) {
+        event.encodings = encodings
+      }
+
       // Apply provider-specific parsing
       await this.enrichEvent(event, request)
 
       const processingTime = performance.now() - startTime
+      const matchedPatterns = this.getMatchedPatterns(explanation)
 
       return {
         provider: this,
@@ -242,10 +304,10 @@ export abstract class BaseProvider {
         rawData: parameters,
         metadata: {
           processingTime,
-          patternMatches: [], // TODO: Track which patterns matched
+          patternMatches: matchedPatterns,
         },
         extendedMetadata: {
-          matchedPatterns: [], // TODO: Track which patterns matched
+          matchedPatterns,
           errors
         }
       }
@@ -268,6 +330,7 @@ export abstract class BaseProvider {
       }
 
       const processingTime = performance.now() - startTime
+      const matchedPatterns = this.getMatchedPatterns(explanation)
 
       return {
         provider: this,
@@ -278,63 +341,172 @@ export abstract class BaseProvider {
         rawData: {},
         metadata: {
           processingTime,
-          patternMatches: [],
+          patternMatches: matchedPatterns,
         },
         extendedMetadata: {
-          matchedPatterns: [],
+          matchedPatterns,
           errors
         }
       }
     }
   }
 
+  /**
+   * Parse every event carried by the request
+   * Batched protocols override splitRequest() so that each sub-event gets its
+   * own match; all matches share the request URL and record their batch position
+   */
+  async parseEvents(request: RequestData): Promise<ExtendedProviderMatch[]> {
+    const decodedRequest = await this.decodeBody(request)
+    const subRequests = this.splitRequest(decodedRequest)
+      // Sub-requests carrying their own slice of the body need their own form fields
+      .map(subRequest => subRequest.body === decodedRequest.body
+        ? subRequest
+        : { ...subRequest, bodyParams: parseBodyParams(subRequest.body) })
+    const matches: ExtendedProviderMatch[] = []
+
+    for (let index = 0; index < subRequests.length; index++) {
+      const match = await this.parseDecoded(subRequests[index])
+      if (subRequests.length > 1) {
+        match.event.id = `${match.event.id}-${index}`
+        match.event.batchIndex = index
+        match.event.batchSize = subRequests.length
+      }
+      matches.push(match)
+    }
+
+    return matches
+  }
+
+  /**
+   * Split a batched request into one request per event
+   * Providers for batched protocols override this; by default a request carries one event
+   */
+  protected splitRequest(request: RequestData): RequestData[] {
+    return [request]
+  }
+
+  /**
+   * Decode the request body using the provider's declared body encodings
+   * The original body is kept as rawBody; undecodable bodies are passed through unchanged.
+   * Form fields (bodyParams) are (re)parsed from the resulting body
+   */
+  protected async decodeBody(request: RequestData): Promise<RequestData> {
+    // Requests built outside the background script may not carry parsed form fields yet
+    if (request.body && !request.bodyParams) {
+      request = { ...request, bodyParams: parseBodyParams(request.body) }
+    }
+
+    const steps = this.config.parameters.bodyEncodings
+    if (!steps || steps.length === 0 || !request.body) {
+      return request
+    }
+
+    const decoded = await tryDecodePayload(request.body, steps)
+    if (decoded.error) {
+      return request
+    }
+
+    const body = typeof decoded.value === 'string' ? decoded.value : JSON.stringify(decoded.value)
+    return {
+      ...request,
+      body,
+      bodyParams: parseBodyParams(body),
+      rawBody: request.rawBody ?? request.body,
+      bodyEncodings: [...(request.bodyEncodings || []), ...steps]
+    }
+  }
+
+  /**
+   * Decode parameters declared in the provider's encodings in place
+   * Returns the steps applied per parameter; failures are reported in errors and keep the raw value
+   */
+  protected async decodeParameters(parameters: Record<string, any>, errors: string[]): Promise<Record<string, PayloadEncoding[]>> {
+    const applied: Record<string, PayloadEncoding[]> = {}
+    const declared = this.config.parameters.encodings
+    if (!declared) return applied
+
+    for (const [key, steps] of Object.entries(declared)) {
+      if (typeof parameters[key] !== 'string' || parameters[key].length === 0) continue
+
+      const decoded = await tryDecodePayload(parameters[key], steps)
+      if (decoded.error) {
+        errors.push(`Failed to decode ${key}: ${decoded.error}`)
+        continue
+      }
+
+      parameters[key] = decoded.value
+      applied[key] = steps
+    }
+
+    return applied
+  }
+
   /**
    * Match a value against an array of patterns
    */
   protected matchPatterns(value: string, patterns: (string | RegExp)[]): boolean {
+    return this.findMatchingPattern(value, patterns) !== undefined
+  }
+
+  /**
+   * Find the first pattern that matches a value
+   */
+  protected findMatchingPattern(value: string, patterns: (string | RegExp)[]): string | RegExp | undefined {
     for (const pattern of patterns) {
       if (typeof pattern === 'string') {
         // Simple wildcard matching
         if (pattern.includes('*')) {
-          const regexPattern = pattern.replace(/\*/g, '.*')
-          if (new RegExp(regexPattern, 'i').test(value)) {
-            return true
+          let regex = wildcardPatterns.get(pattern)
+          if (!regex) {
+            regex = new RegExp(pattern.replace(/\*/g, '.*'), 'i')
+            wildcardPatterns.set(pattern, regex)
+          }
+          if (regex.test(value)) {
+            return pattern
           }
         } else if (value.toLowerCase().includes(pattern.toLowerCase())) {
-          return true
+          return pattern
         }
       } else if (pattern instanceof RegExp) {
         if (pattern.test(value)) {
-          return true
+          return pattern
         }
       }
     }
-    return false
+    return undefined
   }
 
   /**
    * Score query parameter matches
    */
   protected scoreQueryPatterns(query: Record<string, string>, patterns: Record<string, string | RegExp>): number {
-    let score = 0
-    let totalPatterns = Object.keys(patterns).length
-    
+    const totalPatterns = Object.keys(patterns).length
+    return totalPatterns > 0 ? this.matchQueryPatterns(query, patterns).length / totalPatterns : 0
+  }
+
+  /**
+   * Get the query parameter keys whose values match their pattern
+   */
+  protected matchQueryPatterns(query: Record<string, string>, patterns: Record<string, string | RegExp>): string[] {
+    const matched: string[] = []
+
     for (const [key, pattern] of Object.entries(patterns)) {
       const value = query[key]
       if (value) {
         if (typeof pattern === 'string') {
           if (value.toLowerCase().includes(pattern.toLowerCase())) {
-            score += 1
+            matched.push(key)
           }
         } else if (pattern instanceof RegExp) {
           if (pattern.test(value)) {
-            score += 1
+            matched.push(key)
           }
         }
       }
     }
-    
-    return totalPatterns > 0 ? score / totalPatterns : 0
+
+    return matched
   }
 
   /**
@@ -343,16 +515,24 @@ export abstract class BaseProvider {
   protected scoreRequiredParameters(request: RequestData, required: string[]): number {
     if (required.length === 0) return 1.0
     
-    let found = 0
-    for (const param of required) {
-      if (request.query[param] || (request.body && request.body.includes(param))) {
-        found++
-      }
-    }
-    
+    const found = required.filter(param => this.hasParameter(request, param)).length
     return found / required.length
   }
 
+  /**
+   * Check whether a parameter is present in the query, form body or raw body
+   */
+  protected hasParameter(request: RequestData, param: string): boolean {
+    return Boolean(request.query[param] || request.bodyParams?.[param] || (request.body && request.body.includes(param)))
+  }
+
+  /**
+   * Collect the patterns recorded by explainMatch()
+   */
+  protected getMatchedPatterns(explanation?: MatchExplanation): string[] {
+    return explanation ? explanation.steps.flatMap(step => step.patterns || []) : []
+  }
+
   /**
    * Generate unique event ID
    */
@@ -0,0 +1,152 @@
+/**
+ * PII removal for fixtures captured from live traffic
+ *
+ * Values are masked in a format-preserving way (same length, digits stay digits) so the
+ * anonymised request still satisfies the provider's query patterns and scores the same
+ */
+
+// Parameter names (last key segment, lowercase) that carry personal data
+const PII_KEYS = new Set([
+  // Hashed or plain advanced-matching fields (Facebook, TikTok, Google enhanced conversions)
+  'em', 'ph', 'fn', 'ln', 'db', 'ge', 'ct', 'st', 'zp',
+  'first_name', 'last_name', 'firstname', 'lastname', 'address', 'street', 'city', 'zip', 'postal_code',
+  // User and device identifiers
+  'external_id', 'userid', 'user_id', 'uid', 'anonymousid', 'anonymous_id', 'cid', 'fbp', 'fbc', '_fbp', '_fbc',
+  'ttp', 'mid', 'aid', 'vid', 'fid', 'ecid', 'client_ip_address', 'ip', 'client_user_agent'
+])
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi
+const IPV4_PATTERN = /\b(?:\d{1,3}\.){3}\d{1,3}\b/g
+const HEX_PATTERN = /^[0-9a-f]+$/i
+
+/**
+ * Check whether a parameter key names personal data
+ * Nested keys are checked by their last segment (ud[em], context.traits.email)
+ */
+export function isPiiKey(key: string): boolean {
+  const leaf = key.replace(/\]$/, '').split(/[[\].]/).pop()!.toLowerCase()
+  return PII_KEYS.has(leaf) || leaf.includes('email') || leaf.includes('phone')
+}
+
+/**
+ * Replace e-mail and IPv4 addresses inside free text
+ * (documentation-reserved placeholders)
+ */
+export function scrubText(text: string): string {
+  return text
+    .replace(EMAIL_PATTERN, 'user@example.com')
+    .replace(IPV4_PATTERN, '192.0.2.1')
+}
+
+/**
+ * Mask a value while keeping its shape
+ */
+export function maskValue(value: any): any {
+  if (typeof value === 'number') {
+    return Number(String(value).replace(/\d/g, '1'))
+  }
+  if (typeof value === 'string') {
+    if (value.search(EMAIL_PATTERN) >= 0) {
+      return scrubText(value)
+    }
+    // Hashes (sha256 e-mails, visitor IDs) stay hex strings of the same length
+    return HEX_PATTERN.test(value)
+      ? '0'.repeat(value.length)
+      : value.replace(/\d/g, '0').replace(/[a-z]/g, 'x').replace(/[A-Z]/g, 'X')
+  }
+  if (Array.isArray(value)) {
+    return value.map(maskValue)
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, maskValue(item)]))
+  }
+  return value
+}
+
+/**
+ * Anonymise a decoded value: PII keys are masked, other strings are scrubbed
+ */
+export function anonymizeValue(value: any, key?: string): any {
+  if (key !== undefined && isPiiKey(key)) {
+    return maskValue(value)
+  }
+  if (typeof value === 'string') {
+    // JSON-encoded parameters (Facebook ud/cd) are anonymised structurally
+    if (/^[{[]/.test(value)) {
+      try {
+        return JSON.stringify(anonymizeValue(JSON.parse(value)))
+      } catch {
+        // Plain text starting with a bracket
+      }
+    }
+    return scrubText(value)
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => anonymizeValue(item))
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([itemKey, item]) => [itemKey, anonymizeValue(item, itemKey)]))
+  }
+  return value
+}
+
+/**
+ * Anonymise a URL's query string
+ * Untouched pairs keep their original encoding
+ */
+export function anonymizeUrl(url: string): string {
+  const queryStart = url.indexOf('?')
+  if (queryStart < 0) return url
+
+  const hashStart = url.indexOf('#', queryStart)
+  const query = url.slice(queryStart + 1, hashStart < 0 ? undefined : hashStart)
+  const hash = hashStart < 0 ? '' : url.slice(hashStart)
+  return `${url.slice(0, queryStart + 1)}${anonymizeFormData(query)}${hash}`
+}
+
+/**
+ * Anonymise a request body
+ * JSON bodies are anonymised structurally, form bodies pair by pair (one line per event
+ * for batched protocols); anything else only has e-mail and IP addresses replaced.
+ * Encoded payloads must be decoded first, see createFixtureFromEvent()
+ */
+export function anonymizeBody(body: string): string {
+  const trimmed = body.trim()
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      return JSON.stringify(anonymizeValue(JSON.parse(trimmed)))
+    } catch {
+      // Not JSON after all
+    }
+  }
+
+  if (/^[^=\s&]+=/.test(trimmed)) {
+    return body.split('\n').map(anonymizeFormData).join('\n')
+  }
+
+  return scrubText(body)
+}
+
+/**
+ * Anonymise application/x-www-form-urlencoded data
+ */
+function anonymizeFormData(data: string): string {
+  return data.split('&').map(pair => {
+    const separator = pair.indexOf('=')
+    if (separator < 0) return pair
+
+    const rawKey = pair.slice(0, separator)
+    const rawValue = pair.slice(separator + 1)
+    let key: string
+    let value: string
+    try {
+      key = decodeURIComponent(rawKey.replace(/\+/g, ' '))
+      value = decodeURIComponent(rawValue.replace(/\+/g, ' '))
+    } catch {
+      return `${rawKey}=${scrubText(rawValue)}`
+    }
+
+    const anonymized = anonymizeValue(value, key)
+    return anonymized === value ? pair : `${rawKey}=${encodeURIComponent(anonymized)}`
+  }).join('&')
+}
@@ -10,4 +10,6 @@ export * from './base-provider'
 export * from './pattern-matcher'
 export * from './request-filter'
 export * from './provider-validator'
+export * from './provider-fixture'
+export * from './fixture-anonymizer'
 export * from './parameter-group'
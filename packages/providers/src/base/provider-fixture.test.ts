@@ -0,0 +1,134 @@
+/**
+ * Tests for turning captured events into anonymised fixtures
+ */
+
+import { describe, it, expect } from 'vitest'
+import { TrackingEvent, decodeRequestBody } from '@pixeltracer/shared'
+import { BaseProvider } from './base-provider'
+import { ProviderValidator } from './provider-validator'
+import { createFixtureFromEvent, createFixtureTestCase, createFixtureBundle } from './provider-fixture'
+import { anonymizeUrl, isPiiKey } from './fixture-anonymizer'
+import { FacebookPixelProvider } from '../facebook'
+import { SegmentProvider } from '../segment'
+
+const EMAIL = 'jane.doe@example.org'
+const EMAIL_HASH = 'f1d2d2f924e986ac86fdf7b36c94bcdf32beec15f1d2d2f924e986ac86fdf7b3'
+
+/**
+ * Capture an event the way the background script stores it
+ */
+async function captureEvent(provider: BaseProvider, url: string, method = 'GET', body?: string): Promise<TrackingEvent> {
+  const request = ProviderValidator.createMockRequest(url, method, body)
+  const match = await provider.parse(request)
+  return {
+    ...match.event,
+    requestBody: body,
+    requestHeaders: { 'content-type': method === 'POST' ? 'text/plain' : 'text/html' }
+  }
+}
+
+describe('fixture anonymizer', () => {
+  it('recognises personal data keys by their last segment', () => {
+    expect(isPiiKey('ud[em]')).toBe(true)
+    expect(isPiiKey('context.traits.email')).toBe(true)
+    expect(isPiiKey('cid')).toBe(true)
+    expect(isPiiKey('ev')).toBe(false)
+    expect(isPiiKey('cd[currency]')).toBe(false)
+  })
+
+  it('masks query values without touching the rest of the URL', () => {
+    const url = `https://www.facebook.com/tr/?id=123&ev=Lead&ud[em]=${EMAIL_HASH}&dl=https%3A%2F%2Fshop.example.com%2F%3Fmail%3D${encodeURIComponent(EMAIL)}`
+    const anonymized = anonymizeUrl(url)
+
+    expect(anonymized).toContain('id=123&ev=Lead&ud[em]=' + '0'.repeat(64))
+    expect(anonymized).not.toContain(encodeURIComponent(EMAIL))
+    expect(decodeURIComponent(anonymized)).toContain('user@example.com')
+  })
+})
+
+describe('createFixtureFromEvent', () => {
+  it('produces an anonymised Facebook fixture that still validates', async () => {
+    const provider = new FacebookPixelProvider()
+    const event = await captureEvent(
+      provider,
+      `https://www.facebook.com/tr/?id=1234567890123456&ev=Lead&ud[em]=${EMAIL_HASH}&fbp=fb.1.1718000000000.987654321&dl=https%3A%2F%2Fshop.example.com%2Fcontact`
+    )
+
+    const fixture = createFixtureFromEvent(event)
+    const serialized = JSON.stringify(fixture)
+    expect(serialized).not.toContain(EMAIL_HASH)
+    expect(serialized).not.toContain('987654321')
+    expect(fixture.expected).toMatchObject({ eventType: 'Lead', accountId: '1234567890123456' })
+    expect(fixture.expected.parameters).not.toHaveProperty('fbp')
+    expect(fixture.expected.parameters).toHaveProperty('dl', 'https://shop.example.com/contact')
+
+    const report = await new ProviderValidator().validate(provider, [createFixtureTestCase(fixture)])
+    expect(report.testResults[0].errors).toEqual([])
+  })
+
+  it('anonymises JSON bodies structurally', async () => {
+    const provider = new SegmentProvider()
+    const body = JSON.stringify({
+      type: 'identify',
+      userId: 'user-42',
+      traits: { email: EMAIL, plan: 'pro' },
+      context: { ip: '203.0.113.7' },
+      messageId: 'ajs-1',
+      writeKey: 'AbCdEfGhIjKlMnOpQrStUvWxYz012345'
+    })
+    const event = await captureEvent(provider, 'https://api.segment.io/v1/i', 'POST', body)
+
+    const fixture = createFixtureFromEvent(event)
+    const anonymizedBody = JSON.parse(fixture.request.body!)
+    expect(anonymizedBody.userId).toBe('xxxx-00')
+    expect(anonymizedBody.traits).toEqual({ email: 'user@example.com', plan: 'pro' })
+    expect(anonymizedBody.context.ip).toBe('000.0.000.0')
+    expect(fixture.request.headers).toEqual({ 'Content-Type': 'text/plain' })
+    expect(fixture.expected).toMatchObject({ eventType: 'identify', accountId: 'AbCdEfGhIjKlMnOpQrStUvWxYz012345' })
+
+    const report = await new ProviderValidator().validate(provider, [createFixtureTestCase(fixture)])
+    expect(report.testResults[0].errors).toEqual([])
+  })
+
+  it('anonymises compressed bodies after decoding them', async () => {
+    const provider = new SegmentProvider()
+    const body = JSON.stringify({
+      type: 'identify',
+      userId: 'user-42',
+      traits: { email: EMAIL, phone: '+15550100' },
+      messageId: 'ajs-2',
+      writeKey: 'AbCdEfGhIjKlMnOpQrStUvWxYz012345'
+    })
+    // Captured like the background script does: gzip bytes decoded, raw bytes kept as base64
+    const gzipped = new Uint8Array(await new Response(new Response(body).body!.pipeThrough(new CompressionStream('gzip'))).arrayBuffer())
+    const decoded = await decodeRequestBody(gzipped)
+    const request = ProviderValidator.createMockRequest('https://api.segment.io/v1/i', 'POST', decoded.body)
+    const match = await provider.parse({ ...request, rawBody: decoded.rawBody, bodyEncodings: decoded.encodings })
+    const event: TrackingEvent = { ...match.event, requestBody: decoded.rawBody }
+    expect(event.encodings?.body).toEqual(['base64', 'gzip'])
+
+    const fixture = createFixtureFromEvent(event)
+    const serialized = JSON.stringify(fixture)
+    expect(serialized).not.toContain(decoded.rawBody!)
+    expect(serialized).not.toContain('user-42')
+    expect(serialized).not.toContain('5550100')
+    expect(JSON.parse(fixture.request.body!).traits).toEqual({ email: 'user@example.com', phone: '+00000000' })
+
+    const report = await new ProviderValidator().validate(provider, [createFixtureTestCase(fixture)])
+    expect(report.testResults[0].errors).toEqual([])
+  })
+
+  it('bundles fixtures per provider', () => {
+    const fixture = { name: 'a', request: { url: 'https://example.com' }, expected: {} }
+    const bundle = createFixtureBundle([
+      { provider: 'segment', fixture },
+      { provider: 'facebook-pixel', fixture },
+      { provider: 'segment', fixture: { ...fixture, name: 'b' } }
+    ])
+
+    expect(bundle.map(file => [file.provider, file.fixtures.map(item => item.name)])).toEqual([
+      ['segment', ['a', 'b']],
+      ['facebook-pixel', ['a']]
+    ])
+  })
+})
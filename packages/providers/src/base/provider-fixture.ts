@@ -0,0 +1,158 @@
+import { TrackingEvent } from '@pixeltracer/shared'
+import { ProviderValidator, ValidationTestCase } from './provider-validator'
+import { anonymizeBody, anonymizeUrl, anonymizeValue } from './fixture-anonymizer'
+
+/**
+ * Captured tracking request with the result a provider is expected to produce
+ *
+ * Fixtures are stored as JSON next to the provider they cover
+ * (e.g. facebook/fixtures/facebook-pixel.json) and run through ProviderValidator
+ */
+export interface ProviderFixture {
+  /** Unique name within the provider's fixture file */
+  name: string
+  /** What the hit represents */
+  description?: string
+  /** Where the hit was captured (site, SDK version, documentation page) */
+  source?: string
+  /** Captured request */
+  request: {
+    url: string
+    /** Defaults to GET */
+    method?: string
+    /** Request body as sent by the browser; base64 / compressed bodies are stored decoded */
+    body?: string
+    /** Request headers; Content-Type defaults to the one ProviderValidator.createMockRequest uses */
+    headers?: Record<string, string>
+  }
+  /** Expected parse result */
+  expected: {
+    /** Defaults to true; set to false for lookalike requests the provider must ignore */
+    shouldHandle?: boolean
+    minConfidence?: number
+    eventType?: string
+    accountId?: string
+    /** Parameter values that must be parsed exactly (null only checks presence) */
+    parameters?: Record<string, any>
+    /** Position of the event within a batched request */
+    batchIndex?: number
+  }
+}
+
+/**
+ * Fixture file contents
+ */
+export interface ProviderFixtureFile {
+  /** Provider ID the fixtures belong to */
+  provider: string
+  fixtures: ProviderFixture[]
+}
+
+/**
+ * Fixture captured from live traffic, waiting to be exported
+ */
+export interface CapturedFixture {
+  provider: string
+  fixture: ProviderFixture
+}
+
+/**
+ * Convert a fixture into a validator test case
+ * Parameter values are compared exactly so parsing regressions fail instead of warning
+ */
+export function createFixtureTestCase(fixture: ProviderFixture): ValidationTestCase {
+  const method = fixture.request.method || 'GET'
+  const request = ProviderValidator.createMockRequest(fixture.request.url, method, fixture.request.body)
+  if (fixture.request.headers) {
+    request.headers = { ...request.headers, ...fixture.request.headers }
+  }
+
+  return {
+    name: fixture.name,
+    description: fixture.description || fixture.name,
+    request,
+    expected: {
+      shouldHandle: fixture.expected.shouldHandle ?? true,
+      minConfidence: fixture.expected.minConfidence,
+      eventType: fixture.expected.eventType,
+      accountId: fixture.expected.accountId,
+      parameters: fixture.expected.parameters,
+      exactParameters: true,
+      batchIndex: fixture.expected.batchIndex
+    }
+  }
+}
+
+/**
+ * Turn a captured event into a fixture, removing personal data
+ *
+ * The request is rebuilt from the event (URL, method, body, Content-Type) and
+ * anonymised; the current parse result becomes the expectation. Parameters changed by
+ * anonymisation are left out of the expectation since they would no longer parse the same
+ */
+export function createFixtureFromEvent(event: TrackingEvent): ProviderFixture {
+  const contentType = Object.entries(event.requestHeaders || {})
+    .find(([name]) => name.toLowerCase() === 'content-type')?.[1]
+
+  const parameters: Record<string, any> = {}
+  for (const [key, value] of Object.entries(event.parameters || {})) {
+    if (value === undefined) continue
+    if (JSON.stringify(anonymizeValue(value, key)) === JSON.stringify(value)) {
+      parameters[key] = value
+    }
+  }
+
+  const captured = new Date(event.timestamp)
+  return {
+    name: `${slugify(event.eventType || 'event')}-${captured.getTime().toString(36)}`,
+    description: `${event.eventType || 'Event'} captured from live traffic`,
+    source: `Captured ${captured.toISOString()}`,
+    request: {
+      url: anonymizeUrl(event.url),
+      method: event.method,
+      body: createFixtureBody(event),
+      headers: contentType ? { 'Content-Type': contentType } : undefined
+    },
+    expected: {
+      eventType: event.eventType,
+      accountId: event.accountId !== undefined ? String(event.accountId) : undefined,
+      parameters: Object.keys(parameters).length > 0 ? parameters : undefined,
+      batchIndex: event.batchSize && event.batchSize > 1 ? event.batchIndex : undefined
+    }
+  }
+}
+
+/**
+ * Group fixtures into one file per provider, ready to be dropped into <provider>/fixtures/
+ */
+export function createFixtureBundle(fixtures: CapturedFixture[]): ProviderFixtureFile[] {
+  const files = new Map<string, ProviderFixtureFile>()
+  for (const { provider, fixture } of fixtures) {
+    if (!files.has(provider)) {
+      files.set(provider, { provider, fixtures: [] })
+    }
+    files.get(provider)!.fixtures.push(fixture)
+  }
+  return Array.from(files.values())
+}
+
+/**
+ * Anonymised body of a captured event
+ * Encoded bodies are written decoded: personal data inside the payload can only be found
+ * there, and the decoded body is what the provider parsed, so the fixture replays the same
+ */
+function createFixtureBody(event: TrackingEvent): string | undefined {
+  if (!event.requestBody) return undefined
+  if (!event.encodings?.body || event.encodings.body.length === 0) {
+    return anonymizeBody(event.requestBody)
+  }
+
+  if (event.decodedBody === undefined) {
+    throw new Error('Cannot create a fixture from an encoded body without its decoded form')
+  }
+  return anonymizeBody(typeof event.decodedBody === 'string' ? event.decodedBody : JSON.stringify(event.decodedBody))
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'event'
+}
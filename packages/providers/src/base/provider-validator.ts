@@ -21,8 +21,14 @@ export interface ValidationTestCase {
     maxConfidence?: number
     /** Expected event type */
     eventType?: string
+    /** Expected account ID */
+    accountId?: string
     /** Expected parameters */
     parameters?: Record<string, any>
+    /** Fail instead of warn when a parameter value differs */
+    exactParameters?: boolean
+    /** Validate the event at this position of a batched request (parsed with parseEvents) */
+    batchIndex?: number
   }
 }
 
@@ -141,21 +147,41 @@ export class ProviderValidator {
       // If provider should handle request, test parsing
       if (testCase.expected.shouldHandle && confidence > 0) {
         try {
-          actualResult = await provider.parse(testCase.request)
+          const batchIndex = testCase.expected.batchIndex
+          if (batchIndex !== undefined) {
+            const events = await provider.parseEvents(testCase.request)
+            if (batchIndex >= events.length) {
+              throw new Error(`Request carries ${events.length} events, expected one at batch index ${batchIndex}`)
+            }
+            actualResult = events[batchIndex]
+          } else {
+            actualResult = await provider.parse(testCase.request)
+          }
           
           // Validate event type
           if (testCase.expected.eventType && actualResult.event.eventType !== testCase.expected.eventType) {
             errors.push(`Expected event type '${testCase.expected.eventType}', got '${actualResult.event.eventType}'`)
           }
 
+          // Validate account ID
+          // Providers may parse numeric IDs (pixel IDs) into numbers
+          if (testCase.expected.accountId && String(actualResult.event.accountId) !== testCase.expected.accountId) {
+            errors.push(`Expected account ID '${testCase.expected.accountId}', got '${actualResult.event.accountId}'`)
+          }
+
           // Validate parameters
           if (testCase.expected.parameters) {
             for (const [key, expectedValue] of Object.entries(testCase.expected.parameters)) {
               const actualValue = actualResult.event.parameters[key]
               if (actualValue === undefined) {
                 errors.push(`Missing expected parameter: ${key}`)
-              } else if (expectedValue !== null && actualValue !== expectedValue) {
-                warnings.push(`Parameter ${key}: expected ${expectedValue}, got ${actualValue}`)
+              } else if (expectedValue !== null && !this.valuesEqual(actualValue, expectedValue)) {
+                const message = `Parameter ${key}: expected ${JSON.stringify(expectedValue)}, got ${JSON.stringify(actualValue)}`
+                if (testCase.expected.exactParameters) {
+                  errors.push(message)
+                } else {
+                  warnings.push(message)
+                }
               }
             }
           }
@@ -184,6 +210,17 @@ export class ProviderValidator {
     }
   }
 
+  /**
+   * Compare a parsed parameter value with an expected one
+   * Objects and arrays (decoded JSON payloads) are compared structurally
+   */
+  private valuesEqual(actual: any, expected: any): boolean {
+    if (typeof expected === 'object' && expected !== null) {
+      return JSON.stringify(actual) === JSON.stringify(expected)
+    }
+    return actual === expected
+  }
+
   /**
    * Validate provider configuration
    */
@@ -331,6 +368,30 @@ export class ProviderValidator {
     }
   }
 
+  /**
+   * Format the pass rate of several reports as a table, one line per provider
+   */
+  static formatSummary(reports: ValidationReport[]): string {
+    const width = Math.max(8, ...reports.map(report => report.provider.getId().length))
+    const formatLine = (status: string, label: string, passed: number, total: number) => {
+      const rate = total > 0 ? Math.round(passed / total * 100) : 0
+      return `${status} ${label.padEnd(width)}  ${passed}/${total} passed  ${String(rate).padStart(3)}%`
+    }
+
+    const lines = reports.map(report => formatLine(
+      report.failedTests > 0 || report.overallErrors.length > 0 ? '❌' : '✅',
+      report.provider.getId(),
+      report.passedTests,
+      report.totalTests
+    ))
+
+    const total = reports.reduce((sum, report) => sum + report.totalTests, 0)
+    const passed = reports.reduce((sum, report) => sum + report.passedTests, 0)
+    lines.push(formatLine('  ', 'total', passed, total))
+
+    return lines.join('\n')
+  }
+
   /**
    * Format validation report as human-readable text
    */
@@ -28,6 +28,31 @@ export interface FilterConfig {
   customFilters?: ((request: RequestData) => boolean)[]
 }
 
+/**
+ * User-editable subset of FilterConfig that can be stored as JSON
+ * URL and domain entries use the same wildcard syntax as FilterConfig strings
+ */
+export interface RequestFilterSettings {
+  /** Apply the filter before provider analysis */
+  enabled: boolean
+  /** Only analyze these methods (empty = all methods) */
+  methods: NonNullable<FilterConfig['methods']>
+  /** Ignore URLs matching these patterns (e.g. "*api.example.com/*") */
+  excludeUrls: string[]
+  /** Ignore requests to these domains */
+  excludeDomains: string[]
+  /** Only analyze requests to these domains (empty = all domains) */
+  includeDomains: string[]
+}
+
+export const DEFAULT_REQUEST_FILTER_SETTINGS: RequestFilterSettings = {
+  enabled: false,
+  methods: [],
+  excludeUrls: [],
+  excludeDomains: [],
+  includeDomains: []
+}
+
 /**
  * Request filtering statistics
  */
@@ -108,13 +133,13 @@ export class RequestFilter {
 
       // URL include/exclude filters
       if (this.config.includeUrls && this.config.includeUrls.length > 0) {
-        if (!this.matchesPatterns(request.url, this.config.includeUrls)) {
+        if (!this.matchesPatterns(request.url, this.config.includeUrls, 'includeUrls')) {
           blockReasons.push('url-not-included')
         }
       }
 
       if (this.config.excludeUrls && this.config.excludeUrls.length > 0) {
-        if (this.matchesPatterns(request.url, this.config.excludeUrls)) {
+        if (this.matchesPatterns(request.url, this.config.excludeUrls, 'excludeUrls')) {
           blockReasons.push('url-excluded')
         }
       }
@@ -123,13 +148,13 @@ export class RequestFilter {
       const domain = this.extractDomain(request.url)
       if (domain) {
         if (this.config.includeDomains && this.config.includeDomains.length > 0) {
-          if (!this.matchesPatterns(domain, this.config.includeDomains)) {
+          if (!this.matchesPatterns(domain, this.config.includeDomains, 'includeDomains')) {
             blockReasons.push('domain-not-included')
           }
         }
 
         if (this.config.excludeDomains && this.config.excludeDomains.length > 0) {
-          if (this.matchesPatterns(domain, this.config.excludeDomains)) {
+          if (this.matchesPatterns(domain, this.config.excludeDomains, 'excludeDomains')) {
             blockReasons.push('domain-excluded')
           }
         }
@@ -299,6 +324,20 @@ export class RequestFilter {
     }
   }
 
+  /**
+   * Create a filter configuration from stored settings
+   * Empty lists leave the corresponding filter off
+   */
+  static fromSettings(settings: RequestFilterSettings): FilterConfig {
+    const list = <T>(values: T[] | undefined) => (values && values.length > 0 ? values : undefined)
+    return {
+      methods: list(settings.methods),
+      excludeUrls: list(settings.excludeUrls),
+      excludeDomains: list(settings.excludeDomains),
+      includeDomains: list(settings.includeDomains)
+    }
+  }
+
   static createStrictFilter(): FilterConfig {
     return {
       methods: ['GET', 'POST'],
@@ -319,10 +358,11 @@ export class RequestFilter {
 
   /**
    * Check if a string matches any of the given patterns
+   * list names the configured pattern list, so include and exclude results are cached separately
    */
-  private matchesPatterns(value: string, patterns: (string | RegExp)[]): boolean {
+  private matchesPatterns(value: string, patterns: (string | RegExp)[], list: string): boolean {
     // Use cache for URL patterns
-    const cacheKey = `${value}:${patterns.length}`
+    const cacheKey = `${list}:${value}`
     if (this.urlCache.has(cacheKey)) {
       return this.urlCache.get(cacheKey)!
     }
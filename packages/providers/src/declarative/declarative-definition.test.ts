@@ -0,0 +1,46 @@
+/**
+ * Tests for declarative provider definition files
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseProviderDefinition } from './declarative-definition'
+import { DeclarativeProvider } from './declarative-provider'
+
+const YAML_DEFINITION = `
+# Acme pixel, collected from px.acme.io
+id: acme-pixel
+name: Acme Pixel
+category: advertising
+match:
+  urlPatterns:
+    - /\\/acme\\/collect/
+  domains: [px.acme.io]
+  required: [pid]
+eventType:
+  - param: ev
+  - value: page_view
+accountId:
+  param: pid
+dictionary:
+  - key: ev
+    name: Event
+    group: event
+`
+
+describe('parseProviderDefinition', () => {
+  it('reads YAML definitions', () => {
+    const definition = parseProviderDefinition(YAML_DEFINITION)
+
+    expect(definition).toEqual(parseProviderDefinition(JSON.stringify(definition)))
+    expect(definition.match.urlPatterns).toEqual(['/\\/acme\\/collect/'])
+    expect(definition.match.domains).toEqual(['px.acme.io'])
+    expect(definition.eventType).toEqual([{ param: 'ev' }, { value: 'page_view' }])
+    expect(DeclarativeProvider.fromJSON(YAML_DEFINITION).getId()).toBe('acme-pixel')
+  })
+
+  it('reports syntax and validation errors', () => {
+    expect(() => parseProviderDefinition('id: acme\nmatch: [unclosed')).toThrow(/^Invalid provider definition YAML:/)
+    expect(() => parseProviderDefinition('{ "id": "acme",')).toThrow(/^Invalid provider definition JSON:/)
+    expect(() => parseProviderDefinition('id: acme\nname: Acme\nmatch:\n  urlPatterns: []')).toThrow(/urlPatterns/)
+  })
+})
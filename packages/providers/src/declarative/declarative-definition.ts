@@ -0,0 +1,308 @@
+import { parse as parseYaml } from 'yaml'
+import { PayloadEncoding } from '@pixeltracer/shared'
+import { ProviderConfig } from '../base/base-provider'
+import { ParameterDefinition } from '../base/parameter-groups'
+
+/**
+ * Pattern written as a string: "/regex/flags" is compiled to a RegExp,
+ * anything else is a wildcard pattern ("*.example.com/collect*")
+ */
+export type DeclarativePattern = string
+
+/**
+ * Rule for pulling a value (event type, account ID) out of a request
+ * Sources are tried in order: param, path, url, value
+ */
+export interface DeclarativeExtractionRule {
+  /** Parameter key, dot-separated for nested values (e.g. "data.event") */
+  param?: string
+  /** Regex run against the URL path; the first capture group is used */
+  path?: string
+  /** Regex run against the full URL; the first capture group is used */
+  url?: string
+  /** Constant value */
+  value?: string
+  /** Map extracted values to friendly names (e.g. { "pv": "page_view" }) */
+  map?: Record<string, string>
+}
+
+/**
+ * Parameter dictionary entry
+ * Keys support wildcards ("custom_*") like the built-in groupers
+ */
+export interface DeclarativeParameter {
+  key: string
+  name: string
+  /** Group id: a built-in group (event, user, product, custom, context, technical) or one declared in groups */
+  group?: string
+  description?: string
+  type?: ParameterDefinition['type']
+  format?: ParameterDefinition['format']
+}
+
+/**
+ * Custom parameter group
+ */
+export interface DeclarativeGroup {
+  name: string
+  description?: string
+  icon?: string
+  priority?: number
+}
+
+/**
+ * Provider definition as loaded from a JSON or YAML file
+ *
+ * Example:
+ * {
+ *   "id": "acme-pixel",
+ *   "name": "Acme Pixel",
+ *   "match": { "urlPatterns": ["/\\/acme\\/collect/"], "domains": ["px.acme.io"] },
+ *   "eventType": [{ "param": "ev" }, { "value": "page_view" }],
+ *   "accountId": { "param": "pid" },
+ *   "dictionary": [{ "key": "ev", "name": "Event", "group": "event" }]
+ * }
+ */
+export interface DeclarativeProviderDefinition {
+  id: string
+  name: string
+  version?: string
+  description?: string
+  website?: string
+  icon?: string
+  category?: ProviderConfig['category']
+  /** Request matching */
+  match: {
+    urlPatterns: DeclarativePattern[]
+    domains?: DeclarativePattern[]
+    paths?: DeclarativePattern[]
+    methods?: ProviderConfig['patterns']['methods']
+    queryPatterns?: Record<string, DeclarativePattern>
+    /** Parameters that must be present (scored like built-in providers) */
+    required?: string[]
+  }
+  /** Parameter parsing */
+  parameters?: {
+    /** Where parameters are read from (default: all three) */
+    sources?: ('query' | 'form' | 'json')[]
+    /** Canonical name -> alternative names */
+    aliases?: Record<string, string[]>
+    /** Value conversions applied after reading */
+    types?: Record<string, 'string' | 'number' | 'boolean' | 'json'>
+    /** Encoded parameters and their decoding steps, e.g. { "data": ["base64", "json"] } */
+    encodings?: Record<string, PayloadEncoding[]>
+    /** Decoding steps for the whole request body */
+    bodyEncodings?: PayloadEncoding[]
+  }
+  /** Event type extraction, first rule that yields a value wins */
+  eventType?: DeclarativeExtractionRule | DeclarativeExtractionRule[]
+  /** Account ID extraction, first rule that yields a value wins */
+  accountId?: DeclarativeExtractionRule | DeclarativeExtractionRule[]
+  /** Parameter display names and group assignments */
+  dictionary?: DeclarativeParameter[]
+  /** Additional parameter groups, keyed by group id */
+  groups?: Record<string, DeclarativeGroup>
+}
+
+/**
+ * User-defined provider as persisted by the extension
+ */
+export interface CustomProviderRecord {
+  definition: DeclarativeProviderDefinition
+  enabled: boolean
+  updatedAt: number
+}
+
+const CATEGORIES: ProviderConfig['category'][] = ['advertising', 'analytics', 'social', 'marketing', 'other']
+const METHODS = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH']
+const ENCODINGS: PayloadEncoding[] = [
+  'base64', 'base64url', 'gzip', 'deflate', 'deflate-raw',
+  'lz-string-base64', 'lz-string-uri', 'lz-string-utf16', 'url-encoded', 'json'
+]
+const BUILT_IN_GROUPS = ['event', 'user', 'product', 'custom', 'context', 'technical']
+
+/**
+ * Compile a declarative pattern
+ */
+export function compileDeclarativePattern(pattern: DeclarativePattern): string | RegExp {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/)
+  return regex ? new RegExp(regex[1], regex[2]) : pattern
+}
+
+/**
+ * Check a provider definition
+ * Returns a list of problems; an empty list means the definition can be loaded
+ */
+export function validateProviderDefinition(definition: any): string[] {
+  const errors: string[] = []
+
+  if (!definition || typeof definition !== 'object' || Array.isArray(definition)) {
+    return ['Definition must be an object']
+  }
+
+  if (typeof definition.id !== 'string' || !/^[a-z0-9][a-z0-9-_]*$/i.test(definition.id)) {
+    errors.push('id must be a non-empty string of letters, digits, "-" or "_"')
+  }
+  if (typeof definition.name !== 'string' || definition.name.trim() === '') {
+    errors.push('name must be a non-empty string')
+  }
+  if (definition.category !== undefined && !CATEGORIES.includes(definition.category)) {
+    errors.push(`category must be one of ${CATEGORIES.join(', ')}`)
+  }
+
+  const match = definition.match
+  if (!match || typeof match !== 'object') {
+    errors.push('match is required')
+  } else {
+    if (!Array.isArray(match.urlPatterns) || match.urlPatterns.length === 0) {
+      errors.push('match.urlPatterns must list at least one pattern')
+    }
+    for (const field of ['urlPatterns', 'domains', 'paths'] as const) {
+      if (match[field] === undefined) continue
+      if (!Array.isArray(match[field])) {
+        errors.push(`match.${field} must be an array`)
+        continue
+      }
+      match[field].forEach((pattern: any, index: number) => {
+        errors.push(...checkPattern(pattern, `match.${field}[${index}]`))
+      })
+    }
+    if (match.queryPatterns !== undefined) {
+      for (const [key, pattern] of Object.entries(match.queryPatterns)) {
+        errors.push(...checkPattern(pattern, `match.queryPatterns.${key}`))
+      }
+    }
+    if (match.methods !== undefined && (!Array.isArray(match.methods) || match.methods.some((method: any) => !METHODS.includes(method)))) {
+      errors.push(`match.methods may only contain ${METHODS.join(', ')}`)
+    }
+    if (match.required !== undefined && !isStringArray(match.required)) {
+      errors.push('match.required must be an array of strings')
+    }
+  }
+
+  const parameters = definition.parameters
+  if (parameters !== undefined) {
+    if (parameters.sources !== undefined && (!Array.isArray(parameters.sources) || parameters.sources.some((source: any) => !['query', 'form', 'json'].includes(source)))) {
+      errors.push('parameters.sources may only contain query, form, json')
+    }
+    for (const [key, aliases] of Object.entries(parameters.aliases || {})) {
+      if (!isStringArray(aliases)) {
+        errors.push(`parameters.aliases.${key} must be an array of strings`)
+      }
+    }
+    for (const [key, type] of Object.entries(parameters.types || {})) {
+      if (!['string', 'number', 'boolean', 'json'].includes(type as string)) {
+        errors.push(`parameters.types.${key} must be string, number, boolean or json`)
+      }
+    }
+    for (const [key, steps] of Object.entries(parameters.encodings || {})) {
+      errors.push(...checkEncodings(steps, `parameters.encodings.${key}`))
+    }
+    if (parameters.bodyEncodings !== undefined) {
+      errors.push(...checkEncodings(parameters.bodyEncodings, 'parameters.bodyEncodings'))
+    }
+  }
+
+  for (const field of ['eventType', 'accountId'] as const) {
+    if (definition[field] === undefined) continue
+    const rules = Array.isArray(definition[field]) ? definition[field] : [definition[field]]
+    rules.forEach((rule: any, index: number) => {
+      const label = `${field}[${index}]`
+      if (!rule || typeof rule !== 'object') {
+        errors.push(`${label} must be an object`)
+        return
+      }
+      if (rule.param === undefined && rule.path === undefined && rule.url === undefined && rule.value === undefined) {
+        errors.push(`${label} needs one of param, path, url or value`)
+      }
+      for (const regexField of ['path', 'url'] as const) {
+        if (rule[regexField] !== undefined && !isValidRegex(rule[regexField])) {
+          errors.push(`${label}.${regexField} is not a valid regular expression`)
+        }
+      }
+    })
+  }
+
+  const groupIds = [...BUILT_IN_GROUPS, ...Object.keys(definition.groups || {})]
+  if (definition.dictionary !== undefined) {
+    if (!Array.isArray(definition.dictionary)) {
+      errors.push('dictionary must be an array')
+    } else {
+      definition.dictionary.forEach((entry: any, index: number) => {
+        if (!entry || typeof entry.key !== 'string' || typeof entry.name !== 'string') {
+          errors.push(`dictionary[${index}] needs a key and a name`)
+        } else if (entry.group !== undefined && !groupIds.includes(entry.group)) {
+          errors.push(`dictionary[${index}].group "${entry.group}" is not a known group`)
+        }
+      })
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Read definition text without validating it
+ * Text starting with "{" is read as JSON, anything else as YAML
+ */
+export function parseDefinitionSource(source: string): any {
+  const isJson = source.trim().startsWith('{')
+  try {
+    return isJson ? JSON.parse(source) : parseYaml(source)
+  } catch (error) {
+    throw new Error(`Invalid provider definition ${isJson ? 'JSON' : 'YAML'}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+/**
+ * Parse and validate a JSON or YAML provider definition
+ */
+export function parseProviderDefinition(source: string): DeclarativeProviderDefinition {
+  const definition = parseDefinitionSource(source)
+
+  const errors = validateProviderDefinition(definition)
+  if (errors.length > 0) {
+    throw new Error(`Invalid provider definition: ${errors.join('; ')}`)
+  }
+
+  return definition
+}
+
+/**
+ * Check a single pattern string
+ */
+function checkPattern(pattern: any, label: string): string[] {
+  if (typeof pattern !== 'string' || pattern === '') {
+    return [`${label} must be a non-empty string`]
+  }
+  try {
+    compileDeclarativePattern(pattern)
+    return []
+  } catch {
+    return [`${label} is not a valid regular expression`]
+  }
+}
+
+/**
+ * Check a list of decoding steps
+ */
+function checkEncodings(steps: any, label: string): string[] {
+  if (!Array.isArray(steps) || steps.some(step => !ENCODINGS.includes(step))) {
+    return [`${label} may only contain ${ENCODINGS.join(', ')}`]
+  }
+  return []
+}
+
+function isStringArray(value: any): boolean {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+function isValidRegex(value: any): boolean {
+  if (typeof value !== 'string') return false
+  try {
+    new RegExp(value)
+    return true
+  } catch {
+    return false
+  }
+}
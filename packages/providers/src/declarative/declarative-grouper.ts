@@ -0,0 +1,59 @@
+import { ParameterGrouper, ParameterDefinition, ParameterGroup, COMMON_GROUPS } from '../base/parameter-groups'
+import { DeclarativeProviderDefinition } from './declarative-definition'
+
+export class DeclarativeParameterGrouper extends ParameterGrouper {
+  protected groups: { [key: string]: ParameterGroup }
+  protected parameterDefinitions: ParameterDefinition[]
+
+  constructor(definition: DeclarativeProviderDefinition) {
+    super()
+
+    this.groups = {
+      event: COMMON_GROUPS.event,
+      user: COMMON_GROUPS.user,
+      product: COMMON_GROUPS.product,
+      custom: COMMON_GROUPS.custom,
+      context: COMMON_GROUPS.context,
+      technical: COMMON_GROUPS.technical
+    }
+    for (const [id, group] of Object.entries(definition.groups || {})) {
+      this.groups[id] = {
+        id,
+        name: group.name,
+        description: group.description,
+        icon: group.icon || 'custom',
+        priority: group.priority ?? COMMON_GROUPS.custom.priority
+      }
+    }
+
+    this.parameterDefinitions = (definition.dictionary || []).map(entry => ({
+      key: entry.key,
+      displayName: entry.name,
+      group: entry.group || 'custom',
+      description: entry.description,
+      type: entry.type,
+      format: entry.format
+    }))
+  }
+
+  /**
+   * Get display name for a parameter key
+   */
+  getDisplayName(key: string): string {
+    return this.findDefinition(key)?.displayName || this.humanizeKey(key)
+  }
+
+  /**
+   * Get description for a parameter key
+   */
+  getDescription(key: string): string | undefined {
+    return this.findDefinition(key)?.description
+  }
+
+  /**
+   * Get format hint for a parameter key
+   */
+  getFormat(key: string): ParameterDefinition['format'] | undefined {
+    return this.findDefinition(key)?.format
+  }
+}
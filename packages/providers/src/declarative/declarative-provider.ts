@@ -0,0 +1,272 @@
+import { BaseProvider, ProviderConfig } from '../base/base-provider'
+import { TrackingEvent, RequestData, safeJsonParse } from '@pixeltracer/shared'
+import { ParameterGroup, GroupedParameter, ParameterGroupingProvider } from '../base/parameter-group'
+import { DeclarativeParameterGrouper } from './declarative-grouper'
+import {
+  DeclarativeProviderDefinition,
+  DeclarativeExtractionRule,
+  compileDeclarativePattern,
+  parseProviderDefinition,
+  validateProviderDefinition
+} from './declarative-definition'
+
+/**
+ * Provider built from a declarative definition instead of a hand-written class
+ *
+ * Covers the common pixel shape: match on URL / domain / path, read parameters from
+ * the query string, form body or JSON body, and pull the event type and account ID
+ * from parameters or URL segments. Vendors with custom payload logic still need a class.
+ */
+export class DeclarativeProvider extends BaseProvider implements ParameterGroupingProvider {
+  private definition: DeclarativeProviderDefinition
+  private grouper: DeclarativeParameterGrouper
+
+  constructor(definition: DeclarativeProviderDefinition) {
+    const errors = validateProviderDefinition(definition)
+    if (errors.length > 0) {
+      throw new Error(`Invalid provider definition: ${errors.join('; ')}`)
+    }
+
+    const { match, parameters = {} } = definition
+    const config: ProviderConfig = {
+      id: definition.id,
+      name: definition.name,
+      version: definition.version || '1.0.0',
+      description: definition.description || `${definition.name} (declarative definition)`,
+      website: definition.website,
+      icon: definition.icon,
+      category: definition.category || 'other',
+
+      patterns: {
+        urlPatterns: match.urlPatterns.map(compileDeclarativePattern),
+        domains: match.domains?.map(compileDeclarativePattern),
+        paths: match.paths?.map(compileDeclarativePattern),
+        methods: match.methods,
+        queryPatterns: match.queryPatterns
+          ? Object.fromEntries(Object.entries(match.queryPatterns).map(([key, pattern]) => [key, compileDeclarativePattern(pattern)]))
+          : undefined
+      },
+
+      parameters: {
+        required: match.required,
+        aliases: parameters.aliases,
+        parsers: parameters.types
+          ? Object.fromEntries(Object.entries(parameters.types).map(([key, type]) => [key, (value: string) => convertValue(value, type)]))
+          : undefined,
+        encodings: parameters.encodings,
+        bodyEncodings: parameters.bodyEncodings
+      }
+    }
+
+    super(config)
+    this.definition = definition
+    this.grouper = new DeclarativeParameterGrouper(definition)
+  }
+
+  /**
+   * Create a provider from JSON or YAML definition text
+   */
+  static fromJSON(source: string): DeclarativeProvider {
+    return new DeclarativeProvider(parseProviderDefinition(source))
+  }
+
+  /**
+   * Get the definition this provider was built from
+   */
+  getDefinition(): DeclarativeProviderDefinition {
+    return this.definition
+  }
+
+  /**
+   * Declarative providers rely on pattern scoring only
+   */
+  protected async calculateCustomConfidence(_request: RequestData): Promise<number> {
+    return 0
+  }
+
+  /**
+   * Read parameters from the configured sources
+   */
+  protected async parseParameters(request: RequestData): Promise<Record<string, any>> {
+    const sources = this.definition.parameters?.sources || ['query', 'form', 'json']
+    const fields: Record<string, any> = {}
+
+    if (sources.includes('query')) {
+      Object.assign(fields, request.query)
+    }
+    if (sources.includes('form') && request.bodyParams) {
+      Object.assign(fields, request.bodyParams)
+    }
+    if (sources.includes('json') && request.body && !request.bodyParams) {
+      const body = safeJsonParse(request.body)
+      if (body && typeof body === 'object' && !Array.isArray(body)) {
+        Object.assign(fields, body)
+      }
+    }
+
+    const parameters: Record<string, any> = {}
+    for (const [key, value] of Object.entries(fields)) {
+      const parser = this.config.parameters.parsers?.[key]
+      parameters[key] = parser && typeof value === 'string' ? parser(value) : value
+    }
+
+    this.applyParameterAliases(parameters)
+
+    return parameters
+  }
+
+  /**
+   * Extract event type using the definition's rules
+   */
+  protected async extractEventType(request: RequestData, parameters: Record<string, any>): Promise<string | null> {
+    return this.applyRules(this.definition.eventType, request, parameters)
+  }
+
+  /**
+   * Extract account ID using the definition's rules
+   */
+  protected async extractAccountId(request: RequestData, parameters: Record<string, any>): Promise<string | null> {
+    return this.applyRules(this.definition.accountId, request, parameters)
+  }
+
+  /**
+   * Record which definition produced the event
+   */
+  protected async enrichEvent(event: TrackingEvent, _request: RequestData): Promise<void> {
+    event.rawData = {
+      ...event.rawData,
+      declarative: {
+        definitionId: this.definition.id,
+        version: this.config.version
+      }
+    }
+  }
+
+  /**
+   * Run extraction rules in order and return the first value found
+   */
+  private applyRules(
+    rules: DeclarativeExtractionRule | DeclarativeExtractionRule[] | undefined,
+    request: RequestData,
+    parameters: Record<string, any>
+  ): string | null {
+    if (!rules) return null
+
+    for (const rule of Array.isArray(rules) ? rules : [rules]) {
+      let value: string | undefined
+
+      if (rule.param) {
+        const found = getPath(parameters, rule.param)
+        if (found !== undefined && found !== null && found !== '') {
+          value = String(found)
+        }
+      }
+      if (value === undefined && rule.path) {
+        value = request.parsedUrl.pathname.match(new RegExp(rule.path))?.[1]
+      }
+      if (value === undefined && rule.url) {
+        value = request.url.match(new RegExp(rule.url))?.[1]
+      }
+      if (value === undefined && rule.value) {
+        value = rule.value
+      }
+
+      if (value !== undefined) {
+        return rule.map?.[value] ?? value
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Apply parameter aliases
+   */
+  private applyParameterAliases(parameters: Record<string, any>): void {
+    if (!this.config.parameters.aliases) return
+
+    for (const [canonical, aliases] of Object.entries(this.config.parameters.aliases)) {
+      for (const alias of aliases) {
+        if (parameters[alias] !== undefined && parameters[canonical] === undefined) {
+          parameters[canonical] = parameters[alias]
+          break
+        }
+      }
+    }
+  }
+
+  /**
+   * Group parameters using the definition's dictionary
+   */
+  groupParameters(parameters: Record<string, any>): ParameterGroup[] {
+    const defined = Object.fromEntries(
+      Object.entries(parameters).filter(([, value]) => value !== undefined && value !== null)
+    )
+
+    return Object.values(this.grouper.groupParameters(defined)).map(({ group, parameters: groupParameters }) => ({
+      id: group.id,
+      name: group.name,
+      icon: group.icon || group.id,
+      description: group.description,
+      priority: group.priority,
+      parameters: groupParameters.map(parameter => ({
+        key: parameter.key,
+        displayName: parameter.displayName,
+        value: parameter.value,
+        description: parameter.description,
+        format: this.getParameterFormat(parameter.key)
+      }))
+    }))
+  }
+
+  /**
+   * Get display name for a parameter
+   */
+  getParameterDisplayName(key: string): string {
+    return this.grouper.getDisplayName(key)
+  }
+
+  /**
+   * Get description for a parameter
+   */
+  getParameterDescription(key: string): string | undefined {
+    return this.grouper.getDescription(key)
+  }
+
+  /**
+   * Get format hint for parameter display
+   */
+  getParameterFormat(key: string): GroupedParameter['format'] | undefined {
+    const format = this.grouper.getFormat(key)
+    if (format === 'currency' || format === 'timestamp' || format === 'percentage') return format
+    return undefined
+  }
+}
+
+/**
+ * Convert a raw string value to the declared type, keeping the raw value if it does not convert
+ */
+function convertValue(value: string, type: 'string' | 'number' | 'boolean' | 'json'): any {
+  switch (type) {
+    case 'number': {
+      const number = Number(value)
+      return value.trim() !== '' && !isNaN(number) ? number : value
+    }
+    case 'boolean':
+      if (value === 'true' || value === '1') return true
+      if (value === 'false' || value === '0') return false
+      return value
+    case 'json':
+      return safeJsonParse(value, value)
+    default:
+      return value
+  }
+}
+
+/**
+ * Read a dot-separated path from an object
+ */
+function getPath(source: Record<string, any>, path: string): any {
+  if (path in source) return source[path]
+  return path.split('.').reduce<any>((value, segment) => (value && typeof value === 'object' ? value[segment] : undefined), source)
+}
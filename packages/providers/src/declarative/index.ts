@@ -0,0 +1,7 @@
+/**
+ * Declarative Providers
+ * Providers loaded at runtime from JSON definitions
+ */
+
+export * from './declarative-definition'
+export * from './declarative-provider'
\ No newline at end of file
@@ -201,6 +201,29 @@ export class FacebookPixelProvider extends BaseProvider implements ParameterGrou
     super(config)
   }
 
+  /**
+   * Split Conversions API posts carrying several events in data[]
+   */
+  protected splitRequest(request: RequestData): RequestData[] {
+    if (request.method !== 'POST' || !request.body) {
+      return [request]
+    }
+
+    try {
+      const jsonData = JSON.parse(request.body)
+      if (!Array.isArray(jsonData.data) || jsonData.data.length <= 1) {
+        return [request]
+      }
+
+      return jsonData.data.map((event: any) => ({
+        ...request,
+        body: JSON.stringify({ ...jsonData, data: [event] })
+      }))
+    } catch {
+      return [request]
+    }
+  }
+
   /**
    * Facebook-specific confidence calculation
    */
@@ -255,17 +278,18 @@ export class FacebookPixelProvider extends BaseProvider implements ParameterGrou
   protected async parseParameters(request: RequestData): Promise<Record<string, any>> {
     const parameters: Record<string, any> = {}
     
-    // Parse URL parameters
-    for (const [key, value] of Object.entries(request.query)) {
+    // Parse URL parameters, plus form fields when the pixel falls back to a form POST
+    const fields: Record<string, string> = { ...request.query, ...request.bodyParams }
+    for (const [key, value] of Object.entries(fields)) {
       const parser = this.config.parameters.parsers?.[key]
       parameters[key] = parser ? parser(String(value)) : value
     }
     
     // Parse custom data (cd[]) parameters
-    this.parseCustomData(request.query, parameters)
+    this.parseCustomData(fields, parameters)
     
-    // Parse POST body for server-side API events
-    if (request.method === 'POST' && request.body) {
+    // Parse JSON POST body for server-side API events
+    if (request.method === 'POST' && request.body && !request.bodyParams) {
       const bodyData = this.parsePostBody(request.body)
       Object.assign(parameters, bodyData)
     }
@@ -446,7 +470,7 @@ export class FacebookPixelProvider extends BaseProvider implements ParameterGrou
     const flattened: Record<string, any> = {}
     
     if (data.data && Array.isArray(data.data)) {
-      const event = data.data[0] // Take first event
+      const event = data.data[0] // Batches are split by splitRequest()
       
       flattened.event_name = event.event_name
       flattened.event_time = event.event_time
@@ -25,7 +25,7 @@ export class GoogleAdsProvider extends BaseProvider {
       
       patterns: {
         urlPatterns: [
-          /\/pagead\/(?:viewthrough)conversion/
+          /\/pagead\/(?:viewthrough)?conversion/
         ],
         
         domains: [
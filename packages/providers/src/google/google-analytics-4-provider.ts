@@ -0,0 +1,614 @@
+import { BaseProvider, ProviderConfig } from '../base/base-provider'
+import { TrackingEvent, RequestData } from '@pixeltracer/shared'
+import { ParameterGroup, GroupedParameter, ParameterGroupingProvider } from '../base/parameter-group'
+
+/**
+ * GA4 item string keys (pr1=id123~nmTee~pr9.99) mapped to ecommerce item fields
+ */
+const ITEM_FIELD_MAP: Record<string, string> = {
+  'id': 'item_id',
+  'nm': 'item_name',
+  'af': 'affiliation',
+  'cp': 'coupon',
+  'ds': 'discount',
+  'lp': 'index',
+  'br': 'item_brand',
+  'ca': 'item_category',
+  'c2': 'item_category2',
+  'c3': 'item_category3',
+  'c4': 'item_category4',
+  'c5': 'item_category5',
+  'li': 'item_list_id',
+  'ln': 'item_list_name',
+  'va': 'item_variant',
+  'lo': 'location_id',
+  'pr': 'price',
+  'qt': 'quantity'
+}
+
+const NUMERIC_ITEM_FIELDS = ['discount', 'index', 'price', 'quantity']
+
+/**
+ * Google Analytics 4 provider
+ * Detects and parses GA4 Measurement Protocol hits sent by gtag.js / GTM
+ *
+ * Supports:
+ * - /g/collect hits on Google domains and server-side GTM custom domains
+ * - Event parameters (ep.*, epn.*) and user properties (up.*, upn.*)
+ * - Ecommerce item strings (pr1..prN)
+ * - Batched POST bodies carrying several newline-separated events
+ */
+export class GoogleAnalytics4Provider extends BaseProvider implements ParameterGroupingProvider {
+  constructor() {
+    const config: ProviderConfig = {
+      id: 'google-analytics-4',
+      name: 'Google Analytics 4',
+      version: '1.0.0',
+      description: 'Google Analytics 4 event and ecommerce tracking',
+      website: 'https://developers.google.com/analytics/devguides/collection/ga4',
+      icon: 'https://www.gstatic.com/analytics-suite/header/suite/v2/ic_analytics.svg',
+      category: 'analytics',
+
+      patterns: {
+        urlPatterns: [
+          // Google hosted endpoints (www., region1., analytics.google.com)
+          // and server-side GTM containers on first-party domains
+          /\/g\/collect(?:\?|$)/
+        ],
+
+        domains: [
+          'www.google-analytics.com',
+          'region1.google-analytics.com',
+          'analytics.google.com',
+          'google-analytics.com'
+        ],
+
+        paths: [
+          '/g/collect*'
+        ],
+
+        queryPatterns: {
+          'v': /^2$/,
+          'tid': /^G-[A-Z0-9]+$/,
+          'cid': /^\d+\.\d+$/,
+          'en': /.+/,
+          'sid': /^\d+$/
+        },
+
+        methods: ['GET', 'POST']
+      },
+
+      parameters: {
+        required: ['tid'],
+
+        optional: [
+          // Core event parameters
+          'en', // Event name
+          'v', // Protocol version
+          'cid', // Client ID
+          'uid', // User ID
+          'sid', // Session ID
+          'sct', // Session count
+          'seg', // Session engaged
+          '_et', // Engagement time
+          '_s', // Hit sequence
+          '_ss', // Session start
+          '_fv', // First visit
+          '_nsi', // New session ID
+          '_p', // Page load ID
+          '_ee', // Enhanced measurement
+
+          // Page context
+          'dl', // Document location
+          'dr', // Document referrer
+          'dt', // Document title
+          'ul', // User language
+          'sr', // Screen resolution
+
+          // Ecommerce
+          'cu', // Currency
+
+          // Consent
+          'gcs', // Consent state
+          'gcd', // Consent default/update
+          'dma', // DMA compliance
+          'npa', // Non-personalised ads
+
+          // Tagging
+          'gtm', // GTM container hash
+          'tag_exp', // Tag experiments
+          'tfd' // Time from page load
+        ],
+
+        aliases: {
+          'measurement_id': ['tid'],
+          'client_id': ['cid'],
+          'session_id': ['sid'],
+          'event_name': ['en']
+        },
+
+        parsers: {
+          'v': (value: string) => parseInt(value, 10),
+          'sct': (value: string) => parseInt(value, 10),
+          'seg': (value: string) => value === '1',
+          '_et': (value: string) => parseInt(value, 10),
+          '_s': (value: string) => parseInt(value, 10),
+          '_ss': (value: string) => value === '1',
+          '_fv': (value: string) => value === '1',
+          '_nsi': (value: string) => value === '1',
+          '_ee': (value: string) => value === '1',
+          'tfd': (value: string) => parseInt(value, 10)
+        },
+
+        validators: {
+          'tid': (value: any) => typeof value === 'string' && /^G-[A-Z0-9]+$/.test(value),
+          'en': (value: any) => typeof value === 'string' && value.length > 0,
+          'cu': (value: any) => typeof value === 'string' && /^[A-Z]{3}$/.test(value)
+        }
+      }
+    }
+
+    super(config)
+  }
+
+  /**
+   * Split a batched /g/collect POST into one request per event line.
+   * Shared hit parameters stay on the URL, per-event parameters live in the body.
+   */
+  protected splitRequest(request: RequestData): RequestData[] {
+    const lines = this.getBodyLines(request.body)
+    if (lines.length <= 1) {
+      return [request]
+    }
+
+    return lines.map(line => ({
+      ...request,
+      body: line
+    }))
+  }
+
+  /**
+   * GA4-specific confidence calculation
+   */
+  protected async calculateCustomConfidence(request: RequestData): Promise<number> {
+    let customScore = 0
+
+    // Measurement ID is the strongest GA4 signal (also for sGTM domains)
+    if (request.query.tid && /^G-[A-Z0-9]+$/.test(request.query.tid)) {
+      customScore += 0.4
+    }
+
+    // Protocol version 2 is GA4
+    if (request.query.v === '2') {
+      customScore += 0.3
+    }
+
+    // Client ID in GA cookie format
+    if (request.query.cid && /^\d+\.\d+$/.test(request.query.cid)) {
+      customScore += 0.15
+    }
+
+    // Event name on the URL or in the body
+    if (request.query.en || (request.body && /(^|&|\n)en=/.test(request.body))) {
+      customScore += 0.1
+    }
+
+    // Google hosted collection endpoint
+    if (request.url.includes('google-analytics.com') || request.url.includes('analytics.google.com')) {
+      customScore += 0.1
+    }
+
+    return Math.min(1.0, customScore)
+  }
+
+  /**
+   * Parse GA4 parameters
+   */
+  protected async parseParameters(request: RequestData): Promise<Record<string, any>> {
+    const raw: Record<string, string> = { ...request.query }
+
+    // Per-event parameters in the body override shared URL parameters.
+    // For a batched body only the first event is parsed here, the rest
+    // are split out by splitRequest() through parseEvents().
+    const lines = this.getBodyLines(request.body)
+    if (lines.length > 0) {
+      new URLSearchParams(lines[0]).forEach((value, key) => {
+        raw[key] = value
+      })
+    }
+
+    const parameters: Record<string, any> = {}
+    const eventParams: Record<string, any> = {}
+    const userProperties: Record<string, any> = {}
+    const items: Record<string, any>[] = []
+
+    for (const [key, value] of Object.entries(raw)) {
+      if (key.startsWith('ep.')) {
+        eventParams[key.slice(3)] = value
+        parameters[key] = value
+      } else if (key.startsWith('epn.')) {
+        eventParams[key.slice(4)] = this.toNumber(value)
+        parameters[key] = this.toNumber(value)
+      } else if (key.startsWith('up.')) {
+        userProperties[key.slice(3)] = value
+        parameters[key] = value
+      } else if (key.startsWith('upn.')) {
+        userProperties[key.slice(4)] = this.toNumber(value)
+        parameters[key] = this.toNumber(value)
+      } else if (/^pr\d+$/.test(key)) {
+        const item = this.parseItemString(value)
+        items[parseInt(key.slice(2), 10) - 1] = item
+        parameters[key] = value
+      } else {
+        const parser = this.config.parameters.parsers?.[key]
+        parameters[key] = parser ? parser(String(value)) : value
+      }
+    }
+
+    if (Object.keys(eventParams).length > 0) {
+      parameters.event_params = eventParams
+    }
+
+    if (Object.keys(userProperties).length > 0) {
+      parameters.user_properties = userProperties
+    }
+
+    const definedItems = items.filter(Boolean)
+    if (definedItems.length > 0) {
+      parameters.items = definedItems
+    }
+
+    // Promote well-known ecommerce values for filtering and revenue analysis
+    if (eventParams.value !== undefined && parameters.value === undefined) {
+      parameters.value = eventParams.value
+    }
+    if (parameters.cu && parameters.currency === undefined) {
+      parameters.currency = parameters.cu
+    }
+    if (eventParams.transaction_id !== undefined) {
+      parameters.transaction_id = eventParams.transaction_id
+    }
+
+    this.applyParameterAliases(parameters)
+
+    return parameters
+  }
+
+  /**
+   * Extract GA4 account ID (Measurement ID)
+   */
+  protected async extractAccountId(_request: RequestData, parameters: Record<string, any>): Promise<string | null> {
+    return parameters.tid || parameters.measurement_id || null
+  }
+
+  /**
+   * Extract GA4 event type
+   */
+  protected async extractEventType(_request: RequestData, parameters: Record<string, any>): Promise<string | null> {
+    if (parameters.en) {
+      return parameters.en
+    }
+
+    return 'page_view'
+  }
+
+  /**
+   * Enrich GA4 event with additional context
+   */
+  protected async enrichEvent(event: TrackingEvent, request: RequestData): Promise<void> {
+    const params = event.parameters
+    const hostname = request.parsedUrl.hostname
+
+    event.rawData = {
+      ...event.rawData,
+      google_analytics_4: {
+        measurement_id: params.tid,
+        client_id: params.cid,
+        session_id: params.sid,
+        session_count: params.sct,
+        protocol_version: params.v,
+        gtm_hash: params.gtm,
+        is_server_side: !!hostname && !/(^|\.)google-analytics\.com$|(^|\.)analytics\.google\.com$/.test(hostname),
+        event_count: Math.max(1, this.getBodyLines(request.body).length),
+        is_session_start: !!params._ss,
+        is_first_visit: !!params._fv
+      }
+    }
+
+    if (params.items || params.value !== undefined || params.transaction_id) {
+      event.rawData!.ecommerce = {
+        value: params.value,
+        currency: params.cu || params.currency,
+        transaction_id: params.transaction_id,
+        item_count: Array.isArray(params.items) ? params.items.length : 0
+      }
+    }
+
+    if (params.gcs || params.gcd) {
+      event.rawData!.consent = {
+        gcs: params.gcs,
+        gcd: params.gcd,
+        dma: params.dma
+      }
+    }
+
+    event.rawData!.event_category = this.categorizeEvent(event.eventType || 'unknown')
+  }
+
+  /**
+   * Decode a GA4 item string (id123~nmTee~pr9.99~k0color~v0red)
+   */
+  private parseItemString(value: string): Record<string, any> {
+    const item: Record<string, any> = {}
+    const customKeys: Record<string, string> = {}
+    const customValues: Record<string, string> = {}
+
+    for (const segment of value.split('~')) {
+      if (segment.length < 2) continue
+
+      const code = segment.slice(0, 2)
+      const fieldValue = segment.slice(2)
+
+      if (/^k\d$/.test(code)) {
+        customKeys[code.slice(1)] = fieldValue
+      } else if (/^v\d$/.test(code)) {
+        customValues[code.slice(1)] = fieldValue
+      } else {
+        const field = ITEM_FIELD_MAP[code] || code
+        item[field] = NUMERIC_ITEM_FIELDS.includes(field) ? this.toNumber(fieldValue) : fieldValue
+      }
+    }
+
+    for (const [slot, key] of Object.entries(customKeys)) {
+      if (customValues[slot] !== undefined) {
+        item[key] = customValues[slot]
+      }
+    }
+
+    return item
+  }
+
+  /**
+   * Split a request body into non-empty event lines
+   */
+  private getBodyLines(body?: string): string[] {
+    if (!body) return []
+
+    return body
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line.length > 0 && line.includes('='))
+  }
+
+  /**
+   * Convert a numeric parameter, keeping the raw value if it is not a number
+   */
+  private toNumber(value: string): number | string {
+    const parsed = parseFloat(value)
+    return isNaN(parsed) ? value : parsed
+  }
+
+  /**
+   * Apply parameter aliases
+   */
+  private applyParameterAliases(parameters: Record<string, any>): void {
+    if (!this.config.parameters.aliases) return
+
+    for (const [canonical, aliases] of Object.entries(this.config.parameters.aliases)) {
+      for (const alias of aliases) {
+        if (parameters[alias] !== undefined && parameters[canonical] === undefined) {
+          parameters[canonical] = parameters[alias]
+          break
+        }
+      }
+    }
+  }
+
+  /**
+   * Categorize GA4 events
+   */
+  private categorizeEvent(eventType: string): string {
+    const categories: Record<string, string> = {
+      'page_view': 'awareness',
+      'scroll': 'engagement',
+      'user_engagement': 'engagement',
+      'view_item': 'consideration',
+      'view_item_list': 'consideration',
+      'select_item': 'consideration',
+      'add_to_cart': 'consideration',
+      'add_to_wishlist': 'consideration',
+      'view_cart': 'consideration',
+      'begin_checkout': 'conversion',
+      'add_shipping_info': 'conversion',
+      'add_payment_info': 'conversion',
+      'purchase': 'conversion',
+      'refund': 'conversion',
+      'generate_lead': 'conversion',
+      'sign_up': 'conversion'
+    }
+
+    return categories[eventType] || 'analytics'
+  }
+
+  /**
+   * Group GA4 parameters for display
+   */
+  groupParameters(parameters: Record<string, any>): ParameterGroup[] {
+    const eventGroup: ParameterGroup = {
+      id: 'event',
+      name: 'Event',
+      icon: 'event',
+      parameters: [],
+      description: 'Event name and event parameters',
+      priority: 1
+    }
+
+    const productGroup: ParameterGroup = {
+      id: 'product',
+      name: 'Ecommerce',
+      icon: 'product',
+      parameters: [],
+      description: 'Items, value and transaction data',
+      priority: 2
+    }
+
+    const userGroup: ParameterGroup = {
+      id: 'user',
+      name: 'User & Session',
+      icon: 'user',
+      parameters: [],
+      description: 'Client, user and session identifiers',
+      priority: 3
+    }
+
+    const contextGroup: ParameterGroup = {
+      id: 'context',
+      name: 'Page & Context',
+      icon: 'context',
+      parameters: [],
+      description: 'Page and browser context',
+      priority: 4
+    }
+
+    const privacyGroup: ParameterGroup = {
+      id: 'privacy',
+      name: 'Consent',
+      icon: 'privacy',
+      parameters: [],
+      description: 'Consent mode signals',
+      priority: 5
+    }
+
+    const technicalGroup: ParameterGroup = {
+      id: 'technical',
+      name: 'Technical',
+      icon: 'technical',
+      parameters: [],
+      description: 'Technical parameters',
+      priority: 6
+    }
+
+    Object.entries(parameters).forEach(([key, value]) => {
+      if (value === undefined || value === null) return
+
+      let group: ParameterGroup
+
+      if (['en', 'event_name', 'event_params'].includes(key) || key.startsWith('ep.') || key.startsWith('epn.')) {
+        group = eventGroup
+      }
+      else if (['items', 'value', 'currency', 'cu', 'transaction_id'].includes(key) || /^pr\d+$/.test(key)) {
+        group = productGroup
+      }
+      else if (['tid', 'measurement_id', 'cid', 'client_id', 'uid', 'sid', 'session_id', 'sct', 'seg', 'user_properties', '_ss', '_fv', '_nsi'].includes(key) ||
+               key.startsWith('up.') || key.startsWith('upn.')) {
+        group = userGroup
+      }
+      else if (['dl', 'dr', 'dt', 'ul', 'sr'].includes(key)) {
+        group = contextGroup
+      }
+      else if (['gcs', 'gcd', 'dma', 'dma_cps', 'npa', 'pscdl'].includes(key)) {
+        group = privacyGroup
+      }
+      else {
+        group = technicalGroup
+      }
+
+      group.parameters.push({
+        key,
+        displayName: this.getParameterDisplayName(key),
+        value,
+        description: this.getParameterDescription(key),
+        format: this.getParameterFormat(key)
+      })
+    })
+
+    return [eventGroup, productGroup, userGroup, contextGroup, privacyGroup, technicalGroup]
+      .filter(g => g.parameters.length > 0)
+  }
+
+  /**
+   * Get display name for a parameter
+   */
+  getParameterDisplayName(key: string): string {
+    const displayNames: Record<string, string> = {
+      'en': 'Event Name',
+      'event_name': 'Event Name',
+      'event_params': 'Event Parameters',
+      'user_properties': 'User Properties',
+      'items': 'Items',
+      'value': 'Value',
+      'currency': 'Currency',
+      'cu': 'Currency',
+      'transaction_id': 'Transaction ID',
+      'tid': 'Measurement ID',
+      'measurement_id': 'Measurement ID',
+      'cid': 'Client ID',
+      'client_id': 'Client ID',
+      'uid': 'User ID',
+      'sid': 'Session ID',
+      'session_id': 'Session ID',
+      'sct': 'Session Count',
+      'seg': 'Session Engaged',
+      '_ss': 'Session Start',
+      '_fv': 'First Visit',
+      '_nsi': 'New Session',
+      '_et': 'Engagement Time',
+      '_s': 'Hit Sequence',
+      '_p': 'Page Load ID',
+      '_ee': 'Enhanced Measurement',
+      'dl': 'Page URL',
+      'dr': 'Referrer',
+      'dt': 'Page Title',
+      'ul': 'User Language',
+      'sr': 'Screen Resolution',
+      'gcs': 'Consent State',
+      'gcd': 'Consent Mode',
+      'dma': 'DMA Compliance',
+      'npa': 'Non-Personalised Ads',
+      'v': 'Protocol Version',
+      'gtm': 'GTM Hash',
+      'tfd': 'Time From Page Load'
+    }
+
+    if (displayNames[key]) {
+      return displayNames[key]
+    }
+
+    const prefixed = key.match(/^(ep|epn|up|upn)\.(.+)$/)
+    if (prefixed) {
+      return prefixed[2].replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())
+    }
+
+    const item = key.match(/^pr(\d+)$/)
+    if (item) {
+      return `Item ${item[1]}`
+    }
+
+    return key.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())
+  }
+
+  /**
+   * Get description for a parameter
+   */
+  getParameterDescription(key: string): string | undefined {
+    const descriptions: Record<string, string> = {
+      'en': 'The GA4 event name',
+      'tid': 'GA4 Measurement ID receiving this hit',
+      'cid': 'Client ID from the _ga cookie',
+      'sid': 'Session ID from the _ga_<container> cookie',
+      '_et': 'Engagement time in milliseconds',
+      'gcs': 'Consent mode state (G1<ad_storage><analytics_storage>)',
+      'items': 'Ecommerce items decoded from pr1..prN'
+    }
+    return descriptions[key]
+  }
+
+  /**
+   * Get format hint for parameter display
+   */
+  getParameterFormat(key: string): GroupedParameter['format'] | undefined {
+    if (['value', 'epn.value', 'epn.price', 'epn.revenue'].includes(key)) return 'currency'
+    if (['_et'].includes(key)) return 'duration'
+    return undefined
+  }
+}
@@ -1,6 +1,7 @@
 /**
  * Google Providers
- * Google Ads conversion tracking and remarketing
+ * Google Ads conversion tracking and remarketing, Google Analytics 4
  */
 
-export * from './google-ads-provider'
\ No newline at end of file
+export * from './google-ads-provider'
+export * from './google-analytics-4-provider'
\ No newline at end of file
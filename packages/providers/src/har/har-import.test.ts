@@ -0,0 +1,214 @@
+/**
+ * Tests for importing HAR captures
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest'
+import { ProviderRegistry } from '../registry/provider-registry'
+import { FacebookPixelProvider } from '../facebook'
+import { SegmentProvider } from '../segment'
+import { HarEntry, HarLog, TrackingEvent, createHar } from '@pixeltracer/shared'
+import { parseHar, harEntryToRequestData, importHar, splitHarForImport, mergeHarImportResults } from './har-import'
+
+const PIXEL_ENTRY: HarEntry = {
+  startedDateTime: '2026-03-01T10:00:00.000Z',
+  time: 84.5,
+  request: {
+    method: 'GET',
+    url: 'https://www.facebook.com/tr/?id=1234567890123456&ev=Purchase&cd[value]=42&cd[currency]=EUR',
+    headers: [
+      { name: ':authority', value: 'www.facebook.com' },
+      { name: 'Referer', value: 'https://shop.example.com/checkout' }
+    ]
+  },
+  response: {
+    status: 200,
+    headers: [{ name: 'Content-Type', value: 'image/gif' }]
+  },
+  timings: { blocked: 2, dns: -1, connect: -1, send: 0.5, wait: 60, receive: 22 },
+  serverIPAddress: '157.240.0.35'
+}
+
+const SEGMENT_ENTRY: HarEntry = {
+  startedDateTime: '2026-03-01T10:00:01.000Z',
+  request: {
+    method: 'POST',
+    url: 'https://api.segment.io/v1/t',
+    headers: [{ name: 'Content-Type', value: 'text/plain' }],
+    postData: {
+      mimeType: 'text/plain',
+      text: JSON.stringify({
+        type: 'track',
+        event: 'Order Completed',
+        messageId: 'ajs-next-1',
+        anonymousId: '5f2c1c1e-0000-4000-8000-000000000000',
+        writeKey: 'AbCdEfGhIjKlMnOpQrStUvWxYz012345'
+      })
+    }
+  },
+  response: { status: 0, _error: 'net::ERR_BLOCKED_BY_CLIENT' }
+}
+
+const ASSET_ENTRY: HarEntry = {
+  startedDateTime: '2026-03-01T10:00:00.500Z',
+  request: { method: 'GET', url: 'https://shop.example.com/assets/app.js' },
+  response: { status: 200 }
+}
+
+describe('HAR import', () => {
+  const registry = new ProviderRegistry()
+
+  beforeAll(async () => {
+    await registry.register(new FacebookPixelProvider())
+    await registry.register(new SegmentProvider())
+  })
+
+  it('rejects files without log entries', () => {
+    expect(() => parseHar('not json')).toThrow('invalid JSON')
+    expect(() => parseHar('{"log":{}}')).toThrow('missing log.entries')
+  })
+
+  it('converts entries to request data', async () => {
+    const request = await harEntryToRequestData(PIXEL_ENTRY)
+
+    expect(request.method).toBe('GET')
+    expect(request.headers).toEqual({ referer: 'https://shop.example.com/checkout' })
+    expect(request.query).toMatchObject({ ev: 'Purchase', 'cd[currency]': 'EUR' })
+    expect(request.parsedUrl.hostname).toBe('www.facebook.com')
+    expect(request.timestamp).toBe(Date.parse(PIXEL_ENTRY.startedDateTime))
+
+    const form = await harEntryToRequestData({
+      ...SEGMENT_ENTRY,
+      request: { method: 'post', url: 'https://example.com/collect', postData: { params: [{ name: 'a', value: '1 2' }] } }
+    })
+    expect(form.method).toBe('POST')
+    expect(form.body).toBe('a=1+2')
+    expect(form.bodyParams).toEqual({ a: '1 2' })
+  })
+
+  it('analyses entries with the registry and keeps response data', async () => {
+    const har: HarLog = { log: { entries: [PIXEL_ENTRY, ASSET_ENTRY, SEGMENT_ENTRY] } }
+    const result = await importHar(har, { registry })
+
+    expect(result.entryCount).toBe(3)
+    expect(result.matchedCount).toBe(2)
+    expect(result.startTime).toBe(Date.parse(PIXEL_ENTRY.startedDateTime))
+    expect(result.events.map(event => event.provider)).toEqual(['segment', 'facebook-pixel'])
+
+    const [segment, pixel] = result.events
+    expect(pixel).toMatchObject({ eventType: 'Purchase', statusCode: 200, serverIp: '157.240.0.35' })
+    expect(String(pixel.accountId)).toBe('1234567890123456')
+    expect(pixel.responseHeaders).toEqual({ 'content-type': 'image/gif' })
+    expect(pixel.timings).toMatchObject({ requestSentTime: pixel.timestamp + 2.5, responseStartTime: pixel.timestamp + 62.5, duration: 85 })
+
+    expect(segment.eventType).toBe('track')
+    expect(segment.statusCode).toBeUndefined()
+    expect(segment.deliveryFailure).toBe('blocked_by_client')
+  })
+
+  it('imports a capture in chunks without response bodies', async () => {
+    const withBody: HarEntry = {
+      ...PIXEL_ENTRY,
+      response: { ...PIXEL_ENTRY.response!, content: { size: 43, mimeType: 'image/gif', text: 'R0lGODlhAQABAAAAACw=' } }
+    }
+    const har: HarLog = {
+      log: {
+        pages: [{ id: 'page_1', title: 'Checkout' }],
+        entries: [withBody, ASSET_ENTRY, SEGMENT_ENTRY]
+      }
+    }
+
+    const chunks = splitHarForImport(har, 2)
+    expect(chunks.map(chunk => chunk.log.entries.length)).toEqual([2, 1])
+    expect(chunks.map(chunk => chunk.log.pages)).toEqual([har.log.pages, undefined])
+    expect(chunks[0].log.entries[0].response).toEqual(PIXEL_ENTRY.response)
+    expect(chunks[1].log.entries[0].request.postData).toEqual(SEGMENT_ENTRY.request.postData)
+
+    const whole = await importHar(har, { registry })
+    const merged = mergeHarImportResults(await Promise.all(chunks.map(chunk => importHar(chunk, { registry }))))
+    const summarize = (events: TrackingEvent[]) => events.map(({ provider, eventType, timestamp, statusCode }) => ({ provider, eventType, timestamp, statusCode }))
+
+    expect({ ...merged, events: summarize(merged.events) }).toEqual({ ...whole, events: summarize(whole.events) })
+    expect(merged).toMatchObject({ entryCount: 3, matchedCount: 2, pageUrl: 'Checkout' })
+  })
+
+  it('restores events exported with createHar', async () => {
+    const navigation: TrackingEvent = {
+      id: 'nav-1',
+      timestamp: Date.parse('2026-03-01T10:00:05.000Z'),
+      provider: 'navigation',
+      providerName: 'Page Navigation',
+      url: 'https://shop.example.com/thanks',
+      method: 'NAVIGATE',
+      eventType: 'navigation',
+      parameters: { title: 'Thank you' },
+      confidence: 1,
+      isNavigationEvent: true
+    }
+    const pixel: TrackingEvent = {
+      id: 'req-1',
+      requestId: 'req-1',
+      timestamp: Date.parse('2026-03-01T10:00:06.000Z'),
+      provider: 'facebook-pixel',
+      providerName: 'Facebook Pixel',
+      url: 'https://www.facebook.com/tr/',
+      method: 'POST',
+      eventType: 'Purchase',
+      accountId: '1234567890123456',
+      parameters: { value: 42, currency: 'EUR' },
+      confidence: 0.95,
+      tabId: 7,
+      requestHeaders: { 'content-type': 'application/x-www-form-urlencoded', cookie: '_fbp=fb.1.2; consent=yes' },
+      responseHeaders: { 'set-cookie': 'a=1; Path=/; Expires=Wed, 21 Oct 2026 07:28:00 GMT, b=2; HttpOnly' },
+      requestBody: 'id=1234567890123456&ev=Purchase',
+      statusCode: 200,
+      timings: { startTime: Date.parse('2026-03-01T10:00:06.000Z'), requestSentTime: Date.parse('2026-03-01T10:00:06.000Z') + 3, endTime: Date.parse('2026-03-01T10:00:06.000Z') + 40, duration: 40 }
+    }
+    const batch: TrackingEvent[] = [0, 1].map(index => ({
+      id: `req-2-${index}`,
+      requestId: 'req-2',
+      batchIndex: index,
+      batchSize: 2,
+      timestamp: Date.parse('2026-03-01T10:00:07.000Z'),
+      provider: 'segment',
+      providerName: 'Segment',
+      url: 'https://api.segment.io/v1/batch',
+      method: 'POST',
+      eventType: index === 0 ? 'page' : 'track',
+      parameters: { index },
+      confidence: 0.9,
+      requestBody: 'H4sIAAAAAAAAA6uuBQBDv6ajAgAAAA==',
+      encodings: { body: ['base64', 'gzip'] },
+      networkError: 'net::ERR_BLOCKED_BY_CLIENT',
+      deliveryFailure: 'blocked_by_client'
+    }))
+    const events = [...batch, pixel, navigation]
+
+    const har = createHar(events)
+    const [pixelEntry, batchEntry] = har.log.entries
+
+    expect(har.log.version).toBe('1.2')
+    expect(har.log.entries).toHaveLength(2)
+    expect(har.log.pages).toMatchObject([{ id: 'page_1', title: 'Thank you' }])
+    expect(pixelEntry.pageref).toBe('page_1')
+    expect(pixelEntry.request.cookies).toEqual([{ name: '_fbp', value: 'fb.1.2' }, { name: 'consent', value: 'yes' }])
+    expect(pixelEntry.response?.cookies).toEqual([
+      { name: 'a', value: '1', path: '/', expires: '2026-10-21T07:28:00.000Z' },
+      { name: 'b', value: '2', httpOnly: true }
+    ])
+    expect(pixelEntry.request.postData).toMatchObject({
+      mimeType: 'application/x-www-form-urlencoded',
+      params: [{ name: 'id', value: '1234567890123456' }, { name: 'ev', value: 'Purchase' }]
+    })
+    expect(pixelEntry.request.postData).not.toHaveProperty('text')
+    expect(pixelEntry.timings).toMatchObject({ dns: -1, send: 3, wait: 37, receive: 0 })
+    expect(pixelEntry.time).toBe(40)
+    expect(batchEntry.request.postData).toMatchObject({ encoding: 'base64', text: batch[0].requestBody })
+    expect(batchEntry.request.bodySize).toBe(22)
+    expect(batchEntry.response).toMatchObject({ status: 0, _error: 'net::ERR_BLOCKED_BY_CLIENT' })
+
+    const result = await importHar(parseHar(JSON.stringify(har)), { registry })
+    expect(result.matchedCount).toBe(2)
+    expect(result.pageUrl).toBe('Thank you')
+    expect(result.events).toEqual(events)
+  })
+})
@@ -0,0 +1,306 @@
+/**
+ * HAR import
+ *
+ * Converts HTTP Archive (HAR 1.2) captures, e.g. saved from DevTools or a CI browser,
+ * into RequestData and analyses them offline with the provider registry. Files exported
+ * by PixelTracer carry the parsed events in a `_pixeltracer` extension; those are
+ * restored as they were instead of being analysed again
+ */
+
+import {
+  TrackingEvent,
+  RequestData,
+  RequestTimings,
+  DecodedRequestBody,
+  HarEntry,
+  HarLog,
+  HarPostData,
+  HarTrackingEvent,
+  base64ToBytes,
+  decodeRequestBody,
+  parseBodyParams,
+  parseRequestUrl,
+  parseHeaders,
+  classifyNetworkError
+} from '@pixeltracer/shared'
+import { ProviderRegistry, providerRegistry } from '../registry/provider-registry'
+import { createTrackingEvents } from '../registry/tracking-events'
+
+export interface HarImportOptions {
+  registry?: ProviderRegistry
+  /** Provider pinned for a request hostname (per-domain overrides) */
+  getOverride?: (hostname: string) => string | undefined
+}
+
+export interface HarImportResult {
+  /** Tracking events, newest first like the live event list */
+  events: TrackingEvent[]
+  entryCount: number
+  /** Entries recognised by at least one provider */
+  matchedCount: number
+  /** Title or URL of the first page in the capture */
+  pageUrl?: string
+  startTime?: number
+  endTime?: number
+}
+
+// Entries per chunk when a capture is handed to the background worker
+const IMPORT_CHUNK_SIZE = 200
+
+/**
+ * Parse HAR text, rejecting anything without a log.entries array
+ */
+export function parseHar(text: string): HarLog {
+  let har: any
+  try {
+    har = JSON.parse(text)
+  } catch {
+    throw new Error('Not a HAR file: invalid JSON')
+  }
+  if (!har || typeof har !== 'object' || !har.log || !Array.isArray(har.log.entries)) {
+    throw new Error('Not a HAR file: missing log.entries')
+  }
+  return har as HarLog
+}
+
+/**
+ * Split a capture into smaller HARs holding only what the import uses
+ * Response bodies, cookies and cache data are dropped so each chunk fits in one extension
+ * message; pages go with the first chunk. Results are combined with mergeHarImportResults
+ */
+export function splitHarForImport(har: HarLog, chunkSize = IMPORT_CHUNK_SIZE): HarLog[] {
+  const entries = har.log.entries.map(reduceEntry)
+  const chunks: HarLog[] = []
+  // A capture without entries still yields one chunk for its pages
+  for (let start = 0; start === 0 || start < entries.length; start += chunkSize) {
+    chunks.push({
+      log: {
+        version: har.log.version,
+        creator: har.log.creator,
+        pages: start === 0 ? har.log.pages : undefined,
+        entries: entries.slice(start, start + chunkSize)
+      }
+    })
+  }
+  return chunks
+}
+
+/**
+ * Combine the import results of the chunks of one capture, in chunk order
+ */
+export function mergeHarImportResults(results: HarImportResult[]): HarImportResult {
+  const startTimes = results.map(result => result.startTime).filter((time): time is number => time !== undefined)
+  const endTimes = results.map(result => result.endTime).filter((time): time is number => time !== undefined)
+  return {
+    events: results.flatMap(result => result.events).sort((a, b) => b.timestamp - a.timestamp),
+    entryCount: results.reduce((count, result) => count + result.entryCount, 0),
+    matchedCount: results.reduce((count, result) => count + result.matchedCount, 0),
+    pageUrl: results[0]?.pageUrl,
+    startTime: startTimes.length > 0 ? Math.min(...startTimes) : undefined,
+    endTime: endTimes.length > 0 ? Math.max(...endTimes) : undefined
+  }
+}
+
+/**
+ * Convert a HAR entry to the RequestData providers analyse
+ */
+export async function harEntryToRequestData(entry: HarEntry): Promise<RequestData> {
+  const { url, method } = entry.request
+  const parsedUrl = parseRequestUrl(url)
+
+  const query: Record<string, string> = {}
+  if (entry.request.queryString && entry.request.queryString.length > 0) {
+    entry.request.queryString.forEach(({ name, value }) => { query[name] = value })
+  } else {
+    new URLSearchParams(parsedUrl.search).forEach((value, key) => { query[key] = value })
+  }
+
+  const body = await extractPostData(entry.request.postData)
+
+  return {
+    url,
+    method: method.toUpperCase(),
+    headers: parseHeaders(entry.request.headers),
+    body: body.body || undefined,
+    rawBody: body.rawBody,
+    bodyEncodings: body.encodings.length > 0 ? body.encodings : undefined,
+    bodyParams: parseBodyParams(body.body),
+    query,
+    parsedUrl,
+    timestamp: parseTimestamp(entry.startedDateTime) || Date.now()
+  }
+}
+
+/**
+ * Analyse every entry of a HAR capture and return the resulting tracking events
+ * Response status, headers, timings and network errors are copied onto the events.
+ * Entries and pages written by PixelTracer restore their stored events instead
+ */
+export async function importHar(har: HarLog, options: HarImportOptions = {}): Promise<HarImportResult> {
+  const registry = options.registry || providerRegistry
+  const entries = har.log.entries
+  const events: TrackingEvent[] = []
+  let matchedCount = 0
+
+  for (const page of har.log.pages || []) {
+    if (page._pixeltracer?.event) events.unshift({ ...page._pixeltracer.event })
+  }
+
+  for (const entry of entries) {
+    if (!entry?.request?.url || /^(data|blob|chrome-extension):/.test(entry.request.url)) continue
+
+    const stored = entry._pixeltracer?.events
+    if (stored && stored.length > 0) {
+      matchedCount++
+      events.unshift(...stored.map(event => restoreEvent(event, entry)))
+      continue
+    }
+
+    const request = await harEntryToRequestData(entry)
+    const analysis = await registry.analyze(request, { useCache: false })
+    const entryEvents = createTrackingEvents(analysis.matches, request, {
+      overrideId: options.getOverride?.(request.parsedUrl.hostname),
+      timestamp: request.timestamp
+    })
+    if (entryEvents.length === 0) continue
+
+    matchedCount++
+    entryEvents.forEach(event => applyHarResponse(event, entry, request.timestamp))
+    // Newest request first, like the live list; batch events keep their order
+    events.unshift(...entryEvents)
+  }
+
+  const timestamps = entries.map(entry => parseTimestamp(entry.startedDateTime)).filter(time => time > 0)
+  const firstPage = har.log.pages?.[0]
+  return {
+    events: events.sort((a, b) => b.timestamp - a.timestamp),
+    entryCount: entries.length,
+    matchedCount,
+    pageUrl: firstPage?.title || entries[0]?.request?.url,
+    startTime: timestamps.length > 0 ? Math.min(...timestamps) : undefined,
+    endTime: timestamps.length > 0 ? Math.max(...timestamps) : undefined
+  }
+}
+
+/**
+ * Copy of an entry without the data the import does not read
+ */
+function reduceEntry(entry: HarEntry): HarEntry {
+  if (!entry?.request) return entry
+
+  const { cookies: _requestCookies, ...request } = entry.request
+  const reduced: HarEntry = {
+    pageref: entry.pageref,
+    startedDateTime: entry.startedDateTime,
+    time: entry.time,
+    request,
+    timings: entry.timings,
+    serverIPAddress: entry.serverIPAddress,
+    _fromCache: entry._fromCache,
+    _pixeltracer: entry._pixeltracer
+  }
+  if (entry.response) {
+    const { content: _content, cookies: _responseCookies, ...response } = entry.response
+    reduced.response = response
+  }
+  return reduced
+}
+
+/**
+ * Rebuild an event stored in the `_pixeltracer` extension with the request data of its entry
+ */
+function restoreEvent(stored: HarTrackingEvent, entry: HarEntry): TrackingEvent {
+  const event: TrackingEvent = { ...stored, url: entry.request.url, method: entry.request.method }
+  if (entry.request.headers && entry.request.headers.length > 0) {
+    event.requestHeaders = parseHeaders(entry.request.headers)
+  }
+  if (entry.response?.headers && entry.response.headers.length > 0) {
+    event.responseHeaders = parseHeaders(entry.response.headers)
+  }
+  // The raw body as captured (base64 for decoded bodies), not the decoded text
+  const postData = entry.request.postData
+  if (postData?.text) {
+    event.requestBody = postData.text
+  } else if (postData?.params && postData.params.length > 0) {
+    event.requestBody = toFormBody(postData.params)
+  }
+  return event
+}
+
+/**
+ * Copy the lifecycle data recorded in the HAR entry onto an event
+ */
+function applyHarResponse(event: TrackingEvent, entry: HarEntry, startTime: number): void {
+  event.requestHeaders = parseHeaders(entry.request.headers)
+  event.timings = toTimings(entry, startTime)
+  event.serverIp = entry.serverIPAddress || undefined
+  event.fromCache = entry._fromCache ? true : undefined
+
+  const response = entry.response
+  if (!response) return
+
+  if (response._error) {
+    event.networkError = response._error
+    event.deliveryFailure = classifyNetworkError(response._error)
+  }
+  // Status 0 marks requests without a response (failed or blocked)
+  if (response.status > 0) {
+    event.statusCode = response.status
+    event.responseHeaders = parseHeaders(response.headers)
+  }
+}
+
+/**
+ * Rebuild lifecycle timestamps from the HAR phase durations (-1 means not applicable)
+ */
+function toTimings(entry: HarEntry, startTime: number): RequestTimings {
+  const phase = (value?: number) => (value !== undefined && value > 0 ? value : 0)
+  const timings: RequestTimings = { startTime }
+  if (entry.timings) {
+    const { blocked, dns, connect, send, wait } = entry.timings
+    timings.requestSentTime = startTime + phase(blocked) + phase(dns) + phase(connect) + phase(send)
+    timings.responseStartTime = timings.requestSentTime + phase(wait)
+  }
+  if (entry.time !== undefined && entry.time >= 0) {
+    timings.endTime = startTime + entry.time
+    timings.duration = Math.round(entry.time)
+  }
+  return timings
+}
+
+/**
+ * Extract the body of a HAR postData block
+ * Form posts recorded as params are re-encoded; base64 bodies are decoded like captured raw bytes
+ */
+async function extractPostData(postData?: HarPostData): Promise<DecodedRequestBody> {
+  if (postData?.text) {
+    if (postData.encoding === 'base64') {
+      try {
+        return await decodeRequestBody(base64ToBytes(postData.text))
+      } catch {
+        // Not valid base64 after all
+      }
+    }
+    return { body: postData.text, encodings: [] }
+  }
+
+  if (postData?.params && postData.params.length > 0) {
+    return { body: toFormBody(postData.params), encodings: [] }
+  }
+
+  return { body: '', encodings: [] }
+}
+
+/**
+ * Re-encode the params of a form post as an application/x-www-form-urlencoded body
+ */
+function toFormBody(params: NonNullable<HarPostData['params']>): string {
+  const body = new URLSearchParams()
+  params.forEach(({ name, value }) => body.append(name, value ?? ''))
+  return body.toString()
+}
+
+function parseTimestamp(value: string): number {
+  const time = Date.parse(value)
+  return Number.isNaN(time) ? 0 : time
+}
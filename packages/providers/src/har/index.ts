@@ -0,0 +1,5 @@
+/**
+ * HAR (HTTP Archive) import for offline analysis
+ */
+
+export * from './har-import'
@@ -7,13 +7,21 @@
 // Base Provider Classes
 export * from './base/index';
 
+// Declarative (JSON-defined) providers
+export * from './declarative/index';
+
 // Provider Implementations - Only supported providers
+export * from './adobe/index';
 export * from './facebook/index';
 export * from './google/index';
+export * from './segment/index';
 export * from './tiktok/index';
 
 // Provider Registry
 export * from './registry/index';
 
+// HAR import
+export * from './har/index';
+
 // Utilities
 export * from './utils/index';
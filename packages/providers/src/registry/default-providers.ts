@@ -1,6 +1,8 @@
 import { providerRegistry } from './provider-registry'
+import { AdobeAnalyticsProvider } from '../adobe'
 import { FacebookPixelProvider } from '../facebook'
-import { GoogleAdsProvider } from '../google'
+import { GoogleAdsProvider, GoogleAnalytics4Provider } from '../google'
+import { SegmentProvider } from '../segment'
 import { TikTokPixelProvider } from '../tiktok'
 
 /**
@@ -42,6 +44,27 @@ export async function initializeDefaultProviders(): Promise<void> {
       priority: 85 // High priority for Google Ads
     })
     
+    // Register Google Analytics 4 provider
+    const googleAnalytics4Provider = new GoogleAnalytics4Provider()
+    await providerRegistry.register(googleAnalytics4Provider, {
+      enabled: true,
+      priority: 80 // High priority for GA4
+    })
+    
+    // Register Adobe Analytics provider
+    const adobeAnalyticsProvider = new AdobeAnalyticsProvider()
+    await providerRegistry.register(adobeAnalyticsProvider, {
+      enabled: true,
+      priority: 75 // High priority for Adobe Analytics
+    })
+    
+    // Register Segment provider
+    const segmentProvider = new SegmentProvider()
+    await providerRegistry.register(segmentProvider, {
+      enabled: true,
+      priority: 70 // Segment / RudderStack
+    })
+    
     // Mark as initialized
     defaultProvidersInitialized = true;
     
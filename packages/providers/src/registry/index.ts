@@ -5,5 +5,7 @@
  */
 
 export * from './provider-registry'
+export * from './provider-index'
 export * from './default-providers'
 export * from './provider-metadata'
+export * from './tracking-events'
@@ -0,0 +1,90 @@
+/**
+ * Regression runner for the provider fixture corpus
+ *
+ * Every fixtures/*.json file next to a provider is fed through ProviderValidator; a provider
+ * change that breaks parsing of a captured real-world hit fails here
+ */
+
+import { describe, it, expect } from 'vitest'
+import { readdirSync, readFileSync } from 'fs'
+import { join, resolve } from 'path'
+import { BaseProvider } from '../base/base-provider'
+import { ProviderValidator } from '../base/provider-validator'
+import { ProviderFixtureFile, createFixtureTestCase } from '../base/provider-fixture'
+import { AdobeAnalyticsProvider } from '../adobe'
+import { FacebookPixelProvider } from '../facebook'
+import { GoogleAdsProvider, GoogleAnalytics4Provider } from '../google'
+import { SegmentProvider } from '../segment'
+import { TikTokPixelProvider } from '../tiktok'
+
+const SRC_DIR = resolve(__dirname, '..')
+
+const providers: BaseProvider[] = [
+  new FacebookPixelProvider(),
+  new TikTokPixelProvider(),
+  new GoogleAdsProvider(),
+  new GoogleAnalytics4Provider(),
+  new AdobeAnalyticsProvider(),
+  new SegmentProvider()
+]
+
+/**
+ * Load every fixture file below src, keyed by provider ID
+ */
+function loadFixtureFiles(): Map<string, ProviderFixtureFile[]> {
+  const files = new Map<string, ProviderFixtureFile[]>()
+
+  for (const entry of readdirSync(SRC_DIR, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue
+
+    const fixtureDir = join(SRC_DIR, entry.name, 'fixtures')
+    let names: string[]
+    try {
+      names = readdirSync(fixtureDir).filter(name => name.endsWith('.json'))
+    } catch {
+      continue
+    }
+
+    for (const name of names) {
+      const file = JSON.parse(readFileSync(join(fixtureDir, name), 'utf8')) as ProviderFixtureFile
+      files.set(file.provider, [...(files.get(file.provider) || []), file])
+    }
+  }
+
+  return files
+}
+
+describe('provider fixtures', () => {
+  const fixtureFiles = loadFixtureFiles()
+  const validator = new ProviderValidator()
+
+  it('only has fixtures for known providers', () => {
+    const known = providers.map(provider => provider.getId())
+    expect(Array.from(fixtureFiles.keys()).filter(id => !known.includes(id))).toEqual([])
+  })
+
+  for (const provider of providers) {
+    it(`parses every ${provider.getId()} fixture`, async () => {
+      const fixtures = (fixtureFiles.get(provider.getId()) || []).flatMap(file => file.fixtures)
+      expect(fixtures.length, `no fixtures for ${provider.getId()}`).toBeGreaterThan(0)
+
+      // A failure shows the provider's full validation report
+      const report = await validator.validate(provider, fixtures.map(createFixtureTestCase))
+      const details = ProviderValidator.formatReport(report)
+      expect(report.overallErrors, details).toEqual([])
+      expect(report.testResults.filter(result => !result.passed).map(result => result.testCase.name), details).toEqual([])
+    })
+  }
+
+  it('passes every fixture of every provider', async () => {
+    const reports = await Promise.all(providers.map(provider => validator.validate(
+      provider,
+      (fixtureFiles.get(provider.getId()) || []).flatMap(file => file.fixtures).map(createFixtureTestCase)
+    )))
+
+    // A failure shows the pass rate of each provider
+    const summary = ProviderValidator.formatSummary(reports)
+    expect(summary.split('\n').filter(line => !line.endsWith('100%')), summary).toEqual([])
+    expect(summary.split('\n')).toHaveLength(providers.length + 1)
+  })
+})
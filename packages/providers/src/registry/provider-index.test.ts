@@ -0,0 +1,135 @@
+/**
+ * Tests for the provider index
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest'
+import { ProviderRegistry } from './provider-registry'
+import { getPatternAnchor } from './provider-index'
+import { ProviderValidator } from '../base/provider-validator'
+import { AdobeAnalyticsProvider } from '../adobe'
+import { FacebookPixelProvider } from '../facebook'
+import { GoogleAdsProvider, GoogleAnalytics4Provider } from '../google'
+import { SegmentProvider } from '../segment'
+import { TikTokPixelProvider } from '../tiktok'
+
+const TRACKING_URLS = [
+  'https://www.facebook.com/tr?id=1234567890&ev=PageView&dl=https%3A%2F%2Fshop.example.com%2F',
+  'https://connect.facebook.net/en_US/fbevents.js',
+  'https://analytics.tiktok.com/api/v2/pixel/track?event=ViewContent',
+  'https://www.googleadservices.com/pagead/conversion/123456789/?label=abc&value=10',
+  'https://www.google-analytics.com/g/collect?v=2&tid=G-ABC123&en=page_view&dl=https%3A%2F%2Fexample.com',
+  'https://metrics.example.com/g/collect?v=2&tid=G-XYZ789&en=purchase',
+  'https://example.sc.omtrdc.net/b/ss/examplersid/1/JS-2.22.0/s1234?pageName=home',
+  'https://edge.adobedc.net/ee/irl1/v1/interact?configId=abc',
+  'https://api.segment.io/v1/t',
+  'https://acme.dataplane.rudderstack.com/v1/track'
+]
+
+const FIRST_PARTY_HOSTS = ['www.example.com', 'shop.example.com', 'cdn.example.net', 'static.news-site.org', 'app.saas.io']
+const FIRST_PARTY_PATHS = [
+  '/assets/app.3f9a1c.js', '/images/hero@2x.png', '/api/cart', '/api/v2/products?page=2',
+  '/fonts/inter.woff2', '/', '/blog/2024/05/how-we-ship', '/search?q=running+shoes', '/styles/main.css'
+]
+
+/**
+ * Deterministic mix of tracking and ordinary page requests
+ */
+function generateUrls(count: number): string[] {
+  let seed = 42
+  const next = (max: number) => {
+    seed = (seed * 1103515245 + 12345) % 2147483648
+    return seed % max
+  }
+
+  const urls: string[] = []
+  for (let i = 0; i < count; i++) {
+    if (next(10) === 0) {
+      urls.push(`${TRACKING_URLS[next(TRACKING_URLS.length)]}&_=${i}`)
+    } else {
+      const host = FIRST_PARTY_HOSTS[next(FIRST_PARTY_HOSTS.length)]
+      const path = FIRST_PARTY_PATHS[next(FIRST_PARTY_PATHS.length)]
+      urls.push(`https://${host}${path}${path.includes('?') ? '&' : '?'}v=${i}`)
+    }
+  }
+  return urls
+}
+
+describe('getPatternAnchor', () => {
+  it('pins patterns anchored to a host', () => {
+    expect(getPatternAnchor(/^https:\/\/www\.facebook\.com\/tr/)).toEqual({ host: 'www.facebook.com' })
+    expect(getPatternAnchor(/^https?:\/\/[^/]+\.dataplane\.example\.com\/v1\//)).toEqual({
+      host: 'dataplane.example.com',
+      subdomains: true
+    })
+  })
+
+  it('uses the longest required literal otherwise', () => {
+    expect(getPatternAnchor(/\/g\/collect(?:\?|$)/)).toEqual({ literal: '/g/collect' })
+    expect(getPatternAnchor('*pixel.example.com/collect*')).toEqual({ literal: 'com/collect' })
+    expect(getPatternAnchor(/\/pagead\/(?:viewthrough)conversion/)).toEqual({ literal: 'conversion' })
+    expect(getPatternAnchor(/colou?r-tracker/)).toEqual({ literal: 'r-tracker' })
+  })
+
+  it('gives up on top-level alternation and short literals', () => {
+    expect(getPatternAnchor(/\/collect|\/track/)).toBeNull()
+    expect(getPatternAnchor(/\/v1/)).toBeNull()
+  })
+})
+
+describe('ProviderRegistry index', () => {
+  const registry = new ProviderRegistry()
+  const requests = generateUrls(10000).map(url => ProviderValidator.createMockRequest(url))
+
+  beforeAll(async () => {
+    await registry.register(new FacebookPixelProvider())
+    await registry.register(new TikTokPixelProvider())
+    await registry.register(new GoogleAdsProvider())
+    await registry.register(new GoogleAnalytics4Provider())
+    await registry.register(new AdobeAnalyticsProvider())
+    await registry.register(new SegmentProvider())
+  })
+
+  it('indexes every built-in provider', () => {
+    expect(registry.getIndexStats()).toMatchObject({ providers: 6, unindexedProviders: [] })
+  })
+
+  it('keeps every provider that can handle the request', async () => {
+    const providers = registry.getAllProviders()
+
+    for (const request of requests) {
+      const candidates = registry.getCandidateProviders(request).map(provider => provider.getId())
+      for (const provider of providers) {
+        if (await provider.canHandle(request) > 0) {
+          expect(candidates).toContain(provider.getId())
+        }
+      }
+    }
+  })
+
+  it('rejects ordinary page requests without evaluating providers', () => {
+    const ordinary = requests.filter(request => !TRACKING_URLS.some(url => request.url.startsWith(url)))
+    const withCandidates = ordinary.filter(request => registry.getCandidateProviders(request).length > 0)
+    expect(withCandidates).toHaveLength(0)
+  })
+
+  it('checks fewer providers for 10k mixed URLs and finds the same matches', async () => {
+    const run = async (useIndex: boolean) => {
+      let matched = 0
+      let checked = 0
+      for (const request of requests) {
+        const result = await registry.analyze(request, { useCache: false, useIndex })
+        if (result.bestMatch) matched++
+        checked += result.metadata.totalProvidersChecked
+      }
+      return { matched, checked }
+    }
+
+    const full = await run(false)
+    const indexed = await run(true)
+
+    expect(indexed.matched).toBe(full.matched)
+    expect(full.checked).toBe(requests.length * 6)
+    // Only the ~10% tracking requests reach a provider, usually a single one
+    expect(indexed.checked).toBeLessThan(full.checked / 20)
+  }, 120000)
+})
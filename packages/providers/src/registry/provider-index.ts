@@ -0,0 +1,382 @@
+import { BaseProvider } from '../base/base-provider'
+import { RequestData } from '@pixeltracer/shared'
+
+/**
+ * Necessary condition derived from a single URL pattern
+ */
+export interface PatternAnchor {
+  /** The pattern only matches URLs on this host */
+  host?: string
+  /** Match any subdomain of host instead of host itself */
+  subdomains?: boolean
+  /** Lowercase text that every matching URL contains */
+  literal?: string
+}
+
+/**
+ * Provider index statistics
+ */
+export interface ProviderIndexStats {
+  /** Number of indexed providers */
+  providers: number
+  /** URL patterns indexed by host */
+  hostAnchors: number
+  /** URL patterns indexed by a required literal */
+  literalAnchors: number
+  /** Providers checked on every request because one of their URL patterns has no usable anchor */
+  unindexedProviders: string[]
+}
+
+// Shorter literals ("/v1") would make most requests candidates
+const MIN_LITERAL_LENGTH = 4
+
+/**
+ * Precompiled lookup of the providers that could match a request
+ *
+ * A provider only matches when one of its urlPatterns matches, so each URL pattern
+ * is reduced to a necessary condition:
+ * - patterns pinned to a host (^https://www.facebook.com/...) go into a hostname suffix trie
+ * - other patterns contribute their longest required literal ("/g/collect", "/b/ss/"),
+ *   all of which are found in one pass over the URL with an Aho-Corasick automaton
+ * - patterns without a usable literal make their provider a candidate for every request
+ *
+ * The index only narrows the candidates; they are still scored with canHandle()
+ */
+export class ProviderIndex {
+  private hosts = new HostSuffixTrie()
+  private literals = new LiteralMatcher()
+  private unindexed = new Set<string>()
+  private providerCount = 0
+  private hostAnchors = 0
+  private literalAnchors = 0
+
+  constructor(providers: BaseProvider[]) {
+    for (const provider of providers) {
+      const id = provider.getId()
+      this.providerCount++
+
+      for (const pattern of provider.getConfig().patterns.urlPatterns) {
+        const anchor = getPatternAnchor(pattern)
+        if (anchor?.host) {
+          this.hosts.add(anchor.host, id, anchor.subdomains)
+          this.hostAnchors++
+        } else if (anchor?.literal) {
+          this.literals.add(anchor.literal, id)
+          this.literalAnchors++
+        } else {
+          this.unindexed.add(id)
+        }
+      }
+    }
+
+    this.literals.build()
+  }
+
+  /**
+   * Get the IDs of providers that could match the request
+   */
+  getCandidates(request: RequestData): Set<string> {
+    const candidates = new Set(this.unindexed)
+    this.hosts.lookup(request.parsedUrl.hostname.toLowerCase(), candidates)
+    this.literals.search(request.url.toLowerCase(), candidates)
+    return candidates
+  }
+
+  /**
+   * Get index statistics
+   */
+  getStats(): ProviderIndexStats {
+    return {
+      providers: this.providerCount,
+      hostAnchors: this.hostAnchors,
+      literalAnchors: this.literalAnchors,
+      unindexedProviders: Array.from(this.unindexed)
+    }
+  }
+}
+
+/**
+ * Reduce a URL pattern to a condition every matching URL satisfies
+ * Returns null when no condition selective enough can be derived
+ */
+export function getPatternAnchor(pattern: string | RegExp): PatternAnchor | null {
+  // Plain strings are substring matches, wildcard strings become regexes (see BaseProvider.matchPatterns)
+  if (typeof pattern === 'string' && !pattern.includes('*')) {
+    return pattern.length >= MIN_LITERAL_LENGTH ? { literal: pattern.toLowerCase() } : null
+  }
+
+  const source = typeof pattern === 'string' ? pattern.replace(/\*/g, '.*') : pattern.source
+  const tokens = tokenizePattern(source)
+  if (!tokens) return null
+
+  const hostAnchor = source.startsWith('^') ? getHostAnchor(tokens.slice(1)) : null
+  if (hostAnchor) return hostAnchor
+
+  const literal = tokens.reduce((longest, token) =>
+    token.literal !== undefined && token.literal.length > longest.length ? token.literal : longest, '')
+  return literal.length >= MIN_LITERAL_LENGTH ? { literal: literal.toLowerCase() } : null
+}
+
+/**
+ * Regex source split into required literal text and everything else (gaps)
+ */
+interface PatternToken {
+  literal?: string
+  gap?: string
+}
+
+/**
+ * Split a regex source into required literals and gaps
+ * Returns null for top-level alternation, where no text is required by every branch
+ */
+function tokenizePattern(source: string): PatternToken[] | null {
+  const tokens: PatternToken[] = []
+  const pushLiteral = (text: string) => {
+    const last = tokens[tokens.length - 1]
+    if (last?.literal !== undefined) {
+      last.literal += text
+    } else {
+      tokens.push({ literal: text })
+    }
+  }
+  const pushGap = (text: string) => {
+    const last = tokens[tokens.length - 1]
+    if (last?.gap !== undefined) {
+      last.gap += text
+    } else {
+      tokens.push({ gap: text })
+    }
+  }
+
+  let index = 0
+  while (index < source.length) {
+    const char = source[index]
+    let end = index + 1
+    let literal: string | undefined
+
+    if (char === '|') {
+      return null
+    } else if (char === '\\') {
+      const next = source[index + 1] ?? ''
+      if (/[a-zA-Z0-9]/.test(next)) {
+        // Character class escapes, back-references, \xHH, \uHHHH, \p{...}
+        end = index + 2
+        if (next === 'x') end += 2
+        else if (next === 'u') end = source[end] === '{' ? source.indexOf('}', end) + 1 : end + 4
+        else if ((next === 'p' || next === 'P' || next === 'k') && /[{<]/.test(source[end] ?? '')) {
+          end = source.indexOf(source[end] === '{' ? '}' : '>', end) + 1
+        }
+      } else {
+        literal = next
+        end = index + 2
+      }
+    } else if (char === '[') {
+      end = findClassEnd(source, index)
+    } else if (char === '(') {
+      end = findGroupEnd(source, index)
+    } else if (char !== '.' && char !== '^' && char !== '$') {
+      literal = char
+    }
+
+    if (end <= index) return null
+
+    // Quantifier applied to the atom
+    const quantifier = source.slice(end).match(/^(?:[*+?]|\{\d+(?:,\d*)?\})\??/)?.[0]
+    if (quantifier) {
+      const required = quantifier[0] === '+' || /^\{[1-9]/.test(quantifier)
+      if (literal !== undefined && required) {
+        pushLiteral(literal)
+      }
+      pushGap(source.slice(literal !== undefined && required ? end : index, end + quantifier.length))
+      end += quantifier.length
+    } else if (literal !== undefined) {
+      pushLiteral(literal)
+    } else {
+      pushGap(source.slice(index, end))
+    }
+
+    index = end
+  }
+
+  return tokens
+}
+
+/**
+ * Index just past the ] closing a character class
+ */
+function findClassEnd(source: string, start: number): number {
+  let index = start + 1
+  if (source[index] === '^') index++
+  while (index < source.length && source[index] !== ']') {
+    index += source[index] === '\\' ? 2 : 1
+  }
+  return index < source.length ? index + 1 : -1
+}
+
+/**
+ * Index just past the ) closing a group
+ */
+function findGroupEnd(source: string, start: number): number {
+  let depth = 0
+  let index = start
+  while (index < source.length) {
+    const char = source[index]
+    if (char === '\\') {
+      index += 2
+      continue
+    }
+    if (char === '[') {
+      index = findClassEnd(source, index)
+      if (index < 0) return -1
+      continue
+    }
+    if (char === '(') depth++
+    if (char === ')' && --depth === 0) return index + 1
+    index++
+  }
+  return -1
+}
+
+/**
+ * Host of a pattern anchored at the start of the URL
+ * Handles ^https://host/... and ^https://[^/]+.suffix/... (scheme may be https?)
+ */
+function getHostAnchor(tokens: PatternToken[]): PatternAnchor | null {
+  // "https?" tokenizes as "http" + gap "s?"
+  if (tokens[0]?.literal === 'http' && tokens[1]?.gap === 's?' && tokens[2]?.literal?.startsWith('://')) {
+    tokens = [{ literal: `http${tokens[2].literal}` }, ...tokens.slice(3)]
+  }
+
+  const first = tokens[0]?.literal
+  if (!first) return null
+
+  const exact = first.match(/^https?:\/\/([a-z0-9.-]+)\//i)
+  if (exact) {
+    return { host: exact[1].toLowerCase() }
+  }
+
+  if (/^https?:\/\/$/i.test(first) && /^\[\^\\?\/\]\+$/.test(tokens[1]?.gap ?? '')) {
+    const suffix = tokens[2]?.literal?.match(/^\.([a-z0-9.-]+)\//i)
+    if (suffix) {
+      return { host: suffix[1].toLowerCase(), subdomains: true }
+    }
+  }
+
+  return null
+}
+
+interface HostTrieNode {
+  children: Map<string, HostTrieNode>
+  /** Providers pinned to exactly this host */
+  exact: Set<string>
+  /** Providers pinned to subdomains of this host */
+  subdomains: Set<string>
+}
+
+/**
+ * Hostname trie keyed by labels from the TLD down (com -> facebook -> www)
+ */
+class HostSuffixTrie {
+  private root: HostTrieNode = createHostNode()
+
+  add(host: string, providerId: string, subdomains = false): void {
+    let node = this.root
+    for (const label of host.split('.').reverse()) {
+      let child = node.children.get(label)
+      if (!child) {
+        child = createHostNode()
+        node.children.set(label, child)
+      }
+      node = child
+    }
+
+    if (subdomains) {
+      node.subdomains.add(providerId)
+    } else {
+      node.exact.add(providerId)
+    }
+  }
+
+  lookup(hostname: string, into: Set<string>): void {
+    const labels = hostname.split('.').reverse()
+    let node: HostTrieNode | undefined = this.root
+
+    for (let index = 0; index < labels.length && node; index++) {
+      node = node.children.get(labels[index])
+      if (!node) return
+
+      if (index === labels.length - 1) {
+        node.exact.forEach(id => into.add(id))
+      } else {
+        node.subdomains.forEach(id => into.add(id))
+      }
+    }
+  }
+}
+
+function createHostNode(): HostTrieNode {
+  return { children: new Map(), exact: new Set(), subdomains: new Set() }
+}
+
+/**
+ * Aho-Corasick automaton finding every registered literal in one pass over a string
+ */
+class LiteralMatcher {
+  private transitions: Map<string, number>[] = [new Map()]
+  private failure: number[] = [0]
+  private outputs: Set<string>[] = [new Set()]
+
+  add(literal: string, providerId: string): void {
+    let state = 0
+    for (const char of literal) {
+      let next = this.transitions[state].get(char)
+      if (next === undefined) {
+        next = this.transitions.length
+        this.transitions.push(new Map())
+        this.failure.push(0)
+        this.outputs.push(new Set())
+        this.transitions[state].set(char, next)
+      }
+      state = next
+    }
+    this.outputs[state].add(providerId)
+  }
+
+  /**
+   * Compute failure links (breadth first) once all literals are added
+   */
+  build(): void {
+    const queue: number[] = []
+    this.transitions[0].forEach(state => {
+      this.failure[state] = 0
+      queue.push(state)
+    })
+
+    while (queue.length > 0) {
+      const state = queue.shift()!
+      this.transitions[state].forEach((next, char) => {
+        let fallback = this.failure[state]
+        while (fallback !== 0 && !this.transitions[fallback].has(char)) {
+          fallback = this.failure[fallback]
+        }
+        const target = this.transitions[fallback].get(char)
+        this.failure[next] = target !== undefined && target !== next ? target : 0
+
+        // Literals ending at the failure state also end here
+        this.outputs[this.failure[next]].forEach(id => this.outputs[next].add(id))
+        queue.push(next)
+      })
+    }
+  }
+
+  search(text: string, into: Set<string>): void {
+    let state = 0
+    for (const char of text) {
+      while (state !== 0 && !this.transitions[state].has(char)) {
+        state = this.failure[state]
+      }
+      state = this.transitions[state].get(char) ?? 0
+      this.outputs[state].forEach(id => into.add(id))
+    }
+  }
+}
@@ -104,6 +104,66 @@ export const PROVIDER_METADATA: Record<string, ProviderMetadata> = {
     website: 'https://support.google.com/google-ads/answer/1722022',
     supported: true,
     iconType: 'google'
+  },
+
+  // Google Analytics 4 variants
+  'google-analytics-4': {
+    id: 'google-analytics-4',
+    name: 'Google Analytics 4',
+    displayName: 'Google Analytics 4',
+    category: 'analytics',
+    website: 'https://developers.google.com/analytics/devguides/collection/ga4',
+    supported: true,
+    iconType: 'google'
+  },
+  'ga4': {
+    id: 'ga4',
+    name: 'Google Analytics 4',
+    displayName: 'Google Analytics 4',
+    category: 'analytics',
+    website: 'https://developers.google.com/analytics/devguides/collection/ga4',
+    supported: true,
+    iconType: 'google'
+  },
+
+  // Adobe Analytics variants
+  'adobe-analytics': {
+    id: 'adobe-analytics',
+    name: 'Adobe Analytics',
+    displayName: 'Adobe Analytics',
+    category: 'analytics',
+    website: 'https://experienceleague.adobe.com/docs/analytics.html',
+    supported: true,
+    iconType: 'default'
+  },
+  'adobe': {
+    id: 'adobe',
+    name: 'Adobe Analytics',
+    displayName: 'Adobe Analytics',
+    category: 'analytics',
+    website: 'https://experienceleague.adobe.com/docs/analytics.html',
+    supported: true,
+    iconType: 'default'
+  },
+
+  // Segment variants
+  'segment': {
+    id: 'segment',
+    name: 'Segment',
+    displayName: 'Segment',
+    category: 'analytics',
+    website: 'https://segment.com/docs/connections/spec/',
+    supported: true,
+    iconType: 'default'
+  },
+  'rudderstack': {
+    id: 'rudderstack',
+    name: 'Segment',
+    displayName: 'Segment',
+    category: 'analytics',
+    website: 'https://www.rudderstack.com/docs/event-spec/standard-events/',
+    supported: true,
+    iconType: 'default'
   }
 }
 
@@ -0,0 +1,38 @@
+/**
+ * Tests for request analysis through the provider registry
+ */
+
+import { describe, it, expect } from 'vitest'
+import { ProviderRegistry } from './provider-registry'
+import { ProviderValidator } from '../base/provider-validator'
+
+describe('ProviderRegistry.analyze', () => {
+  it('scores required parameters of encoded bodies after decoding them', async () => {
+    const registry = new ProviderRegistry()
+    await registry.registerDefinition({
+      id: 'encoded-pixel',
+      name: 'Encoded Pixel',
+      match: {
+        urlPatterns: ['*collect.example.com/p*'],
+        required: ['pid']
+      },
+      parameters: {
+        bodyEncodings: ['base64']
+      },
+      eventType: { param: 'ev' },
+      accountId: { param: 'pid' }
+    })
+
+    const request = ProviderValidator.createMockRequest('https://collect.example.com/p', 'POST', btoa('pid=42&ev=Signup'))
+    const result = await registry.analyze(request, { useCache: false })
+
+    expect(result.matches).toHaveLength(1)
+    expect(result.bestMatch?.providerId).toBe('encoded-pixel')
+    expect(result.bestMatch?.confidence).toBeGreaterThan(0.1)
+    expect(result.bestMatch?.event).toMatchObject({ eventType: 'Signup', accountId: '42' })
+
+    const provider = registry.getProvider('encoded-pixel')!
+    const explanation = await provider.explainMatch(request)
+    expect(explanation.steps.find(step => step.rule === 'required')).toMatchObject({ matched: true })
+  })
+})
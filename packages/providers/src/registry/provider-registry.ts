@@ -1,4 +1,7 @@
 import { BaseProvider, ExtendedProviderMatch, ProviderConfig } from '../base/base-provider'
+import { DeclarativeProvider } from '../declarative/declarative-provider'
+import { DeclarativeProviderDefinition, parseProviderDefinition } from '../declarative/declarative-definition'
+import { ProviderIndex, ProviderIndexStats } from './provider-index'
 import { RequestData, AnalysisResult, ProviderMatch } from '@pixeltracer/shared'
 
 /**
@@ -47,6 +50,8 @@ export class ProviderRegistry {
   private analysisCache = new Map<string, AnalysisResult>()
   private cacheMaxSize = 1000
   private cacheMaxAge = 5 * 60 * 1000 // 5 minutes
+  // Lookup of candidate providers, rebuilt lazily after providers change
+  private index: { lookup: ProviderIndex; providers: BaseProvider[] } | null = null
 
   /**
    * Register a provider with the registry
@@ -74,6 +79,7 @@ export class ProviderRegistry {
       }
       
       this.providers.set(config.id, registration)
+      this.index = null
       
       
     } catch (error) {
@@ -81,12 +87,31 @@ export class ProviderRegistry {
     }
   }
 
+  /**
+   * Register a provider from a declarative definition (JSON or YAML text, or a parsed object)
+   * Throws if the definition is invalid
+   */
+  async registerDefinition(definition: string | DeclarativeProviderDefinition, options: {
+    enabled?: boolean
+    priority?: number
+  } = {}): Promise<DeclarativeProvider> {
+    const provider = typeof definition === 'string'
+      ? new DeclarativeProvider(parseProviderDefinition(definition))
+      : new DeclarativeProvider(definition)
+
+    // Built-in providers keep precedence unless the definition asks otherwise
+    await this.register(provider, { priority: 10, ...options })
+    this.clearCache()
+    return provider
+  }
+
   /**
    * Unregister a provider
    */
   unregister(providerId: string): boolean {
     const removed = this.providers.delete(providerId)
     if (removed) {
+      this.index = null
       // Clear related cache entries
       this.clearCacheForProvider(providerId)
     }
@@ -126,6 +151,7 @@ export class ProviderRegistry {
     const registration = this.providers.get(providerId)
     if (registration) {
       registration.metadata.enabled = enabled
+      this.index = null
       
       // Clear cache when provider state changes
       this.clearCacheForProvider(providerId)
@@ -141,6 +167,7 @@ export class ProviderRegistry {
     const registration = this.providers.get(providerId)
     if (registration) {
       registration.metadata.priority = priority
+      this.index = null
       return true
     }
     return false
@@ -153,12 +180,15 @@ export class ProviderRegistry {
     maxMatches?: number
     minConfidence?: number
     useCache?: boolean
+    /** Only evaluate providers the index selects (disable to check every provider) */
+    useIndex?: boolean
   } = {}): Promise<AnalysisResult> {
     const startTime = performance.now()
     const {
       maxMatches = 10,
       minConfidence = 0.1,
-      useCache = true
+      useCache = true,
+      useIndex = true
     } = options
 
     // Check cache first
@@ -171,7 +201,7 @@ export class ProviderRegistry {
     }
 
     const matches: ProviderMatch[] = []
-    const providers = this.getAllProviders()
+    const providers = useIndex ? this.getCandidateProviders(request) : this.getAllProviders()
     
     try {
       // Analyze request with each provider in parallel
@@ -179,7 +209,7 @@ export class ProviderRegistry {
         try {
           const confidence = await provider.canHandle(request)
           if (confidence >= minConfidence) {
-            return await provider.parse(request)
+            return await provider.parseEvents(request)
           }
           return null
         } catch (error) {
@@ -190,15 +220,18 @@ export class ProviderRegistry {
       const results = await Promise.allSettled(analysisPromises)
       
       // Collect successful matches and convert to shared ProviderMatch interface
+      // (one match per provider, carrying every event split from the request)
       results.forEach((result) => {
-        if (result.status === 'fulfilled' && result.value) {
-          const extendedMatch = result.value as ExtendedProviderMatch
+        if (result.status === 'fulfilled' && result.value && result.value.length > 0) {
+          const extendedMatches = result.value as ExtendedProviderMatch[]
+          const [firstMatch] = extendedMatches
           const providerMatch: ProviderMatch = {
-            providerId: extendedMatch.providerId,
-            providerName: extendedMatch.providerName,
-            confidence: extendedMatch.confidence,
-            event: extendedMatch.event,
-            metadata: extendedMatch.metadata
+            providerId: firstMatch.providerId,
+            providerName: firstMatch.providerName,
+            confidence: firstMatch.confidence,
+            event: firstMatch.event,
+            events: extendedMatches.map(match => match.event),
+            metadata: firstMatch.metadata
           }
           matches.push(providerMatch)
         }
@@ -269,6 +302,22 @@ export class ProviderRegistry {
     }
   }
 
+  /**
+   * Get the enabled providers that could match a request, in priority order
+   */
+  getCandidateProviders(request: RequestData): BaseProvider[] {
+    const index = this.getIndex()
+    const candidates = index.lookup.getCandidates(request)
+    return candidates.size > 0 ? index.providers.filter(provider => candidates.has(provider.getId())) : []
+  }
+
+  /**
+   * Get provider index statistics
+   */
+  getIndexStats(): ProviderIndexStats {
+    return this.getIndex().lookup.getStats()
+  }
+
   /**
    * Clear the analysis cache
    */
@@ -276,6 +325,17 @@ export class ProviderRegistry {
     this.analysisCache.clear()
   }
 
+  /**
+   * Build the provider index on first use after providers changed
+   */
+  private getIndex(): { lookup: ProviderIndex; providers: BaseProvider[] } {
+    if (!this.index) {
+      const providers = this.getAllProviders()
+      this.index = { lookup: new ProviderIndex(providers), providers }
+    }
+    return this.index
+  }
+
   /**
    * Validate provider configuration
    */
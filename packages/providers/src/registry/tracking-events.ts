@@ -0,0 +1,84 @@
+/**
+ * Tracking event creation
+ *
+ * Turns registry matches into tracking events. Shared by live capture and
+ * offline imports so both produce the same events
+ */
+
+import { TrackingEvent, ProviderMatch, ProviderCandidate, RequestData } from '@pixeltracer/shared'
+
+export interface TrackingEventOptions {
+  /** Provider pinned for the request domain; used instead of the best match when it matched */
+  overrideId?: string
+  tabId?: number
+  timestamp?: number
+}
+
+/**
+ * Describe how every matching provider parsed a request, for the provider switcher
+ * index selects the sub-event of batched requests (providers without that many events use their first)
+ */
+export function buildCandidates(matches: ProviderMatch[], index: number): ProviderCandidate[] {
+  return matches.map(match => {
+    const event = match.events?.[index] ?? match.event
+    return {
+      provider: match.providerId,
+      providerName: match.providerName,
+      confidence: event.confidence || match.confidence,
+      eventType: event.eventType,
+      accountId: event.accountId,
+      parameters: event.parameters,
+      decodedBody: event.decodedBody,
+      encodings: event.encodings,
+      matchExplanation: event.matchExplanation
+    }
+  })
+}
+
+/**
+ * Create the tracking events of a request from its matches (highest confidence first)
+ * Batched protocols emit several events for one request; they share the request ID
+ * so each sub-event links back to its parent request. Returns no events without matches
+ */
+export function createTrackingEvents(
+  matches: ProviderMatch[],
+  request: RequestData,
+  options: TrackingEventOptions = {}
+): TrackingEvent[] {
+  if (matches.length === 0) return []
+
+  const overrideMatch = options.overrideId
+    ? matches.find(match => match.providerId === options.overrideId)
+    : undefined
+  const bestMatch = overrideMatch || matches[0]
+
+  const timestamp = options.timestamp ?? Date.now()
+  const requestId = `${timestamp}-${Math.random().toString(36).substr(2, 9)}`
+  const matchEvents = bestMatch.events && bestMatch.events.length > 0
+    ? bestMatch.events
+    : [bestMatch.event]
+  const isBatch = matchEvents.length > 1
+
+  return matchEvents.map((matchEvent, index) => ({
+    id: isBatch ? `${requestId}-${index}` : requestId,
+    timestamp,
+    provider: bestMatch.providerId,
+    providerName: bestMatch.providerName,
+    url: request.url,
+    method: request.method,
+    eventType: matchEvent.eventType,
+    accountId: matchEvent.accountId,
+    parameters: matchEvent.parameters,
+    confidence: matchEvent.confidence || bestMatch.confidence,
+    tabId: options.tabId,
+    requestBody: request.rawBody ?? (request.body || undefined),
+    decodedBody: matchEvent.decodedBody,
+    encodings: matchEvent.encodings,
+    matchExplanation: matchEvent.matchExplanation,
+    candidates: matches.length > 1 ? buildCandidates(matches, index) : undefined,
+    providerOverride: overrideMatch ? true : undefined,
+    requestId,
+    batchIndex: isBatch ? index : undefined,
+    batchSize: isBatch ? matchEvents.length : undefined
+  }))
+}
@@ -0,0 +1,6 @@
+/**
+ * Segment Providers
+ * Segment and RudderStack analytics.js tracking
+ */
+
+export * from './segment-provider'
\ No newline at end of file
@@ -0,0 +1,556 @@
+import { BaseProvider, ProviderConfig } from '../base/base-provider'
+import { TrackingEvent, RequestData } from '@pixeltracer/shared'
+import { ParameterGroup, GroupedParameter, ParameterGroupingProvider } from '../base/parameter-group'
+
+/**
+ * Call types of the Segment spec
+ */
+const CALL_TYPES = ['track', 'identify', 'page', 'screen', 'group', 'alias']
+
+/**
+ * Short endpoint paths used by analytics.js (/v1/t, /v1/p, ...)
+ */
+const SHORT_PATH_TYPES: Record<string, string> = {
+  't': 'track',
+  'i': 'identify',
+  'p': 'page',
+  's': 'screen',
+  'g': 'group',
+  'a': 'alias'
+}
+
+const SEGMENT_DOMAIN_PATTERN = /(^|\.)(segment\.io|segmentapis\.com|segment\.com)$/
+const RUDDERSTACK_DOMAIN_PATTERN = /(^|\.)(rudderstack\.com|rudderlabs\.com)$/
+
+/**
+ * Segment provider
+ * Detects and parses Segment and RudderStack analytics.js calls
+ *
+ * Supports:
+ * - api.segment.io and regional Segment endpoints
+ * - First-party Segment API proxies (/v1/t, /v1/track, ...)
+ * - RudderStack data planes (hosted and self-hosted)
+ * - track, identify, page, screen, group and alias calls
+ * - /v1/batch payloads carrying several calls
+ */
+export class SegmentProvider extends BaseProvider implements ParameterGroupingProvider {
+  constructor() {
+    const config: ProviderConfig = {
+      id: 'segment',
+      name: 'Segment',
+      version: '1.0.0',
+      description: 'Segment and RudderStack customer data tracking',
+      website: 'https://segment.com/docs/connections/spec/',
+      icon: 'https://segment.com/favicon.ico',
+      category: 'analytics',
+
+      patterns: {
+        urlPatterns: [
+          // Segment hosted API (US and EU workspaces)
+          /https:\/\/api\.segment\.io\/v1\//,
+          /https:\/\/events\.eu1\.segmentapis\.com\/v1\//,
+          // RudderStack hosted data planes
+          /https:\/\/[^/]+\.dataplane\.rudderstack\.com\/v1\//,
+          /https:\/\/hosted\.rudderlabs\.com\/v1\//,
+          // First-party proxies and self-hosted data planes
+          /\/v1\/(?:t|i|p|s|g|a|b|m|track|identify|page|screen|group|alias|batch)(?:\?|$)/
+        ],
+
+        domains: [
+          'api.segment.io',
+          'events.eu1.segmentapis.com',
+          'dataplane.rudderstack.com',
+          'hosted.rudderlabs.com'
+        ],
+
+        paths: [
+          '/v1/*'
+        ],
+
+        methods: ['POST']
+      },
+
+      parameters: {
+        required: ['messageId'],
+
+        optional: [
+          // Call data
+          'type', // Call type
+          'event', // Track event name
+          'name', // Page / screen name
+          'category', // Page category
+          'properties', // Track / page properties
+
+          // Identity
+          'userId', // User ID
+          'anonymousId', // Anonymous ID
+          'groupId', // Group ID
+          'previousId', // Previous ID (alias)
+          'traits', // User / group traits
+
+          // Context
+          'context', // Library, page and device context
+          'integrations', // Destination overrides
+
+          // Technical
+          'messageId', // Message ID
+          'writeKey', // Source write key
+          'timestamp', // Event timestamp
+          'sentAt', // Send timestamp
+          'originalTimestamp' // Client timestamp (RudderStack)
+        ],
+
+        aliases: {
+          'user_id': ['userId'],
+          'anonymous_id': ['anonymousId'],
+          'event_name': ['event', 'name']
+        },
+
+        validators: {
+          'type': (value: any) => typeof value === 'string' && CALL_TYPES.includes(value),
+          'messageId': (value: any) => typeof value === 'string' && value.length > 0
+        }
+      }
+    }
+
+    super(config)
+  }
+
+  /**
+   * Split a /v1/batch payload into one request per call.
+   * Envelope fields (writeKey, sentAt, context) are kept on every call.
+   */
+  protected splitRequest(request: RequestData): RequestData[] {
+    const payload = this.getPayload(request)
+    if (!payload || !Array.isArray(payload.batch) || payload.batch.length <= 1) {
+      return [request]
+    }
+
+    const { batch, ...envelope } = payload
+    return batch.map((message: Record<string, any>) => ({
+      ...request,
+      body: JSON.stringify({ ...envelope, batch: [message] })
+    }))
+  }
+
+  /**
+   * Segment-specific confidence calculation
+   */
+  protected async calculateCustomConfidence(request: RequestData): Promise<number> {
+    let customScore = 0
+    const message = this.getMessage(request)
+
+    if (!message) {
+      return 0
+    }
+
+    // Spec call type
+    if (CALL_TYPES.includes(message.type)) {
+      customScore += 0.3
+    }
+
+    // Identity fields every call carries
+    if (message.anonymousId || message.userId) {
+      customScore += 0.2
+    }
+
+    // Source write key in the body or Basic auth header
+    if (message.writeKey || this.getHeader(request, 'authorization')?.startsWith('Basic ')) {
+      customScore += 0.2
+    }
+
+    // analytics.js / RudderStack SDK library
+    const library = message.context?.library?.name
+    if (typeof library === 'string' && /analytics|rudder/i.test(library)) {
+      customScore += 0.2
+    }
+
+    // Hosted collection endpoint
+    const hostname = request.parsedUrl.hostname
+    if (SEGMENT_DOMAIN_PATTERN.test(hostname) || RUDDERSTACK_DOMAIN_PATTERN.test(hostname)) {
+      customScore += 0.1
+    }
+
+    return Math.min(1.0, customScore)
+  }
+
+  /**
+   * Parse Segment parameters
+   */
+  protected async parseParameters(request: RequestData): Promise<Record<string, any>> {
+    const parameters: Record<string, any> = {}
+
+    // For a batch only the first call is parsed here, the rest
+    // are split out by splitRequest() through parseEvents().
+    const message = this.getMessage(request) || {}
+
+    for (const [key, value] of Object.entries(message)) {
+      if (value !== undefined && value !== null) {
+        parameters[key] = value
+      }
+    }
+
+    if (!parameters.type) {
+      const type = this.getTypeFromPath(request)
+      if (type) {
+        parameters.type = type
+      }
+    }
+
+    // RudderStack sends the write key as Basic auth instead of in the body
+    if (!parameters.writeKey) {
+      const writeKey = this.getWriteKeyFromHeader(request)
+      if (writeKey) {
+        parameters.writeKey = writeKey
+      }
+    }
+
+    // Promote well-known ecommerce properties for filtering and revenue analysis
+    const properties = parameters.properties || {}
+    const value = properties.revenue ?? properties.value ?? properties.total
+    if (value !== undefined && !isNaN(parseFloat(value))) {
+      parameters.value = parseFloat(value)
+    }
+    if (properties.currency) {
+      parameters.currency = properties.currency
+    }
+    if (properties.order_id) {
+      parameters.transaction_id = properties.order_id
+    }
+
+    this.applyParameterAliases(parameters)
+
+    return parameters
+  }
+
+  /**
+   * Extract Segment account ID (source write key)
+   */
+  protected async extractAccountId(_request: RequestData, parameters: Record<string, any>): Promise<string | null> {
+    return parameters.writeKey || null
+  }
+
+  /**
+   * Extract Segment call type
+   */
+  protected async extractEventType(request: RequestData, parameters: Record<string, any>): Promise<string | null> {
+    if (typeof parameters.type === 'string' && parameters.type.length > 0) {
+      return parameters.type.toLowerCase()
+    }
+
+    return this.getTypeFromPath(request)
+  }
+
+  /**
+   * Enrich Segment event with additional context
+   */
+  protected async enrichEvent(event: TrackingEvent, request: RequestData): Promise<void> {
+    const params = event.parameters
+    const library = params.context?.library
+
+    event.rawData = {
+      ...event.rawData,
+      segment: {
+        platform: this.detectPlatform(request, params),
+        call_type: event.eventType,
+        event_name: params.event || params.name,
+        write_key: params.writeKey,
+        library_name: library?.name,
+        library_version: library?.version,
+        is_proxied: !SEGMENT_DOMAIN_PATTERN.test(request.parsedUrl.hostname) &&
+          !RUDDERSTACK_DOMAIN_PATTERN.test(request.parsedUrl.hostname),
+        is_batch: Array.isArray(this.getPayload(request)?.batch)
+      }
+    }
+
+    if (params.value !== undefined || params.transaction_id || Array.isArray(params.properties?.products)) {
+      event.rawData!.ecommerce = {
+        value: params.value,
+        currency: params.currency,
+        transaction_id: params.transaction_id,
+        item_count: Array.isArray(params.properties?.products) ? params.properties.products.length : 0
+      }
+    }
+
+    event.rawData!.event_category = this.categorizeEvent(event.eventType || 'unknown', params.event)
+  }
+
+  /**
+   * Parse the JSON body of a Segment call
+   */
+  private getPayload(request: RequestData): Record<string, any> | null {
+    if (!request.body) return null
+
+    try {
+      const payload = JSON.parse(request.body)
+      return payload && typeof payload === 'object' && !Array.isArray(payload) ? payload : null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Get the (first) call of a request, merged with batch envelope fields
+   */
+  private getMessage(request: RequestData): Record<string, any> | null {
+    const payload = this.getPayload(request)
+    if (!payload) return null
+
+    if (Array.isArray(payload.batch)) {
+      const { batch, ...envelope } = payload
+      const first = batch[0]
+      if (!first || typeof first !== 'object') return null
+
+      return {
+        ...envelope,
+        ...first,
+        context: envelope.context || first.context
+          ? { ...envelope.context, ...first.context }
+          : undefined
+      }
+    }
+
+    return payload
+  }
+
+  /**
+   * Derive the call type from the endpoint path (/v1/t, /v1/track)
+   */
+  private getTypeFromPath(request: RequestData): string | null {
+    const match = request.parsedUrl.pathname.match(/\/v1\/([a-z]+)\/?$/)
+    if (!match) return null
+
+    const segment = match[1]
+    if (SHORT_PATH_TYPES[segment]) return SHORT_PATH_TYPES[segment]
+    return CALL_TYPES.includes(segment) ? segment : null
+  }
+
+  /**
+   * Case-insensitive header lookup
+   */
+  private getHeader(request: RequestData, name: string): string | undefined {
+    const entry = Object.entries(request.headers || {}).find(([key]) => key.toLowerCase() === name)
+    return entry?.[1]
+  }
+
+  /**
+   * Decode the write key from a Basic auth header (base64 of "<writeKey>:")
+   */
+  private getWriteKeyFromHeader(request: RequestData): string | null {
+    const authorization = this.getHeader(request, 'authorization')
+    if (!authorization?.startsWith('Basic ')) return null
+
+    try {
+      const decoded = atob(authorization.slice(6).trim())
+      const writeKey = decoded.split(':')[0]
+      return writeKey.length > 0 ? writeKey : null
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Tell Segment and RudderStack apart
+   */
+  private detectPlatform(request: RequestData, parameters: Record<string, any>): 'segment' | 'rudderstack' {
+    if (RUDDERSTACK_DOMAIN_PATTERN.test(request.parsedUrl.hostname)) return 'rudderstack'
+    if (parameters.rudderId || parameters.channel) return 'rudderstack'
+    if (typeof parameters.context?.library?.name === 'string' && /rudder/i.test(parameters.context.library.name)) {
+      return 'rudderstack'
+    }
+    return 'segment'
+  }
+
+  /**
+   * Apply parameter aliases
+   */
+  private applyParameterAliases(parameters: Record<string, any>): void {
+    if (!this.config.parameters.aliases) return
+
+    for (const [canonical, aliases] of Object.entries(this.config.parameters.aliases)) {
+      for (const alias of aliases) {
+        if (parameters[alias] !== undefined && parameters[canonical] === undefined) {
+          parameters[canonical] = parameters[alias]
+          break
+        }
+      }
+    }
+  }
+
+  /**
+   * Categorize Segment calls, using the ecommerce spec event names for track calls
+   */
+  private categorizeEvent(callType: string, eventName?: string): string {
+    if (callType === 'identify' || callType === 'alias' || callType === 'group') {
+      return 'identity'
+    }
+
+    if (callType === 'page' || callType === 'screen') {
+      return 'awareness'
+    }
+
+    const categories: Record<string, string> = {
+      'Products Searched': 'consideration',
+      'Product List Viewed': 'consideration',
+      'Product Viewed': 'consideration',
+      'Product Clicked': 'consideration',
+      'Product Added': 'consideration',
+      'Cart Viewed': 'consideration',
+      'Checkout Started': 'conversion',
+      'Payment Info Entered': 'conversion',
+      'Order Completed': 'conversion',
+      'Order Refunded': 'conversion',
+      'Signed Up': 'conversion'
+    }
+
+    return (eventName && categories[eventName]) || 'engagement'
+  }
+
+  /**
+   * Group Segment parameters for display
+   */
+  groupParameters(parameters: Record<string, any>): ParameterGroup[] {
+    const eventGroup: ParameterGroup = {
+      id: 'event',
+      name: 'Call',
+      icon: 'event',
+      parameters: [],
+      description: 'Call type, event name and properties',
+      priority: 1
+    }
+
+    const userGroup: ParameterGroup = {
+      id: 'user',
+      name: 'Identity & Traits',
+      icon: 'user',
+      parameters: [],
+      description: 'User, anonymous and group identifiers',
+      priority: 2
+    }
+
+    const productGroup: ParameterGroup = {
+      id: 'product',
+      name: 'Ecommerce',
+      icon: 'product',
+      parameters: [],
+      description: 'Revenue and order data',
+      priority: 3
+    }
+
+    const contextGroup: ParameterGroup = {
+      id: 'context',
+      name: 'Context',
+      icon: 'context',
+      parameters: [],
+      description: 'Library, page and device context',
+      priority: 4
+    }
+
+    const technicalGroup: ParameterGroup = {
+      id: 'technical',
+      name: 'Technical',
+      icon: 'technical',
+      parameters: [],
+      description: 'Message metadata and destinations',
+      priority: 5
+    }
+
+    Object.entries(parameters).forEach(([key, value]) => {
+      if (value === undefined || value === null) return
+
+      let group: ParameterGroup
+
+      if (['type', 'event', 'name', 'category', 'event_name', 'properties'].includes(key)) {
+        group = eventGroup
+      }
+      else if (['userId', 'user_id', 'anonymousId', 'anonymous_id', 'groupId', 'previousId', 'traits'].includes(key)) {
+        group = userGroup
+      }
+      else if (['value', 'currency', 'transaction_id'].includes(key)) {
+        group = productGroup
+      }
+      else if (['context', 'channel'].includes(key)) {
+        group = contextGroup
+      }
+      else {
+        group = technicalGroup
+      }
+
+      group.parameters.push({
+        key,
+        displayName: this.getParameterDisplayName(key),
+        value,
+        description: this.getParameterDescription(key),
+        format: this.getParameterFormat(key)
+      })
+    })
+
+    return [eventGroup, userGroup, productGroup, contextGroup, technicalGroup]
+      .filter(g => g.parameters.length > 0)
+  }
+
+  /**
+   * Get display name for a parameter
+   */
+  getParameterDisplayName(key: string): string {
+    const displayNames: Record<string, string> = {
+      'type': 'Call Type',
+      'event': 'Event',
+      'name': 'Name',
+      'category': 'Category',
+      'event_name': 'Event Name',
+      'properties': 'Properties',
+      'userId': 'User ID',
+      'user_id': 'User ID',
+      'anonymousId': 'Anonymous ID',
+      'anonymous_id': 'Anonymous ID',
+      'groupId': 'Group ID',
+      'previousId': 'Previous ID',
+      'traits': 'Traits',
+      'value': 'Revenue',
+      'currency': 'Currency',
+      'transaction_id': 'Order ID',
+      'context': 'Context',
+      'channel': 'Channel',
+      'integrations': 'Integrations',
+      'messageId': 'Message ID',
+      'writeKey': 'Write Key',
+      'timestamp': 'Timestamp',
+      'sentAt': 'Sent At',
+      'receivedAt': 'Received At',
+      'originalTimestamp': 'Original Timestamp',
+      'rudderId': 'Rudder ID',
+      '_metadata': 'Metadata'
+    }
+
+    return displayNames[key] || key
+      .replace(/_/g, ' ')
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .replace(/\b\w/g, l => l.toUpperCase())
+  }
+
+  /**
+   * Get description for a parameter
+   */
+  getParameterDescription(key: string): string | undefined {
+    const descriptions: Record<string, string> = {
+      'type': 'Segment spec call type',
+      'event': 'Name of the tracked action (track calls)',
+      'name': 'Page or screen name',
+      'anonymousId': 'Device-level identifier set before the user is known',
+      'userId': 'Identifier of the known user',
+      'traits': 'User or group traits',
+      'writeKey': 'Write key of the Segment / RudderStack source',
+      'integrations': 'Per-destination enable / disable overrides'
+    }
+    return descriptions[key]
+  }
+
+  /**
+   * Get format hint for parameter display
+   */
+  getParameterFormat(key: string): GroupedParameter['format'] | undefined {
+    if (key === 'value') return 'currency'
+    return undefined
+  }
+}
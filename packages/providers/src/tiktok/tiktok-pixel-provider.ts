@@ -185,6 +185,29 @@ export class TikTokPixelProvider extends BaseProvider implements ParameterGroupi
     super(config)
   }
 
+  /**
+   * Split batch posts ({ batch: [...] }) into one request per event
+   */
+  protected splitRequest(request: RequestData): RequestData[] {
+    if (request.method !== 'POST' || !request.body) {
+      return [request]
+    }
+
+    try {
+      const jsonData = JSON.parse(request.body)
+      if (!Array.isArray(jsonData.batch) || jsonData.batch.length <= 1) {
+        return [request]
+      }
+
+      return jsonData.batch.map((event: any) => ({
+        ...request,
+        body: JSON.stringify(event)
+      }))
+    } catch {
+      return [request]
+    }
+  }
+
   /**
    * TikTok-specific confidence calculation
    */
@@ -448,7 +471,7 @@ export class TikTokPixelProvider extends BaseProvider implements ParameterGroupi
       
       // Batch events format
       if (jsonData.batch && Array.isArray(jsonData.batch)) {
-        return jsonData.batch[0] || {} // Take first event
+        return jsonData.batch[0] || {} // Batches are split by splitRequest()
       }
       
       return jsonData
@@ -5,25 +5,49 @@
  */
 
 import { ParameterGroup, ParameterGroupingProvider, DefaultParameterGrouping } from '../base/parameter-group'
+import { AdobeAnalyticsProvider } from '../adobe/adobe-analytics-provider'
 import { FacebookPixelProvider } from '../facebook/facebook-pixel-provider'
 // import { GoogleAdsProvider } from '../google/google-ads-provider'
+import { GoogleAnalytics4Provider } from '../google/google-analytics-4-provider'
+import { SegmentProvider } from '../segment/segment-provider'
 import { TikTokPixelProvider } from '../tiktok/tiktok-pixel-provider'
+import { providerRegistry } from '../registry/provider-registry'
 
 // Provider instances for grouping
 const providerInstances: Record<string, ParameterGroupingProvider> = {
   'facebook-pixel': new FacebookPixelProvider(),
   // 'google-ads': new GoogleAdsProvider(), // TODO: Implement grouping interface
-  'tiktok-pixel': new TikTokPixelProvider()
+  'tiktok-pixel': new TikTokPixelProvider(),
+  'google-analytics-4': new GoogleAnalytics4Provider(),
+  'adobe-analytics': new AdobeAnalyticsProvider(),
+  'segment': new SegmentProvider()
 }
 
 // Default grouping fallback
 const defaultGrouping = new DefaultParameterGrouping()
 
+/**
+ * Find the grouping provider for an id
+ * Providers registered at runtime (declarative definitions) are looked up in the registry
+ */
+function findGroupingProvider(providerId: string): ParameterGroupingProvider | undefined {
+  if (providerInstances[providerId]) {
+    return providerInstances[providerId]
+  }
+
+  const registered = providerRegistry.getProvider(providerId)
+  if (registered && 'groupParameters' in registered) {
+    return registered as unknown as ParameterGroupingProvider
+  }
+
+  return undefined
+}
+
 /**
  * Get parameter grouping for a specific provider
  */
 export function getProviderGrouping(providerId: string, parameters: Record<string, any>): ParameterGroup[] {
-  const provider = providerInstances[providerId]
+  const provider = findGroupingProvider(providerId)
   
   if (provider && 'groupParameters' in provider) {
     return provider.groupParameters(parameters)
@@ -37,7 +61,7 @@ export function getProviderGrouping(providerId: string, parameters: Record<strin
  * Get display name for a parameter from a specific provider
  */
 export function getParameterDisplayName(providerId: string, key: string): string {
-  const provider = providerInstances[providerId]
+  const provider = findGroupingProvider(providerId)
   
   if (provider && 'getParameterDisplayName' in provider) {
     return provider.getParameterDisplayName(key)
@@ -50,7 +74,7 @@ export function getParameterDisplayName(providerId: string, key: string): string
  * Get parameter description from a specific provider
  */
 export function getParameterDescription(providerId: string, key: string): string | undefined {
-  const provider = providerInstances[providerId]
+  const provider = findGroupingProvider(providerId)
   
   if (provider && 'getParameterDescription' in provider) {
     return provider.getParameterDescription?.(key)
@@ -0,0 +1,6 @@
+/**
+ * Test helpers shared by the package test suites
+ * Not exported from the package entry point
+ */
+
+export * from './tracking-events';
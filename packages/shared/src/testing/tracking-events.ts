@@ -0,0 +1,23 @@
+/**
+ * Tracking event factory for tests
+ */
+
+import type { TrackingEvent } from '../types';
+
+/**
+ * Facebook Pixel Purchase event with a random ID, fields overridden as given
+ */
+export function createTrackingEvent(overrides: Partial<TrackingEvent> = {}): TrackingEvent {
+  return {
+    id: Math.random().toString(36).slice(2),
+    timestamp: Date.parse('2026-03-01T10:00:00.000Z'),
+    provider: 'facebook-pixel',
+    providerName: 'Facebook Pixel',
+    url: 'https://www.facebook.com/tr/?id=1&ev=Purchase',
+    method: 'GET',
+    eventType: 'Purchase',
+    parameters: {},
+    confidence: 0.95,
+    ...overrides
+  };
+}
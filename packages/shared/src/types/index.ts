@@ -23,6 +23,89 @@ export interface TrackingEvent {
   statusCode?: number;
   rawData?: Record<string, any>;
   isNavigationEvent?: boolean; // Special flag for navigation separator events
+  requestId?: string; // ID of the intercepted request this event was parsed from
+  batchIndex?: number; // Position of this event within a batched request
+  batchSize?: number; // Number of events carried by the same request
+  decodedBody?: any; // Request body after base64 / compression decoding (requestBody keeps the raw form)
+  encodings?: Record<string, PayloadEncoding[]>; // Decoding steps applied to the body and to encoded parameters
+  timings?: RequestTimings; // Request lifecycle timestamps, filled in as the request progresses
+  fromCache?: boolean; // Response was served from the browser cache
+  serverIp?: string; // IP address the request was sent to
+  networkError?: string; // Chrome network error (net::ERR_*) if the request failed
+  deliveryFailure?: DeliveryFailure; // Why the request never reached the vendor, derived from networkError
+  redirectChain?: RedirectHop[]; // Every URL the request passed through when it was redirected (original first)
+  matchExplanation?: MatchExplanation; // How the provider arrived at the confidence score
+  candidates?: ProviderCandidate[]; // Every provider that matched the request, highest confidence first (set when more than one matched)
+  providerOverride?: boolean; // Provider was picked by a per-domain override instead of by confidence
+}
+
+// One provider's reading of a request that several providers matched
+export interface ProviderCandidate {
+  provider: string;
+  providerName: string;
+  confidence: number;
+  eventType?: string;
+  accountId?: string;
+  parameters: Record<string, any>;
+  decodedBody?: any;
+  encodings?: Record<string, PayloadEncoding[]>;
+  matchExplanation?: MatchExplanation;
+}
+
+// Confidence scoring breakdown produced by a provider's canHandle()
+export interface MatchExplanation {
+  /** Final confidence, clamped to 0.0-1.0 */
+  confidence: number;
+  /** Scoring rules in the order they were applied */
+  steps: MatchScoreStep[];
+}
+
+export interface MatchScoreStep {
+  rule: 'url' | 'domain' | 'path' | 'method' | 'query' | 'required' | 'custom';
+  /** Whether the rule was satisfied */
+  matched: boolean;
+  /** 'add' adds value to the score (negative for penalties), 'multiply' scales it */
+  effect: 'add' | 'multiply';
+  value: number;
+  /** Score after this step, before clamping */
+  score: number;
+  /** Patterns that matched (URL, domain, path, or key=pattern for query parameters) */
+  patterns?: string[];
+  /** Human-readable detail, e.g. the request method or missing required parameters */
+  detail?: string;
+}
+
+export interface RedirectHop {
+  url: string;
+  timestamp: number;
+  /** Redirect status returned by this hop (undefined for the final hop) */
+  statusCode?: number;
+  serverIp?: string;
+  /** Provider that matched this hop, if any */
+  provider?: string;
+}
+
+// Reasons a tracking request failed to deliver (onErrorOccurred)
+export type DeliveryFailure =
+  | 'blocked_by_client' // Ad blocker / privacy extension
+  | 'csp' // Content Security Policy violation
+  | 'aborted' // Cancelled by the page (navigation, unload, fetch abort)
+  | 'dns' // Host name could not be resolved
+  | 'timeout'
+  | 'connection' // Refused, reset, offline
+  | 'other';
+
+export interface RequestTimings {
+  /** Request issued (onBeforeRequest) */
+  startTime: number;
+  /** Request headers sent (onSendHeaders) */
+  requestSentTime?: number;
+  /** Response headers received (onHeadersReceived) */
+  responseStartTime?: number;
+  /** Request completed or failed (onCompleted / onErrorOccurred) */
+  endTime?: number;
+  /** Round-trip latency in milliseconds */
+  duration?: number;
 }
 
 // Provider system interfaces
@@ -99,8 +182,14 @@ export interface RequestData {
   method: string;
   /** Request headers */
   headers: Record<string, string>;
-  /** Request body (for POST requests) */
+  /** Request body (for POST requests), after transport decoding */
   body?: string;
+  /** Raw request body before decoding (base64 for binary payloads) */
+  rawBody?: string;
+  /** Decoding steps that turned rawBody into body */
+  bodyEncodings?: PayloadEncoding[];
+  /** Fields of a URL-encoded body (from formData or a raw form body) */
+  bodyParams?: Record<string, string>;
   /** Query parameters */
   query: Record<string, string>;
   /** Parsed URL components */
@@ -117,6 +206,37 @@ export interface RequestData {
   type?: string;
 }
 
+// Payload decoding
+export type PayloadEncoding =
+  | 'base64'
+  | 'base64url'
+  | 'gzip'
+  | 'deflate'
+  | 'deflate-raw'
+  | 'lz-string-base64'
+  | 'lz-string-uri'
+  | 'lz-string-utf16'
+  | 'url-encoded'
+  | 'json';
+
+export interface DecodedPayload {
+  /** Decoded value (string, parsed JSON or bytes) */
+  value: any;
+  /** Steps that were applied */
+  steps: PayloadEncoding[];
+  /** Error message if a step failed; value then holds the input */
+  error?: string;
+}
+
+export interface DecodedRequestBody {
+  /** Body as text, decompressed when the raw bytes were compressed */
+  body: string;
+  /** Raw body as base64 when it differs from body */
+  rawBody?: string;
+  /** Steps that turned rawBody into body */
+  encodings: PayloadEncoding[];
+}
+
 export interface AnalysisResult {
   /** Matching provider results */
   matches: ProviderMatch[];
@@ -140,6 +260,8 @@ export interface ProviderMatch {
   confidence: number;
   /** Parsed tracking event */
   event: TrackingEvent;
+  /** All events parsed from the request (batched protocols emit more than one) */
+  events?: TrackingEvent[];
   /** Processing metadata */
   metadata?: {
     processingTime: number;
@@ -163,6 +285,67 @@ export interface StorageStats {
   newestEvent?: number;
 }
 
+// Persisted capture session: the events recorded for one tab between starting and stopping tracking
+export interface CaptureSession {
+  id: string;
+  name: string;
+  tabId: number;
+  startUrl: string;
+  startTime: number;
+  endTime?: number; // Unset while the session is still recording
+  lastActivity: number; // Timestamp of the most recent write, used for retention
+  eventCount: number;
+}
+
+// Restart of the background service worker, detected from its last checkpoint
+export interface WorkerRestartInfo {
+  restartedAt: number;
+  lastAliveAt: number; // Last activity or checkpoint recorded by the previous worker
+  trackedTabIds: number[]; // Tabs whose tracking was restored
+  captureGap: boolean; // Requests of tracked tabs may have been missed
+  missedSince?: number; // Start of the window in which requests may be missing
+}
+
+// Inclusive numeric bounds; the exclusive flags turn a bound into > / <
+export interface NumericRange {
+  min: number;
+  max: number;
+  minExclusive?: boolean;
+  maxExclusive?: boolean;
+}
+
+// Event filter; every set criterion must match (list values match any entry)
+export interface FilterCriteria {
+  // Basic filters
+  providers?: string[];
+  eventTypes?: string[];
+  methods?: ('GET' | 'POST' | 'PUT' | 'DELETE')[];
+  confidenceRange?: NumericRange;
+  timeRange?: { start: number; end: number };
+  
+  // URL filters
+  urlPatterns?: (string | RegExp)[];
+  domains?: string[];
+  pathPatterns?: (string | RegExp)[];
+  
+  // Parameter filters (keys may be dotted paths into nested parameters)
+  hasParameters?: string[];
+  parameterValues?: Record<string, any>;
+  parameterPatterns?: Record<string, RegExp>;
+  parameterRanges?: Record<string, NumericRange>;
+  
+  // Business filters
+  hasRevenue?: boolean;
+  revenueRange?: NumericRange;
+  currencies?: string[];
+  
+  // Advanced filters
+  customFilter?: (event: TrackingEvent) => boolean;
+  textSearch?: string;
+  /** Events matching any of these criteria are left out */
+  exclude?: FilterCriteria[];
+}
+
 // Background-Sidepanel communication
 export interface BackgroundMessage {
   type: MessageType;
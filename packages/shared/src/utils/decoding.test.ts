@@ -0,0 +1,111 @@
+/**
+ * Tests for the payload decoding pipeline
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  decompressBytes,
+  decompressLzString,
+  detectCompression,
+  decodePayload,
+  tryDecodePayload,
+  decodeRequestBody
+} from './decoding';
+
+const PAYLOAD = '{"event":"purchase","value":42}';
+
+// PAYLOAD compressed with zlib (gzip, deflate, raw deflate) and lz-string 1.5.0
+const GZIP_BASE64 = 'H4sIAAAAAAAAA6tWSi1LzStRslIqKC1KzkgsTlXSUSpLzClNVbIyMaoFACeLMYEfAAAA';
+const DEFLATE_BASE64 = 'eJyrVkotS80rUbJSKigtSs5ILE5V0lEqS8wpTVWyMjGqBQCsEgpl';
+const DEFLATE_RAW_BASE64 = 'q1ZKLUvNK1GyUiooLUrOSCxOVdJRKkvMKU1VsjIxqgUA';
+const LZ_BASE64 = 'N4IgpgbmB2AuIC4QAcCuAnAxgCwIYGcwQAaECXAG1SIQBYAmAXyA';
+const LZ_UTF16 = 'ᯡࡉ䃼悖ƑØ‣䃎Řಀ֡ئ㦢:࠲瀦檱С〤怷搠 ';
+const LZ_URL = 'https://shop.example.com/checkout?step=2&coupon=SPRING';
+const LZ_URL_URI = 'BYFxAcGcC4HpcsA9uAdAUwB4EMC24AbdVAYyV1hOHRIGskBXEAfkhHXAF4AmAMjIbgkAO04BlAAoAlAJIA5AOJA';
+
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe('base64', () => {
+  it('decodes standard and url-safe base64 with or without padding', () => {
+    expect(text(base64ToBytes('aGk/Pz8='))).toBe('hi???');
+    expect(text(base64ToBytes('aGk_Pz8'))).toBe('hi???');
+    expect(text(base64ToBytes(' aGk/\nPz8= '))).toBe('hi???');
+    expect(bytesToBase64(base64ToBytes(GZIP_BASE64))).toBe(GZIP_BASE64);
+  });
+
+  it('rejects text that is not base64', () => {
+    expect(() => base64ToBytes('pid=42&ev=Signup')).toThrow('Invalid base64 input');
+    expect(() => base64ToBytes('{"a":1}')).toThrow('Invalid base64 input');
+  });
+});
+
+describe('compression', () => {
+  it('detects gzip and zlib containers from their magic bytes', () => {
+    expect(detectCompression(base64ToBytes(GZIP_BASE64))).toBe('gzip');
+    expect(detectCompression(base64ToBytes(DEFLATE_BASE64))).toBe('deflate');
+    expect(detectCompression(base64ToBytes(DEFLATE_RAW_BASE64))).toBeNull();
+    expect(detectCompression(new TextEncoder().encode(PAYLOAD))).toBeNull();
+    expect(detectCompression(new Uint8Array([0x1f]))).toBeNull();
+  });
+
+  it('decompresses gzip, deflate and raw deflate', async () => {
+    expect(text(await decompressBytes(base64ToBytes(GZIP_BASE64), 'gzip'))).toBe(PAYLOAD);
+    expect(text(await decompressBytes(base64ToBytes(DEFLATE_BASE64), 'deflate'))).toBe(PAYLOAD);
+    expect(text(await decompressBytes(base64ToBytes(DEFLATE_RAW_BASE64), 'deflate-raw'))).toBe(PAYLOAD);
+  });
+
+  it('rejects bytes that are not compressed', async () => {
+    await expect(decompressBytes(new TextEncoder().encode(PAYLOAD), 'gzip')).rejects.toThrow();
+  });
+});
+
+describe('lz-string', () => {
+  it('decompresses every lz-string output format', () => {
+    expect(decompressLzString(LZ_BASE64, 'base64')).toBe(PAYLOAD);
+    expect(decompressLzString(LZ_UTF16, 'utf16')).toBe(PAYLOAD);
+    expect(decompressLzString(LZ_URL_URI, 'uri')).toBe(LZ_URL);
+  });
+
+  it('rejects text that is not lz-string output', () => {
+    expect(() => decompressLzString('hello world', 'base64')).toThrow('Invalid lz-string input');
+  });
+});
+
+describe('decodePayload', () => {
+  it('runs the declared steps in order', async () => {
+    expect(await decodePayload(GZIP_BASE64, ['base64', 'gzip', 'json'])).toEqual({ event: 'purchase', value: 42 });
+    expect(await decodePayload(LZ_BASE64, ['lz-string-base64', 'json'])).toEqual({ event: 'purchase', value: 42 });
+    expect(await decodePayload('a%3Db+c', ['url-encoded'])).toBe('a=b c');
+  });
+
+  it('reports failing steps without throwing from tryDecodePayload', async () => {
+    await expect(decodePayload(PAYLOAD, ['gzip'])).rejects.toThrow('gzip step expects binary input');
+
+    const result = await tryDecodePayload('not base64!', ['base64', 'json']);
+    expect(result).toMatchObject({ value: 'not base64!', error: 'Invalid base64 input' });
+  });
+});
+
+describe('decodeRequestBody', () => {
+  it('decompresses compressed bodies and keeps the raw bytes as base64', async () => {
+    expect(await decodeRequestBody(base64ToBytes(GZIP_BASE64))).toEqual({
+      body: PAYLOAD,
+      rawBody: GZIP_BASE64,
+      encodings: ['base64', 'gzip']
+    });
+    expect(await decodeRequestBody(base64ToBytes(DEFLATE_BASE64))).toMatchObject({ body: PAYLOAD, encodings: ['base64', 'deflate'] });
+  });
+
+  it('leaves text bodies as they are', async () => {
+    expect(await decodeRequestBody(new TextEncoder().encode(PAYLOAD))).toEqual({ body: PAYLOAD, encodings: [] });
+    // Starts like a zlib header but is plain text
+    expect(await decodeRequestBody(new TextEncoder().encode('x^ plain'))).toEqual({ body: 'x^ plain', encodings: [] });
+  });
+
+  it('keeps undecodable binary bodies as base64', async () => {
+    const bytes = new Uint8Array([0xff, 0xfe, 0x00, 0x81]);
+    expect(await decodeRequestBody(bytes)).toEqual({ body: bytesToBase64(bytes), encodings: [] });
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * Payload decoding pipeline
+ *
+ * Trackers often encode or compress what they send: base64 `data=` parameters,
+ * gzip / deflate sendBeacon bodies, lz-string compressed JSON. Providers declare
+ * the steps for a parameter (e.g. ['base64', 'json']) and run them through
+ * decodePayload(); compressed request bodies are detected by decodeRequestBody().
+ */
+
+import { PayloadEncoding, DecodedPayload, DecodedRequestBody } from '../types';
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/=';
+const URI_SAFE_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+-$';
+
+/**
+ * Decode base64 (standard or url-safe, padding optional) into bytes
+ */
+export function base64ToBytes(value: string): Uint8Array {
+  let normalized = value.trim().replace(/\s/g, '').replace(/-/g, '+').replace(/_/g, '/');
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(normalized)) {
+    throw new Error('Invalid base64 input');
+  }
+
+  normalized = normalized.replace(/=+$/, '');
+  normalized += '='.repeat((4 - (normalized.length % 4)) % 4);
+
+  const binary = atob(normalized);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Encode bytes as standard base64
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decompress gzip / deflate / raw deflate bytes with DecompressionStream
+ */
+export async function decompressBytes(
+  bytes: Uint8Array,
+  format: 'gzip' | 'deflate' | 'deflate-raw'
+): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('DecompressionStream is not available');
+  }
+
+  const stream = new DecompressionStream(format);
+  const writer = stream.writable.getWriter();
+  // Errors surface on the readable side; swallow them here to avoid unhandled rejections
+  writer.write(new Uint8Array(bytes)).catch(() => {});
+  writer.close().catch(() => {});
+
+  const chunks: Uint8Array[] = [];
+  const reader = stream.readable.getReader();
+  let totalLength = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    totalLength += value.length;
+  }
+
+  const result = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+/**
+ * Decompress an lz-string payload (compressToBase64 / compressToEncodedURIComponent / compressToUTF16)
+ */
+export function decompressLzString(value: string, variant: 'base64' | 'uri' | 'utf16'): string {
+  let result: string | null;
+
+  if (variant === 'utf16') {
+    result = lzDecompress(value.length, 16384, index => value.charCodeAt(index) - 32);
+  } else {
+    const input = variant === 'uri' ? value.replace(/ /g, '+') : value;
+    const alphabet = variant === 'uri' ? URI_SAFE_ALPHABET : BASE64_ALPHABET;
+    result = lzDecompress(input.length, 32, index => alphabet.indexOf(input.charAt(index)));
+  }
+
+  if (result === null) {
+    throw new Error('Invalid lz-string input');
+  }
+  return result;
+}
+
+/**
+ * Detect a compression container from its magic bytes
+ */
+export function detectCompression(bytes: Uint8Array): 'gzip' | 'deflate' | null {
+  if (bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    return 'gzip';
+  }
+
+  // zlib header: CM = 8 and the header checksum is a multiple of 31
+  if (bytes.length >= 2 && (bytes[0] & 0x0f) === 8 && ((bytes[0] << 8) | bytes[1]) % 31 === 0) {
+    return 'deflate';
+  }
+
+  return null;
+}
+
+/**
+ * Run a value through a list of decoding steps
+ * Throws if any step fails; see tryDecodePayload() for a non-throwing variant
+ */
+export async function decodePayload(input: string | Uint8Array, steps: PayloadEncoding[]): Promise<any> {
+  let value: any = input;
+
+  for (const step of steps) {
+    switch (step) {
+      case 'base64':
+      case 'base64url':
+        value = base64ToBytes(toText(value));
+        break;
+      case 'gzip':
+      case 'deflate':
+      case 'deflate-raw':
+        if (!(value instanceof Uint8Array)) {
+          throw new Error(`${step} step expects binary input`);
+        }
+        value = await decompressBytes(value, step);
+        break;
+      case 'lz-string-base64':
+        value = decompressLzString(toText(value), 'base64');
+        break;
+      case 'lz-string-uri':
+        value = decompressLzString(toText(value), 'uri');
+        break;
+      case 'lz-string-utf16':
+        value = decompressLzString(toText(value), 'utf16');
+        break;
+      case 'url-encoded':
+        value = decodeURIComponent(toText(value).replace(/\+/g, ' '));
+        break;
+      case 'json':
+        value = JSON.parse(toText(value));
+        break;
+    }
+  }
+
+  return value instanceof Uint8Array ? toText(value) : value;
+}
+
+/**
+ * Run a value through a list of decoding steps without throwing
+ */
+export async function tryDecodePayload(input: string | Uint8Array, steps: PayloadEncoding[]): Promise<DecodedPayload> {
+  try {
+    return { value: await decodePayload(input, steps), steps };
+  } catch (error) {
+    return {
+      value: input,
+      steps,
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Turn captured request body bytes into text
+ * Compressed bodies (sendBeacon / fetch with gzip or deflate) are decompressed and
+ * their raw bytes kept as base64; binary payloads that cannot be decoded are kept as base64
+ */
+export async function decodeRequestBody(bytes: Uint8Array): Promise<DecodedRequestBody> {
+  const compression = detectCompression(bytes);
+
+  if (compression) {
+    try {
+      const decompressed = await decompressBytes(bytes, compression);
+      return {
+        body: new TextDecoder().decode(decompressed),
+        rawBody: bytesToBase64(bytes),
+        encodings: ['base64', compression]
+      };
+    } catch {
+      // Not actually compressed, fall through to text decoding
+    }
+  }
+
+  try {
+    return { body: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encodings: [] };
+  } catch {
+    return { body: bytesToBase64(bytes), encodings: [] };
+  }
+}
+
+/**
+ * Coerce a pipeline value to text
+ */
+function toText(value: any): string {
+  if (value instanceof Uint8Array) {
+    return new TextDecoder().decode(value);
+  }
+  if (typeof value === 'string') {
+    return value;
+  }
+  throw new Error('Expected text input');
+}
+
+/**
+ * lz-string decompression core (https://github.com/pieroxy/lz-string, MIT)
+ */
+function lzDecompress(length: number, resetValue: number, getNextValue: (index: number) => number): string | null {
+  const dictionary: string[] = [];
+  const result: string[] = [];
+  const data = { value: getNextValue(0), position: resetValue, index: 1 };
+  let enlargeIn = 4;
+  let dictSize = 4;
+  let numBits = 3;
+  let entry = '';
+  let w: string;
+  let c: string;
+
+  const readBits = (count: number): number => {
+    let bits = 0;
+    const maxPower = Math.pow(2, count);
+    let power = 1;
+    while (power !== maxPower) {
+      const resb = data.value & data.position;
+      data.position >>= 1;
+      if (data.position === 0) {
+        data.position = resetValue;
+        data.value = getNextValue(data.index++);
+      }
+      bits |= (resb > 0 ? 1 : 0) * power;
+      power <<= 1;
+    }
+    return bits;
+  };
+
+  for (let i = 0; i < 3; i++) {
+    dictionary[i] = String(i);
+  }
+
+  switch (readBits(2)) {
+    case 0:
+      c = String.fromCharCode(readBits(8));
+      break;
+    case 1:
+      c = String.fromCharCode(readBits(16));
+      break;
+    default:
+      return '';
+  }
+
+  dictionary[3] = c;
+  w = c;
+  result.push(c);
+
+  while (true) {
+    if (data.index > length) {
+      return '';
+    }
+
+    let code = readBits(numBits);
+    switch (code) {
+      case 0:
+        dictionary[dictSize++] = String.fromCharCode(readBits(8));
+        code = dictSize - 1;
+        enlargeIn--;
+        break;
+      case 1:
+        dictionary[dictSize++] = String.fromCharCode(readBits(16));
+        code = dictSize - 1;
+        enlargeIn--;
+        break;
+      case 2:
+        return result.join('');
+    }
+
+    if (enlargeIn === 0) {
+      enlargeIn = Math.pow(2, numBits);
+      numBits++;
+    }
+
+    if (dictionary[code] !== undefined) {
+      entry = dictionary[code];
+    } else if (code === dictSize) {
+      entry = w + w.charAt(0);
+    } else {
+      return null;
+    }
+
+    result.push(entry);
+    dictionary[dictSize++] = w + entry.charAt(0);
+    enlargeIn--;
+    w = entry;
+
+    if (enlargeIn === 0) {
+      enlargeIn = Math.pow(2, numBits);
+      numBits++;
+    }
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Tests for custom export templates
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { TrackingEvent } from '../types';
+import {
+  ExportTemplate,
+  parseFieldPath,
+  getEventFieldValue,
+  collectParameterPaths,
+  formatTemplateValue,
+  renderExportTemplate
+} from './export-templates';
+
+const EVENT: TrackingEvent = {
+  id: 'evt-1',
+  timestamp: Date.parse('2026-03-01T10:00:00.000Z'),
+  provider: 'facebook-pixel',
+  providerName: 'Facebook Pixel',
+  url: 'https://www.facebook.com/tr/?id=1&ev=Purchase',
+  method: 'GET',
+  eventType: 'Purchase',
+  parameters: {
+    cd: { value: '42.5', currency: 'eur', 'order.id': 'A-1' },
+    contents: [{ id: 'sku-1', quantity: 2 }],
+    em: 'jane@example.com'
+  },
+  confidence: 0.95
+};
+
+const TEMPLATE: ExportTemplate = {
+  id: 'template-1',
+  name: 'Purchases',
+  columns: [
+    { field: 'timestamp', label: 'Time', format: 'iso-time' },
+    { field: 'eventType' },
+    { field: 'parameters.cd.value', label: 'Value', format: 'currency' },
+    { field: 'parameters.contents[0].id', label: 'SKU' },
+    { field: 'parameters.em', label: 'Email', format: 'hashed' }
+  ],
+  createdAt: 0,
+  updatedAt: 0
+};
+
+describe('export templates', () => {
+  it('reads dotted and indexed field paths', () => {
+    expect(parseFieldPath('parameters.contents[0].id')).toEqual(['parameters', 'contents', '0', 'id']);
+    expect(getEventFieldValue(EVENT, 'parameters.contents[0].quantity')).toBe(2);
+    expect(getEventFieldValue(EVENT, 'parameters.cd["order.id"]')).toBe('A-1');
+    expect(getEventFieldValue(EVENT, 'parameters.missing.deep')).toBeUndefined();
+    expect(collectParameterPaths([EVENT])).toEqual([
+      'parameters.cd.currency',
+      'parameters.cd.value',
+      'parameters.cd["order.id"]',
+      'parameters.contents',
+      'parameters.contents[0].id',
+      'parameters.contents[0].quantity',
+      'parameters.em'
+    ]);
+  });
+
+  it('formats values per column', () => {
+    expect(formatTemplateValue(1772359200, 'iso-time')).toBe('2026-03-01T10:00:00.000Z');
+    expect(formatTemplateValue('not a date', 'iso-time')).toBe('not a date');
+    expect(formatTemplateValue('42.5', 'currency', EVENT)).toBe('42.50 EUR');
+    expect(formatTemplateValue('abc', 'hashed')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(formatTemplateValue(undefined, 'hashed')).toBeUndefined();
+  });
+
+  it('renders CSV, JSON and NDJSON', () => {
+    const csv = renderExportTemplate([EVENT], TEMPLATE, 'csv').split('\n');
+    expect(csv[0]).toBe('Time,eventType,Value,SKU,Email');
+    expect(csv[1]).toMatch(/^2026-03-01T10:00:00\.000Z,Purchase,42\.50 EUR,sku-1,[0-9a-f]{64}$/);
+
+    const [record] = JSON.parse(renderExportTemplate([EVENT], TEMPLATE, 'json'));
+    expect(record).toMatchObject({ Time: '2026-03-01T10:00:00.000Z', Value: '42.50 EUR', SKU: 'sku-1' });
+
+    const lines = renderExportTemplate([EVENT, { ...EVENT, parameters: {} }], TEMPLATE, 'ndjson').split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1])).toEqual({ Time: '2026-03-01T10:00:00.000Z', eventType: 'Purchase', Value: null, SKU: null, Email: null });
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Custom export templates
+ *
+ * A template is a named, reusable column layout: each column reads a top-level
+ * TrackingEvent field or a dotted parameter path (parameters.cd.value,
+ * parameters.contents[0].id) and formats the value. Templates apply to the
+ * CSV, JSON, NDJSON and XLSX exports.
+ */
+
+import { TrackingEvent } from '../types';
+import { XlsxCell, createXlsxWorkbook } from './xlsx';
+
+export type ExportColumnFormat = 'raw' | 'iso-time' | 'currency' | 'hashed';
+
+export interface ExportTemplateColumn {
+  /** Event field or dotted path, e.g. eventType or parameters.contents[0].id */
+  field: string;
+  /** Column header; defaults to the field path */
+  label?: string;
+  format?: ExportColumnFormat;
+}
+
+export interface ExportTemplate {
+  id: string;
+  name: string;
+  columns: ExportTemplateColumn[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type TemplateOutputFormat = 'csv' | 'json' | 'ndjson';
+
+export const EXPORT_COLUMN_FORMATS: { format: ExportColumnFormat; label: string }[] = [
+  { format: 'raw', label: 'Raw' },
+  { format: 'iso-time', label: 'ISO time' },
+  { format: 'currency', label: 'Currency' },
+  { format: 'hashed', label: 'Hashed (SHA-256)' }
+];
+
+/**
+ * Top-level TrackingEvent fields offered in the column picker
+ */
+export const TEMPLATE_EVENT_FIELDS = [
+  'id', 'timestamp', 'provider', 'providerName', 'url', 'method', 'eventType', 'accountId',
+  'confidence', 'tabId', 'statusCode', 'requestId', 'batchIndex', 'batchSize', 'serverIp',
+  'fromCache', 'networkError', 'deliveryFailure', 'requestBody', 'parameters',
+  'requestHeaders', 'responseHeaders', 'timings.duration'
+] as const;
+
+const CURRENCY_PATHS = ['currency', 'cd.currency', 'cu', 'currency_code', 'properties.currency'];
+
+/**
+ * Read a field path from an event
+ * Dots separate object keys, [n] indexes arrays; missing segments give undefined
+ */
+export function getEventFieldValue(event: TrackingEvent, path: string): unknown {
+  let value: unknown = event;
+  for (const segment of parseFieldPath(path)) {
+    if (value === null || value === undefined || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+/**
+ * Split a field path into keys (parameters.contents[0].id -> parameters, contents, 0, id)
+ * Parameter names that contain dots can be quoted: parameters["cd.value"]
+ */
+export function parseFieldPath(path: string): string[] {
+  const segments: string[] = [];
+  const pattern = /\[\s*(?:"([^"]*)"|'([^']*)'|(\d+))\s*\]|([^.[\]]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(path)) !== null) {
+    segments.push(match[1] ?? match[2] ?? match[3] ?? match[4]);
+  }
+  return segments;
+}
+
+/**
+ * List the parameter paths present in a set of events, for field suggestions
+ * Arrays contribute the paths of their first element
+ */
+export function collectParameterPaths(events: TrackingEvent[], limit = 200): string[] {
+  const paths = new Set<string>();
+
+  const visit = (value: unknown, path: string, depth: number) => {
+    if (paths.size >= limit) return;
+    if (Array.isArray(value)) {
+      paths.add(path);
+      if (value.length > 0 && depth < 4) visit(value[0], `${path}[0]`, depth + 1);
+    } else if (value && typeof value === 'object') {
+      for (const [key, child] of Object.entries(value)) {
+        const segment = /^[\w$-]+$/.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`;
+        if (depth < 4) visit(child, `${path}${segment}`, depth + 1);
+      }
+    } else {
+      paths.add(path);
+    }
+  };
+
+  for (const event of events) {
+    if (paths.size >= limit) break;
+    visit(event.parameters || {}, 'parameters', 0);
+  }
+  paths.delete('parameters');
+  return Array.from(paths).sort();
+}
+
+/**
+ * Format a column value
+ * - iso-time: epoch milliseconds (or seconds) and date strings become ISO 8601
+ * - currency: amounts are rounded to two decimals and suffixed with the event's currency code
+ * - hashed: the value as text is replaced by its SHA-256 hex digest
+ */
+export function formatTemplateValue(value: unknown, format: ExportColumnFormat = 'raw', event?: TrackingEvent): unknown {
+  if (value === null || value === undefined || value === '') return value;
+
+  switch (format) {
+    case 'iso-time': {
+      const time = typeof value === 'number'
+        ? (value < 1e11 ? value * 1000 : value)
+        : Date.parse(String(value));
+      return Number.isFinite(time) ? new Date(time).toISOString() : value;
+    }
+    case 'currency': {
+      const amount = typeof value === 'number' ? value : parseFloat(String(value).replace(/[^0-9.-]/g, ''));
+      if (!Number.isFinite(amount)) return value;
+      const currency = event ? findCurrency(event) : undefined;
+      return currency ? `${amount.toFixed(2)} ${currency}` : amount.toFixed(2);
+    }
+    case 'hashed':
+      return sha256Hex(typeof value === 'object' ? JSON.stringify(value) : String(value));
+    default:
+      return value;
+  }
+}
+
+/**
+ * Apply a template to events
+ * Returns the column headers and one row of formatted values per event
+ */
+export function applyExportTemplate(events: TrackingEvent[], template: ExportTemplate): { headers: string[]; rows: unknown[][] } {
+  const headers = template.columns.map(column => column.label?.trim() || column.field);
+  const rows = events.map(event =>
+    template.columns.map(column => formatTemplateValue(getEventFieldValue(event, column.field), column.format, event))
+  );
+  return { headers, rows };
+}
+
+/**
+ * Render events through a template as CSV, a JSON array or NDJSON (one object per line)
+ */
+export function renderExportTemplate(
+  events: TrackingEvent[],
+  template: ExportTemplate,
+  format: TemplateOutputFormat,
+  prettyPrint = false
+): string {
+  const { headers, rows } = applyExportTemplate(events, template);
+
+  if (format === 'csv') {
+    return [headers, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+  }
+
+  const records = rows.map(row => Object.fromEntries(headers.map((header, index) => [header, row[index] ?? null])));
+  if (format === 'ndjson') {
+    return records.map(record => JSON.stringify(record)).join('\n');
+  }
+  return prettyPrint ? JSON.stringify(records, null, 2) : JSON.stringify(records);
+}
+
+/**
+ * Build an XLSX workbook with a single sheet laid out by the template
+ */
+export function createTemplateWorkbook(events: TrackingEvent[], template: ExportTemplate): Uint8Array {
+  const { headers, rows } = applyExportTemplate(events, template);
+  const cells: XlsxCell[][] = rows.map(row => row.map(toXlsxCell));
+  return createXlsxWorkbook([{ name: template.name, rows: [headers, ...cells] }]);
+}
+
+function findCurrency(event: TrackingEvent): string | undefined {
+  for (const path of CURRENCY_PATHS) {
+    const value = getEventFieldValue(event, `parameters.${path}`);
+    if (typeof value === 'string' && value.trim()) return value.trim().toUpperCase();
+  }
+  return undefined;
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toXlsxCell(value: unknown): XlsxCell {
+  if (value === null || value === undefined) return undefined;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  return JSON.stringify(value);
+}
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+/**
+ * SHA-256 of UTF-8 text as lowercase hex
+ * Synchronous (unlike crypto.subtle) so rows can be formatted in a single pass
+ */
+function sha256Hex(text: string): string {
+  const data = new TextEncoder().encode(text);
+  const length = ((data.length + 9 + 63) >> 6) << 6;
+  const bytes = new Uint8Array(length);
+  bytes.set(data);
+  bytes[data.length] = 0x80;
+  const view = new DataView(bytes.buffer);
+  view.setUint32(length - 8, Math.floor(data.length / 0x20000000));
+  view.setUint32(length - 4, (data.length << 3) >>> 0);
+
+  const hash = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+  ]);
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+  for (let offset = 0; offset < length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const t1 = h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i];
+      const t2 = (rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+
+    hash[0] += a;
+    hash[1] += b;
+    hash[2] += c;
+    hash[3] += d;
+    hash[4] += e;
+    hash[5] += f;
+    hash[6] += g;
+    hash[7] += h;
+  }
+
+  return Array.from(hash, word => word.toString(16).padStart(8, '0')).join('');
+}
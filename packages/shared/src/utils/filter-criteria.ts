@@ -0,0 +1,151 @@
+/**
+ * Filter criteria matching
+ *
+ * Evaluates FilterCriteria against a single event so the same rules apply to the
+ * background's AdvancedFilters and to filtering in the UI
+ */
+
+import { TrackingEvent, FilterCriteria, NumericRange } from '../types';
+import { getEventFieldValue } from './export-templates';
+
+const REVENUE_FIELDS = ['value', 'revenue', 'amount', 'price', 'total', 'purchase_value'];
+const CURRENCY_FIELDS = ['currency', 'currency_code', 'cur'];
+
+/**
+ * Check whether an event satisfies every criterion that is set
+ */
+export function matchesFilterCriteria(event: TrackingEvent, criteria: FilterCriteria): boolean {
+  if (criteria.providers?.length && !criteria.providers.includes(event.provider)) return false;
+  if (criteria.eventTypes?.length && !(event.eventType && criteria.eventTypes.includes(event.eventType))) return false;
+  if (criteria.methods?.length && !criteria.methods.includes(event.method as any)) return false;
+  if (criteria.confidenceRange && !inRange(event.confidence, criteria.confidenceRange)) return false;
+  if (criteria.timeRange && (event.timestamp < criteria.timeRange.start || event.timestamp > criteria.timeRange.end)) {
+    return false;
+  }
+
+  // URL filters
+  if (criteria.urlPatterns?.length && !criteria.urlPatterns.some(pattern => testPattern(pattern, event.url))) {
+    return false;
+  }
+  if (criteria.domains?.length || criteria.pathPatterns?.length) {
+    let url: URL;
+    try {
+      url = new URL(event.url);
+    } catch {
+      return false;
+    }
+    if (criteria.domains?.length && !criteria.domains.includes(url.hostname)) return false;
+    if (criteria.pathPatterns?.length && !criteria.pathPatterns.some(pattern => testPattern(pattern, url.pathname))) {
+      return false;
+    }
+  }
+
+  // Parameter filters
+  if (criteria.hasParameters?.length && !criteria.hasParameters.every(key => getParameterValue(event, key) !== undefined)) {
+    return false;
+  }
+  if (criteria.parameterValues) {
+    const matches = Object.entries(criteria.parameterValues).every(([key, value]) => getParameterValue(event, key) === value);
+    if (!matches) return false;
+  }
+  if (criteria.parameterPatterns) {
+    const matches = Object.entries(criteria.parameterPatterns).every(([key, pattern]) => {
+      const value = getParameterValue(event, key);
+      return value !== undefined && testPattern(pattern, typeof value === 'object' ? JSON.stringify(value) : String(value));
+    });
+    if (!matches) return false;
+  }
+  if (criteria.parameterRanges) {
+    const matches = Object.entries(criteria.parameterRanges).every(([key, range]) => {
+      const value = parseFloat(String(getParameterValue(event, key)));
+      return !isNaN(value) && inRange(value, range);
+    });
+    if (!matches) return false;
+  }
+
+  // Business filters
+  if (criteria.hasRevenue && getEventRevenue(event) === null) return false;
+  if (criteria.revenueRange) {
+    const revenue = getEventRevenue(event);
+    if (revenue === null || !inRange(revenue, criteria.revenueRange)) return false;
+  }
+  if (criteria.currencies?.length) {
+    const currency = getEventCurrency(event);
+    if (!currency || !criteria.currencies.includes(currency)) return false;
+  }
+
+  if (criteria.textSearch && !matchesTextSearch(event, criteria.textSearch)) return false;
+  if (criteria.customFilter && !criteria.customFilter(event)) return false;
+  if (criteria.exclude?.some(excluded => matchesFilterCriteria(event, excluded))) return false;
+
+  return true;
+}
+
+/**
+ * Check that every whitespace-separated term appears in the event's URL, provider,
+ * event type or parameters (case-insensitive)
+ */
+export function matchesTextSearch(event: TrackingEvent, searchText: string): boolean {
+  const searchTerms = searchText.toLowerCase().split(/\s+/).filter(Boolean);
+  const searchableText = [
+    event.url,
+    event.provider,
+    event.providerName,
+    event.eventType || '',
+    JSON.stringify(event.parameters || {})
+  ].join(' ').toLowerCase();
+
+  return searchTerms.every(term => searchableText.includes(term));
+}
+
+/**
+ * Read a parameter by its exact key, falling back to a dotted path into nested parameters
+ * (Facebook's cd[value] is a flat key, GA4's items[0].item_id a path)
+ */
+export function getParameterValue(event: TrackingEvent, key: string): unknown {
+  if (!event.parameters) return undefined;
+  if (key in event.parameters) return event.parameters[key];
+  return getEventFieldValue(event, `parameters.${key}`);
+}
+
+/**
+ * Revenue of an event from the first numeric revenue parameter, or null
+ */
+export function getEventRevenue(event: TrackingEvent): number | null {
+  if (!event.parameters) return null;
+
+  for (const field of REVENUE_FIELDS) {
+    if (event.parameters[field] !== undefined) {
+      const value = parseFloat(String(event.parameters[field]));
+      if (!isNaN(value)) return value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Upper-case currency code of an event, or null
+ */
+export function getEventCurrency(event: TrackingEvent): string | null {
+  if (!event.parameters) return null;
+
+  for (const field of CURRENCY_FIELDS) {
+    if (event.parameters[field]) {
+      return String(event.parameters[field]).toUpperCase();
+    }
+  }
+  return null;
+}
+
+function inRange(value: number, range: NumericRange): boolean {
+  if (range.minExclusive ? value <= range.min : value < range.min) return false;
+  if (range.maxExclusive ? value >= range.max : value > range.max) return false;
+  return true;
+}
+
+function testPattern(pattern: string | RegExp, value: string): boolean {
+  if (typeof pattern === 'string') return value.includes(pattern);
+  // Global regexes keep lastIndex between calls
+  pattern.lastIndex = 0;
+  return pattern.test(value);
+}
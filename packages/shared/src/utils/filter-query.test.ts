@@ -0,0 +1,93 @@
+/**
+ * Tests for the filter query language
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { TrackingEvent } from '../types';
+import { parseFilterQuery, getFilterQuerySuggestions } from './filter-query';
+import { matchesFilterCriteria } from './filter-criteria';
+import { createTrackingEvent } from '../testing';
+
+const PURCHASE_PARAMETERS = { value: '64.00', currency: 'USD', fbc: 'fb.1.123', cd: { num_items: 3 } };
+
+function createEvent(overrides: Partial<TrackingEvent>): TrackingEvent {
+  return createTrackingEvent({ parameters: PURCHASE_PARAMETERS, ...overrides });
+}
+
+const EVENTS = [
+  createEvent({}),
+  createEvent({ parameters: { value: '20', currency: 'USD', fbc: 'fb.1.456' } }),
+  createEvent({ url: 'https://staging.facebook.com/tr/?id=1&ev=Purchase' }),
+  createEvent({ provider: 'ga4', providerName: 'Google Analytics 4', eventType: 'purchase', url: 'https://www.google-analytics.com/g/collect', parameters: { value: 80, currency: 'EUR' } })
+];
+
+const CONTEXT = {
+  providers: [{ id: 'facebook-pixel', name: 'Facebook Pixel' }, { id: 'ga4', name: 'Google Analytics 4' }],
+  eventTypes: ['Purchase', 'purchase']
+};
+
+function filter(query: string): TrackingEvent[] {
+  const { criteria } = parseFilterQuery(query, CONTEXT);
+  return EVENTS.filter(event => matchesFilterCriteria(event, criteria));
+}
+
+describe('filter query language', () => {
+  it('parses field terms into filter criteria', () => {
+    const { criteria, errors } = parseFilterQuery('provider:facebook ev:Purchase value>=50 currency:usd -url:*staging* has:fbc', CONTEXT);
+
+    expect(errors).toEqual([]);
+    expect(criteria.providers).toEqual(['facebook-pixel']);
+    expect(criteria.eventTypes).toEqual(['Purchase']);
+    expect(criteria.revenueRange).toEqual({ min: 50, max: Infinity });
+    expect(criteria.currencies).toEqual(['USD']);
+    expect(criteria.hasParameters).toEqual(['fbc']);
+    expect(criteria.exclude).toHaveLength(1);
+    expect(filter('provider:facebook ev:Purchase value>=50 currency:usd -url:*staging* has:fbc')).toEqual([EVENTS[0]]);
+  });
+
+  it('supports ranges, parameter paths, lists and free text', () => {
+    expect(filter('value:10..70 value<64')).toEqual([EVENTS[1]]);
+    expect(filter('cd.num_items>2')).toEqual([EVENTS[0], EVENTS[2]]);
+    expect(filter('p:ga4,facebook -has:fbc')).toEqual([EVENTS[3]]);
+    expect(filter('ev:purchase')).toEqual([EVENTS[3]]);
+    expect(filter('ev:PURCHASE*')).toEqual(EVENTS);
+    expect(filter('google-analytics')).toEqual([EVENTS[3]]);
+    expect(filter('domain:*.facebook.com -domain:www.facebook.com')).toEqual([EVENTS[2]]);
+    expect(filter('fbc:/456$/')).toEqual([EVENTS[1]]);
+  });
+
+  it('reports syntax errors with their position', () => {
+    const { criteria, errors } = parseFilterQuery('provider: value>abc method:HEAD url:/(/ ev:"Order', CONTEXT);
+
+    expect(errors.map(error => [error.start, error.end])).toEqual([[0, 9], [10, 19], [20, 31], [32, 39], [40, 49]]);
+    expect(errors[1].message).toBe('value needs a number, got "abc"');
+    expect(errors[4].message).toBe('Missing closing quote');
+    expect(criteria).toEqual({});
+  });
+
+  it('reports invalid regexes in provider and event terms instead of throwing', () => {
+    for (const context of [CONTEXT, {}]) {
+      const { criteria, errors } = parseFilterQuery('ev:/[/ provider:/[*/', context);
+
+      expect(errors.map(error => [error.start, error.end])).toEqual([[0, 6], [7, 20]]);
+      expect(errors.every(error => error.message.startsWith('Invalid regular expression'))).toBe(true);
+      expect(criteria).toEqual({});
+    }
+    expect(filter('provider:/^ga/')).toEqual([EVENTS[3]]);
+  });
+
+  it('matches global regexes against every event', () => {
+    expect(filter('fbc:/^fb/g')).toEqual(EVENTS.slice(0, 3));
+  });
+
+  it('suggests fields, parameter keys and values from the events', () => {
+    expect(getFilterQuerySuggestions('pro', 3, EVENTS).suggestions.map(s => s.insertText)).toEqual(['provider:']);
+    expect(getFilterQuerySuggestions('cd', 2, EVENTS).suggestions.map(s => s.insertText)).toEqual(['cd:', 'cd.num_items:']);
+
+    const values = getFilterQuerySuggestions('value>=50 -provider:g', 21, EVENTS);
+    expect(values.start).toBe(10);
+    expect(values.suggestions).toEqual([
+      { kind: 'value', label: 'ga4', insertText: '-provider:ga4 ', detail: 'Google Analytics 4' }
+    ]);
+  });
+});
@@ -0,0 +1,504 @@
+/**
+ * Filter query language
+ *
+ * Parses search box queries such as
+ *   provider:facebook ev:Purchase value>=50 currency:USD -url:*staging* has:fbc
+ * into FilterCriteria. Terms are ANDed; repeating a list field (provider:a provider:b)
+ * or separating values with commas (provider:a,b) matches any of them. A leading "-"
+ * excludes matching events. Values may be quoted ("Order Completed"), use * wildcards
+ * or /regular expressions/. Field names that are not built in filter on parameters,
+ * by exact key or dotted path (cd.value>10, items[0].item_id:SKU-*).
+ * Words without a field search the URL, provider, event type and parameters.
+ */
+
+import { TrackingEvent, FilterCriteria, NumericRange } from '../types';
+import { getEventCurrency, getParameterValue } from './filter-criteria';
+import { collectParameterPaths } from './export-templates';
+
+export type FilterQueryFieldKind = 'list' | 'pattern' | 'number';
+
+export interface FilterQueryField {
+  name: string;
+  aliases: string[];
+  kind: FilterQueryFieldKind;
+  description: string;
+}
+
+export const FILTER_QUERY_FIELDS: FilterQueryField[] = [
+  { name: 'provider', aliases: ['p'], kind: 'list', description: 'Provider ID or name' },
+  { name: 'ev', aliases: ['event', 'type'], kind: 'list', description: 'Event type' },
+  { name: 'method', aliases: [], kind: 'list', description: 'HTTP method' },
+  { name: 'url', aliases: [], kind: 'pattern', description: 'Request URL contains' },
+  { name: 'domain', aliases: ['host'], kind: 'pattern', description: 'Request hostname' },
+  { name: 'path', aliases: [], kind: 'pattern', description: 'URL path contains' },
+  { name: 'has', aliases: [], kind: 'list', description: 'Has a parameter (or has:revenue)' },
+  { name: 'currency', aliases: ['cur'], kind: 'list', description: 'Currency code' },
+  { name: 'value', aliases: ['revenue'], kind: 'number', description: 'Revenue amount (value>=50, value:10..100)' },
+  { name: 'confidence', aliases: ['conf'], kind: 'number', description: 'Match confidence 0-1' }
+];
+
+export interface FilterQueryError {
+  message: string;
+  /** Character range of the offending term in the query */
+  start: number;
+  end: number;
+}
+
+export interface FilterQueryContext {
+  /** Providers seen in the events, used to resolve provider:facebook to provider IDs */
+  providers?: { id: string; name?: string }[];
+  /** Event types seen in the events, used for case-insensitive matching */
+  eventTypes?: string[];
+}
+
+export interface ParsedFilterQuery {
+  criteria: FilterCriteria;
+  errors: FilterQueryError[];
+  /** No terms were given */
+  isEmpty: boolean;
+}
+
+export interface FilterQuerySuggestion {
+  kind: 'field' | 'value' | 'parameter';
+  label: string;
+  /** Replacement for the term being typed */
+  insertText: string;
+  detail?: string;
+}
+
+export interface FilterQuerySuggestions {
+  /** Range of the query replaced by a suggestion's insertText */
+  start: number;
+  end: number;
+  suggestions: FilterQuerySuggestion[];
+}
+
+type Operator = ':' | '=' | '>' | '>=' | '<' | '<=';
+
+interface QueryToken {
+  text: string;
+  start: number;
+  end: number;
+  unterminated: boolean;
+}
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'DELETE'] as const;
+const TERM_PATTERN = /^([^:<>="\s]+)(>=|<=|:|>|<|=)([\s\S]*)$/;
+const PARAM_PREFIX = /^(?:param|params|parameters)\./i;
+const REGEX_VALUE = /^\/(.+)\/([gimsuy]*)$/;
+
+/**
+ * Parse a query into filter criteria
+ * Terms with errors are reported and left out of the criteria
+ */
+export function parseFilterQuery(query: string, context: FilterQueryContext = {}): ParsedFilterQuery {
+  const tokens = tokenize(query);
+  const criteria: FilterCriteria = {};
+  const errors: FilterQueryError[] = [];
+  const text: string[] = [];
+
+  for (const token of tokens) {
+    const error = (message: string) => errors.push({ message, start: token.start, end: token.end });
+    if (token.unterminated) {
+      error('Missing closing quote');
+      continue;
+    }
+
+    const negated = token.text.length > 1 && token.text.startsWith('-');
+    const body = negated ? token.text.slice(1) : token.text;
+    const target: FilterCriteria = negated ? {} : criteria;
+
+    const match = TERM_PATTERN.exec(body);
+    // URLs typed as free text (https://...) are not field terms
+    if (!match || (match[2] === ':' && match[3].startsWith('//'))) {
+      const words = unquote(body);
+      if (negated) {
+        criteria.exclude = [...(criteria.exclude || []), { textSearch: words }];
+      } else {
+        text.push(words);
+      }
+      continue;
+    }
+
+    const [, rawField, operator, rawValue] = match as unknown as [string, string, Operator, string];
+    const value = unquote(rawValue);
+    if (!value) {
+      error(`Missing value after ${rawField}${operator}`);
+      continue;
+    }
+
+    const problem = applyTerm(target, rawField, operator, value, context);
+    if (problem) {
+      error(problem);
+      continue;
+    }
+    if (negated) {
+      criteria.exclude = [...(criteria.exclude || []), target];
+    }
+  }
+
+  if (text.length > 0) {
+    criteria.textSearch = text.join(' ');
+  }
+  return { criteria, errors, isEmpty: tokens.length === 0 };
+}
+
+/**
+ * Suggest completions for the term at the cursor: field names and parameter keys,
+ * or values of the field being typed taken from the events
+ */
+export function getFilterQuerySuggestions(
+  query: string,
+  cursor: number,
+  events: TrackingEvent[],
+  limit = 10
+): FilterQuerySuggestions {
+  const start = query.slice(0, cursor).search(/\S*$/);
+  const nextSpace = query.slice(cursor).search(/\s/);
+  const end = nextSpace === -1 ? query.length : cursor + nextSpace;
+  const typed = query.slice(start, cursor);
+  const negation = typed.startsWith('-') ? '-' : '';
+  const term = typed.slice(negation.length);
+  const result = (suggestions: FilterQuerySuggestion[]) => ({ start, end, suggestions: suggestions.slice(0, limit) });
+
+  const match = TERM_PATTERN.exec(term);
+  if (match) {
+    const [, rawField, operator, rawValue] = match;
+    const partial = unquote(rawValue).toLowerCase();
+    const values = collectFieldValues(rawField, events)
+      .filter(candidate => candidate.value.toLowerCase().includes(partial) && candidate.value !== unquote(rawValue));
+    return result(values.map(({ value, detail }) => ({
+      kind: 'value' as const,
+      label: value,
+      insertText: `${negation}${rawField}${operator}${quoteValue(value)} `,
+      detail
+    })));
+  }
+
+  const prefix = term.toLowerCase();
+  const fields: FilterQuerySuggestion[] = FILTER_QUERY_FIELDS
+    .filter(field => [field.name, ...field.aliases].some(name => name.startsWith(prefix)))
+    .map(field => ({ kind: 'field', label: `${field.name}:`, insertText: `${negation}${field.name}:`, detail: field.description }));
+  const parameters: FilterQuerySuggestion[] = prefix
+    ? collectParameterKeys(events)
+      .filter(key => key.toLowerCase().startsWith(prefix) && !findField(key))
+      .map(key => ({ kind: 'parameter', label: `${key}:`, insertText: `${negation}${key}:`, detail: 'Parameter' }))
+    : [];
+  return result([...fields, ...parameters]);
+}
+
+/**
+ * Add one term to the criteria; returns an error message when the term is invalid
+ */
+function applyTerm(
+  criteria: FilterCriteria,
+  rawField: string,
+  operator: Operator,
+  value: string,
+  context: FilterQueryContext
+): string | undefined {
+  const field = findField(rawField);
+  const comparison = operator !== ':' && operator !== '=';
+
+  if (!field || field.kind === 'number') {
+    if (comparison || /^-?[\d.]+\.\.-?[\d.]+$/.test(value)) {
+      const range = toRange(operator, value);
+      if (!range) return `${rawField} needs a number, got "${value}"`;
+      if (!field) {
+        const key = rawField.replace(PARAM_PREFIX, '');
+        criteria.parameterRanges = { ...criteria.parameterRanges, [key]: intersect(criteria.parameterRanges?.[key], range) };
+      } else if (field.name === 'value') {
+        criteria.revenueRange = intersect(criteria.revenueRange, range);
+      } else {
+        criteria.confidenceRange = intersect(criteria.confidenceRange, range);
+      }
+      return undefined;
+    }
+    if (field) {
+      const range = toRange('=', value);
+      if (!range) return `${rawField} needs a number, got "${value}"`;
+      if (field.name === 'value') {
+        criteria.revenueRange = intersect(criteria.revenueRange, range);
+      } else {
+        criteria.confidenceRange = intersect(criteria.confidenceRange, range);
+      }
+      return undefined;
+    }
+
+    const pattern = toPattern(value, true);
+    if (typeof pattern === 'string') return pattern;
+    const key = rawField.replace(PARAM_PREFIX, '');
+    const existing = criteria.parameterPatterns?.[key];
+    criteria.parameterPatterns = { ...criteria.parameterPatterns, [key]: existing ? combinePatterns(existing, pattern) : pattern };
+    return undefined;
+  }
+
+  if (comparison) return `${field.name} does not support ${operator}`;
+  const values = splitValues(value);
+
+  switch (field.name) {
+    case 'provider':
+    case 'ev': {
+      const resolved: string[] = [];
+      for (const item of values) {
+        const matches = field.name === 'provider' ? resolveProviders(item, context) : resolveValues(item, context.eventTypes);
+        if (typeof matches === 'string') return matches;
+        resolved.push(...matches);
+      }
+      if (field.name === 'provider') {
+        criteria.providers = [...(criteria.providers || []), ...resolved];
+      } else {
+        criteria.eventTypes = [...(criteria.eventTypes || []), ...resolved];
+      }
+      return undefined;
+    }
+    case 'method': {
+      const methods = values.map(item => item.toUpperCase());
+      const unknown = methods.find(method => !(HTTP_METHODS as readonly string[]).includes(method));
+      if (unknown) return `Unknown method ${unknown} (use ${HTTP_METHODS.join(', ')})`;
+      criteria.methods = [...(criteria.methods || []), ...(methods as NonNullable<FilterCriteria['methods']>)];
+      return undefined;
+    }
+    case 'has':
+      for (const item of values) {
+        if (item.toLowerCase() === 'revenue') {
+          criteria.hasRevenue = true;
+        } else {
+          criteria.hasParameters = [...(criteria.hasParameters || []), item.replace(PARAM_PREFIX, '')];
+        }
+      }
+      return undefined;
+    case 'currency':
+      criteria.currencies = [...(criteria.currencies || []), ...values.map(item => item.toUpperCase())];
+      return undefined;
+    case 'domain': {
+      if (!/[*/]/.test(value)) {
+        criteria.domains = [...(criteria.domains || []), ...values.map(item => item.toLowerCase())];
+        return undefined;
+      }
+      const pattern = toPattern(value, true);
+      if (typeof pattern === 'string') return pattern;
+      // Match the wildcard against the hostname part of the URL
+      const host = pattern.source.replace(/^\^/, '').replace(/\$$/, '');
+      criteria.urlPatterns = [...(criteria.urlPatterns || []), new RegExp(`^[a-z][\\w+.-]*://(?:${host})(?::\\d+)?(?:[/?#]|$)`, 'i')];
+      return undefined;
+    }
+    default: {
+      // url and path
+      const pattern = toPattern(value, false);
+      if (typeof pattern === 'string') return pattern;
+      if (field.name === 'url') {
+        criteria.urlPatterns = [...(criteria.urlPatterns || []), pattern];
+      } else {
+        criteria.pathPatterns = [...(criteria.pathPatterns || []), pattern];
+      }
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Split the query into whitespace-separated terms; quoted sections may contain spaces
+ */
+function tokenize(query: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let index = 0;
+
+  while (index < query.length) {
+    if (/\s/.test(query[index])) {
+      index++;
+      continue;
+    }
+    const start = index;
+    let quoted = false;
+    while (index < query.length && (quoted || !/\s/.test(query[index]))) {
+      if (query[index] === '"') quoted = !quoted;
+      index++;
+    }
+    tokens.push({ text: query.slice(start, index), start, end: index, unterminated: quoted });
+  }
+  return tokens;
+}
+
+function findField(name: string): FilterQueryField | undefined {
+  const lower = name.toLowerCase();
+  return FILTER_QUERY_FIELDS.find(field => field.name === lower || field.aliases.includes(lower));
+}
+
+function unquote(value: string): string {
+  return value.replace(/"/g, '');
+}
+
+function quoteValue(value: string): string {
+  return /[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+}
+
+function splitValues(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Build a pattern from a value: /regex/flags, * wildcards, or plain text
+ * Plain text matches case-insensitively; whole values for parameters, substrings otherwise.
+ * Returns an error message for invalid regular expressions; the g and y flags are
+ * dropped because they make test() depend on the previous match
+ */
+function toPattern(value: string, exact: boolean): RegExp | string {
+  const regex = REGEX_VALUE.exec(value);
+  if (regex) {
+    try {
+      return new RegExp(regex[1], regex[2].replace(/[gy]/g, ''));
+    } catch (error) {
+      return `Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+  if (value.includes('*')) {
+    return new RegExp(`^${value.split('*').map(escapeRegExp).join('.*')}$`, 'i');
+  }
+  return new RegExp(exact ? `^${escapeRegExp(value)}$` : escapeRegExp(value), 'i');
+}
+
+function combinePatterns(a: RegExp, b: RegExp): RegExp {
+  return new RegExp(`(?:${a.source})|(?:${b.source})`, a.flags);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Numeric range of a comparison; a..b is an inclusive range
+ */
+function toRange(operator: Operator, value: string): NumericRange | undefined {
+  const between = /^(-?[\d.]+)\.\.(-?[\d.]+)$/.exec(value);
+  if (between) {
+    const min = Number(between[1]);
+    const max = Number(between[2]);
+    return Number.isFinite(min) && Number.isFinite(max) ? { min, max } : undefined;
+  }
+
+  const number = Number(value);
+  if (!Number.isFinite(number) || value.trim() === '') return undefined;
+  switch (operator) {
+    case '>':
+      return { min: number, max: Infinity, minExclusive: true };
+    case '>=':
+      return { min: number, max: Infinity };
+    case '<':
+      return { min: -Infinity, max: number, maxExclusive: true };
+    case '<=':
+      return { min: -Infinity, max: number };
+    default:
+      return { min: number, max: number };
+  }
+}
+
+/**
+ * Narrow a range with another (value>=10 value<50)
+ */
+function intersect(current: NumericRange | undefined, next: NumericRange): NumericRange {
+  if (!current) return next;
+  const range: NumericRange = { min: current.min, max: current.max };
+  if (next.min > current.min || (next.min === current.min && next.minExclusive)) {
+    range.min = next.min;
+    range.minExclusive = next.minExclusive;
+  } else {
+    range.minExclusive = current.minExclusive;
+  }
+  if (next.max < current.max || (next.max === current.max && next.maxExclusive)) {
+    range.max = next.max;
+    range.maxExclusive = next.maxExclusive;
+  } else {
+    range.maxExclusive = current.maxExclusive;
+  }
+  return range;
+}
+
+/**
+ * Resolve a provider term to the IDs of known providers whose ID or name contains it
+ * (or matches its wildcard or regex); unknown terms are kept as typed.
+ * Returns an error message for invalid regular expressions
+ */
+function resolveProviders(term: string, context: FilterQueryContext): string[] | string {
+  const providers = context.providers || [];
+  const lower = term.toLowerCase();
+  const wildcard = term.includes('*') || REGEX_VALUE.test(term) ? toPattern(term, true) : undefined;
+  if (typeof wildcard === 'string') return wildcard;
+  const exact = providers.filter(provider => provider.id.toLowerCase() === lower);
+  if (exact.length > 0) return exact.map(provider => provider.id);
+
+  const matches = providers.filter(provider => [provider.id, provider.name || ''].some(name =>
+    wildcard ? wildcard.test(name) : name.toLowerCase().includes(lower)
+  ));
+  return matches.length > 0 ? matches.map(provider => provider.id) : [term];
+}
+
+/**
+ * Resolve a term against known values: exact matches win, then case-insensitive
+ * (and wildcard) matches. Returns an error message for invalid regular expressions
+ */
+function resolveValues(term: string, known: string[] = []): string[] | string {
+  const pattern = toPattern(term, true);
+  if (typeof pattern === 'string') return pattern;
+  if (known.includes(term)) return [term];
+  const matches = known.filter(value => pattern.test(value));
+  return matches.length > 0 ? matches : [term];
+}
+
+function collectParameterKeys(events: TrackingEvent[]): string[] {
+  const keys = new Set<string>();
+  events.forEach(event => Object.keys(event.parameters || {}).forEach(key => keys.add(key)));
+  collectParameterPaths(events).forEach(path => keys.add(path.replace(/^parameters\./, '')));
+  return Array.from(keys).filter(key => !/[\s"]/.test(key)).sort();
+}
+
+/**
+ * Distinct values of a field in the events, most frequent first
+ */
+function collectFieldValues(rawField: string, events: TrackingEvent[]): { value: string; detail?: string }[] {
+  const field = findField(rawField);
+  const counts = new Map<string, { count: number; detail?: string }>();
+  const add = (value: unknown, detail?: string) => {
+    if (value === undefined || value === null || value === '' || typeof value === 'object') return;
+    const text = String(value);
+    const entry = counts.get(text) || { count: 0, detail };
+    entry.count++;
+    counts.set(text, entry);
+  };
+
+  for (const event of events) {
+    if (event.isNavigationEvent) continue;
+    switch (field?.name) {
+      case 'provider':
+        add(event.provider, event.providerName);
+        break;
+      case 'ev':
+        add(event.eventType);
+        break;
+      case 'method':
+        add(event.method);
+        break;
+      case 'currency':
+        add(getEventCurrency(event));
+        break;
+      case 'has':
+        Object.keys(event.parameters || {}).forEach(key => add(key));
+        break;
+      case 'domain':
+        try {
+          add(new URL(event.url).hostname);
+        } catch {
+          // Not an absolute URL
+        }
+        break;
+      case undefined:
+        add(getParameterValue(event, rawField.replace(PARAM_PREFIX, '')));
+        break;
+    }
+  }
+
+  if (field?.name === 'has') counts.set('revenue', { count: Infinity, detail: 'Events with a revenue amount' });
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1].count - a[1].count)
+    .map(([value, { detail }]) => ({ value, detail }));
+}
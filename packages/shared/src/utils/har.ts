@@ -0,0 +1,336 @@
+/**
+ * HAR (HTTP Archive 1.2) export
+ *
+ * Builds a spec-compliant HAR log from captured tracking events. Each intercepted request
+ * becomes one entry with its real headers, cookies, body, status and timings; page
+ * navigations become HAR pages. A `_pixeltracer` extension on entries and pages keeps the
+ * parsed events so that re-importing the file restores the session exactly.
+ *
+ * The types are lenient on the fields other tools often leave out, so the same shapes
+ * describe HAR files being imported.
+ */
+
+import { TrackingEvent } from '../types';
+import { base64ToBytes } from './decoding';
+
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarCookie extends HarNameValue {
+  path?: string;
+  domain?: string;
+  expires?: string;
+  httpOnly?: boolean;
+  secure?: boolean;
+}
+
+export interface HarPostData {
+  mimeType?: string;
+  text?: string;
+  params?: { name: string; value?: string }[];
+  /** Non-standard, written by some tools (and by PixelTracer) for binary bodies */
+  encoding?: string;
+}
+
+export interface HarTimings {
+  blocked?: number;
+  dns?: number;
+  connect?: number;
+  send?: number;
+  wait?: number;
+  receive?: number;
+  ssl?: number;
+}
+
+/**
+ * Tracking event as stored in the `_pixeltracer` extension
+ * Request data recorded by the HAR entry itself is left out and restored from the entry
+ */
+export type HarTrackingEvent = Omit<TrackingEvent, 'url' | 'method' | 'requestHeaders' | 'responseHeaders' | 'requestBody'>;
+
+export interface HarEntry {
+  pageref?: string;
+  startedDateTime: string;
+  /** Total elapsed time of the request in milliseconds */
+  time?: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion?: string;
+    cookies?: HarCookie[];
+    headers?: HarNameValue[];
+    queryString?: HarNameValue[];
+    postData?: HarPostData;
+    headersSize?: number;
+    bodySize?: number;
+  };
+  response?: {
+    status: number;
+    statusText?: string;
+    httpVersion?: string;
+    cookies?: HarCookie[];
+    headers?: HarNameValue[];
+    content?: { size: number; mimeType: string; text?: string };
+    redirectURL?: string;
+    headersSize?: number;
+    bodySize?: number;
+    /** Chrome DevTools extension: network error of a failed request */
+    _error?: string;
+  };
+  cache?: Record<string, unknown>;
+  timings?: HarTimings;
+  serverIPAddress?: string;
+  /** Chrome DevTools extension: 'disk' or 'memory' when served from the cache */
+  _fromCache?: string;
+  /** Parsed events of the request, in event list order */
+  _pixeltracer?: { events: HarTrackingEvent[] };
+}
+
+export interface HarPage {
+  id: string;
+  startedDateTime?: string;
+  title?: string;
+  pageTimings?: { onContentLoad?: number; onLoad?: number };
+  /** Navigation event the page was created from */
+  _pixeltracer?: { event: TrackingEvent };
+}
+
+export interface HarLog {
+  log: {
+    version?: string;
+    creator?: { name: string; version?: string };
+    pages?: HarPage[];
+    entries: HarEntry[];
+  };
+}
+
+export interface HarExportOptions {
+  creatorVersion?: string;
+}
+
+/**
+ * Create a HAR 1.2 log from tracking events (in any order)
+ * Events of the same request (batches) share one entry; entries are written oldest first
+ */
+export function createHar(events: TrackingEvent[], options: HarExportOptions = {}): HarLog {
+  const chronological = [...events].reverse().sort((a, b) => a.timestamp - b.timestamp);
+  const pages: HarPage[] = [];
+  const groups = new Map<string, { pageref?: string; events: TrackingEvent[] }>();
+
+  for (const event of chronological) {
+    if (event.isNavigationEvent) {
+      pages.push({
+        id: `page_${pages.length + 1}`,
+        startedDateTime: new Date(event.timestamp).toISOString(),
+        title: event.parameters?.title || event.url,
+        pageTimings: {},
+        _pixeltracer: { event }
+      });
+      continue;
+    }
+
+    const key = event.requestId || event.id;
+    const group = groups.get(key);
+    if (group) {
+      group.events.push(event);
+    } else {
+      groups.set(key, { pageref: pages[pages.length - 1]?.id, events: [event] });
+    }
+  }
+
+  // Sub-events of a batch keep their position within the list
+  const listOrder = new Map(events.map((event, index) => [event, index]));
+  const entries = Array.from(groups.values()).map(group =>
+    createHarEntry(group.events.sort((a, b) => listOrder.get(a)! - listOrder.get(b)!), group.pageref)
+  );
+
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'PixelTracer', version: options.creatorVersion || '2.0.0' },
+      pages,
+      entries
+    }
+  };
+}
+
+/**
+ * Create the HAR entry of one request from its tracking events
+ */
+function createHarEntry(events: TrackingEvent[], pageref?: string): HarEntry {
+  const event = events[0];
+  const requestHeaders = event.requestHeaders || {};
+  const responseHeaders = event.responseHeaders || {};
+  const timings = toHarTimings(event);
+
+  const entry: HarEntry = {
+    pageref,
+    startedDateTime: new Date(event.timestamp).toISOString(),
+    time: (timings.send || 0) + (timings.wait || 0) + (timings.receive || 0),
+    request: {
+      method: event.method,
+      url: event.url,
+      httpVersion: 'HTTP/1.1',
+      cookies: parseCookieHeader(requestHeaders['cookie']),
+      headers: toHarHeaders(requestHeaders),
+      queryString: toQueryString(event.url),
+      postData: toPostData(event, requestHeaders['content-type']),
+      headersSize: -1,
+      bodySize: event.requestBody ? bodySize(event.requestBody, !!event.encodings?.body) : 0
+    },
+    response: {
+      // Status 0 marks requests without a response (failed, blocked or still pending)
+      status: event.statusCode ?? 0,
+      statusText: '',
+      httpVersion: 'HTTP/1.1',
+      cookies: parseSetCookieHeader(responseHeaders['set-cookie']),
+      headers: toHarHeaders(responseHeaders),
+      content: { size: 0, mimeType: responseHeaders['content-type'] || 'x-unknown' },
+      redirectURL: responseHeaders['location'] || '',
+      headersSize: -1,
+      bodySize: -1,
+      _error: event.networkError
+    },
+    cache: {},
+    timings,
+    serverIPAddress: event.serverIp,
+    _fromCache: event.fromCache ? 'disk' : undefined,
+    _pixeltracer: { events: events.map(toHarTrackingEvent) }
+  };
+
+  return entry;
+}
+
+function toHarTrackingEvent(event: TrackingEvent): HarTrackingEvent {
+  const { url, method, requestHeaders, responseHeaders, requestBody, ...stored } = event;
+  return stored;
+}
+
+/**
+ * Convert lifecycle timestamps to HAR phase durations
+ * Phases that were not observed (DNS, connect) are -1 as the spec requires
+ */
+function toHarTimings(event: TrackingEvent): HarTimings {
+  const timings = event.timings;
+  const start = timings?.startTime ?? event.timestamp;
+  const sent = timings?.requestSentTime ?? start;
+  const end = timings?.endTime ?? timings?.responseStartTime ?? sent;
+  const responseStart = timings?.responseStartTime ?? end;
+  const duration = (from: number, to: number) => Math.max(0, to - from);
+
+  return {
+    blocked: -1,
+    dns: -1,
+    connect: -1,
+    send: duration(start, sent),
+    wait: duration(sent, responseStart),
+    receive: duration(responseStart, end),
+    ssl: -1
+  };
+}
+
+/**
+ * Build the postData block of a request
+ * Bodies the capture decoded (base64 / compressed) are written as the raw base64 bytes,
+ * form bodies as params and anything else as text
+ */
+function toPostData(event: TrackingEvent, contentType?: string): HarPostData | undefined {
+  const text = event.requestBody;
+  if (!text) return undefined;
+
+  if (event.encodings?.body) {
+    return { mimeType: contentType || 'application/octet-stream', text, encoding: 'base64' };
+  }
+
+  const trimmed = text.trim();
+  const mimeType = contentType || (/^[[{]/.test(trimmed)
+    ? 'application/json'
+    : /^[^\s=&]+=[^\s]*$/.test(trimmed) ? 'application/x-www-form-urlencoded' : 'text/plain');
+
+  if (!mimeType.includes('application/x-www-form-urlencoded')) {
+    return { mimeType, text };
+  }
+
+  const params: HarNameValue[] = [];
+  new URLSearchParams(trimmed).forEach((value, name) => params.push({ name, value }));
+  return { mimeType, params };
+}
+
+function bodySize(text: string, base64: boolean): number {
+  if (base64) {
+    try {
+      return base64ToBytes(text).length;
+    } catch {
+      return -1;
+    }
+  }
+  return new TextEncoder().encode(text).length;
+}
+
+function toHarHeaders(headers: Record<string, string>): HarNameValue[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+function toQueryString(url: string): HarNameValue[] {
+  const query: HarNameValue[] = [];
+  try {
+    new URL(url).searchParams.forEach((value, name) => query.push({ name, value }));
+  } catch {
+    // Not an absolute URL
+  }
+  return query;
+}
+
+/**
+ * Parse a Cookie request header ("a=1; b=2")
+ */
+function parseCookieHeader(header?: string): HarCookie[] {
+  if (!header) return [];
+  return header.split(';').map(part => part.trim()).filter(Boolean).map(part => {
+    const separator = part.indexOf('=');
+    return separator === -1
+      ? { name: part, value: '' }
+      : { name: part.slice(0, separator), value: part.slice(separator + 1) };
+  });
+}
+
+/**
+ * Parse Set-Cookie response headers
+ * Repeated headers were joined with ", "; expiry dates contain commas too, so only
+ * split where a new name=value pair starts
+ */
+function parseSetCookieHeader(header?: string): HarCookie[] {
+  if (!header) return [];
+  return header.split(/,\s*(?=[^;,=\s]+=)/).map(cookie => {
+    const [pair, ...attributes] = cookie.split(';').map(part => part.trim());
+    const [result] = parseCookieHeader(pair);
+    if (!result) return undefined;
+
+    for (const attribute of attributes) {
+      const [key, ...rest] = attribute.split('=');
+      const value = rest.join('=');
+      switch (key.toLowerCase()) {
+        case 'path':
+          result.path = value;
+          break;
+        case 'domain':
+          result.domain = value;
+          break;
+        case 'expires': {
+          const expires = Date.parse(value);
+          if (!Number.isNaN(expires)) result.expires = new Date(expires).toISOString();
+          break;
+        }
+        case 'httponly':
+          result.httpOnly = true;
+          break;
+        case 'secure':
+          result.secure = true;
+          break;
+      }
+    }
+    return result;
+  }).filter((cookie): cookie is HarCookie => cookie !== undefined);
+}
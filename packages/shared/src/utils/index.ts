@@ -2,7 +2,14 @@
  * Shared utilities for PixelTracer  
  */
 
-import { TrackingEvent, PixelTracerError, ErrorSeverity } from '../types';
+import { TrackingEvent, RequestData, PixelTracerError, ErrorSeverity, DeliveryFailure, ProviderCandidate } from '../types';
+
+export * from './decoding';
+export * from './xlsx';
+export * from './har';
+export * from './export-templates';
+export * from './filter-criteria';
+export * from './filter-query';
 
 /**
  * Generate a unique ID for tracking events
@@ -76,6 +83,40 @@ export function parseQueryParams(url: string): Record<string, string> {
   }
 }
 
+/**
+ * Split a request URL into the parts providers match on
+ * Invalid URLs give empty parts
+ */
+export function parseRequestUrl(url: string): RequestData['parsedUrl'] {
+  try {
+    const urlObj = new URL(url);
+    return {
+      protocol: urlObj.protocol,
+      hostname: urlObj.hostname,
+      pathname: urlObj.pathname,
+      search: urlObj.search,
+      hash: urlObj.hash
+    };
+  } catch {
+    return { protocol: '', hostname: '', pathname: '', search: '', hash: '' };
+  }
+}
+
+/**
+ * Convert captured headers (webRequest or HAR) to a record with lowercase names
+ * Repeated headers (e.g. set-cookie) are joined like the Fetch API does;
+ * HTTP/2 pseudo-headers (:authority, :path) are not real headers and are dropped
+ */
+export function parseHeaders(headers?: { name: string; value?: string }[]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const header of headers || []) {
+    if (!header.name || header.name.startsWith(':') || header.value === undefined) continue;
+    const name = header.name.toLowerCase();
+    result[name] = result[name] !== undefined ? `${result[name]}, ${header.value}` : header.value;
+  }
+  return result;
+}
+
 /**
  * Parse URL-encoded form data
  */
@@ -101,6 +142,39 @@ export function parseFormData(body: string): Record<string, any> {
   }
 }
 
+/**
+ * Parse the fields of a URL-encoded request body
+ * Returns undefined for bodies that are not form encoded (JSON, newline batches, plain text)
+ */
+export function parseBodyParams(body: string | undefined): Record<string, string> | undefined {
+  const trimmed = body?.trim();
+  if (!trimmed || /^[[{]/.test(trimmed) || /\s/.test(trimmed) || !trimmed.includes('=')) {
+    return undefined;
+  }
+  
+  const params: Record<string, string> = {};
+  for (const [key, value] of new URLSearchParams(trimmed).entries()) {
+    params[key] = value;
+  }
+  
+  return Object.keys(params).length > 0 ? params : undefined;
+}
+
+/**
+ * Serialize chrome.webRequest formData into a URL-encoded body
+ */
+export function formDataToBody(formData: Record<string, string[]>): string {
+  const params = new URLSearchParams();
+  
+  for (const [key, values] of Object.entries(formData)) {
+    for (const value of values) {
+      params.append(key, value);
+    }
+  }
+  
+  return params.toString();
+}
+
 /**
  * Safe JSON parse with fallback
  */
@@ -214,6 +288,63 @@ export function isExtensionContext(): boolean {
   return typeof chrome !== 'undefined' && !!chrome.runtime && !!chrome.runtime.id;
 }
 
+/**
+ * Classify a Chrome network error (net::ERR_*) as a delivery failure
+ */
+export function classifyNetworkError(error: string): DeliveryFailure {
+  const code = error.replace(/^net::/, '').toUpperCase();
+
+  if (code === 'ERR_BLOCKED_BY_CLIENT' || code === 'ERR_BLOCKED_BY_ADMINISTRATOR') return 'blocked_by_client';
+  if (code === 'ERR_BLOCKED_BY_CSP' || code === 'ERR_BLOCKED_BY_RESPONSE') return 'csp';
+  if (code === 'ERR_ABORTED') return 'aborted';
+  if (code === 'ERR_NAME_NOT_RESOLVED' || code === 'ERR_NAME_RESOLUTION_FAILED') return 'dns';
+  if (code === 'ERR_TIMED_OUT' || code === 'ERR_CONNECTION_TIMED_OUT') return 'timeout';
+  if (/^ERR_(CONNECTION_|INTERNET_DISCONNECTED|ADDRESS_UNREACHABLE|NETWORK_CHANGED)/.test(code)) return 'connection';
+  return 'other';
+}
+
+/**
+ * Human readable label for a delivery failure
+ */
+export function getDeliveryFailureLabel(failure: DeliveryFailure): string {
+  switch (failure) {
+    case 'blocked_by_client':
+      return 'Blocked';
+    case 'csp':
+      return 'CSP blocked';
+    case 'aborted':
+      return 'Aborted';
+    case 'dns':
+      return 'DNS failure';
+    case 'timeout':
+      return 'Timed out';
+    case 'connection':
+      return 'Connection failed';
+    default:
+      return 'Failed';
+  }
+}
+
+/**
+ * Show a tracking event as parsed by one of its competing providers
+ * Request data (headers, timings, redirects) is kept, the parsed fields come from the candidate
+ */
+export function applyProviderCandidate(event: TrackingEvent, candidate: ProviderCandidate): TrackingEvent {
+  return {
+    ...event,
+    provider: candidate.provider,
+    providerName: candidate.providerName,
+    providerIcon: undefined,
+    confidence: candidate.confidence,
+    eventType: candidate.eventType,
+    accountId: candidate.accountId,
+    parameters: candidate.parameters,
+    decodedBody: candidate.decodedBody,
+    encodings: candidate.encodings,
+    matchExplanation: candidate.matchExplanation
+  };
+}
+
 /**
  * Validate provider confidence score
  */
@@ -1,5 +1,5 @@
 import * as React from "react"
-import { TrackingEvent } from "@pixeltracer/shared"
+import { TrackingEvent, getDeliveryFailureLabel } from "@pixeltracer/shared"
 import { Card, CardContent } from "./ui/card"
 import { Badge } from "./ui/badge"
 import { Tooltip } from "./ui/tooltip"
@@ -7,7 +7,7 @@ import {
   cn, 
   formatEventTime
 } from "../utils"
-import { Navigation, ArrowRight } from "lucide-react"
+import { Navigation, ArrowRight, Ban } from "lucide-react"
 
 export interface EventCardProps extends Omit<React.HTMLAttributes<HTMLDivElement>, 'onSelect'> {
   event: TrackingEvent
@@ -110,6 +110,16 @@ const EventCard = React.memo(React.forwardRef<HTMLDivElement, EventCardProps>(
               </Badge>
             )}
             
+            {/* Delivery failure (blocked, aborted, DNS...) */}
+            {event.deliveryFailure && (
+              <Tooltip content={`Request never delivered: ${event.networkError}`}>
+                <Badge variant="error" className="text-xs font-medium shrink-0 gap-1">
+                  <Ban className="w-3 h-3" />
+                  {getDeliveryFailureLabel(event.deliveryFailure)}
+                </Badge>
+              </Tooltip>
+            )}
+            
             {/* Account ID - extract from parameters if available */}
             {accountId && (
               <Badge variant="secondary" className="text-xs font-medium shrink-0">
@@ -1,5 +1,5 @@
 import * as React from "react"
-import { TrackingEvent } from "@pixeltracer/shared"
+import { TrackingEvent, MatchScoreStep, getDeliveryFailureLabel, applyProviderCandidate, extractDomain } from "@pixeltracer/shared"
 import { getProviderGrouping } from "@pixeltracer/providers"
 import type { ParameterGroup, ParameterGroupIcon } from "@pixeltracer/providers"
 import { Badge } from "./ui/badge"
@@ -20,7 +20,17 @@ import {
   Calendar,
   Settings,
   Globe,
-  Sparkles
+  Sparkles,
+  Layers,
+  Activity,
+  Clock,
+  CornerDownRight,
+  HelpCircle,
+  X,
+  Shuffle,
+  Pin,
+  FlaskConical,
+  Download
 } from "lucide-react"
 
 // UI-specific parameter group with React icon
@@ -43,6 +53,16 @@ const iconMap: Record<ParameterGroupIcon | string, React.ReactNode> = {
 export interface EventDetailsEnhancedProps {
   event: TrackingEvent | null
   onClose?: () => void
+  /** Per-domain provider overrides (request hostname -> provider ID) */
+  providerOverrides?: Record<string, string>
+  /** Pin a provider for a request domain, or remove the override with null */
+  onSetProviderOverride?: (domain: string, providerId: string | null) => void
+  /** Save the event (as currently viewed) as an anonymised provider test fixture */
+  onSaveFixture?: (event: TrackingEvent) => void
+  /** Number of saved fixtures per provider ID */
+  savedFixtureCounts?: Record<string, number>
+  /** Download the saved fixtures of a provider as a fixture file */
+  onExportFixtures?: (provider: string) => void
   className?: string
 }
 
@@ -61,10 +81,23 @@ function groupParameters(event: TrackingEvent): UIParameterGroup[] {
 }
 
 export const EventDetailsEnhanced = React.forwardRef<HTMLDivElement, EventDetailsEnhancedProps>(
-  ({ event, className }, ref) => {
+  ({ event: sourceEvent, providerOverrides, onSetProviderOverride, onSaveFixture, savedFixtureCounts, onExportFixtures, className }, ref) => {
     const [copiedField, setCopiedField] = React.useState<string | null>(null)
     const [expandedGroups, setExpandedGroups] = React.useState<Set<string>>(new Set(['event']))
     const [viewMode, setViewMode] = React.useState<'simplified' | 'technical'>('simplified')
+    const [showRedirects, setShowRedirects] = React.useState(false)
+    const [showExplanation, setShowExplanation] = React.useState(false)
+    // Competing provider the event is being viewed as (null = the provider it was classified as)
+    const [viewProvider, setViewProvider] = React.useState<string | null>(null)
+    
+    React.useEffect(() => {
+      setViewProvider(null)
+    }, [sourceEvent?.id])
+    
+    const viewedCandidate = viewProvider && viewProvider !== sourceEvent?.provider
+      ? sourceEvent?.candidates?.find(candidate => candidate.provider === viewProvider)
+      : undefined
+    const event = sourceEvent && viewedCandidate ? applyProviderCandidate(sourceEvent, viewedCandidate) : sourceEvent
     
     const handleCopy = async (text: string, field: string) => {
       try {
@@ -103,6 +136,9 @@ export const EventDetailsEnhanced = React.forwardRef<HTMLDivElement, EventDetail
     }
     
     const groupedParams = groupParameters(event)
+    const requestDomain = extractDomain(event.url)
+    const domainOverride = requestDomain ? providerOverrides?.[requestDomain] : undefined
+    const savedFixtures = savedFixtureCounts?.[event.provider] || 0
     
     return (
       <div ref={ref} className={cn("", className)}>
@@ -127,6 +163,61 @@ export const EventDetailsEnhanced = React.forwardRef<HTMLDivElement, EventDetail
             </Badge>
           </div>
           
+          {/* Competing provider matches */}
+          {sourceEvent && sourceEvent.candidates && sourceEvent.candidates.length > 1 && (
+            <div className="p-3 bg-muted/50 rounded-lg text-sm space-y-2">
+              <div className="flex items-center gap-2">
+                <Shuffle className="w-4 h-4 text-muted-foreground" />
+                <span className="text-muted-foreground">Matched by {sourceEvent.candidates.length} providers:</span>
+                {sourceEvent.providerOverride && (
+                  <Badge variant="info" className="text-xs">domain override</Badge>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-1.5">
+                {sourceEvent.candidates.map(candidate => (
+                  <button
+                    key={candidate.provider}
+                    onClick={() => setViewProvider(candidate.provider)}
+                    title={candidate.provider === sourceEvent.provider ? 'Classified as' : 'View as parsed by this provider'}
+                  >
+                    <Badge
+                      variant={candidate.provider === event.provider ? "default" : "outline"}
+                      className="gap-1.5 cursor-pointer"
+                    >
+                      {candidate.providerName}
+                      <span className="opacity-70">{Math.round(candidate.confidence * 100)}%</span>
+                    </Badge>
+                  </button>
+                ))}
+              </div>
+              {onSetProviderOverride && requestDomain && (
+                <div className="flex items-center gap-2 flex-wrap">
+                  {domainOverride !== event.provider && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 gap-1.5 text-xs"
+                      onClick={() => onSetProviderOverride(requestDomain, event.provider)}
+                    >
+                      <Pin className="w-3.5 h-3.5" />
+                      Always use {event.providerName} on {requestDomain}
+                    </Button>
+                  )}
+                  {domainOverride && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => onSetProviderOverride(requestDomain, null)}
+                    >
+                      Clear override
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+          
           {/* Quick Stats */}
           {event.accountId && (
             <div className="flex items-center gap-4 p-3 bg-muted/50 rounded-lg text-sm">
@@ -142,6 +233,178 @@ export const EventDetailsEnhanced = React.forwardRef<HTMLDivElement, EventDetail
               </div>
             </div>
           )}
+          
+          {/* Batched request link */}
+          {event.batchSize && event.batchSize > 1 && (
+            <div className="flex items-center gap-4 p-3 bg-muted/50 rounded-lg text-sm">
+              <div className="flex items-center gap-2 min-w-0">
+                <Layers className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                <span className="text-muted-foreground">Batched request:</span>
+                <span className="font-medium">
+                  Event {(event.batchIndex ?? 0) + 1} of {event.batchSize}
+                </span>
+                {event.requestId && (
+                  <span className="font-mono text-xs text-muted-foreground truncate" title={event.requestId}>
+                    {event.requestId}
+                  </span>
+                )}
+              </div>
+            </div>
+          )}
+          
+          {/* Network response */}
+          {(event.statusCode !== undefined || event.networkError || event.timings?.duration !== undefined) && (
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2 p-3 bg-muted/50 rounded-lg text-sm">
+              <div className="flex items-center gap-2">
+                <Activity className="w-4 h-4 text-muted-foreground" />
+                <span className="text-muted-foreground">Response:</span>
+                {event.networkError ? (
+                  <Badge variant="error" className="font-mono">
+                    {event.deliveryFailure ? `${getDeliveryFailureLabel(event.deliveryFailure)} · ` : ''}{event.networkError}
+                  </Badge>
+                ) : event.statusCode !== undefined ? (
+                  <Badge variant={getStatusVariant(event.statusCode)} className="font-mono">{event.statusCode}</Badge>
+                ) : (
+                  <span className="text-muted-foreground">pending</span>
+                )}
+                {event.fromCache && (
+                  <Badge variant="outline" className="text-xs">cached</Badge>
+                )}
+              </div>
+              {event.timings?.duration !== undefined && (
+                <div className="flex items-center gap-2">
+                  <Clock className="w-4 h-4 text-muted-foreground" />
+                  <span className="font-medium">{event.timings.duration} ms</span>
+                </div>
+              )}
+              {event.responseHeaders?.['content-type'] && (
+                <span className="font-mono text-xs text-muted-foreground truncate">
+                  {event.responseHeaders['content-type']}
+                </span>
+              )}
+            </div>
+          )}
+          
+          {/* Redirect chain */}
+          {event.redirectChain && event.redirectChain.length > 1 && (
+            <div className="p-3 bg-muted/50 rounded-lg text-sm">
+              <button
+                className="flex items-center gap-2 w-full text-left"
+                onClick={() => setShowRedirects(!showRedirects)}
+              >
+                {showRedirects ? (
+                  <ChevronDown className="w-4 h-4 text-muted-foreground" />
+                ) : (
+                  <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                )}
+                <span className="text-muted-foreground">Redirect chain:</span>
+                <span className="font-medium">{event.redirectChain.length - 1} {event.redirectChain.length === 2 ? 'hop' : 'hops'}</span>
+              </button>
+              {showRedirects && (
+                <ol className="mt-3 space-y-2">
+                  {event.redirectChain.map((hop, index) => (
+                    <li key={`${hop.url}-${index}`} className="flex items-start gap-2" style={{ paddingLeft: `${Math.min(index, 4) * 12}px` }}>
+                      {index > 0 && <CornerDownRight className="w-3.5 h-3.5 mt-0.5 text-muted-foreground flex-shrink-0" />}
+                      <div className="min-w-0 flex-1 space-y-1">
+                        <div className="flex items-center gap-1.5 flex-wrap">
+                          {hop.statusCode !== undefined ? (
+                            <Badge variant="warning" className="font-mono text-xs">{hop.statusCode}</Badge>
+                          ) : (
+                            <Badge variant="outline" className="text-xs">final</Badge>
+                          )}
+                          {hop.provider && (
+                            <Badge variant="secondary" className="text-xs">{hop.provider}</Badge>
+                          )}
+                          {hop.url === event.url && (
+                            <Badge variant="info" className="text-xs">parsed</Badge>
+                          )}
+                        </div>
+                        <div className="font-mono text-xs break-all text-muted-foreground">{hop.url}</div>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          )}
+          
+          {/* Confidence breakdown */}
+          {event.matchExplanation && event.matchExplanation.steps.length > 0 && (
+            <div className="p-3 bg-muted/50 rounded-lg text-sm">
+              <button
+                className="flex items-center gap-2 w-full text-left"
+                onClick={() => setShowExplanation(!showExplanation)}
+              >
+                {showExplanation ? (
+                  <ChevronDown className="w-4 h-4 text-muted-foreground" />
+                ) : (
+                  <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                )}
+                <HelpCircle className="w-4 h-4 text-muted-foreground" />
+                <span className="text-muted-foreground">Why was this detected?</span>
+                <span className="font-medium">{Math.round(event.matchExplanation.confidence * 100)}% confidence</span>
+              </button>
+              {showExplanation && (
+                <div className="mt-3 space-y-2">
+                  {event.matchExplanation.steps.map(step => (
+                    <div key={step.rule} className="flex items-start gap-2">
+                      {step.matched ? (
+                        <Check className="w-3.5 h-3.5 mt-0.5 text-green-500 flex-shrink-0" />
+                      ) : (
+                        <X className="w-3.5 h-3.5 mt-0.5 text-muted-foreground flex-shrink-0" />
+                      )}
+                      <div className="min-w-0 flex-1 space-y-0.5">
+                        <div className="flex items-center gap-2">
+                          <span className={cn("font-medium", !step.matched && "text-muted-foreground")}>
+                            {SCORE_RULE_LABELS[step.rule]}
+                          </span>
+                          {step.detail && (
+                            <span className="text-xs text-muted-foreground truncate">{step.detail}</span>
+                          )}
+                        </div>
+                        {step.patterns?.map(pattern => (
+                          <div key={pattern} className="font-mono text-xs break-all text-muted-foreground">{pattern}</div>
+                        ))}
+                      </div>
+                      <span className={cn(
+                        "font-mono text-xs flex-shrink-0",
+                        step.value < 0 || (step.effect === 'multiply' && step.value < 1) ? "text-destructive" : "text-muted-foreground"
+                      )}>
+                        {formatScoreEffect(step)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          
+          {/* Regression fixture capture */}
+          {onSaveFixture && (
+            <div className="flex items-center gap-2 flex-wrap">
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 gap-1.5 text-xs"
+                onClick={() => onSaveFixture(event)}
+                title="Store the request and its current parse result, with personal data removed"
+              >
+                <FlaskConical className="w-3.5 h-3.5" />
+                Save as test fixture
+              </Button>
+              {savedFixtures > 0 && onExportFixtures && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 gap-1.5 text-xs"
+                  onClick={() => onExportFixtures(event.provider)}
+                >
+                  <Download className="w-3.5 h-3.5" />
+                  Export {savedFixtures} {event.providerName} {savedFixtures === 1 ? 'fixture' : 'fixtures'}
+                </Button>
+              )}
+            </div>
+          )}
         </div>
         
         {/* View Mode Toggle */}
@@ -287,6 +550,51 @@ export const EventDetailsEnhanced = React.forwardRef<HTMLDivElement, EventDetail
                   </div>
                 </div>
                 
+                {/* Headers */}
+                {event.requestHeaders && Object.keys(event.requestHeaders).length > 0 && (
+                  <HeaderList title="Request Headers" headers={event.requestHeaders} />
+                )}
+                {event.responseHeaders && Object.keys(event.responseHeaders).length > 0 && (
+                  <HeaderList title="Response Headers" headers={event.responseHeaders} />
+                )}
+                
+                {/* Decoded Body */}
+                {event.decodedBody !== undefined && (
+                  <div className="space-y-1 mt-4">
+                    <div className="flex items-center gap-2">
+                      <div className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Decoded Body</div>
+                      {event.encodings?.body && (
+                        <Badge variant="outline" className="text-[10px] px-1.5 py-0 font-mono">
+                          {event.encodings.body.join(' → ')}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="rounded border bg-background p-3 max-h-[300px] overflow-auto">
+                      <pre className="text-xs font-mono whitespace-pre-wrap break-all">
+                        {typeof event.decodedBody === 'string'
+                          ? event.decodedBody
+                          : JSON.stringify(event.decodedBody, null, 2)}
+                      </pre>
+                    </div>
+                  </div>
+                )}
+                
+                {/* Decoded Parameters */}
+                {event.encodings && Object.keys(event.encodings).some(key => key !== 'body') && (
+                  <div className="space-y-1 mt-4">
+                    <div className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Decoded Parameters</div>
+                    <div className="flex flex-wrap gap-1">
+                      {Object.entries(event.encodings)
+                        .filter(([key]) => key !== 'body')
+                        .map(([key, steps]) => (
+                          <Badge key={key} variant="outline" className="text-[10px] px-1.5 py-0 font-mono">
+                            {key}: {steps.join(' → ')}
+                          </Badge>
+                        ))}
+                    </div>
+                  </div>
+                )}
+                
                 {/* All Parameters */}
                 <div className="space-y-1 mt-4">
                   <div className="text-xs font-medium text-muted-foreground uppercase tracking-wider">All Parameters</div>
@@ -327,6 +635,48 @@ export const EventDetailsEnhanced = React.forwardRef<HTMLDivElement, EventDetail
 
 EventDetailsEnhanced.displayName = 'EventDetailsEnhanced'
 
+// Header name / value table for the technical view
+function HeaderList({ title, headers }: { title: string; headers: Record<string, string> }) {
+  return (
+    <div className="space-y-1 mt-4">
+      <div className="text-xs font-medium text-muted-foreground uppercase tracking-wider">{title}</div>
+      <div className="rounded border bg-background p-3 max-h-[240px] overflow-auto">
+        {Object.entries(headers).map(([name, value]) => (
+          <div key={name} className="flex gap-2 text-xs font-mono">
+            <span className="text-muted-foreground flex-shrink-0">{name}:</span>
+            <span className="break-all">{value}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// Labels for the confidence scoring rules
+const SCORE_RULE_LABELS: Record<MatchScoreStep['rule'], string> = {
+  url: 'URL pattern',
+  domain: 'Domain',
+  path: 'Path',
+  method: 'HTTP method',
+  query: 'Query parameters',
+  required: 'Required parameters',
+  custom: 'Provider-specific checks'
+}
+
+// Score change of a scoring rule, e.g. "+0.40" or "×0.50"
+function formatScoreEffect(step: MatchScoreStep): string {
+  if (step.effect === 'multiply') return `×${step.value.toFixed(2)}`
+  return `${step.value < 0 ? '−' : '+'}${Math.abs(step.value).toFixed(2)}`
+}
+
+// Badge variant for an HTTP status code
+function getStatusVariant(statusCode: number): 'success' | 'warning' | 'error' | 'secondary' {
+  if (statusCode >= 200 && statusCode < 300) return 'success'
+  if (statusCode >= 300 && statusCode < 400) return 'warning'
+  if (statusCode >= 400) return 'error'
+  return 'secondary'
+}
+
 // Helper function to format values based on their type
 function formatValue(value: any, format?: string): string {
   if (value === null || value === undefined) return 'null'
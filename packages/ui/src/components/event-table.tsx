@@ -4,11 +4,11 @@
  */
 
 import * as React from "react"
-import { TrackingEvent } from "@pixeltracer/shared"
+import { TrackingEvent, getDeliveryFailureLabel } from "@pixeltracer/shared"
 import { ProviderIcon } from "./provider-icon"
 import { Tooltip } from "./ui/tooltip"
 import { cn } from "../utils"
-import { Navigation, ArrowRight } from "lucide-react"
+import { Navigation, ArrowRight, Ban } from "lucide-react"
 
 export interface EventTableProps extends React.HTMLAttributes<HTMLDivElement> {
   events: TrackingEvent[]
@@ -168,7 +168,8 @@ const EventTable = React.forwardRef<HTMLDivElement, EventTableProps>(
                     onClick={() => handleRowClick(row.fullEvent)}
                     className={cn(
                       "border-b hover:bg-muted/50 cursor-pointer transition-colors",
-                      row.isSelected && "bg-primary/10 border-primary/30"
+                      row.isSelected && "bg-primary/10 border-primary/30",
+                      row.fullEvent.deliveryFailure && "bg-red-50/60 dark:bg-red-950/20"
                     )}
                   >
                     <td className="p-2">
@@ -181,8 +182,25 @@ const EventTable = React.forwardRef<HTMLDivElement, EventTableProps>(
                       </div>
                     </td>
                     <td className="p-2">
-                      <div className="text-sm font-medium text-foreground truncate">
-                        {row.eventName}
+                      <div className="flex items-center gap-1.5 min-w-0">
+                        <div className="text-sm font-medium text-foreground truncate">
+                          {row.eventName}
+                        </div>
+                        {row.fullEvent.batchSize && row.fullEvent.batchSize > 1 && (
+                          <Tooltip content={`Event ${(row.fullEvent.batchIndex ?? 0) + 1} of ${row.fullEvent.batchSize} in one batched request`}>
+                            <span className="shrink-0 text-[10px] font-mono px-1 rounded bg-muted text-muted-foreground">
+                              {(row.fullEvent.batchIndex ?? 0) + 1}/{row.fullEvent.batchSize}
+                            </span>
+                          </Tooltip>
+                        )}
+                        {row.fullEvent.deliveryFailure && (
+                          <Tooltip content={`Request never delivered: ${row.fullEvent.networkError}`}>
+                            <span className="shrink-0 inline-flex items-center gap-0.5 text-[10px] font-medium px-1 rounded bg-pixel-error text-white">
+                              <Ban className="w-2.5 h-2.5" />
+                              {getDeliveryFailureLabel(row.fullEvent.deliveryFailure)}
+                            </span>
+                          </Tooltip>
+                        )}
                       </div>
                     </td>
                     <td className="p-2">
@@ -1,5 +1,5 @@
 import * as React from "react"
-import { TrackingEvent } from "@pixeltracer/shared"
+import { TrackingEvent, ExportTemplate, collectParameterPaths } from "@pixeltracer/shared"
 import { Button } from "./ui/button"
 import { Badge } from "./ui/badge"
 import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
@@ -9,6 +9,7 @@ import {
   ExportOptions, 
   useEventExport 
 } from "../hooks/use-event-export"
+import { ExportTemplateEditor } from "./export-template-editor"
 import { cn } from "../utils"
 import { 
   Download, 
@@ -18,18 +19,31 @@ import {
   Activity, 
   Eye, 
   Check,
-  X
+  X,
+  Sheet,
+  Rows,
+  Plus,
+  Pencil,
+  Trash2
 } from "lucide-react"
 
+// Excel workbooks are built by the background (AdvancedFilters), not by useEventExport
+type DialogFormat = ExportFormat | 'xlsx'
+
 export interface ExportDialogProps extends React.HTMLAttributes<HTMLDivElement> {
   events: TrackingEvent[]
   onClose?: () => void
   title?: string
+  /** Offer the Excel format; called with the events to write as a workbook */
+  onExportXlsx?: (events: TrackingEvent[]) => Promise<void>
+  /** Saved column layouts; editing is offered when onSaveTemplates is set */
+  templates?: ExportTemplate[]
+  onSaveTemplates?: (templates: ExportTemplate[]) => void
 }
 
 const ExportDialog = React.forwardRef<HTMLDivElement, ExportDialogProps>(
-  ({ className, events, onClose, title = "Export Events", ...props }, ref) => {
-    const [selectedFormat, setSelectedFormat] = React.useState<ExportFormat>('json');
+  ({ className, events, onClose, title = "Export Events", onExportXlsx, templates = [], onSaveTemplates, ...props }, ref) => {
+    const [selectedFormat, setSelectedFormat] = React.useState<DialogFormat>('json');
     const [options, setOptions] = React.useState<ExportOptions>({
       format: 'json',
       includeHeaders: true,
@@ -40,8 +54,21 @@ const ExportDialog = React.forwardRef<HTMLDivElement, ExportDialogProps>(
     const [showPreview, setShowPreview] = React.useState(false);
     const [copying, setCopying] = React.useState(false);
     const [exported, setExported] = React.useState(false);
+    const [exportError, setExportError] = React.useState<string | null>(null);
+    const [templateId, setTemplateId] = React.useState<string>('');
+    // Template being edited: null for a new one, undefined when not editing
+    const [editingTemplate, setEditingTemplate] = React.useState<ExportTemplate | null | undefined>(undefined);
+
+    const { exportEvents, exportTemplateWorkbook, copyToClipboard, getExportPreview } = useEventExport();
 
-    const { exportEvents, copyToClipboard, getExportPreview } = useEventExport();
+    const template = React.useMemo(
+      () => templates.find(candidate => candidate.id === templateId),
+      [templates, templateId]
+    );
+    const parameterPaths = React.useMemo(
+      () => (editingTemplate !== undefined ? collectParameterPaths(events) : []),
+      [events, editingTemplate]
+    );
 
     const formatOptions = React.useMemo(() => [
       {
@@ -61,44 +88,107 @@ const ExportDialog = React.forwardRef<HTMLDivElement, ExportDialogProps>(
         compatibility: 'Universal'
       },
       {
-        format: 'har' as ExportFormat,
+        format: 'ndjson' as ExportFormat,
+        name: 'NDJSON',
+        description: 'One JSON object per line - Best for log pipelines',
+        icon: Rows,
+        size: 'Large',
+        compatibility: 'Tools'
+      },
+      // HAR keeps the request data as captured, so it has no column layout
+      ...(!template ? [{
+        format: 'har' as DialogFormat,
         name: 'HAR',
         description: 'HTTP Archive - Best for network analysis tools',
         icon: Activity,
         size: 'Large',
         compatibility: 'Tools'
-      }
-    ], []);
+      }] : []),
+      ...(onExportXlsx || template ? [{
+        format: 'xlsx' as DialogFormat,
+        name: 'Excel',
+        description: template
+          ? 'Workbook with one sheet laid out by the template'
+          : 'Workbook with a summary sheet and one sheet per provider',
+        icon: Sheet,
+        size: 'Medium',
+        compatibility: 'Excel'
+      }] : [])
+    ], [onExportXlsx, template]);
 
-    const handleFormatChange = React.useCallback((format: ExportFormat) => {
+    const handleFormatChange = React.useCallback((format: DialogFormat) => {
       setSelectedFormat(format);
-      setOptions(prev => ({ ...prev, format }));
+      if (format !== 'xlsx') {
+        setOptions(prev => ({ ...prev, format }));
+      }
     }, []);
 
+    const handleTemplateChange = React.useCallback((id: string) => {
+      setTemplateId(id);
+      if (id && selectedFormat === 'har') {
+        handleFormatChange('json');
+      }
+    }, [selectedFormat, handleFormatChange]);
+
+    const saveTemplate = React.useCallback((saved: ExportTemplate) => {
+      const exists = templates.some(candidate => candidate.id === saved.id);
+      onSaveTemplates?.(exists
+        ? templates.map(candidate => (candidate.id === saved.id ? saved : candidate))
+        : [...templates, saved]);
+      setTemplateId(saved.id);
+      setEditingTemplate(undefined);
+      if (selectedFormat === 'har') {
+        handleFormatChange('json');
+      }
+    }, [templates, onSaveTemplates, selectedFormat, handleFormatChange]);
+
+    const deleteTemplate = React.useCallback(() => {
+      if (!template || !window.confirm(`Delete template ${template.name}?`)) return;
+      onSaveTemplates?.(templates.filter(candidate => candidate.id !== template.id));
+      setTemplateId('');
+    }, [template, templates, onSaveTemplates]);
+
     const handleExport = React.useCallback(async () => {
+      setExportError(null);
       try {
-        exportEvents(events, options);
+        if (selectedFormat === 'xlsx') {
+          if (template) {
+            exportTemplateWorkbook(events, template);
+          } else {
+            await onExportXlsx?.(events);
+          }
+        } else {
+          exportEvents(events, { ...options, template });
+        }
         setExported(true);
         setTimeout(() => setExported(false), 2000);
       } catch (error) {
-        // Export failed
+        setExportError(error instanceof Error ? error.message : String(error));
       }
-    }, [events, options, exportEvents]);
+    }, [events, options, selectedFormat, template, exportEvents, exportTemplateWorkbook, onExportXlsx]);
 
     const handleCopy = React.useCallback(async () => {
+      if (selectedFormat === 'xlsx') return;
       setCopying(true);
       try {
-        await copyToClipboard(events, selectedFormat);
+        await copyToClipboard(events, selectedFormat, template);
         setTimeout(() => setCopying(false), 2000);
       } catch (error) {
         setCopying(false);
       }
-    }, [events, selectedFormat, copyToClipboard]);
+    }, [events, selectedFormat, template, copyToClipboard]);
 
     const preview = React.useMemo(() => {
       if (!showPreview) return '';
-      return getExportPreview(events, selectedFormat, 2);
-    }, [showPreview, events, selectedFormat, getExportPreview]);
+      if (selectedFormat === 'xlsx') {
+        if (template) {
+          return `Sheet: ${template.name}\nColumns: ${template.columns.map(column => column.label || column.field).join(', ')}`;
+        }
+        const providers = Array.from(new Set(events.map(event => event.providerName || event.provider)));
+        return `Sheets: ${['Summary', ...providers].join(', ')}`;
+      }
+      return getExportPreview(events, selectedFormat, 2, template);
+    }, [showPreview, events, selectedFormat, template, getExportPreview]);
 
     const estimatedSize = React.useMemo(() => {
       if (events.length === 0) return '0 KB';
@@ -108,13 +198,15 @@ const ExportDialog = React.forwardRef<HTMLDivElement, ExportDialogProps>(
       const avgEventSize = sampleSize / Math.min(10, events.length);
       const totalSize = avgEventSize * events.length;
       
-      const sizeMultiplier = selectedFormat === 'csv' ? 0.6 : selectedFormat === 'har' ? 1.5 : 1;
+      const sizeMultiplier = template
+        ? Math.min(1, 0.1 * template.columns.length)
+        : selectedFormat === 'csv' || selectedFormat === 'xlsx' ? 0.6 : selectedFormat === 'har' ? 1.5 : 1;
       const estimatedBytes = totalSize * sizeMultiplier;
       
       if (estimatedBytes < 1024) return `${Math.round(estimatedBytes)} B`;
       if (estimatedBytes < 1024 * 1024) return `${Math.round(estimatedBytes / 1024)} KB`;
       return `${Math.round(estimatedBytes / (1024 * 1024))} MB`;
-    }, [events, selectedFormat]);
+    }, [events, selectedFormat, template]);
 
     return (
       <Card ref={ref} className={cn("w-full max-w-2xl", className)} {...props}>
@@ -168,6 +260,53 @@ const ExportDialog = React.forwardRef<HTMLDivElement, ExportDialogProps>(
             </div>
           </div>
 
+          {/* Template */}
+          {(templates.length > 0 || onSaveTemplates) && (
+            <div className="space-y-3">
+              <div className="text-sm font-medium">Template</div>
+              {editingTemplate !== undefined ? (
+                <ExportTemplateEditor
+                  key={editingTemplate?.id ?? 'new'}
+                  template={editingTemplate ?? undefined}
+                  parameterPaths={parameterPaths}
+                  onSave={saveTemplate}
+                  onCancel={() => setEditingTemplate(undefined)}
+                />
+              ) : (
+                <div className="flex items-center gap-2">
+                  <select
+                    value={templateId}
+                    onChange={(e) => handleTemplateChange(e.target.value)}
+                    className="flex-1 h-9 rounded-md border border-input bg-background px-3 text-sm"
+                  >
+                    <option value="">All fields (no template)</option>
+                    {templates.map(candidate => (
+                      <option key={candidate.id} value={candidate.id}>
+                        {candidate.name} ({candidate.columns.length} columns)
+                      </option>
+                    ))}
+                  </select>
+                  {onSaveTemplates && (
+                    <>
+                      <Button variant="outline" size="sm" className="h-9 w-9 p-0" onClick={() => setEditingTemplate(null)}>
+                        <Plus className="w-4 h-4" />
+                        <span className="sr-only">New template</span>
+                      </Button>
+                      <Button variant="outline" size="sm" className="h-9 w-9 p-0" onClick={() => setEditingTemplate(template)} disabled={!template}>
+                        <Pencil className="w-4 h-4" />
+                        <span className="sr-only">Edit template</span>
+                      </Button>
+                      <Button variant="outline" size="sm" className="h-9 w-9 p-0 hover:text-destructive" onClick={deleteTemplate} disabled={!template}>
+                        <Trash2 className="w-4 h-4" />
+                        <span className="sr-only">Delete template</span>
+                      </Button>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Export Options */}
           <div className="space-y-3">
             <div className="text-sm font-medium">Options</div>
@@ -244,6 +383,10 @@ const ExportDialog = React.forwardRef<HTMLDivElement, ExportDialogProps>(
             )}
           </div>
 
+          {exportError && (
+            <div className="text-sm text-destructive">{exportError}</div>
+          )}
+
           {/* Export Actions */}
           <div className="flex items-center gap-3 pt-4 border-t">
             <Button
@@ -267,7 +410,7 @@ const ExportDialog = React.forwardRef<HTMLDivElement, ExportDialogProps>(
             <Button
               variant="outline"
               onClick={handleCopy}
-              disabled={events.length === 0 || copying}
+              disabled={events.length === 0 || copying || selectedFormat === 'xlsx'}
               className="gap-2"
             >
               {copying ? (
@@ -0,0 +1,170 @@
+/**
+ * Export Template Editor Component
+ * Define a reusable export column layout: event fields or parameter paths,
+ * column headers and per-column formatting
+ */
+
+import * as React from "react"
+import {
+  ExportTemplate,
+  ExportTemplateColumn,
+  ExportColumnFormat,
+  EXPORT_COLUMN_FORMATS,
+  TEMPLATE_EVENT_FIELDS
+} from "@pixeltracer/shared"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { cn } from "../utils"
+import { ArrowDown, ArrowUp, Plus, Save, Trash2, X } from "lucide-react"
+
+export interface ExportTemplateEditorProps extends Omit<React.HTMLAttributes<HTMLDivElement>, "onChange"> {
+  /** Template to edit; a new template is created when omitted */
+  template?: ExportTemplate
+  /** Parameter paths seen in the events being exported, offered as field suggestions */
+  parameterPaths?: string[]
+  onSave: (template: ExportTemplate) => void
+  onCancel: () => void
+}
+
+const DEFAULT_COLUMNS: ExportTemplateColumn[] = [
+  { field: "timestamp", label: "Time", format: "iso-time" },
+  { field: "providerName", label: "Provider" },
+  { field: "eventType", label: "Event" }
+]
+
+const ExportTemplateEditor = React.forwardRef<HTMLDivElement, ExportTemplateEditorProps>(
+  ({ className, template, parameterPaths = [], onSave, onCancel, ...props }, ref) => {
+    const [name, setName] = React.useState(template?.name ?? "")
+    const [columns, setColumns] = React.useState<ExportTemplateColumn[]>(
+      template ? template.columns.map(column => ({ ...column })) : DEFAULT_COLUMNS
+    )
+    const [error, setError] = React.useState<string | null>(null)
+    const listId = React.useId()
+
+    const updateColumn = React.useCallback((index: number, update: Partial<ExportTemplateColumn>) => {
+      setColumns(prev => prev.map((column, i) => (i === index ? { ...column, ...update } : column)))
+    }, [])
+
+    const moveColumn = React.useCallback((index: number, offset: number) => {
+      setColumns(prev => {
+        const target = index + offset
+        if (target < 0 || target >= prev.length) return prev
+        const next = [...prev]
+        ;[next[index], next[target]] = [next[target], next[index]]
+        return next
+      })
+    }, [])
+
+    const handleSave = React.useCallback(() => {
+      const cleaned = columns
+        .map(column => ({ ...column, field: column.field.trim(), label: column.label?.trim() || undefined }))
+        .filter(column => column.field)
+      if (!name.trim()) {
+        setError("Give the template a name")
+        return
+      }
+      if (cleaned.length === 0) {
+        setError("Add at least one column")
+        return
+      }
+
+      const now = Date.now()
+      onSave({
+        id: template?.id ?? `template-${now}-${Math.random().toString(36).slice(2, 8)}`,
+        name: name.trim(),
+        columns: cleaned,
+        createdAt: template?.createdAt ?? now,
+        updatedAt: now
+      })
+    }, [columns, name, template, onSave])
+
+    return (
+      <div ref={ref} className={cn("space-y-3 p-3 border rounded-lg", className)} {...props}>
+        <Input
+          value={name}
+          placeholder="Template name"
+          onChange={(e) => setName(e.target.value)}
+          className="h-8 text-sm"
+        />
+
+        <datalist id={listId}>
+          {TEMPLATE_EVENT_FIELDS.map(field => <option key={field} value={field} />)}
+          {parameterPaths.map(path => <option key={path} value={path} />)}
+        </datalist>
+
+        <div className="space-y-2">
+          {columns.map((column, index) => (
+            <div key={index} className="flex items-center gap-1">
+              <Input
+                value={column.field}
+                list={listId}
+                placeholder="parameters.cd.value"
+                onChange={(e) => updateColumn(index, { field: e.target.value })}
+                className="h-8 text-xs font-mono flex-[3]"
+              />
+              <Input
+                value={column.label ?? ""}
+                placeholder="Header"
+                onChange={(e) => updateColumn(index, { label: e.target.value })}
+                className="h-8 text-xs flex-[2]"
+              />
+              <select
+                value={column.format ?? "raw"}
+                onChange={(e) => updateColumn(index, { format: e.target.value as ExportColumnFormat })}
+                className="h-8 rounded-md border border-input bg-background px-2 text-xs"
+              >
+                {EXPORT_COLUMN_FORMATS.map(({ format, label }) => (
+                  <option key={format} value={format}>{label}</option>
+                ))}
+              </select>
+              <Button variant="ghost" size="sm" className="h-8 w-7 p-0" onClick={() => moveColumn(index, -1)} disabled={index === 0}>
+                <ArrowUp className="w-3 h-3" />
+                <span className="sr-only">Move up</span>
+              </Button>
+              <Button variant="ghost" size="sm" className="h-8 w-7 p-0" onClick={() => moveColumn(index, 1)} disabled={index === columns.length - 1}>
+                <ArrowDown className="w-3 h-3" />
+                <span className="sr-only">Move down</span>
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-7 p-0 hover:text-destructive"
+                onClick={() => setColumns(prev => prev.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="w-3 h-3" />
+                <span className="sr-only">Remove column</span>
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {error && <div className="text-xs text-destructive">{error}</div>}
+
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1"
+            onClick={() => setColumns(prev => [...prev, { field: "", format: "raw" }])}
+          >
+            <Plus className="w-3 h-3" />
+            Add column
+          </Button>
+          <div className="flex-1" />
+          <Button variant="ghost" size="sm" className="gap-1" onClick={onCancel}>
+            <X className="w-3 h-3" />
+            Cancel
+          </Button>
+          <Button size="sm" className="gap-1" onClick={handleSave}>
+            <Save className="w-3 h-3" />
+            Save template
+          </Button>
+        </div>
+      </div>
+    )
+  }
+)
+
+ExportTemplateEditor.displayName = "ExportTemplateEditor"
+
+export { ExportTemplateEditor }
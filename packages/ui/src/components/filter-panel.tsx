@@ -15,7 +15,8 @@ import {
   X, 
   Clock, 
   TrendingUp,
-  Settings2
+  Settings2,
+  Ban
 } from "lucide-react"
 
 export interface FilterPanelProps extends React.HTMLAttributes<HTMLDivElement> {
@@ -131,6 +132,9 @@ const FilterPanel = React.forwardRef<HTMLDivElement, FilterPanelProps>(
             {stats.providers.length > 0 && (
               <span>{stats.providers.length} providers</span>
             )}
+            {stats.failed > 0 && (
+              <span className="text-pixel-error">{stats.failed} failed</span>
+            )}
           </div>
         </CardHeader>
 
@@ -160,6 +164,24 @@ const FilterPanel = React.forwardRef<HTMLDivElement, FilterPanelProps>(
 
           {/* Quick Filters */}
           <div className="space-y-2">
+            {/* Failed Deliveries Toggle */}
+            {(stats.failed > 0 || filters.failedOnly) && (
+              <div className="flex items-center justify-between">
+                <div className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+                  <Ban className="w-3 h-3" />
+                  Failed Only
+                </div>
+                <Button
+                  variant={filters.failedOnly ? "destructive" : "outline"}
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => updateFilter('failedOnly', filters.failedOnly ? undefined : true)}
+                >
+                  {filters.failedOnly ? 'On' : 'Off'}
+                </Button>
+              </div>
+            )}
+
             {/* Provider Filter */}
             {stats.providers.length > 1 && (
               <div className="space-y-1">
@@ -0,0 +1,244 @@
+/**
+ * Filter Preset Manager Component
+ * Save the current filters under a name, pin presets as chips, pick the default
+ * preset of the current site and share presets as JSON files
+ */
+
+import * as React from "react"
+import {
+  EventFilters,
+  FilterPreset,
+  serializeFilterPresets,
+  parseFilterPresets
+} from "../hooks/use-event-filters"
+import { Badge } from "./ui/badge"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { cn } from "../utils"
+import { Check, Download, Pin, PinOff, Save, Star, Trash2, Upload } from "lucide-react"
+
+export interface FilterPresetManagerProps extends React.HTMLAttributes<HTMLDivElement> {
+  presets: FilterPreset[]
+  /** Filters the Save button stores */
+  currentFilters: EventFilters
+  /** Preset whose filters are applied right now */
+  activePresetId?: string
+  /** Hostname of the current site, enables the per-site default */
+  domain?: string
+  /** Preset applied automatically on the current site */
+  defaultPresetId?: string
+  onSavePresets: (presets: FilterPreset[]) => void
+  onApplyPreset: (preset: FilterPreset) => void
+  onSetDefaultPreset?: (domain: string, presetId: string | null) => void
+}
+
+/**
+ * One-line summary of what a preset filters on
+ */
+function describeFilters(filters: EventFilters): string {
+  const parts: string[] = []
+  if (filters.searchQuery?.trim()) parts.push(filters.searchQuery.trim())
+  if (filters.provider) parts.push(`provider ${filters.provider}`)
+  if (filters.eventType) parts.push(`event ${filters.eventType}`)
+  if (filters.method) parts.push(filters.method)
+  if (filters.failedOnly) parts.push("failed only")
+  if (filters.sortOrder === "oldest") parts.push("oldest first")
+  return parts.length > 0 ? parts.join(" · ") : "No filters"
+}
+
+const FilterPresetManager = React.forwardRef<HTMLDivElement, FilterPresetManagerProps>(
+  ({
+    className,
+    presets,
+    currentFilters,
+    activePresetId,
+    domain,
+    defaultPresetId,
+    onSavePresets,
+    onApplyPreset,
+    onSetDefaultPreset,
+    ...props
+  }, ref) => {
+    const [name, setName] = React.useState("")
+    const [message, setMessage] = React.useState<{ text: string; error?: boolean } | null>(null)
+    const fileInputRef = React.useRef<HTMLInputElement>(null)
+
+    // Saving under an existing name updates that preset
+    const handleSave = React.useCallback(() => {
+      const trimmed = name.trim()
+      if (!trimmed) {
+        setMessage({ text: "Give the preset a name", error: true })
+        return
+      }
+
+      const now = Date.now()
+      const existing = presets.find(preset => preset.name.toLowerCase() === trimmed.toLowerCase())
+      const preset: FilterPreset = {
+        id: existing?.id ?? `preset-${now}-${Math.random().toString(36).slice(2, 8)}`,
+        name: trimmed,
+        filters: { ...currentFilters },
+        pinned: existing ? existing.pinned : true,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now
+      }
+      onSavePresets(existing ? presets.map(p => (p.id === existing.id ? preset : p)) : [...presets, preset])
+      setName("")
+      setMessage({ text: existing ? `Updated ${trimmed}` : `Saved ${trimmed}` })
+    }, [name, presets, currentFilters, onSavePresets])
+
+    const updatePreset = React.useCallback((id: string, update: Partial<FilterPreset>) => {
+      onSavePresets(presets.map(preset => (
+        preset.id === id ? { ...preset, ...update, updatedAt: Date.now() } : preset
+      )))
+    }, [presets, onSavePresets])
+
+    const deletePreset = React.useCallback((preset: FilterPreset) => {
+      if (!window.confirm(`Delete preset ${preset.name}?`)) return
+      onSavePresets(presets.filter(p => p.id !== preset.id))
+      if (domain && defaultPresetId === preset.id) {
+        onSetDefaultPreset?.(domain, null)
+      }
+    }, [presets, domain, defaultPresetId, onSavePresets, onSetDefaultPreset])
+
+    const handleExport = React.useCallback(() => {
+      const blob = new Blob([serializeFilterPresets(presets)], { type: "application/json" })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = "pixeltracer-filter-presets.json"
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      setTimeout(() => URL.revokeObjectURL(url), 100)
+    }, [presets])
+
+    // Imported presets replace presets with the same ID and are added otherwise
+    const handleImportFile = React.useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0]
+      event.target.value = ""
+      if (!file) return
+
+      try {
+        const imported = parseFilterPresets(await file.text())
+        const importedIds = new Set(imported.map(preset => preset.id))
+        onSavePresets([...presets.filter(preset => !importedIds.has(preset.id)), ...imported])
+        setMessage({ text: `Imported ${imported.length} preset${imported.length === 1 ? "" : "s"}` })
+      } catch (error) {
+        setMessage({ text: error instanceof Error ? error.message : String(error), error: true })
+      }
+    }, [presets, onSavePresets])
+
+    return (
+      <div ref={ref} className={cn("space-y-4", className)} {...props}>
+        {/* Save the current filters */}
+        <div className="space-y-1.5">
+          <div className="flex items-center gap-2">
+            <Input
+              value={name}
+              placeholder="Preset name"
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleSave()
+              }}
+              className="h-9 text-sm"
+            />
+            <Button size="sm" className="gap-1 h-9" onClick={handleSave}>
+              <Save className="w-3 h-3" />
+              Save current
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground truncate">{describeFilters(currentFilters)}</p>
+          {message && (
+            <p className={cn("text-xs", message.error ? "text-destructive" : "text-muted-foreground")}>{message.text}</p>
+          )}
+        </div>
+
+        {/* Saved presets */}
+        <div className="space-y-2 max-h-[45vh] overflow-y-auto">
+          {presets.length === 0 && (
+            <div className="text-center py-6 text-sm text-muted-foreground">No saved presets yet</div>
+          )}
+          {presets.map(preset => (
+            <div
+              key={preset.id}
+              className={cn(
+                "flex items-center gap-2 p-2.5 rounded-lg border",
+                preset.id === activePresetId && "border-primary bg-primary/5"
+              )}
+            >
+              <button
+                type="button"
+                onClick={() => onApplyPreset(preset)}
+                className="flex-1 min-w-0 text-left space-y-0.5"
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium truncate">{preset.name}</span>
+                  {preset.id === activePresetId && <Check className="w-3 h-3 text-primary flex-shrink-0" />}
+                  {domain && preset.id === defaultPresetId && (
+                    <Badge variant="outline" className="text-[10px] px-1.5 h-4">Default</Badge>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground font-mono truncate">{describeFilters(preset.filters)}</div>
+              </button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => updatePreset(preset.id, { pinned: !preset.pinned || undefined })}
+                title={preset.pinned ? "Unpin" : "Pin above the event list"}
+              >
+                {preset.pinned ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+                <span className="sr-only">{preset.pinned ? "Unpin" : "Pin"}</span>
+              </Button>
+              {domain && onSetDefaultPreset && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => onSetDefaultPreset(domain, preset.id === defaultPresetId ? null : preset.id)}
+                  title={preset.id === defaultPresetId ? `Stop applying on ${domain}` : `Apply automatically on ${domain}`}
+                >
+                  <Star className={cn("w-3.5 h-3.5", preset.id === defaultPresetId && "fill-current text-primary")} />
+                  <span className="sr-only">Default for {domain}</span>
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 hover:text-destructive"
+                onClick={() => deletePreset(preset)}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+                <span className="sr-only">Delete</span>
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {/* Share with the team */}
+        <div className="flex items-center gap-2 pt-2 border-t">
+          <p className="flex-1 text-xs text-muted-foreground">Synced to every browser signed in to your profile</p>
+          <Button variant="outline" size="sm" className="gap-1" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-3 h-3" />
+            Import
+          </Button>
+          <Button variant="outline" size="sm" className="gap-1" onClick={handleExport} disabled={presets.length === 0}>
+            <Download className="w-3 h-3" />
+            Export
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImportFile}
+            className="hidden"
+          />
+        </div>
+      </div>
+    )
+  }
+)
+
+FilterPresetManager.displayName = "FilterPresetManager"
+
+export { FilterPresetManager }
@@ -0,0 +1,202 @@
+/**
+ * Filter Query Input Component
+ * Search box for the filter query language (provider:facebook value>=50 -url:*staging*)
+ * with autocomplete from the current events, inline syntax errors and query history
+ */
+
+import * as React from "react"
+import {
+  TrackingEvent,
+  FilterQueryError,
+  FilterQuerySuggestion,
+  getFilterQuerySuggestions
+} from "@pixeltracer/shared"
+import { Input } from "./ui/input"
+import { cn } from "../utils"
+import { AlertCircle, History, Search } from "lucide-react"
+
+export interface FilterQueryInputProps extends Omit<React.HTMLAttributes<HTMLDivElement>, "onChange"> {
+  value: string
+  onChange: (value: string) => void
+  /** Events the field, provider and parameter suggestions are taken from */
+  events: TrackingEvent[]
+  /** Syntax errors of the current query */
+  errors?: FilterQueryError[]
+  placeholder?: string
+  autoFocus?: boolean
+}
+
+const HISTORY_KEY = "pixeltracer-query-history"
+const MAX_HISTORY = 20
+
+function loadHistory(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(HISTORY_KEY) || "[]")
+    return Array.isArray(stored) ? stored.filter(item => typeof item === "string") : []
+  } catch {
+    return []
+  }
+}
+
+const FilterQueryInput = React.forwardRef<HTMLDivElement, FilterQueryInputProps>(
+  ({ className, value, onChange, events, errors = [], placeholder, autoFocus, ...props }, ref) => {
+    const inputRef = React.useRef<HTMLInputElement>(null)
+    const [cursor, setCursor] = React.useState(value.length)
+    const [focused, setFocused] = React.useState(false)
+    const [open, setOpen] = React.useState(false)
+    const [highlighted, setHighlighted] = React.useState(0)
+    const [history, setHistory] = React.useState<string[]>(loadHistory)
+
+    const completions = React.useMemo(
+      () => (focused && value.trim() ? getFilterQuerySuggestions(value, cursor, events) : null),
+      [focused, value, cursor, events]
+    )
+
+    // Past queries when the box is empty, completions while typing
+    const items = React.useMemo<FilterQuerySuggestion[]>(() => {
+      if (!focused) return []
+      if (!value.trim()) {
+        return history.map(query => ({ kind: "value", label: query, insertText: query, detail: "Recent" }))
+      }
+      return completions?.suggestions ?? []
+    }, [focused, value, history, completions])
+
+    React.useEffect(() => {
+      setHighlighted(0)
+    }, [items])
+
+    const saveToHistory = React.useCallback((query: string) => {
+      const trimmed = query.trim()
+      if (!trimmed || errors.length > 0) return
+      setHistory(prev => {
+        const next = [trimmed, ...prev.filter(item => item !== trimmed)].slice(0, MAX_HISTORY)
+        localStorage.setItem(HISTORY_KEY, JSON.stringify(next))
+        return next
+      })
+    }, [errors.length])
+
+    const accept = React.useCallback((item: FilterQuerySuggestion) => {
+      let next: string
+      let position: number
+      if (!value.trim() || !completions) {
+        next = item.insertText
+        position = next.length
+      } else {
+        next = value.slice(0, completions.start) + item.insertText + value.slice(completions.end)
+        position = completions.start + item.insertText.length
+      }
+      onChange(next)
+      setCursor(position)
+      // Field names keep the list open for their values
+      setOpen(value.trim() !== "" && item.kind !== "value")
+      requestAnimationFrame(() => {
+        inputRef.current?.focus()
+        inputRef.current?.setSelectionRange(position, position)
+      })
+    }, [value, completions, onChange])
+
+    const handleKeyDown = React.useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
+      const visible = open && items.length > 0
+      if (e.key === "ArrowDown" && visible) {
+        e.preventDefault()
+        setHighlighted(index => (index + 1) % items.length)
+      } else if (e.key === "ArrowUp" && visible) {
+        e.preventDefault()
+        setHighlighted(index => (index - 1 + items.length) % items.length)
+      } else if ((e.key === "Tab" || e.key === "Enter") && visible) {
+        e.preventDefault()
+        accept(items[highlighted])
+      } else if (e.key === "Enter") {
+        saveToHistory(value)
+        setOpen(false)
+      } else if (e.key === "Escape") {
+        setOpen(false)
+      }
+    }, [open, items, highlighted, accept, saveToHistory, value])
+
+    const updateCursor = React.useCallback((e: React.SyntheticEvent<HTMLInputElement>) => {
+      setCursor(e.currentTarget.selectionStart ?? e.currentTarget.value.length)
+    }, [])
+
+    return (
+      <div ref={ref} className={cn("relative", className)} {...props}>
+        <Search className="absolute left-4 top-5 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          ref={inputRef}
+          placeholder={placeholder}
+          value={value}
+          autoFocus={autoFocus}
+          spellCheck={false}
+          onChange={(e) => {
+            onChange(e.target.value)
+            updateCursor(e)
+            setOpen(true)
+          }}
+          onKeyDown={handleKeyDown}
+          onKeyUp={updateCursor}
+          onClick={(e) => {
+            updateCursor(e)
+            setOpen(true)
+          }}
+          onFocus={() => {
+            setFocused(true)
+            setOpen(true)
+          }}
+          onBlur={() => {
+            setFocused(false)
+            setOpen(false)
+            saveToHistory(value)
+          }}
+          aria-invalid={errors.length > 0}
+          className={cn(
+            "pl-11 h-10 font-mono text-sm bg-background/80 border-border/60 focus:border-primary/60 focus:ring-1 focus:ring-primary/20",
+            errors.length > 0 && "border-destructive/60 focus:border-destructive/60 focus:ring-destructive/20"
+          )}
+        />
+
+        {open && items.length > 0 && (
+          <div className="absolute z-20 left-0 right-0 mt-1 max-h-64 overflow-y-auto rounded-md border bg-popover shadow-md py-1">
+            {items.map((item, index) => (
+              <button
+                key={`${item.kind}-${item.label}`}
+                type="button"
+                // Keep focus in the input so the click does not blur it first
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  accept(item)
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+                className={cn(
+                  "w-full flex items-center gap-2 px-3 py-1.5 text-left text-xs",
+                  index === highlighted && "bg-accent"
+                )}
+              >
+                {!value.trim() && <History className="w-3 h-3 text-muted-foreground flex-shrink-0" />}
+                <span className="font-mono truncate">{item.label}</span>
+                {item.detail && (
+                  <span className="ml-auto text-muted-foreground truncate">{item.detail}</span>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {errors.length > 0 && (
+          <div className="mt-1.5 space-y-0.5">
+            {errors.map(error => (
+              <div key={`${error.start}-${error.message}`} className="flex items-center gap-1.5 text-xs text-destructive">
+                <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                <span className="font-mono">{value.slice(error.start, error.end)}</span>
+                <span>{error.message}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    )
+  }
+)
+
+FilterQueryInput.displayName = "FilterQueryInput"
+
+export { FilterQueryInput }
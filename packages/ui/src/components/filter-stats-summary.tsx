@@ -0,0 +1,90 @@
+/**
+ * Filter Stats Summary Component
+ * Pass/block counts and block reasons of the request pre-filter
+ */
+
+import * as React from "react"
+import type { FilterStats } from "@pixeltracer/providers"
+import { Button } from "./ui/button"
+import { cn } from "../utils"
+
+export interface FilterStatsSummaryProps extends React.HTMLAttributes<HTMLDivElement> {
+  stats: FilterStats
+  onReset?: () => void
+  /** Number of block reasons listed */
+  maxReasons?: number
+}
+
+// Readable labels for RequestFilter block reasons ("method:PUT" -> "Method PUT")
+function formatBlockReason(reason: string): string {
+  const [kind, detail] = reason.split(/:(.*)/)
+  const labels: Record<string, string> = {
+    "method": "Method",
+    "url-excluded": "Excluded URL",
+    "url-not-included": "URL not included",
+    "domain-excluded": "Excluded domain",
+    "domain-not-included": "Domain not included",
+    "url-too-short": "URL too short",
+    "url-too-long": "URL too long",
+    "missing-params": "Missing parameters",
+    "excluded-params": "Excluded parameters",
+    "content-type": "Content type",
+    "filter-error": "Filter error"
+  }
+  const label = labels[kind] || kind
+  return detail ? `${label} ${detail}` : label
+}
+
+const FilterStatsSummary = React.forwardRef<HTMLDivElement, FilterStatsSummaryProps>(
+  ({ className, stats, onReset, maxReasons = 5, ...props }, ref) => {
+    const reasons = Object.entries(stats.blockReasons)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, maxReasons)
+
+    return (
+      <div ref={ref} className={cn("space-y-3", className)} {...props}>
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div className="bg-muted/20 p-2 rounded-lg">
+            <div className="text-xs text-muted-foreground">Checked</div>
+            <div className="text-lg font-bold">{stats.totalRequests.toLocaleString()}</div>
+          </div>
+          <div className="bg-muted/20 p-2 rounded-lg">
+            <div className="text-xs text-muted-foreground">Analyzed</div>
+            <div className="text-lg font-bold text-green-600 dark:text-green-400">{stats.passedRequests.toLocaleString()}</div>
+          </div>
+          <div className="bg-muted/20 p-2 rounded-lg">
+            <div className="text-xs text-muted-foreground">Filtered out</div>
+            <div className="text-lg font-bold text-muted-foreground">{stats.blockedRequests.toLocaleString()}</div>
+          </div>
+        </div>
+
+        {reasons.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-xs font-medium text-muted-foreground">Block reasons</div>
+            {reasons.map(([reason, count]) => (
+              <div key={reason} className="flex items-center justify-between gap-2 text-xs">
+                <span className="truncate font-mono" title={reason}>{formatBlockReason(reason)}</span>
+                <span className="text-muted-foreground flex-shrink-0">{count.toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>
+            {Math.round(stats.passRate * 100)}% analyzed · {stats.avgProcessingTime.toFixed(2)}ms per request
+          </span>
+          {onReset && (
+            <Button variant="ghost" size="sm" onClick={onReset} className="h-6 px-2 text-xs">
+              Reset
+            </Button>
+          )}
+        </div>
+      </div>
+    )
+  }
+)
+
+FilterStatsSummary.displayName = "FilterStatsSummary"
+
+export { FilterStatsSummary }
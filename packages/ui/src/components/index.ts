@@ -18,11 +18,18 @@ export * from "./provider-icon"
 
 // Advanced UI Components
 export * from "./filter-panel"
+export * from "./filter-query-input"
+export * from "./filter-preset-manager"
 export * from "./export-dialog"
+export * from "./export-template-editor"
 export * from "./keyboard-shortcuts"
 export * from "./performance-dashboard"
 export * from "./memory-indicator"
 export * from "./real-time-dashboard"
+export * from "./provider-editor"
+export * from "./filter-stats-summary"
+export * from "./request-filter-settings"
+export * from "./session-manager"
 
 // Performance Optimized Components
 export * from "./pixel-tracer-optimized"
@@ -3,6 +3,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "./ui/card"
 import { Badge } from "./ui/badge"
 import { Button } from "./ui/button"
 import { cn, formatBytes } from "../utils"
+import { FilterStatsSummary } from "./filter-stats-summary"
+import type { FilterStats } from "@pixeltracer/providers"
 import { 
   Activity, 
   Clock, 
@@ -14,7 +16,8 @@ import {
   TrendingUp,
   TrendingDown,
   Minus,
-  Zap
+  Zap,
+  SlidersHorizontal
 } from "lucide-react"
 
 export interface PerformanceMetrics {
@@ -42,6 +45,9 @@ export interface PerformanceDashboardProps extends React.HTMLAttributes<HTMLDivE
   onRefresh?: () => void
   onClearMetrics?: () => void
   onOptimizeMemory?: () => void
+  /** Request pre-filter statistics, shown when the filter is in use */
+  filterStats?: FilterStats
+  onResetFilterStats?: () => void
   compact?: boolean
   autoRefresh?: boolean
   refreshInterval?: number
@@ -55,6 +61,8 @@ const PerformanceDashboard = React.forwardRef<HTMLDivElement, PerformanceDashboa
     onRefresh,
     onClearMetrics,
     onOptimizeMemory,
+    filterStats,
+    onResetFilterStats,
     compact = false,
     autoRefresh = false,
     refreshInterval = 5000,
@@ -291,6 +299,17 @@ const PerformanceDashboard = React.forwardRef<HTMLDivElement, PerformanceDashboa
             </div>
           </div>
 
+          {/* Request pre-filter */}
+          {filterStats && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+                <SlidersHorizontal className="w-3 h-3" />
+                Request Filter
+              </div>
+              <FilterStatsSummary stats={filterStats} onReset={onResetFilterStats} />
+            </div>
+          )}
+
           {/* Performance Issues */}
           {performanceStatus.issues.length > 0 && (
             <div className="space-y-2">
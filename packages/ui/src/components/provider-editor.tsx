@@ -0,0 +1,329 @@
+/**
+ * Provider Editor Component
+ * Create, edit, enable/disable and delete custom (declarative) providers,
+ * with a live preview of which captured requests a draft definition would match
+ */
+
+import * as React from "react"
+import { RequestData, TrackingEvent } from "@pixeltracer/shared"
+import { DeclarativeProvider, parseDefinitionSource, validateProviderDefinition } from "@pixeltracer/providers"
+import type { CustomProviderRecord, DeclarativeProviderDefinition } from "@pixeltracer/providers"
+import { Badge } from "./ui/badge"
+import { Button } from "./ui/button"
+import { cn } from "../utils"
+import {
+  ArrowLeft,
+  Plus,
+  Pencil,
+  Trash2,
+  Power,
+  Save,
+  X,
+  Puzzle,
+  CheckCircle2,
+  AlertCircle,
+  FlaskConical
+} from "lucide-react"
+
+export interface ProviderEditorProps extends React.HTMLAttributes<HTMLDivElement> {
+  providers: CustomProviderRecord[]
+  /** Requests captured for the current tab, used for the match preview */
+  requests: RequestData[]
+  /** Persist a definition; rejects with a readable message when it cannot be saved */
+  onSave: (record: CustomProviderRecord, previousId?: string) => Promise<void>
+  onDelete: (id: string) => Promise<void>
+  onClose: () => void
+}
+
+interface PreviewMatch {
+  request: RequestData
+  event: TrackingEvent
+}
+
+// Minimum confidence the registry requires before a provider parses a request
+const MIN_CONFIDENCE = 0.1
+
+const DEFINITION_TEMPLATE: DeclarativeProviderDefinition = {
+  id: "my-pixel",
+  name: "My Pixel",
+  category: "advertising",
+  match: {
+    urlPatterns: ["*pixel.example.com/collect*"]
+  },
+  eventType: [{ param: "event" }, { value: "page_view" }],
+  accountId: { param: "id" },
+  dictionary: [
+    { key: "event", name: "Event Name", group: "event" },
+    { key: "id", name: "Pixel ID", group: "user" }
+  ]
+}
+
+const ProviderEditor = React.forwardRef<HTMLDivElement, ProviderEditorProps>(
+  ({ className, providers, requests, onSave, onDelete, onClose, ...props }, ref) => {
+    // Id of the definition being edited, null for a new one, undefined when not editing
+    const [editingId, setEditingId] = React.useState<string | null | undefined>(undefined)
+    const [draft, setDraft] = React.useState("")
+    const [draftEnabled, setDraftEnabled] = React.useState(true)
+    const [errors, setErrors] = React.useState<string[]>([])
+    const [saveError, setSaveError] = React.useState<string | null>(null)
+    const [preview, setPreview] = React.useState<PreviewMatch[] | null>(null)
+    const [saving, setSaving] = React.useState(false)
+
+    const startEditing = React.useCallback((record?: CustomProviderRecord) => {
+      setEditingId(record ? record.definition.id : null)
+      setDraft(JSON.stringify(record ? record.definition : DEFINITION_TEMPLATE, null, 2))
+      setDraftEnabled(record ? record.enabled : true)
+      setSaveError(null)
+    }, [])
+
+    const stopEditing = React.useCallback(() => {
+      setEditingId(undefined)
+      setPreview(null)
+      setErrors([])
+      setSaveError(null)
+    }, [])
+
+    // Validate the draft and run it against the captured requests (debounced)
+    React.useEffect(() => {
+      if (editingId === undefined) return
+
+      let cancelled = false
+      const timer = setTimeout(async () => {
+        let definition: DeclarativeProviderDefinition
+        try {
+          definition = parseDefinitionSource(draft)
+        } catch (error) {
+          setErrors([error instanceof Error ? error.message : String(error)])
+          setPreview(null)
+          return
+        }
+
+        const problems = validateProviderDefinition(definition)
+        setErrors(problems)
+        if (problems.length > 0) {
+          setPreview(null)
+          return
+        }
+
+        const provider = new DeclarativeProvider(definition)
+        const matches: PreviewMatch[] = []
+        for (const request of requests) {
+          if (await provider.canHandle(request) < MIN_CONFIDENCE) continue
+          const parsed = await provider.parseEvents(request)
+          parsed.forEach(match => matches.push({ request, event: match.event }))
+        }
+
+        if (!cancelled) {
+          setPreview(matches)
+        }
+      }, 300)
+
+      return () => {
+        cancelled = true
+        clearTimeout(timer)
+      }
+    }, [draft, editingId, requests])
+
+    const handleSave = React.useCallback(async () => {
+      setSaving(true)
+      setSaveError(null)
+      try {
+        const definition = parseDefinitionSource(draft) as DeclarativeProviderDefinition
+        await onSave({ definition, enabled: draftEnabled, updatedAt: Date.now() }, editingId ?? undefined)
+        stopEditing()
+      } catch (error) {
+        setSaveError(error instanceof Error ? error.message : String(error))
+      } finally {
+        setSaving(false)
+      }
+    }, [draft, draftEnabled, editingId, onSave, stopEditing])
+
+    const handleToggle = React.useCallback((record: CustomProviderRecord) => {
+      onSave({ ...record, enabled: !record.enabled }, record.definition.id).catch(() => {
+        // The list is left unchanged when the toggle cannot be saved
+      })
+    }, [onSave])
+
+    return (
+      <div ref={ref} className={cn("flex flex-col h-full bg-background", className)} {...props}>
+        {/* Header */}
+        <div className="flex-shrink-0 px-6 py-4 border-b bg-card/80 backdrop-blur-sm">
+          <div className="flex items-center gap-3">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={editingId === undefined ? onClose : stopEditing}
+              className="h-9 w-9 p-0"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              <span className="sr-only">Back</span>
+            </Button>
+            <div className="p-2 bg-primary/10 rounded-xl">
+              <Puzzle className="w-5 h-5 text-primary" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h2 className="text-base font-semibold">
+                {editingId === undefined ? "Custom Providers" : editingId === null ? "New Provider" : `Edit ${editingId}`}
+              </h2>
+              <p className="text-xs text-muted-foreground">
+                {editingId === undefined
+                  ? `${providers.length} defined`
+                  : `Testing against ${requests.length} captured requests`}
+              </p>
+            </div>
+            {editingId === undefined && (
+              <Button size="sm" onClick={() => startEditing()} className="gap-1.5">
+                <Plus className="w-4 h-4" />
+                New
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {editingId === undefined ? (
+          /* Provider list */
+          <div className="flex-1 overflow-y-auto px-6 py-4 space-y-2">
+            {providers.length === 0 && (
+              <div className="text-center py-12 space-y-2">
+                <div className="text-sm text-muted-foreground">No custom providers yet</div>
+                <div className="text-xs text-muted-foreground">
+                  Describe a vendor's pixel as a JSON or YAML definition to detect it alongside the built-in providers
+                </div>
+              </div>
+            )}
+            {providers.map(record => (
+              <div
+                key={record.definition.id}
+                className={cn(
+                  "flex items-center gap-3 p-3 rounded-lg border",
+                  !record.enabled && "opacity-60"
+                )}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium truncate">{record.definition.name}</span>
+                    <Badge variant={record.enabled ? "success" : "secondary"} className="text-xs">
+                      {record.enabled ? "enabled" : "disabled"}
+                    </Badge>
+                  </div>
+                  <div className="text-xs font-mono text-muted-foreground truncate">{record.definition.id}</div>
+                </div>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => handleToggle(record)}>
+                  <Power className="w-4 h-4" />
+                  <span className="sr-only">{record.enabled ? "Disable" : "Enable"}</span>
+                </Button>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => startEditing(record)}>
+                  <Pencil className="w-4 h-4" />
+                  <span className="sr-only">Edit</span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 hover:text-destructive"
+                  onClick={() => {
+                    if (window.confirm(`Delete ${record.definition.name}?`)) {
+                      onDelete(record.definition.id).catch(() => {})
+                    }
+                  }}
+                >
+                  <Trash2 className="w-4 h-4" />
+                  <span className="sr-only">Delete</span>
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          /* Definition editor */
+          <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              spellCheck={false}
+              className="w-full h-72 rounded-md border border-input bg-background p-3 font-mono text-xs shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+            />
+
+            {/* Validation */}
+            {errors.length > 0 ? (
+              <div className="space-y-1 p-3 rounded-lg bg-destructive/10 text-destructive text-xs">
+                {errors.map(error => (
+                  <div key={error} className="flex items-start gap-1.5">
+                    <AlertCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+                    <span>{error}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="flex items-center gap-1.5 text-xs text-green-600 dark:text-green-400">
+                <CheckCircle2 className="w-3.5 h-3.5" />
+                Definition is valid
+              </div>
+            )}
+
+            {/* Live match preview */}
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                <FlaskConical className="w-3.5 h-3.5" />
+                Match Preview
+                {preview && (
+                  <Badge variant={preview.length > 0 ? "info" : "secondary"} className="text-xs normal-case">
+                    {preview.length} {preview.length === 1 ? "event" : "events"}
+                  </Badge>
+                )}
+              </div>
+              {requests.length === 0 && (
+                <div className="text-xs text-muted-foreground">
+                  No requests captured on this tab yet. Start tracking and reload the page to test patterns.
+                </div>
+              )}
+              {preview && preview.length === 0 && requests.length > 0 && (
+                <div className="text-xs text-muted-foreground">No captured request matches this definition</div>
+              )}
+              {preview?.slice(0, 50).map(({ request, event }, index) => (
+                <div key={`${event.id}-${index}`} className="p-2 rounded border bg-muted/30 space-y-1">
+                  <div className="flex items-center gap-1.5 flex-wrap">
+                    <Badge variant="outline" className="text-xs">{event.eventType}</Badge>
+                    {event.accountId && (
+                      <Badge variant="secondary" className="text-xs font-mono">{event.accountId}</Badge>
+                    )}
+                    <span className="text-xs text-muted-foreground">{Math.round(event.confidence * 100)}%</span>
+                  </div>
+                  <div className="text-xs font-mono break-all text-muted-foreground">{request.url}</div>
+                </div>
+              ))}
+            </div>
+
+            {saveError && (
+              <div className="p-3 rounded-lg bg-destructive/10 text-destructive text-xs">{saveError}</div>
+            )}
+
+            {/* Actions */}
+            <div className="flex items-center gap-2">
+              <Button
+                variant={draftEnabled ? "secondary" : "outline"}
+                size="sm"
+                onClick={() => setDraftEnabled(!draftEnabled)}
+                className="gap-1.5"
+              >
+                <Power className="w-4 h-4" />
+                {draftEnabled ? "Enabled" : "Disabled"}
+              </Button>
+              <div className="flex-1" />
+              <Button variant="outline" size="sm" onClick={stopEditing} className="gap-1.5">
+                <X className="w-4 h-4" />
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={saving || errors.length > 0} className="gap-1.5">
+                <Save className="w-4 h-4" />
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    )
+  }
+)
+
+ProviderEditor.displayName = "ProviderEditor"
+
+export { ProviderEditor }
@@ -35,6 +35,7 @@ const getIconUrl = (filename: string): string => {
 const providerIconFiles: Record<string, string> = {
   'google-ads': 'GOOGLEADS16x16.png',
   'google-analytics': 'GOOGLEANALYTICS16x16.png', 
+  'google-analytics-4': 'GOOGLEANALYTICS16x16.png',
   'google-tag-manager': 'GOOGLETAGMANAGER16x16.png',
   'facebook-pixel': 'FACEBOOK16x16.png',
   'facebook': 'FACEBOOK16x16.png',
@@ -46,7 +47,10 @@ const providerIconFiles: Record<string, string> = {
 const providerNames: Record<string, string> = {
   'google-ads': 'Google Ads',
   'google-analytics': 'Google Analytics',
+  'google-analytics-4': 'Google Analytics 4',
   'google-tag-manager': 'Google Tag Manager',
+  'adobe-analytics': 'Adobe Analytics',
+  'segment': 'Segment',
   'facebook-pixel': 'Facebook Pixel',
   'meta': 'Meta',
   'tiktok-pixel': 'TikTok Pixel',
@@ -10,15 +10,25 @@
  */
 
 import * as React from "react"
-import { TrackingEvent } from "@pixeltracer/shared"
+import {
+  TrackingEvent,
+  CaptureSession,
+  WorkerRestartInfo,
+  ExportTemplate,
+  parseFilterQuery,
+  matchesFilterCriteria
+} from "@pixeltracer/shared"
 import { Badge } from "./ui/badge"
 import { Button } from "./ui/button"
-import { Input } from "./ui/input"
 // ScrollArea removed - using native scrolling
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog"
 import { EventTable } from "./event-table"
 import { EventDetailsEnhanced } from "./event-details-enhanced"
 import { ErrorBoundary } from "./error-boundary"
+import { ExportDialog } from "./export-dialog"
+import { FilterQueryInput } from "./filter-query-input"
+import { FilterPresetManager } from "./filter-preset-manager"
+import type { EventFilters, FilterPreset } from "../hooks/use-event-filters"
 import { cn } from "../utils"
 import { ProviderIcon } from "./provider-icon"
 import {
@@ -34,7 +44,17 @@ import {
   Sun,
   Check,
   History,
-  RotateCcw
+  RotateCcw,
+  Ban,
+  Puzzle,
+  SlidersHorizontal,
+  Archive,
+  ArrowLeft,
+  AlertTriangle,
+  RefreshCw,
+  X,
+  Download,
+  Bookmark
 } from "lucide-react"
 
 export interface ProviderStats {
@@ -65,10 +85,50 @@ export interface RealTimeDashboardProps {
   onTogglePersistence?: () => void
   onClearEvents: () => void
   onExportData: () => void
+  /** Enables the Excel format of the export dialog */
+  onExportXlsx?: (events: TrackingEvent[]) => Promise<void>
+  /** Saved export column layouts offered by the export dialog */
+  exportTemplates?: ExportTemplate[]
+  onSaveExportTemplates?: (templates: ExportTemplate[]) => void
   onApplyFilters: (filters: any) => void
+  /** Saved filter presets; pinned ones are shown as chips above the event list */
+  filterPresets?: FilterPreset[]
+  onSaveFilterPresets?: (presets: FilterPreset[]) => void
+  /** Preset applied automatically per site (tab hostname -> preset ID) */
+  defaultFilterPresets?: Record<string, string>
+  onSetDefaultFilterPreset?: (domain: string, presetId: string | null) => void
+  onOpenProviders?: () => void
+  onOpenRequestFilter?: () => void
+  onOpenSessions?: () => void
+  /** Saved session being viewed instead of live events (tracking controls are hidden) */
+  savedSession?: CaptureSession
+  /** Label of the saved session banner (e.g. for imported captures) */
+  savedSessionLabel?: string
+  onExitSavedSession?: () => void
+  /** Background service worker restart to report, with any capture gap for the current tab */
+  workerRestart?: WorkerRestartInfo | null
+  onDismissWorkerRestart?: () => void
+  /** Per-domain provider overrides (request hostname -> provider ID) */
+  providerOverrides?: Record<string, string>
+  onSetProviderOverride?: (domain: string, providerId: string | null) => void
+  onSaveFixture?: (event: TrackingEvent) => void
+  savedFixtureCounts?: Record<string, number>
+  onExportFixtures?: (provider: string) => void
   className?: string
 }
 
+/**
+ * The preset filters the dashboard applies, with defaults left out so equal filters compare equal
+ */
+function toDashboardFilters(filters: EventFilters): EventFilters {
+  return {
+    searchQuery: filters.searchQuery?.trim() || undefined,
+    provider: filters.provider || undefined,
+    failedOnly: filters.failedOnly || undefined,
+    sortOrder: filters.sortOrder === 'oldest' ? 'oldest' : undefined
+  }
+}
+
 const RealTimeDashboard = React.forwardRef<HTMLDivElement, RealTimeDashboardProps>(
   ({
     className,
@@ -82,14 +142,37 @@ const RealTimeDashboard = React.forwardRef<HTMLDivElement, RealTimeDashboardProp
     onTogglePersistence,
     onClearEvents,
     onExportData,
+    onExportXlsx,
+    exportTemplates,
+    onSaveExportTemplates,
     onApplyFilters,
+    filterPresets = [],
+    onSaveFilterPresets,
+    defaultFilterPresets,
+    onSetDefaultFilterPreset,
+    onOpenProviders,
+    onOpenRequestFilter,
+    onOpenSessions,
+    savedSession,
+    savedSessionLabel = 'Saved Session',
+    onExitSavedSession,
+    workerRestart,
+    onDismissWorkerRestart,
+    providerOverrides,
+    onSetProviderOverride,
+    onSaveFixture,
+    savedFixtureCounts,
+    onExportFixtures,
     ...props
   }, ref) => {
     const [searchQuery, setSearchQuery] = React.useState('')
     const [selectedProvider, setSelectedProvider] = React.useState<string>('')
     const [showFiltersModal, setShowFiltersModal] = React.useState(false)
+    const [showExportDialog, setShowExportDialog] = React.useState(false)
+    const [showPresetsDialog, setShowPresetsDialog] = React.useState(false)
     const [showInlineSearch, setShowInlineSearch] = React.useState(false)
     const [sortOrder, setSortOrder] = React.useState<'newest' | 'oldest'>('newest')
+    const [failedOnly, setFailedOnly] = React.useState(false)
     const [darkMode, setDarkMode] = React.useState(false)
 
     // Initialize dark mode from localStorage on component mount
@@ -123,17 +206,25 @@ const RealTimeDashboard = React.forwardRef<HTMLDivElement, RealTimeDashboardProp
       return Array.from(providerMap.values()).sort((a, b) => b.count - a.count)
     }, [events])
 
+    // Requests that were fired but never delivered
+    const failedCount = React.useMemo(() => {
+      return events.filter(event => event.deliveryFailure).length
+    }, [events])
+
+
+    // Search box query (provider:facebook value>=50 ...) parsed into filter criteria
+    const parsedQuery = React.useMemo(() => {
+      const eventTypes = Array.from(new Set(events.map(event => event.eventType).filter((type): type is string => !!type)))
+      return parseFilterQuery(searchQuery, { providers: uniqueProviders, eventTypes })
+    }, [searchQuery, events, uniqueProviders])
 
     // Filter and sort events based on search, provider, and timestamp
     const filteredEvents = React.useMemo(() => {
       let filtered = events.filter(event => {
         if (selectedProvider && event.provider !== selectedProvider) return false
-        if (searchQuery) {
-          const query = searchQuery.toLowerCase()
-          return event.url.toLowerCase().includes(query) ||
-                 event.providerName.toLowerCase().includes(query) ||
-                 event.eventType?.toLowerCase().includes(query) ||
-                 JSON.stringify(event.parameters || {}).toLowerCase().includes(query)
+        if (failedOnly && !event.deliveryFailure) return false
+        if (!parsedQuery.isEmpty) {
+          return matchesFilterCriteria(event, parsedQuery.criteria)
         }
         return true
       })
@@ -144,7 +235,53 @@ const RealTimeDashboard = React.forwardRef<HTMLDivElement, RealTimeDashboardProp
           ? b.timestamp - a.timestamp 
           : a.timestamp - b.timestamp
       })
-    }, [events, selectedProvider, searchQuery, sortOrder])
+    }, [events, selectedProvider, parsedQuery, sortOrder, failedOnly])
+
+    // Current filters in the shape presets store them
+    const currentFilters = React.useMemo(
+      () => toDashboardFilters({ searchQuery, provider: selectedProvider, failedOnly, sortOrder }),
+      [searchQuery, selectedProvider, failedOnly, sortOrder]
+    )
+
+    const activePresetId = React.useMemo(() => {
+      const current = JSON.stringify(currentFilters)
+      return filterPresets.find(preset => JSON.stringify(toDashboardFilters(preset.filters)) === current)?.id
+    }, [filterPresets, currentFilters])
+
+    const applyPreset = React.useCallback((filters: EventFilters) => {
+      const query = filters.searchQuery ?? ''
+      const order = filters.sortOrder ?? 'newest'
+      setSearchQuery(query)
+      setShowInlineSearch(query.trim() !== '')
+      setSelectedProvider(filters.provider ?? '')
+      setFailedOnly(!!filters.failedOnly)
+      setSortOrder(order)
+      onApplyFilters({ provider: filters.provider, sortOrder: order, failedOnly: !!filters.failedOnly })
+    }, [onApplyFilters])
+
+    const pinnedPresets = React.useMemo(() => filterPresets.filter(preset => preset.pinned), [filterPresets])
+
+    // Site of the current tab, for per-site default presets
+    const currentDomain = React.useMemo(() => {
+      if (savedSession || !currentTab?.url) return undefined
+      try {
+        return new URL(currentTab.url).hostname || undefined
+      } catch {
+        return undefined
+      }
+    }, [savedSession, currentTab?.url])
+
+    // Apply the site's default preset once per site (presets arrive asynchronously from sync storage)
+    const appliedDefaultRef = React.useRef<string | null>(null)
+    React.useEffect(() => {
+      if (!currentDomain) return
+      const preset = filterPresets.find(p => p.id === defaultFilterPresets?.[currentDomain])
+      if (!preset) return
+      const key = `${currentDomain}:${preset.id}`
+      if (appliedDefaultRef.current === key) return
+      appliedDefaultRef.current = key
+      applyPreset(preset.filters)
+    }, [currentDomain, filterPresets, defaultFilterPresets, applyPreset])
 
     // Dark mode toggle handler
     const toggleDarkMode = React.useCallback(() => {
@@ -171,8 +308,8 @@ const RealTimeDashboard = React.forwardRef<HTMLDivElement, RealTimeDashboardProp
 
     // Check if any filters are active (excluding search since it's separate now)
     const hasActiveFilters = React.useMemo(() => {
-      return selectedProvider !== '' || sortOrder !== 'newest'
-    }, [selectedProvider, sortOrder])
+      return selectedProvider !== '' || sortOrder !== 'newest' || failedOnly
+    }, [selectedProvider, sortOrder, failedOnly])
 
     // Check if search is active
     const hasActiveSearch = React.useMemo(() => {
@@ -192,19 +329,26 @@ const RealTimeDashboard = React.forwardRef<HTMLDivElement, RealTimeDashboardProp
                   className="w-full h-full object-cover"
                 />
               </div>
-              <div className={cn(
-                "flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-semibold border-2",
-                isTracking 
-                  ? "bg-green-50 text-green-700 border-green-200 dark:bg-green-900/20 dark:text-green-300 dark:border-green-800" 
-                  : "bg-red-50 text-red-700 border-red-200 dark:bg-red-900/20 dark:text-red-300 dark:border-red-800"
-              )}>
+              {savedSession ? (
+                <div className="flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-semibold border-2 bg-muted text-muted-foreground border-border">
+                  <Archive className="w-3 h-3" />
+                  {savedSessionLabel}
+                </div>
+              ) : (
                 <div className={cn(
-                  "w-2 h-2 rounded-full",
-                  isTracking ? "bg-green-500" : "bg-red-500",
-                  isTracking && "live-indicator-pulse"
-                )}></div>
-                {isTracking ? 'Live' : 'Paused'}
-              </div>
+                  "flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-semibold border-2",
+                  isTracking 
+                    ? "bg-green-50 text-green-700 border-green-200 dark:bg-green-900/20 dark:text-green-300 dark:border-green-800" 
+                    : "bg-red-50 text-red-700 border-red-200 dark:bg-red-900/20 dark:text-red-300 dark:border-red-800"
+                )}>
+                  <div className={cn(
+                    "w-2 h-2 rounded-full",
+                    isTracking ? "bg-green-500" : "bg-red-500",
+                    isTracking && "live-indicator-pulse"
+                  )}></div>
+                  {isTracking ? 'Live' : 'Paused'}
+                </div>
+              )}
             </div>
             
             <div className="flex items-center gap-2">
@@ -218,6 +362,7 @@ const RealTimeDashboard = React.forwardRef<HTMLDivElement, RealTimeDashboardProp
                 <span className="sr-only">{darkMode ? 'Light Mode' : 'Dark Mode'}</span>
               </Button>
               
+              {!savedSession && (
               <Button 
                 variant="outline" 
                 size="sm" 
@@ -228,8 +373,9 @@ const RealTimeDashboard = React.forwardRef<HTMLDivElement, RealTimeDashboardProp
                 <Trash2 className="w-4 h-4" />
                 <span className="sr-only">Clear Events</span>
               </Button>
+              )}
               
-              {onTogglePersistence && (
+              {onTogglePersistence && !savedSession && (
                 <Button 
                   variant={persistEventsAcrossPages ? "default" : "outline"} 
                   size="sm" 
@@ -253,6 +399,7 @@ const RealTimeDashboard = React.forwardRef<HTMLDivElement, RealTimeDashboardProp
                 </Button>
               )}
               
+              {!savedSession && (
               <Button
                 variant={isTracking ? "secondary" : "default"}
                 size="sm"
@@ -266,11 +413,66 @@ const RealTimeDashboard = React.forwardRef<HTMLDivElement, RealTimeDashboardProp
                 )}
                 <span className="sr-only">{isTracking ? 'Pause' : 'Start'}</span>
               </Button>
+              )}
             </div>
           </div>
 
+          {/* Service worker restart indicator */}
+          {workerRestart && !savedSession && (() => {
+            const gap = workerRestart.captureGap && currentTab?.id !== undefined && workerRestart.trackedTabIds.includes(currentTab.id)
+            return (
+              <div className={cn(
+                "mb-3 p-3 rounded-xl border flex items-start gap-3 text-xs",
+                gap
+                  ? "bg-amber-50 text-amber-800 border-amber-200 dark:bg-amber-900/20 dark:text-amber-300 dark:border-amber-800"
+                  : "bg-muted/30 text-muted-foreground border-border/40"
+              )}>
+                {gap ? <AlertTriangle className="w-4 h-4 flex-shrink-0" /> : <RefreshCw className="w-4 h-4 flex-shrink-0" />}
+                <div className="flex-1">
+                  <p className="font-semibold">
+                    Background restarted at {new Date(workerRestart.restartedAt).toLocaleTimeString()}
+                  </p>
+                  <p>
+                    {gap
+                      ? `Tracking was restored, but requests sent after ${new Date(workerRestart.missedSince ?? workerRestart.lastAliveAt).toLocaleTimeString()} may be missing.`
+                      : 'Tracking state was restored with no capture gap for this tab.'}
+                  </p>
+                </div>
+                {onDismissWorkerRestart && (
+                  <button onClick={onDismissWorkerRestart} className="opacity-70 hover:opacity-100">
+                    <X className="w-4 h-4" />
+                    <span className="sr-only">Dismiss</span>
+                  </button>
+                )}
+              </div>
+            )
+          })()}
+
+          {/* Saved session info */}
+          {savedSession && (
+            <div className="mb-3 p-3 bg-gradient-to-r from-muted/30 to-muted/20 rounded-xl border border-border/40">
+              <div className="flex items-center gap-3">
+                <div className="p-1.5 bg-primary/10 rounded-lg">
+                  <Archive className="w-4 h-4 text-primary" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">{savedSessionLabel}</p>
+                  <p className="text-sm font-semibold text-foreground truncate" title={savedSession.startUrl}>
+                    {savedSession.name}
+                  </p>
+                </div>
+                {onExitSavedSession && (
+                  <Button variant="outline" size="sm" onClick={onExitSavedSession} className="flex items-center gap-2 h-8">
+                    <ArrowLeft className="w-4 h-4" />
+                    Back to live
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Current tab info - enhanced layout */}
-          {currentTab && (
+          {currentTab && !savedSession && (
             <div className="mb-3 p-3 bg-gradient-to-r from-muted/30 to-muted/20 rounded-xl border border-border/40">
               <div className="flex items-center gap-3">
                 <div className="p-1.5 bg-primary/10 rounded-lg">
@@ -326,24 +528,83 @@ const RealTimeDashboard = React.forwardRef<HTMLDivElement, RealTimeDashboardProp
                 Filters
                 {hasActiveFilters && (
                   <div className="absolute -top-1.5 -right-1.5 flex items-center justify-center w-4 h-4 bg-primary text-primary-foreground rounded-full text-[10px] font-bold">
-                    {(selectedProvider ? 1 : 0) + (sortOrder !== 'newest' ? 1 : 0)}
+                    {(selectedProvider ? 1 : 0) + (sortOrder !== 'newest' ? 1 : 0) + (failedOnly ? 1 : 0)}
                   </div>
                 )}
               </Button>
+              
+              {onOpenProviders && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={onOpenProviders}
+                  className="flex items-center gap-2 h-9"
+                >
+                  <Puzzle className="w-4 h-4" />
+                  Providers
+                </Button>
+              )}
+
+              {onOpenRequestFilter && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={onOpenRequestFilter}
+                  className="h-9 w-9 p-0"
+                >
+                  <SlidersHorizontal className="w-4 h-4" />
+                  <span className="sr-only">Request filter</span>
+                </Button>
+              )}
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowExportDialog(true)}
+                className="h-9 w-9 p-0"
+                title="Export the listed events"
+              >
+                <Download className="w-4 h-4" />
+                <span className="sr-only">Export</span>
+              </Button>
+
+              {onSaveFilterPresets && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowPresetsDialog(true)}
+                  className={cn("h-9 w-9 p-0", activePresetId && "border-primary bg-primary/5 hover:bg-primary/10")}
+                  title="Saved filter presets"
+                >
+                  <Bookmark className={cn("w-4 h-4", activePresetId && "text-primary")} />
+                  <span className="sr-only">Filter presets</span>
+                </Button>
+              )}
+
+              {onOpenSessions && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={onOpenSessions}
+                  className="h-9 w-9 p-0"
+                  title="Saved capture sessions"
+                >
+                  <Archive className="w-4 h-4" />
+                  <span className="sr-only">Sessions</span>
+                </Button>
+              )}
             </div>
             
             {/* Inline search bar */}
             {showInlineSearch && (
-              <div className="relative">
-                <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                <Input
-                  placeholder="Search events, URLs, or parameters..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-11 h-10 bg-background/80 border-border/60 focus:border-primary/60 focus:ring-1 focus:ring-primary/20"
-                  autoFocus
-                />
-              </div>
+              <FilterQueryInput
+                value={searchQuery}
+                onChange={setSearchQuery}
+                events={events}
+                errors={parsedQuery.errors}
+                placeholder="Search, or filter: provider:facebook ev:Purchase value>=50 -url:*staging*"
+                autoFocus
+              />
             )}
           </div>
 
@@ -372,6 +633,27 @@ const RealTimeDashboard = React.forwardRef<HTMLDivElement, RealTimeDashboardProp
                 </div>
               </div>
             </div>
+
+            {/* Pinned filter presets (clicking the active one clears its filters) */}
+            {onSaveFilterPresets && pinnedPresets.length > 0 && (
+              <div className="flex-shrink-0 flex items-center gap-2 px-6 py-2 border-b overflow-x-auto">
+                {pinnedPresets.map(preset => (
+                  <button
+                    key={preset.id}
+                    type="button"
+                    onClick={() => applyPreset(preset.id === activePresetId ? {} : preset.filters)}
+                    className={cn(
+                      "flex-shrink-0 px-3 h-7 rounded-full border text-xs font-medium transition-colors",
+                      preset.id === activePresetId
+                        ? "border-primary bg-primary text-primary-foreground"
+                        : "border-border/60 hover:bg-muted"
+                    )}
+                  >
+                    {preset.name}
+                  </button>
+                ))}
+              </div>
+            )}
             
             <div className="flex-1 overflow-y-auto">
               <ErrorBoundary>
@@ -386,6 +668,44 @@ const RealTimeDashboard = React.forwardRef<HTMLDivElement, RealTimeDashboardProp
           </div>
         </div>
 
+        {/* Saved filter presets */}
+        {onSaveFilterPresets && (
+          <Dialog open={showPresetsDialog} onOpenChange={setShowPresetsDialog}>
+            <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2 text-lg font-semibold">
+                  <Bookmark className="w-5 h-5 text-primary" />
+                  Filter Presets
+                </DialogTitle>
+              </DialogHeader>
+              <FilterPresetManager
+                presets={filterPresets}
+                currentFilters={currentFilters}
+                activePresetId={activePresetId}
+                domain={currentDomain}
+                defaultPresetId={currentDomain ? defaultFilterPresets?.[currentDomain] : undefined}
+                onSavePresets={onSaveFilterPresets}
+                onApplyPreset={(preset) => applyPreset(preset.filters)}
+                onSetDefaultPreset={onSetDefaultFilterPreset}
+              />
+            </DialogContent>
+          </Dialog>
+        )}
+
+        {/* Export dialog (exports the filtered event list) */}
+        <Dialog open={showExportDialog} onOpenChange={setShowExportDialog}>
+          <DialogContent className="sm:max-w-[560px] p-0 max-h-[90vh] overflow-y-auto">
+            <ExportDialog
+              events={filteredEvents}
+              onExportXlsx={onExportXlsx}
+              templates={exportTemplates}
+              onSaveTemplates={onSaveExportTemplates}
+              onClose={() => setShowExportDialog(false)}
+              className="border-0 shadow-none max-w-none"
+            />
+          </DialogContent>
+        </Dialog>
+
         {/* Filters modal */}
         <Dialog 
           open={showFiltersModal} 
@@ -472,6 +792,42 @@ const RealTimeDashboard = React.forwardRef<HTMLDivElement, RealTimeDashboardProp
 
               <div className="border-t border-border/40" />
               
+              {/* Delivery Status Section */}
+              <div className="space-y-3">
+                <div className="flex items-center gap-3">
+                  <div className="p-1.5 bg-primary/10 rounded-lg">
+                    <Ban className="w-4 h-4 text-primary" />
+                  </div>
+                  <div>
+                    <h4 className="text-sm font-semibold text-foreground">Delivery Status</h4>
+                    <p className="text-xs text-muted-foreground">Blocked, aborted or failed requests that never reached the vendor</p>
+                  </div>
+                </div>
+                
+                <button
+                  onClick={() => {
+                    setFailedOnly(!failedOnly)
+                    onApplyFilters({ provider: selectedProvider || undefined, sortOrder, failedOnly: !failedOnly })
+                  }}
+                  className={cn(
+                    "w-full flex items-center gap-2 px-3 py-2.5 rounded-lg border transition-all",
+                    failedOnly
+                      ? "bg-destructive/10 border-destructive text-destructive"
+                      : "bg-background border-border/60 hover:bg-muted/50 hover:border-border"
+                  )}
+                >
+                  <span className="text-sm font-medium flex-1 text-left">Failed only</span>
+                  <Badge variant={failedCount > 0 ? "error" : "secondary"} className="text-xs px-1.5">
+                    {failedCount}
+                  </Badge>
+                  {failedOnly && (
+                    <Check className="w-3.5 h-3.5" />
+                  )}
+                </button>
+              </div>
+
+              <div className="border-t border-border/40" />
+              
               {/* Timestamp Sorting Section */}
               <div className="space-y-3">
                 <div className="flex items-center gap-3">
@@ -548,7 +904,8 @@ const RealTimeDashboard = React.forwardRef<HTMLDivElement, RealTimeDashboardProp
                     onClick={() => {
                       setSelectedProvider('')
                       setSortOrder('newest')
-                      onApplyFilters({ provider: undefined, sortOrder: 'newest' })
+                      setFailedOnly(false)
+                      onApplyFilters({ provider: undefined, sortOrder: 'newest', failedOnly: false })
                     }}
                     className="flex-1 h-10 font-medium border-border/60 hover:bg-destructive/10 hover:text-destructive hover:border-destructive/50 transition-all"
                   >
@@ -585,6 +942,11 @@ const RealTimeDashboard = React.forwardRef<HTMLDivElement, RealTimeDashboardProp
                 <EventDetailsEnhanced
                   event={selectedEvent}
                   onClose={() => onEventSelect(null as any)}
+                  providerOverrides={providerOverrides}
+                  onSetProviderOverride={onSetProviderOverride}
+                  onSaveFixture={onSaveFixture}
+                  savedFixtureCounts={savedFixtureCounts}
+                  onExportFixtures={onExportFixtures}
                 />
               )}
             </div>
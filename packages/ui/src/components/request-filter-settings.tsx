@@ -0,0 +1,211 @@
+/**
+ * Request Filter Settings Component
+ * Configure the pre-filter that drops requests before provider analysis
+ */
+
+import * as React from "react"
+import type { FilterStats, RequestFilterSettings as RequestFilterConfig } from "@pixeltracer/providers"
+import { Button } from "./ui/button"
+import { FilterStatsSummary } from "./filter-stats-summary"
+import { cn } from "../utils"
+import { ArrowLeft, SlidersHorizontal, Power, RefreshCw, Save } from "lucide-react"
+
+export interface RequestFilterSettingsProps extends React.HTMLAttributes<HTMLDivElement> {
+  settings: RequestFilterConfig
+  stats: FilterStats | null
+  /** Persist the settings; rejects with a readable message when they cannot be saved */
+  onSave: (settings: RequestFilterConfig) => Promise<void>
+  onRefreshStats: () => void
+  onResetStats: () => void
+  onClose: () => void
+}
+
+type RequestMethod = RequestFilterConfig["methods"][number]
+
+const METHODS: RequestMethod[] = ["GET", "POST", "PUT", "DELETE", "PATCH", "HEAD", "OPTIONS"]
+
+const toLines = (values: string[]) => values.join("\n")
+const fromLines = (text: string) => text.split("\n").map(line => line.trim()).filter(Boolean)
+
+const RequestFilterSettings = React.forwardRef<HTMLDivElement, RequestFilterSettingsProps>(
+  ({ className, settings, stats, onSave, onRefreshStats, onResetStats, onClose, ...props }, ref) => {
+    const [enabled, setEnabled] = React.useState(settings.enabled)
+    const [methods, setMethods] = React.useState<RequestMethod[]>(settings.methods)
+    const [excludeUrls, setExcludeUrls] = React.useState(toLines(settings.excludeUrls))
+    const [excludeDomains, setExcludeDomains] = React.useState(toLines(settings.excludeDomains))
+    const [includeDomains, setIncludeDomains] = React.useState(toLines(settings.includeDomains))
+    const [saving, setSaving] = React.useState(false)
+    const [saveError, setSaveError] = React.useState<string | null>(null)
+    const [saved, setSaved] = React.useState(false)
+
+    // Stored settings arrive after the view opens
+    React.useEffect(() => {
+      setEnabled(settings.enabled)
+      setMethods(settings.methods)
+      setExcludeUrls(toLines(settings.excludeUrls))
+      setExcludeDomains(toLines(settings.excludeDomains))
+      setIncludeDomains(toLines(settings.includeDomains))
+    }, [settings])
+
+    const toggleMethod = React.useCallback((method: RequestMethod) => {
+      setMethods(current => current.includes(method)
+        ? current.filter(m => m !== method)
+        : METHODS.filter(m => m === method || current.includes(m)))
+      setSaved(false)
+    }, [])
+
+    const handleSave = React.useCallback(async () => {
+      setSaving(true)
+      setSaveError(null)
+      try {
+        await onSave({
+          enabled,
+          methods,
+          excludeUrls: fromLines(excludeUrls),
+          excludeDomains: fromLines(excludeDomains),
+          includeDomains: fromLines(includeDomains)
+        })
+        setSaved(true)
+      } catch (error) {
+        setSaveError(error instanceof Error ? error.message : String(error))
+      } finally {
+        setSaving(false)
+      }
+    }, [enabled, methods, excludeUrls, excludeDomains, includeDomains, onSave])
+
+    const listField = (
+      label: string,
+      hint: string,
+      value: string,
+      onChange: (value: string) => void,
+      placeholder: string
+    ) => (
+      <div className="space-y-1.5">
+        <div className="text-sm font-medium">{label}</div>
+        <div className="text-xs text-muted-foreground">{hint}</div>
+        <textarea
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value)
+            setSaved(false)
+          }}
+          placeholder={placeholder}
+          spellCheck={false}
+          className="w-full h-20 rounded-md border border-input bg-background p-2 font-mono text-xs shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+        />
+      </div>
+    )
+
+    return (
+      <div ref={ref} className={cn("flex flex-col h-full bg-background", className)} {...props}>
+        {/* Header */}
+        <div className="flex-shrink-0 px-6 py-4 border-b bg-card/80 backdrop-blur-sm">
+          <div className="flex items-center gap-3">
+            <Button variant="outline" size="sm" onClick={onClose} className="h-9 w-9 p-0">
+              <ArrowLeft className="w-4 h-4" />
+              <span className="sr-only">Back</span>
+            </Button>
+            <div className="p-2 bg-primary/10 rounded-xl">
+              <SlidersHorizontal className="w-5 h-5 text-primary" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h2 className="text-base font-semibold">Request Filter</h2>
+              <p className="text-xs text-muted-foreground">
+                Requests filtered out here are never analyzed
+              </p>
+            </div>
+            <Button
+              variant={enabled ? "secondary" : "outline"}
+              size="sm"
+              onClick={() => {
+                setEnabled(!enabled)
+                setSaved(false)
+              }}
+              className="gap-1.5"
+            >
+              <Power className="w-4 h-4" />
+              {enabled ? "Enabled" : "Disabled"}
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-5">
+          <div className={cn("space-y-5", !enabled && "opacity-60")}>
+            {/* Methods */}
+            <div className="space-y-1.5">
+              <div className="text-sm font-medium">Methods</div>
+              <div className="text-xs text-muted-foreground">Only analyze these methods. Select none to analyze all.</div>
+              <div className="flex flex-wrap gap-1.5">
+                {METHODS.map(method => (
+                  <Button
+                    key={method}
+                    variant={methods.includes(method) ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => toggleMethod(method)}
+                    className="h-7 px-2.5 text-xs font-mono"
+                  >
+                    {method}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {listField(
+              "Ignored URLs",
+              "One pattern per line, * matches anything. Use this for your own first-party API.",
+              excludeUrls,
+              setExcludeUrls,
+              "*api.mysite.com/*"
+            )}
+            {listField(
+              "Ignored domains",
+              "One domain per line, e.g. test or staging hosts.",
+              excludeDomains,
+              setExcludeDomains,
+              "staging.mysite.com\n*.test"
+            )}
+            {listField(
+              "Only these domains",
+              "Analyze requests to these domains only. Leave empty to allow all.",
+              includeDomains,
+              setIncludeDomains,
+              "*.google-analytics.com"
+            )}
+          </div>
+
+          {saveError && (
+            <div className="p-3 rounded-lg bg-destructive/10 text-destructive text-xs">{saveError}</div>
+          )}
+
+          <div className="flex items-center justify-end gap-2">
+            {saved && <span className="text-xs text-muted-foreground">Saved</span>}
+            <Button size="sm" onClick={handleSave} disabled={saving} className="gap-1.5">
+              <Save className="w-4 h-4" />
+              Save
+            </Button>
+          </div>
+
+          {/* Statistics */}
+          <div className="space-y-2 pt-4 border-t">
+            <div className="flex items-center justify-between">
+              <div className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Statistics</div>
+              <Button variant="ghost" size="sm" onClick={onRefreshStats} className="h-7 w-7 p-0">
+                <RefreshCw className="w-3.5 h-3.5" />
+                <span className="sr-only">Refresh</span>
+              </Button>
+            </div>
+            {stats ? (
+              <FilterStatsSummary stats={stats} onReset={onResetStats} maxReasons={10} />
+            ) : (
+              <div className="text-xs text-muted-foreground">Loading…</div>
+            )}
+          </div>
+        </div>
+      </div>
+    )
+  }
+)
+
+RequestFilterSettings.displayName = "RequestFilterSettings"
+
+export { RequestFilterSettings }
@@ -0,0 +1,231 @@
+/**
+ * Session Manager Component
+ * List, reopen, rename and delete capture sessions saved by the background,
+ * and open HAR files for offline analysis
+ */
+
+import * as React from "react"
+import type { CaptureSession } from "@pixeltracer/shared"
+import { Badge } from "./ui/badge"
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { cn } from "../utils"
+import { ArrowLeft, Archive, FolderOpen, Pencil, Trash2, Check, X, Upload } from "lucide-react"
+
+export interface SessionManagerProps extends React.HTMLAttributes<HTMLDivElement> {
+  sessions: CaptureSession[]
+  /** How long finished sessions are kept after their last activity (ms) */
+  retentionTime?: number
+  /** Store a new retention time; shown as a choice next to the session count when set */
+  onChangeRetentionTime?: (retentionTime: number) => Promise<void>
+  onOpenSession: (session: CaptureSession) => void
+  onRenameSession: (id: string, name: string) => Promise<void>
+  onDeleteSession: (id: string) => Promise<void>
+  /** Analyse a HAR file and open it as a read-only session */
+  onImportHar?: (file: File) => Promise<void>
+  onClose: () => void
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const RETENTION_CHOICES = [DAY_MS, 3 * DAY_MS, 7 * DAY_MS, 30 * DAY_MS]
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000)
+  if (minutes < 60) return `${minutes} min`
+  const hours = Math.round(minutes / 60)
+  return hours < 48 ? `${hours} h` : `${Math.round(hours / 24)} days`
+}
+
+const SessionManager = React.forwardRef<HTMLDivElement, SessionManagerProps>(
+  ({ className, sessions, retentionTime, onChangeRetentionTime, onOpenSession, onRenameSession, onDeleteSession, onImportHar, onClose, ...props }, ref) => {
+    const [renamingId, setRenamingId] = React.useState<string | null>(null)
+    const [draftName, setDraftName] = React.useState("")
+    const [importing, setImporting] = React.useState(false)
+    const [actionError, setActionError] = React.useState<string | null>(null)
+    const fileInputRef = React.useRef<HTMLInputElement>(null)
+
+    const handleImportFile = React.useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0]
+      event.target.value = ""
+      if (!file || !onImportHar) return
+
+      setImporting(true)
+      setActionError(null)
+      try {
+        await onImportHar(file)
+      } catch (error) {
+        setActionError(error instanceof Error ? error.message : String(error))
+      } finally {
+        setImporting(false)
+      }
+    }, [onImportHar])
+
+    const startRename = React.useCallback((session: CaptureSession) => {
+      setRenamingId(session.id)
+      setDraftName(session.name)
+    }, [])
+
+    const commitRename = React.useCallback(() => {
+      if (renamingId && draftName.trim()) {
+        onRenameSession(renamingId, draftName.trim()).catch(() => {
+          // The list keeps the previous name when renaming fails
+        })
+      }
+      setRenamingId(null)
+    }, [renamingId, draftName, onRenameSession])
+
+    return (
+      <div ref={ref} className={cn("flex flex-col h-full bg-background", className)} {...props}>
+        {/* Header */}
+        <div className="flex-shrink-0 px-6 py-4 border-b bg-card/80 backdrop-blur-sm">
+          <div className="flex items-center gap-3">
+            <Button variant="outline" size="sm" onClick={onClose} className="h-9 w-9 p-0">
+              <ArrowLeft className="w-4 h-4" />
+              <span className="sr-only">Back</span>
+            </Button>
+            <div className="p-2 bg-primary/10 rounded-xl">
+              <Archive className="w-5 h-5 text-primary" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <h2 className="text-base font-semibold">Capture Sessions</h2>
+              <p className="text-xs text-muted-foreground">
+                {sessions.length} saved
+                {retentionTime && !onChangeRetentionTime ? ` · kept for ${formatDuration(retentionTime)} after last activity` : ""}
+                {retentionTime && onChangeRetentionTime && (
+                  <>
+                    {" · kept for "}
+                    <select
+                      value={retentionTime}
+                      onChange={(e) => {
+                        setActionError(null)
+                        onChangeRetentionTime(Number(e.target.value)).catch(error => {
+                          setActionError(error instanceof Error ? error.message : String(error))
+                        })
+                      }}
+                      className="bg-transparent underline decoration-dotted cursor-pointer"
+                    >
+                      {Array.from(new Set([...RETENTION_CHOICES, retentionTime])).sort((a, b) => a - b).map(choice => (
+                        <option key={choice} value={choice}>{formatDuration(choice)}</option>
+                      ))}
+                    </select>
+                    {" after last activity"}
+                  </>
+                )}
+              </p>
+            </div>
+            {onImportHar && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={importing}
+                  className="flex items-center gap-2 h-9"
+                >
+                  <Upload className="w-4 h-4" />
+                  {importing ? "Importing..." : "Import HAR"}
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".har,application/json"
+                  onChange={handleImportFile}
+                  className="hidden"
+                />
+              </>
+            )}
+          </div>
+          {actionError && (
+            <p className="mt-2 text-xs text-destructive">{actionError}</p>
+          )}
+        </div>
+
+        {/* Session list */}
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-2">
+          {sessions.length === 0 && (
+            <div className="text-center py-12 space-y-2">
+              <div className="text-sm text-muted-foreground">No saved sessions yet</div>
+              <div className="text-xs text-muted-foreground">
+                Events captured while tracking a tab are saved here automatically
+              </div>
+            </div>
+          )}
+          {sessions.map(session => (
+            <div key={session.id} className="flex items-center gap-3 p-3 rounded-lg border">
+              <div className="flex-1 min-w-0 space-y-0.5">
+                {renamingId === session.id ? (
+                  <Input
+                    value={draftName}
+                    autoFocus
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") commitRename()
+                      if (e.key === "Escape") setRenamingId(null)
+                    }}
+                    className="h-8 text-sm"
+                  />
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium truncate">{session.name}</span>
+                    {session.endTime === undefined && (
+                      <Badge variant="success" className="text-xs">recording</Badge>
+                    )}
+                  </div>
+                )}
+                <div className="text-xs text-muted-foreground truncate" title={session.startUrl}>
+                  {session.startUrl || "Unknown page"}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {new Date(session.startTime).toLocaleString()}
+                  {" · "}
+                  {session.eventCount} {session.eventCount === 1 ? "event" : "events"}
+                  {session.endTime !== undefined && ` · ${formatDuration(session.endTime - session.startTime)}`}
+                </div>
+              </div>
+              {renamingId === session.id ? (
+                <>
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={commitRename}>
+                    <Check className="w-4 h-4" />
+                    <span className="sr-only">Save name</span>
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setRenamingId(null)}>
+                    <X className="w-4 h-4" />
+                    <span className="sr-only">Cancel</span>
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => onOpenSession(session)}>
+                    <FolderOpen className="w-4 h-4" />
+                    <span className="sr-only">Open</span>
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => startRename(session)}>
+                    <Pencil className="w-4 h-4" />
+                    <span className="sr-only">Rename</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 hover:text-destructive"
+                    onClick={() => {
+                      if (window.confirm(`Delete ${session.name}?`)) {
+                        onDeleteSession(session.id).catch(() => {})
+                      }
+                    }}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    <span className="sr-only">Delete</span>
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    )
+  }
+)
+
+SessionManager.displayName = "SessionManager"
+
+export { SessionManager }
@@ -1,7 +1,14 @@
 import { useCallback } from 'react';
-import { TrackingEvent } from '@pixeltracer/shared';
+import {
+  TrackingEvent,
+  ExportTemplate,
+  XLSX_MIME_TYPE,
+  createHar,
+  createTemplateWorkbook,
+  renderExportTemplate
+} from '@pixeltracer/shared';
 
-export type ExportFormat = 'json' | 'csv' | 'har';
+export type ExportFormat = 'json' | 'csv' | 'har' | 'ndjson';
 
 export interface ExportOptions {
   format: ExportFormat;
@@ -10,6 +17,8 @@ export interface ExportOptions {
   includeTimestamp?: boolean;
   filename?: string;
   prettyPrint?: boolean;
+  /** Column layout for CSV, JSON and NDJSON; replaces the other field options */
+  template?: ExportTemplate;
 }
 
 /**
@@ -19,6 +28,10 @@ export interface ExportOptions {
 export function useEventExport() {
   
   const exportToJson = useCallback((events: TrackingEvent[], options: ExportOptions) => {
+    if (options.template) {
+      return renderExportTemplate(events, options.template, 'json', options.prettyPrint);
+    }
+
     const data = options.prettyPrint 
       ? JSON.stringify(events, null, 2)
       : JSON.stringify(events);
@@ -28,6 +41,9 @@ export function useEventExport() {
 
   const exportToCsv = useCallback((events: TrackingEvent[], options: ExportOptions) => {
     if (events.length === 0) return '';
+    if (options.template) {
+      return renderExportTemplate(events, options.template, 'csv');
+    }
 
     const headers = [
       'timestamp',
@@ -37,7 +53,12 @@ export function useEventExport() {
       'method',
       'eventType',
       'confidence',
-      'tabId'
+      'tabId',
+      'requestId',
+      'batchIndex',
+      'batchSize',
+      'deliveryFailure',
+      'networkError'
     ];
 
     if (options.includeParameters) {
@@ -63,7 +84,12 @@ export function useEventExport() {
         `"${event.method}"`,
         `"${event.eventType || ''}"`,
         event.confidence.toString(),
-        (event.tabId ?? 0).toString()
+        (event.tabId ?? 0).toString(),
+        `"${event.requestId || ''}"`,
+        event.batchIndex !== undefined ? event.batchIndex.toString() : '',
+        event.batchSize !== undefined ? event.batchSize.toString() : '',
+        `"${event.deliveryFailure || ''}"`,
+        `"${event.networkError || ''}"`
       ];
 
       if (options.includeParameters) {
@@ -83,72 +109,24 @@ export function useEventExport() {
     return rows.join('\n');
   }, []);
 
+  const exportToNdjson = useCallback((events: TrackingEvent[], options: ExportOptions) => {
+    // One JSON object per line, for log pipelines and streaming tools
+    if (options.template) {
+      return renderExportTemplate(events, options.template, 'ndjson');
+    }
+    return events.map(event => JSON.stringify(event)).join('\n');
+  }, []);
+
   const exportToHar = useCallback((events: TrackingEvent[], options: ExportOptions) => {
-    // Generate HAR format for network analysis tools
-    const har = {
-      log: {
-        version: '1.2',
-        creator: {
-          name: 'PixelTracer',
-          version: '2.0.0'
-        },
-        entries: events.map(event => ({
-          startedDateTime: new Date(event.timestamp).toISOString(),
-          request: {
-            method: event.method,
-            url: event.url,
-            httpVersion: 'HTTP/1.1',
-            headers: Object.entries(event.requestHeaders || {}).map(([name, value]) => ({
-              name,
-              value
-            })),
-            queryString: [],
-            postData: event.requestBody ? {
-              mimeType: 'application/x-www-form-urlencoded',
-              text: event.requestBody
-            } : undefined,
-            headersSize: -1,
-            bodySize: event.requestBody?.length || 0
-          },
-          response: {
-            status: event.statusCode || 200,
-            statusText: 'OK',
-            httpVersion: 'HTTP/1.1',
-            headers: Object.entries(event.responseHeaders || {}).map(([name, value]) => ({
-              name,
-              value
-            })),
-            content: {
-              size: 0,
-              mimeType: 'application/json'
-            },
-            redirectURL: '',
-            headersSize: -1,
-            bodySize: 0
-          },
-          cache: {},
-          timings: {
-            send: 0,
-            wait: 0,
-            receive: 0
-          },
-          _pixeltracer: {
-            provider: event.provider,
-            providerName: event.providerName,
-            eventType: event.eventType,
-            confidence: event.confidence,
-            parameters: event.parameters
-          }
-        }))
-      }
-    };
+    // HAR 1.2 with the captured request data; the _pixeltracer extension lets the import restore the events
+    const har = createHar(events);
 
     return options.prettyPrint 
       ? JSON.stringify(har, null, 2)
       : JSON.stringify(har);
   }, []);
 
-  const downloadFile = useCallback((content: string, filename: string, mimeType: string) => {
+  const downloadFile = useCallback((content: BlobPart, filename: string, mimeType: string) => {
     const blob = new Blob([content], { type: mimeType });
     const url = URL.createObjectURL(blob);
     
@@ -190,23 +168,43 @@ export function useEventExport() {
         mimeType = 'application/json';
         break;
         
+      case 'ndjson':
+        content = exportToNdjson(events, options);
+        filename = `${baseFilename}.ndjson`;
+        mimeType = 'application/x-ndjson';
+        break;
+        
       default:
         throw new Error(`Unsupported export format: ${options.format}`);
     }
 
     downloadFile(content, filename, mimeType);
     return { filename, size: content.length };
-  }, [exportToJson, exportToCsv, exportToHar, downloadFile]);
+  }, [exportToJson, exportToCsv, exportToNdjson, exportToHar, downloadFile]);
 
-  const copyToClipboard = useCallback(async (events: TrackingEvent[], format: ExportFormat = 'json') => {
+  /**
+   * Download events laid out by a template as an Excel workbook
+   */
+  const exportTemplateWorkbook = useCallback((events: TrackingEvent[], template: ExportTemplate, filename?: string) => {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const bytes = createTemplateWorkbook(events, template) as Uint8Array<ArrayBuffer>;
+    const name = `${filename || `pixeltracer-events-${timestamp}`}.xlsx`;
+    downloadFile(bytes, name, XLSX_MIME_TYPE);
+    return { filename: name, size: bytes.length };
+  }, [downloadFile]);
+
+  const copyToClipboard = useCallback(async (events: TrackingEvent[], format: ExportFormat = 'json', template?: ExportTemplate) => {
     let content: string;
 
     switch (format) {
       case 'json':
-        content = exportToJson(events, { format, prettyPrint: true });
+        content = exportToJson(events, { format, prettyPrint: true, template });
         break;
       case 'csv':
-        content = exportToCsv(events, { format, includeHeaders: true });
+        content = exportToCsv(events, { format, includeHeaders: true, template });
+        break;
+      case 'ndjson':
+        content = exportToNdjson(events, { format, template });
         break;
       case 'har':
         content = exportToHar(events, { format, prettyPrint: true });
@@ -221,27 +219,30 @@ export function useEventExport() {
     } catch (error) {
       return false;
     }
-  }, [exportToJson, exportToCsv, exportToHar]);
+  }, [exportToJson, exportToCsv, exportToNdjson, exportToHar]);
 
-  const getExportPreview = useCallback((events: TrackingEvent[], format: ExportFormat, limit = 3) => {
+  const getExportPreview = useCallback((events: TrackingEvent[], format: ExportFormat, limit = 3, template?: ExportTemplate) => {
     const previewEvents = events.slice(0, limit);
     
     switch (format) {
       case 'json':
-        return exportToJson(previewEvents, { format, prettyPrint: true });
+        return exportToJson(previewEvents, { format, prettyPrint: true, template });
       case 'csv':
-        return exportToCsv(previewEvents, { format, includeHeaders: true });
+        return exportToCsv(previewEvents, { format, includeHeaders: true, template });
+      case 'ndjson':
+        return exportToNdjson(previewEvents, { format, template });
       case 'har':
         return exportToHar(previewEvents, { format, prettyPrint: true });
       default:
         return '';
     }
-  }, [exportToJson, exportToCsv, exportToHar]);
+  }, [exportToJson, exportToCsv, exportToNdjson, exportToHar]);
 
   return {
     exportEvents,
+    exportTemplateWorkbook,
     copyToClipboard,
     getExportPreview,
-    supportedFormats: ['json', 'csv', 'har'] as ExportFormat[]
+    supportedFormats: ['json', 'csv', 'ndjson', 'har'] as ExportFormat[]
   };
 }
\ No newline at end of file
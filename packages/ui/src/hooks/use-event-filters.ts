@@ -1,7 +1,8 @@
 import { useMemo, useState, useCallback } from 'react';
-import { TrackingEvent } from '@pixeltracer/shared';
+import { TrackingEvent, parseFilterQuery, matchesFilterCriteria } from '@pixeltracer/shared';
 
 export interface EventFilters {
+  /** Filter query (provider:facebook value>=50 -url:*staging*), parsed into FilterCriteria */
   searchQuery?: string;
   provider?: string;
   eventType?: string;
@@ -16,6 +17,117 @@ export interface EventFilters {
   method?: string;
   showOnlyRecent?: boolean;
   recentThresholdMs?: number;
+  failedOnly?: boolean;
+  /** Saved with presets and applied by the dashboard's event list */
+  sortOrder?: 'newest' | 'oldest';
+}
+
+/**
+ * Named set of filters saved by the user
+ * Presets are plain JSON (the query string stands in for FilterCriteria) so they can
+ * be synced through chrome.storage.sync and shared as files
+ */
+export interface FilterPreset {
+  id: string;
+  name: string;
+  filters: EventFilters;
+  /** Shown as a chip above the event list */
+  pinned?: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Preset as read from storage or a shared file, before its fields are checked
+ */
+type StoredFilterPreset = { [K in keyof FilterPreset]?: unknown };
+
+const PRESETS_FILE_FORMAT = 'pixeltracer-filter-presets';
+
+/**
+ * Serialize presets into the JSON file teams share
+ */
+export function serializeFilterPresets(presets: FilterPreset[]): string {
+  return JSON.stringify({ format: PRESETS_FILE_FORMAT, version: 1, presets }, null, 2);
+}
+
+/**
+ * Read presets from a shared JSON file (or a bare preset array)
+ * Unknown filter keys are dropped; throws when the file holds no valid preset
+ */
+export function parseFilterPresets(text: string): FilterPreset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+
+  const items = Array.isArray(data) ? data : isRecord(data) && data.format === PRESETS_FILE_FORMAT ? data.presets : null;
+  if (!Array.isArray(items)) {
+    throw new Error('Not a PixelTracer filter presets file');
+  }
+
+  const now = Date.now();
+  const presets = items
+    .map((item, index) => parseFilterPreset(item, `preset-${now}-${index}`, now))
+    .filter((preset): preset is FilterPreset => preset !== undefined);
+
+  if (presets.length === 0) {
+    throw new Error('The file contains no filter presets');
+  }
+  return presets;
+}
+
+/**
+ * Check one stored preset (a shared file entry or a synced storage item)
+ * Unknown filter keys are dropped; returns undefined when it is not a preset
+ */
+export function parseFilterPreset(value: unknown, fallbackId: string, now = Date.now()): FilterPreset | undefined {
+  if (!isStoredFilterPreset(value)) return undefined;
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : fallbackId,
+    name: value.name.trim(),
+    filters: sanitizeFilters(value.filters),
+    pinned: value.pinned === true || undefined,
+    createdAt: typeof value.createdAt === 'number' ? value.createdAt : now,
+    updatedAt: typeof value.updatedAt === 'number' ? value.updatedAt : now
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Stored preset with a name and a filters object, the fields a preset cannot do without
+ */
+function isStoredFilterPreset(value: unknown): value is StoredFilterPreset & { name: string; filters: Record<string, unknown> } {
+  return isRecord(value) && typeof value.name === 'string' && value.name.trim() !== '' && isRecord(value.filters);
+}
+
+function isNumericRange(value: unknown): value is NonNullable<EventFilters['confidenceRange']> {
+  return isRecord(value) && typeof value.min === 'number' && typeof value.max === 'number';
+}
+
+function isDateRange(value: unknown): value is NonNullable<EventFilters['dateRange']> {
+  return isRecord(value) && typeof value.start === 'number' && typeof value.end === 'number';
+}
+
+function sanitizeFilters(raw: Record<string, unknown>): EventFilters {
+  const filters: EventFilters = {};
+
+  if (typeof raw.searchQuery === 'string') filters.searchQuery = raw.searchQuery;
+  if (typeof raw.provider === 'string') filters.provider = raw.provider;
+  if (typeof raw.eventType === 'string') filters.eventType = raw.eventType;
+  if (typeof raw.method === 'string') filters.method = raw.method;
+  if (isNumericRange(raw.confidenceRange)) filters.confidenceRange = { min: raw.confidenceRange.min, max: raw.confidenceRange.max };
+  if (isDateRange(raw.dateRange)) filters.dateRange = { start: raw.dateRange.start, end: raw.dateRange.end };
+  if (typeof raw.showOnlyRecent === 'boolean') filters.showOnlyRecent = raw.showOnlyRecent;
+  if (typeof raw.recentThresholdMs === 'number') filters.recentThresholdMs = raw.recentThresholdMs;
+  if (typeof raw.failedOnly === 'boolean') filters.failedOnly = raw.failedOnly;
+  if (raw.sortOrder === 'newest' || raw.sortOrder === 'oldest') filters.sortOrder = raw.sortOrder;
+  return filters;
 }
 
 export interface FilterStats {
@@ -24,6 +136,7 @@ export interface FilterStats {
   providers: string[];
   eventTypes: string[];
   methods: string[];
+  failed: number;
   confidenceRange: { min: number; max: number };
   dateRange: { start: number; end: number };
 }
@@ -44,6 +157,7 @@ export function useEventFilters(events: TrackingEvent[], initialFilters: EventFi
         providers: [],
         eventTypes: [],
         methods: [],
+        failed: 0,
         confidenceRange: { min: 0, max: 1 },
         dateRange: { start: 0, end: 0 }
       };
@@ -62,6 +176,7 @@ export function useEventFilters(events: TrackingEvent[], initialFilters: EventFi
       providers,
       eventTypes,
       methods,
+      failed: events.filter(e => e.deliveryFailure).length,
       confidenceRange: {
         min: Math.min(...confidences),
         max: Math.max(...confidences)
@@ -73,23 +188,22 @@ export function useEventFilters(events: TrackingEvent[], initialFilters: EventFi
     };
   }, [events]);
 
+  // Parse the search box query language
+  const parsedQuery = useMemo(() => {
+    const providers = stats.providers.map(id => ({
+      id,
+      name: events.find(event => event.provider === id)?.providerName
+    }));
+    return parseFilterQuery(filters.searchQuery || '', { providers, eventTypes: stats.eventTypes });
+  }, [filters.searchQuery, stats, events]);
+
   // Apply filters
   const filteredEvents = useMemo(() => {
     let filtered = events;
 
-    // Text search across multiple fields
-    if (filters.searchQuery) {
-      const query = filters.searchQuery.toLowerCase();
-      filtered = filtered.filter(event => 
-        event.url.toLowerCase().includes(query) ||
-        event.providerName.toLowerCase().includes(query) ||
-        event.eventType?.toLowerCase().includes(query) ||
-        event.method.toLowerCase().includes(query) ||
-        Object.keys(event.parameters).some(key => 
-          key.toLowerCase().includes(query) ||
-          String(event.parameters[key]).toLowerCase().includes(query)
-        )
-      );
+    // Query terms (fields, parameters and free text)
+    if (!parsedQuery.isEmpty) {
+      filtered = filtered.filter(event => matchesFilterCriteria(event, parsedQuery.criteria));
     }
 
     // Provider filter
@@ -123,6 +237,11 @@ export function useEventFilters(events: TrackingEvent[], initialFilters: EventFi
       );
     }
 
+    // Failed deliveries filter
+    if (filters.failedOnly) {
+      filtered = filtered.filter(event => Boolean(event.deliveryFailure));
+    }
+
     // Recent events filter
     if (filters.showOnlyRecent) {
       const threshold = filters.recentThresholdMs || 300000; // 5 minutes default
@@ -131,7 +250,7 @@ export function useEventFilters(events: TrackingEvent[], initialFilters: EventFi
     }
 
     return filtered;
-  }, [events, filters]);
+  }, [events, filters, parsedQuery]);
 
   // Update filter functions
   const updateFilter = useCallback(<K extends keyof EventFilters>(
@@ -202,6 +321,7 @@ export function useEventFilters(events: TrackingEvent[], initialFilters: EventFi
     // Current filters
     filters,
     activeFilterCount,
+    queryErrors: parsedQuery.errors,
     
     // Filter setters
     updateFilter,